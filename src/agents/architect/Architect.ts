@@ -2,40 +2,61 @@
 import { ArchitectDiscord } from './communication/ArchitectDiscord.js';
 import { EnhancedUniversalAnalyzer } from './core/EnhancedUniversalAnalyzer.js';
 import { CompleteArchitectOrchestrator } from './core/CompleteArchitectOrchestrator.js';
+import { ArchitectCommandRouter } from './core/ArchitectCommandRouter.js';
 import { CodeAnalyzer } from './intelligence/CodeAnalyzer.js';
-import { CodeModifier } from './operations/CodeModifier.js';
 import { IntelligentAgentBuilder } from './operations/IntelligentAgentBuilder.js';
 import { SystemRefiner } from './operations/SystemRefiner.js';
 import { ArchitectVoice } from './communication/ArchitectVoice.js';
 import { ArchWatch } from '../watcher/archwatch/ArchWatch.js';
 import { ArchitectConfig, ArchitecturalRequest } from './types/index.js';
+import { LLMProvider, createLLMProvider } from '../../shared/llm/index.js';
+import { ChatTransport } from '../../shared/transport/index.js';
+import { AgentMessage, AgentMessageBus, AgentName, OptimizationStatus, getMessageBus } from '../../shared/messaging/index.js';
+import { ConfigService, getConfigService } from '../../shared/config/index.js';
 
 export class Architect {
   private discord: ArchitectDiscord;
   private analyzer: EnhancedUniversalAnalyzer;
   private orchestrator: CompleteArchitectOrchestrator;
+  private commandRouter: ArchitectCommandRouter;
   private codeAnalyzer: CodeAnalyzer;
-  private modifier: CodeModifier;
   private builder: IntelligentAgentBuilder;
   private refiner: SystemRefiner;
   private voice: ArchitectVoice;
   private watcher: ArchWatch;
+  private llm: LLMProvider;
+  private bus: AgentMessageBus;
+  // Optimizations other agents asked for that await review here, by plan id, to report how they end
+  private optimizations: Map<string, { requestId: string; requestedBy: AgentName }> = new Map();
 
-  constructor(config: ArchitectConfig) {
-    this.discord = new ArchitectDiscord(config);
-    this.analyzer = new EnhancedUniversalAnalyzer(config.claudeApiKey);
-    this.orchestrator = new CompleteArchitectOrchestrator(config);
-    this.codeAnalyzer = new CodeAnalyzer(config.claudeApiKey);
-    this.modifier = new CodeModifier(config.claudeApiKey);
-    this.builder = new IntelligentAgentBuilder(config.claudeApiKey);
-    this.refiner = new SystemRefiner(config.claudeApiKey);
-    this.voice = new ArchitectVoice(config.claudeApiKey);
+  constructor(config: ArchitectConfig, llm?: LLMProvider, transport?: ChatTransport, bus?: AgentMessageBus, runtimeConfig?: ConfigService) {
+    this.llm = llm || createLLMProvider({ anthropicApiKey: config.claudeApiKey, agent: 'Architect' });
+    this.bus = bus || getMessageBus();
+    const settings = runtimeConfig || getConfigService();
+    this.discord = new ArchitectDiscord(config, transport);
+    this.analyzer = new EnhancedUniversalAnalyzer(this.llm);
     this.watcher = new ArchWatch();
+    this.orchestrator = new CompleteArchitectOrchestrator(config, this.llm, settings, this.watcher, this.bus);
+    this.commandRouter = new ArchitectCommandRouter(this.analyzer, this.orchestrator, this.bus);
+    this.codeAnalyzer = new CodeAnalyzer(this.llm);
+    this.builder = new IntelligentAgentBuilder(this.llm);
+    this.refiner = new SystemRefiner(this.llm);
+    this.voice = new ArchitectVoice(this.llm, settings);
     
     console.log('[Architect] 🧠 Intelligent systems architect initialized');
   }
 
   async start(): Promise<void> {
+    this.orchestrator.onDiffAttachment(async (name, diff) => {
+      await this.discord.sendFile(name, diff, `📎 Full diff for review: \`${name}\``);
+    });
+    this.orchestrator.onModificationMerged(async modification => {
+      await this.reportOptimization(modification.plan.id, 'implemented', `Merged ${modification.plan.id}: ${modification.plan.description}`);
+    });
+    this.orchestrator.onModificationDiscarded(async planId => {
+      await this.reportOptimization(planId, 'declined', `${planId} was discarded in review. Nothing was merged.`);
+    });
+
     this.discord.onMessage(async (message) => {
       const response = await this.processArchitecturalRequest(
         message.content, 
@@ -45,6 +66,18 @@ export class Architect {
       await this.discord.sendMessage(response);
     });
 
+    this.discord.onSlashCommand(async (command) => {
+      const args = Object.values(command.options).join(' ');
+      const response = await this.processArchitecturalRequest(
+        `/${command.name}${args ? ` ${args}` : ''}`,
+        command.user.id,
+        command.id
+      );
+      await this.discord.replyToInteraction(command, response);
+    });
+
+    await this.bus.subscribe('Architect', (message) => this.handleAgentMessage(message));
+
     await this.discord.start();
     console.log('[Architect] 🏗️ Intelligent Architect online - ready to build anything');
   }
@@ -58,8 +91,8 @@ export class Architect {
     console.log(`[Architect] 🎯 Processing: "${input}"`);
     
     try {
-      // Use the new intelligent orchestrator that handles its own analysis
-      const response = await this.orchestrator.executeArchitecturalWork(input, userId, {
+      // Commands, approvals and natural language all go through the router
+      const response = await this.commandRouter.routeCommand(input, userId, {
         messageId,
         channel: 'architect',
         timestamp: new Date()
@@ -84,8 +117,112 @@ export class Architect {
     }
   }
 
+  private async handleAgentMessage(message: AgentMessage): Promise<void> {
+    if (message.type === 'command') {
+      await this.handleCommandMessage(message as AgentMessage<'command'>);
+      return;
+    }
+
+    // Read by the Dashboard's web view, so it isn't posted to the channel
+    if (message.type === 'pending_approvals_request') {
+      await this.bus.reply(message, 'Architect', 'pending_approvals', { approvals: this.commandRouter.getPendingSnapshot() });
+      return;
+    }
+
+    if (message.type !== 'optimization_request') {
+      console.log(`[Architect] 📨 ${message.type} from ${message.from}`);
+      return;
+    }
+
+    const { requestId, issue, recommendations, userContext } = (message as AgentMessage<'optimization_request'>).payload;
+    const request: ArchitecturalRequest = {
+      type: 'performance-optimization',
+      description: `${issue}. ${recommendations.join('. ')}`,
+      target: userContext,
+      requestedBy: message.from,
+      priority: message.priority === 'urgent' ? 'critical' : message.priority,
+      riskLevel: 'medium'
+    };
+
+    console.log(`[Architect] 🔧 Optimization ${requestId} from ${message.from}: ${issue}`);
+    await this.discord.sendMessage(`🔧 **Optimization request from ${message.from}**\n${issue}`);
+
+    // Planning and validating can outlast the request timeout, so the requester hears back now and gets optimization_status updates
+    if (message.requiresResponse) {
+      await this.bus.respond(message, 'Architect', {
+        success: true,
+        message: `Planning ${requestId}; it will wait for review in the Architect channel.`,
+        data: { requestId, status: 'accepted' }
+      });
+    }
+
+    const outcome = await this.orchestrator.executeModificationRequest(request);
+    await this.watcher.logArchitecturalDecision('system-modification', request.description, outcome.reply, 'medium');
+    await this.discord.sendMessage(outcome.reply);
+
+    if (outcome.status === 'awaitingReview' && outcome.planId) {
+      this.optimizations.set(outcome.planId, { requestId, requestedBy: message.from });
+    }
+    await this.bus.publish(this.bus.createMessage('optimization_status', 'Architect', message.from, {
+      requestId,
+      status: outcome.status,
+      planId: outcome.planId,
+      message: outcome.status === 'awaitingReview' ? `Awaiting review in the Architect channel as ${outcome.planId}.` : outcome.reply
+    }));
+  }
+
+  private async reportOptimization(planId: string, status: OptimizationStatus, text: string): Promise<void> {
+    const optimization = this.optimizations.get(planId);
+    if (!optimization) return;
+
+    this.optimizations.delete(planId);
+    await this.bus.publish(this.bus.createMessage('optimization_status', 'Architect', optimization.requestedBy, {
+      requestId: optimization.requestId,
+      status,
+      planId,
+      message: text
+    }));
+  }
+
+  // Allowed commands from other agents (e.g. Commander's scheduler) run as if typed in the channel
+  private async handleCommandMessage(message: AgentMessage<'command'>): Promise<void> {
+    const { command, requestedBy, scheduleId } = message.payload;
+    console.log(`[Architect] 📨 Command from ${message.from}${scheduleId ? ` (schedule ${scheduleId})` : ''}: ${command}`);
+
+    if (!this.commandRouter.isAgentCommandAllowed(command)) {
+      console.warn(`[Architect] Refused "${command}" from ${message.from}: not allowed over the message bus`);
+      if (message.requiresResponse) {
+        await this.bus.respond(message, 'Architect', {
+          success: false,
+          message: `"${command}" can't be sent by another agent. Run it in the Architect channel.`,
+          data: scheduleId ? { scheduleId } : undefined
+        });
+      }
+      return;
+    }
+
+    // Recorded under the relaying agent, so plain "approve" from that person never picks it up; it's approved by id
+    const requester = requestedBy === message.from ? message.from : `${message.from} for ${requestedBy}`;
+    const response = await this.processArchitecturalRequest(command, requester, message.id);
+    await this.discord.sendMessage(response);
+
+    if (message.requiresResponse) {
+      await this.bus.respond(message, 'Architect', {
+        success: true,
+        message: response,
+        data: scheduleId ? { scheduleId } : undefined
+      });
+    }
+  }
+
+  getStatus(): { ready: boolean } {
+    return { ready: this.discord.isReady };
+  }
+
   async stop(): Promise<void> {
     console.log('[Architect] 🛑 Intelligent Architect shutting down...');
+    this.bus.unsubscribe('Architect');
+    this.orchestrator.close();
     await this.discord.stop();
     console.log('[Architect] ✅ Intelligent Architect stopped');
   }
@@ -1,265 +1,146 @@
-import { Client, GatewayIntentBits, TextChannel, EmbedBuilder, Message, SlashCommandBuilder, REST, Routes, CommandInteraction } from 'discord.js';
 import { ArchitectConfig } from '../types/index.js';
+import {
+  ChatTransport,
+  ChatMessage,
+  DiscordTransport,
+  SlashCommandDefinition,
+  SlashCommandInvocation
+} from '../../../shared/transport/index.js';
+
+export const ARCHITECT_SLASH_COMMANDS: SlashCommandDefinition[] = [
+  { name: 'help', description: 'Show comprehensive Architect help and capabilities' },
+  { name: 'status', description: 'Check system health and performance' },
+  {
+    name: 'analyze',
+    description: 'Analyze code or system components',
+    options: [{ name: 'target', description: 'What to analyze (e.g., "performance", "code health", "configuration")' }]
+  },
+  {
+    name: 'build',
+    description: 'Build agents, components, or features',
+    options: [{ name: 'description', description: 'What to build (e.g., "agent named TestBot for ping responses")', required: true }]
+  },
+  {
+    name: 'fix',
+    description: 'Fix system issues or bugs',
+    options: [{ name: 'issue', description: 'What to fix (e.g., "buildCompleteAgent method", "JSON parsing")', required: true }]
+  },
+  {
+    name: 'modify',
+    description: 'Modify system configuration or code',
+    options: [{ name: 'change', description: 'What to modify (e.g., "increase timeout to 30 seconds")', required: true }]
+  },
+  { name: 'examples', description: 'Show copy-paste examples for common tasks' },
+  { name: 'pending', description: 'View pending approvals' },
+  { name: 'diff', description: 'Show the diff of the change awaiting review' },
+  { name: 'approve', description: 'Approve pending high-risk modifications' },
+  { name: 'discard', description: 'Discard a modification awaiting review' },
+  { name: 'retry', description: 'Retry a modification that failed validation' },
+  { name: 'undo', description: 'Undo the last modification' },
+  {
+    name: 'history',
+    description: 'List past modifications or show one with its diff',
+    options: [{ name: 'id', description: 'Modification id to show (e.g., "mod_1712345678901")' }]
+  },
+  {
+    name: 'revert',
+    description: 'Revert a modification or a range of them',
+    options: [{ name: 'target', description: 'Modification id, "from..to" range, or "last"', required: true }]
+  },
+  {
+    name: 'deploy',
+    description: 'Deploy changes to production',
+    options: [{ name: 'environment', description: 'Target environment', choices: ['staging', 'production'] }]
+  }
+];
 
 export class ArchitectDiscord {
-  private client: Client;
-  private architectChannel: TextChannel | null = null;
+  private transport: ChatTransport;
   private config: ArchitectConfig;
-  private messageHandlers: Array<(message: Message) => Promise<void>> = [];
-  private slashCommandHandlers: Array<(interaction: CommandInteraction) => Promise<void>> = [];
+  private messageHandlers: Array<(message: ChatMessage) => Promise<void>> = [];
+  private slashCommandHandlers: Array<(command: SlashCommandInvocation) => Promise<void>> = [];
 
-  constructor(config: ArchitectConfig) {
+  constructor(config: ArchitectConfig, transport?: ChatTransport) {
     this.config = config;
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent
-      ]
+    this.transport = transport || new DiscordTransport({
+      token: config.architectToken,
+      presence: { name: 'Building Systems', type: 3 },
+      logPrefix: 'ArchitectDiscord'
     });
-    
+
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
-    this.client.once('ready', async () => {
-      console.log(`[ArchitectDiscord] Connected as ${this.client.user?.tag}`);
+    this.transport.onReady(async () => {
       console.log(`[ArchitectDiscord] Looking for channel ID: ${this.config.architectChannelId}`);
-      
-      this.architectChannel = this.client.channels.cache.get(this.config.architectChannelId) as TextChannel;
-      
-      if (this.architectChannel) {
-        console.log(`[ArchitectDiscord] Channel found: #${this.architectChannel.name}`);
+
+      if (this.transport.hasChannel(this.config.architectChannelId)) {
+        console.log(`[ArchitectDiscord] Channel found: ${this.config.architectChannelId}`);
       } else {
         console.error(`[ArchitectDiscord] Channel not found: ${this.config.architectChannelId}`);
       }
-      
+
       // Register slash commands
-      await this.registerSlashCommands();
-      
-      this.client.user?.setPresence({
-        activities: [{ name: 'Building Systems', type: 3 }],
-        status: 'online'
-      });
+      await this.transport.registerSlashCommands(ARCHITECT_SLASH_COMMANDS);
     });
 
-    this.client.on('messageCreate', async (message) => {
-      if (message.author.bot) return;
+    this.transport.onMessage(async (message) => {
+      if (message.author.isBot) return;
       if (message.channelId !== this.config.architectChannelId) return;
-      
+
       for (const handler of this.messageHandlers) {
         await handler(message);
       }
     });
 
     // Handle slash command interactions
-    this.client.on('interactionCreate', async (interaction) => {
-      if (!interaction.isChatInputCommand()) return;
-      if (interaction.channelId !== this.config.architectChannelId) return;
+    this.transport.onSlashCommand(async (command) => {
+      if (command.channelId !== this.config.architectChannelId) return;
 
       for (const handler of this.slashCommandHandlers) {
-        await handler(interaction);
+        await handler(command);
       }
     });
   }
 
-  private async registerSlashCommands(): Promise<void> {
-    const commands = [
-      new SlashCommandBuilder()
-        .setName('help')
-        .setDescription('Show comprehensive Architect help and capabilities'),
-      
-      new SlashCommandBuilder()
-        .setName('status')
-        .setDescription('Check system health and performance'),
-      
-      new SlashCommandBuilder()
-        .setName('analyze')
-        .setDescription('Analyze code or system components')
-        .addStringOption(option =>
-          option.setName('target')
-            .setDescription('What to analyze (e.g., "performance", "code health", "configuration")')
-            .setRequired(false)),
-      
-      new SlashCommandBuilder()
-        .setName('build')
-        .setDescription('Build agents, components, or features')
-        .addStringOption(option =>
-          option.setName('description')
-            .setDescription('What to build (e.g., "agent named TestBot for ping responses")')
-            .setRequired(true)),
-      
-      new SlashCommandBuilder()
-        .setName('fix')
-        .setDescription('Fix system issues or bugs')
-        .addStringOption(option =>
-          option.setName('issue')
-            .setDescription('What to fix (e.g., "buildCompleteAgent method", "JSON parsing")')
-            .setRequired(true)),
-      
-      new SlashCommandBuilder()
-        .setName('modify')
-        .setDescription('Modify system configuration or code')
-        .addStringOption(option =>
-          option.setName('change')
-            .setDescription('What to modify (e.g., "increase timeout to 30 seconds")')
-            .setRequired(true)),
-      
-      new SlashCommandBuilder()
-        .setName('examples')
-        .setDescription('Show copy-paste examples for common tasks'),
-      
-      new SlashCommandBuilder()
-        .setName('pending')
-        .setDescription('View pending approvals'),
-      
-      new SlashCommandBuilder()
-        .setName('approve')
-        .setDescription('Approve pending high-risk modifications'),
-      
-      new SlashCommandBuilder()
-        .setName('undo')
-        .setDescription('Undo the last modification'),
-      
-      new SlashCommandBuilder()
-        .setName('deploy')
-        .setDescription('Deploy changes to production')
-        .addStringOption(option =>
-          option.setName('environment')
-            .setDescription('Target environment')
-            .setRequired(false)
-            .addChoices(
-              { name: 'staging', value: 'staging' },
-              { name: 'production', value: 'production' }
-            ))
-    ];
-
-    const rest = new REST().setToken(this.config.architectToken);
-
-    try {
-      console.log('[ArchitectDiscord] Registering slash commands...');
-
-      await rest.put(
-        Routes.applicationCommands(this.client.user!.id),
-        { body: commands }
-      );
-
-      console.log('[ArchitectDiscord] ✅ Slash commands registered successfully');
-    } catch (error) {
-      console.error('[ArchitectDiscord] Failed to register slash commands:', error);
-    }
-  }
-
-  onMessage(handler: (message: Message) => Promise<void>): void {
+  onMessage(handler: (message: ChatMessage) => Promise<void>): void {
     this.messageHandlers.push(handler);
   }
 
-  onSlashCommand(handler: (interaction: CommandInteraction) => Promise<void>): void {
+  onSlashCommand(handler: (command: SlashCommandInvocation) => Promise<void>): void {
     this.slashCommandHandlers.push(handler);
   }
 
-  async sendMessage(content: string): Promise<Message | null> {
-    if (!this.architectChannel) return null;
-    
-    try {
-      // Split long messages if needed
-      if (content.length > 2000) {
-        const chunks = this.splitMessage(content);
-        let lastMessage: Message | null = null;
-        
-        for (const chunk of chunks) {
-          lastMessage = await this.architectChannel.send(chunk);
-        }
-        
-        return lastMessage;
-      }
-      
-      return await this.architectChannel.send(content);
-    } catch (error) {
-      console.error('[ArchitectDiscord] Failed to send message:', error);
-      return null;
-    }
+  async sendMessage(content: string): Promise<ChatMessage | null> {
+    return this.transport.send(this.config.architectChannelId, content);
+  }
+
+  async sendFile(name: string, content: string, message?: string): Promise<ChatMessage | null> {
+    return this.transport.sendFile(this.config.architectChannelId, { name, content }, message);
   }
 
-  async replyToInteraction(interaction: CommandInteraction, content: string): Promise<void> {
+  async replyToInteraction(command: SlashCommandInvocation, content: string): Promise<void> {
     try {
-      if (content.length > 2000) {
-        // For long responses, reply with first chunk and follow up with rest
-        const chunks = this.splitMessage(content);
-        await interaction.reply(chunks[0]);
-        
-        for (let i = 1; i < chunks.length; i++) {
-          await interaction.followUp(chunks[i]);
-        }
-      } else {
-        await interaction.reply(content);
-      }
+      await this.transport.replyToCommand(command, content);
     } catch (error) {
       console.error('[ArchitectDiscord] Failed to reply to interaction:', error);
-      try {
-        await interaction.reply('❌ Error processing command. Please try again.');
-      } catch (fallbackError) {
-        console.error('[ArchitectDiscord] Failed to send fallback reply:', fallbackError);
-      }
     }
   }
 
-  private splitMessage(content: string): string[] {
-    const chunks: string[] = [];
-    const maxLength = 1900; // Leave room for formatting
-    
-    let currentChunk = '';
-    const lines = content.split('\n');
-    
-    for (const line of lines) {
-      if (currentChunk.length + line.length + 1 > maxLength) {
-        if (currentChunk) {
-          chunks.push(currentChunk.trim());
-          currentChunk = '';
-        }
-        
-        // If single line is too long, split it
-        if (line.length > maxLength) {
-          for (let i = 0; i < line.length; i += maxLength) {
-            chunks.push(line.substring(i, i + maxLength));
-          }
-        } else {
-          currentChunk = line;
-        }
-      } else {
-        currentChunk += (currentChunk ? '\n' : '') + line;
-      }
-    }
-    
-    if (currentChunk) {
-      chunks.push(currentChunk.trim());
-    }
-    
-    return chunks;
+  async sendEmbed(title: string, description: string): Promise<ChatMessage | null> {
+    return this.sendMessage(`**${title}**\n${description}`);
   }
 
-  async sendEmbed(title: string, description: string, color: number = 0x3498db): Promise<Message | null> {
-    if (!this.architectChannel) return null;
-    
-    const embed = new EmbedBuilder()
-      .setTitle(title)
-      .setDescription(description)
-      .setColor(color)
-      .setTimestamp();
-    
-    try {
-      return await this.architectChannel.send({ embeds: [embed] });
-    } catch (error) {
-      console.error('[ArchitectDiscord] Failed to send embed:', error);
-      return null;
-    }
+  async start(): Promise<void> {
+    await this.transport.start();
   }
 
-  async start(): Promise<void> {
-    await this.client.login(this.config.architectToken);
+  async stop(): Promise<void> {
+    await this.transport.stop();
   }
 
   get isReady(): boolean {
-    return this.client.isReady();
+    return this.transport.isReady();
   }
 }
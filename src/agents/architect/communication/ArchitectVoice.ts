@@ -1,7 +1,9 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
 
 export class ArchitectVoice {
-  private claude: Anthropic;
+  private llm: LLMProvider;
+  private config: ConfigService;
   
   private static readonly ARCHITECT_PROMPT = `You are the Internal Architect - technical, direct, and insightful.
 
@@ -31,15 +33,16 @@ KEEP IT CONCISE: Aim for 2-3 sentences max unless deep technical explanation is
 
 AVOID: Rambling, over-explanation, excessive architectural metaphors, being too wordy`;
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider, config: ConfigService = getConfigService()) {
+    this.llm = llm;
+    this.config = config;
   }
 
   async formatResponse(content: string, options: { type?: string } = {}): Promise<string> {
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 120,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: this.config.get().architect.voiceMaxTokens,
         system: ArchitectVoice.ARCHITECT_PROMPT,
         messages: [{
           role: 'user',
@@ -52,9 +55,8 @@ Keep it to 2-3 sentences maximum.`
         }]
       });
       
-      const voiceContent = response.content[0];
-      if (voiceContent.type === 'text') {
-        return this.cleanResponse(voiceContent.text);
+      if (response.text) {
+        return this.cleanResponse(response.text);
       }
     } catch (error) {
       console.error('[ArchitectVoice] AI formatting failed:', error);
@@ -1,31 +1,71 @@
-import { UniversalAnalyzer } from './UniversalAnalyzer.js';
-import { ArchitectOrchestrator } from './ArchitectOrchestrator.js';
-import { ArchitecturalRequest, ArchitectConfig } from '../types/index.js';
+import { EnhancedUniversalAnalyzer } from './EnhancedUniversalAnalyzer.js';
+import { CompleteArchitectOrchestrator } from './CompleteArchitectOrchestrator.js';
+import { ArchitecturalRequest, PendingModification, FailedModification } from '../types/index.js';
+import { AgentMessageBus, AgentMessagePayloads, PendingApprovalSnapshot, getMessageBus } from '../../../shared/messaging/index.js';
+
+const PLUGIN_ACTIONS: AgentMessagePayloads['plugin_control']['action'][] = ['list', 'start', 'stop', 'reload'];
+
+// What other agents may ask for over the bus: reads, and plans that still wait for a human to approve them
+const AGENT_SLASH_COMMANDS = ['/status', '/history', '/pending', '/diff', '/help', '/commands', '/examples'];
+const AGENT_PLUGIN_COMMANDS = ['list', 'regenerate', 'upgrade', 'retire', 'decommission'];
+
+// The whole message must be one of these; "approve <id>" and the like name the item instead
+const APPROVAL_WORDS = ['approve', 'approved', 'yes', 'confirm', 'execute', 'proceed', 'go ahead', 'do it', 'continue', '/approve'];
+const REJECTION_WORDS = ['discard', 'reject', 'cancel', '/discard'];
+const RETRY_WORDS = ['retry', 'try again', '/retry'];
+const APPROVAL_WITH_ID = /^\/?approve\s+(\S+)$/i;
+const REJECTION_WITH_ID = /^\/?(?:discard|reject)\s+(\S+)$/i;
+const RETRY_WITH_ID = /^\/?retry\s+(\S+)$/i;
+
+// An approval-style command, and the item it names if any
+interface Decision {
+  id?: string;
+}
 
 export class ArchitectCommandRouter {
-  private analyzer: UniversalAnalyzer;
-  private orchestrator: ArchitectOrchestrator;
+  private analyzer: EnhancedUniversalAnalyzer;
+  private orchestrator: CompleteArchitectOrchestrator;
   private pendingApprovals: Map<string, ArchitecturalRequest> = new Map();
-
-  constructor(config: ArchitectConfig) {
-    this.analyzer = new UniversalAnalyzer(config.claudeApiKey);
-    this.orchestrator = new ArchitectOrchestrator(config);
+  private bus: AgentMessageBus;
+
+  constructor(analyzer: EnhancedUniversalAnalyzer, orchestrator: CompleteArchitectOrchestrator, bus?: AgentMessageBus) {
+    this.analyzer = analyzer;
+    this.orchestrator = orchestrator;
+    this.bus = bus || getMessageBus();
+
+    // Regenerated agents restart on the merged code
+    this.orchestrator.onModificationMerged(async modification => {
+      if (!modification.plan.agent) return;
+      const reply = await this.controlGeneratedAgents(['reload', modification.plan.agent], modification.requestedBy || 'Architect');
+      return `${reply}. Modules other than its entry file are cached until the process restarts.`;
+    });
   }
 
-  async routeCommand(input: string, userId: string): Promise<string> {
+  async routeCommand(input: string, userId: string, context?: any): Promise<string> {
     try {
       // Handle approval commands first
-      if (this.isApprovalCommand(input)) {
-        return await this.handleApproval(userId);
+      const rejection = this.parseDecision(input, REJECTION_WORDS, REJECTION_WITH_ID);
+      if (rejection) {
+        return await this.handleRejection(userId, rejection.id);
+      }
+
+      const retry = this.parseDecision(input, RETRY_WORDS, RETRY_WITH_ID);
+      if (retry) {
+        return await this.handleRetry(userId, retry.id);
+      }
+
+      const approval = this.parseDecision(input, APPROVAL_WORDS, APPROVAL_WITH_ID);
+      if (approval) {
+        return await this.handleApproval(userId, approval.id);
       }
 
       // Handle explicit commands
       if (input.startsWith('/')) {
-        return await this.handleSlashCommand(input, userId);
+        return await this.handleSlashCommand(input, userId, context);
       }
 
       // Route natural language requests
-      return await this.handleNaturalLanguage(input, userId);
+      return await this.handleNaturalLanguage(input, userId, context);
 
     } catch (error) {
       console.error('[ArchitectCommandRouter] Routing failed:', error);
@@ -33,41 +73,142 @@ export class ArchitectCommandRouter {
     }
   }
 
-  private isApprovalCommand(input: string): boolean {
-    const approvalKeywords = [
-      'approve', 'approved', 'yes', 'confirm', 'execute', 
-      'proceed', 'go ahead', 'do it', 'continue'
-    ];
-    
-    const lowerInput = input.toLowerCase().trim();
-    return approvalKeywords.some(keyword => lowerInput === keyword || lowerInput.includes(keyword));
+  /**
+   * Whether a command arriving on the message bus may run. Approving, discarding,
+   * retrying and reverting only ever come from a person in the channel.
+   */
+  isAgentCommandAllowed(input: string): boolean {
+    const trimmed = input.trim();
+    if (this.parseDecision(trimmed, APPROVAL_WORDS, APPROVAL_WITH_ID) ||
+        this.parseDecision(trimmed, REJECTION_WORDS, REJECTION_WITH_ID) ||
+        this.parseDecision(trimmed, RETRY_WORDS, RETRY_WITH_ID)) {
+      return false;
+    }
+    if (!trimmed.startsWith('/')) {
+      return true;
+    }
+
+    const [name, action] = trimmed.toLowerCase().split(/\s+/);
+    if (name === '/agents') {
+      return AGENT_PLUGIN_COMMANDS.includes(action || 'list');
+    }
+    return AGENT_SLASH_COMMANDS.includes(name);
+  }
+
+  private parseDecision(input: string, words: string[], withId: RegExp): Decision | null {
+    const trimmed = input.trim();
+    if (words.includes(trimmed.toLowerCase())) {
+      return {};
+    }
+    const match = trimmed.match(withId);
+    return match ? { id: match[1] } : null;
+  }
+
+  private async handleRetry(userId: string, id?: string): Promise<string> {
+    const failure = this.findFailedModification(userId, id);
+    if (!failure) {
+      return id
+        ? `No failed modification ${id}. Only modifications that failed validation can be retried.`
+        : "Nothing of yours to retry. Only modifications that failed validation can be retried; say \"retry <id>\" for someone else's.";
+    }
+    return await this.orchestrator.retryModification(failure.plan.id);
   }
 
-  private async handleApproval(userId: string): Promise<string> {
-    const pendingRequest = this.pendingApprovals.get(userId);
+  private async handleApproval(userId: string, id?: string): Promise<string> {
+    const requestKey = this.pendingRequestKey(userId, id);
+    const pendingRequest = requestKey ? this.pendingApprovals.get(requestKey) : undefined;
     
-    if (!pendingRequest) {
-      return "No pending modifications to approve. Use a modification command first.";
+    if (!requestKey || !pendingRequest) {
+      // Nothing to plan, so approval merges the change awaiting review
+      const modification = this.findPendingModification(userId, id);
+      if (modification) {
+        return await this.orchestrator.approveModification(modification.plan.id);
+      }
+      return id
+        ? `Nothing pending with id ${id}. "/pending" lists what awaits approval.`
+        : 'Nothing of yours to approve. Say "approve <id>" for a change someone else or another agent asked for; "/pending" lists them.';
     }
 
     try {
       // Execute the pending request
-      const result = await this.orchestrator.executeArchitecturalWork(pendingRequest);
+      const result = await this.orchestrator.executeRequest(pendingRequest);
       
       // Clear the pending approval
-      this.pendingApprovals.delete(userId);
+      this.pendingApprovals.delete(requestKey);
       
       return result;
       
     } catch (error) {
       console.error('[ArchitectCommandRouter] Approval execution failed:', error);
-      this.pendingApprovals.delete(userId);
+      this.pendingApprovals.delete(requestKey);
       return `Approved modification failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   }
 
-  private async handleSlashCommand(input: string, userId: string): Promise<string> {
+  private async handleRejection(userId: string, id?: string): Promise<string> {
+    const requestKey = this.pendingRequestKey(userId, id);
+    if (requestKey && this.pendingApprovals.delete(requestKey)) {
+      return "Cancelled the pending request. Nothing was changed.";
+    }
+
+    const modification = this.findPendingModification(userId, id) || this.findFailedModification(userId, id);
+    if (modification) {
+      return await this.orchestrator.discardModification(modification.plan.id);
+    }
+
+    return id ? `Nothing pending with id ${id}.` : 'Nothing of yours to discard. Say "discard <id>" for someone else\'s.';
+  }
+
+  // Plans awaiting approval are keyed by requester and listed as "request:<requester>"
+  private pendingRequestKey(userId: string, id?: string): string | undefined {
+    if (!id) return userId;
+    return id.startsWith('request:') ? id.substring('request:'.length) : undefined;
+  }
+
+  /**
+   * The named modification, or without an id the sender's own latest one.
+   * Changes other people or agents asked for (e.g. Dashboard's optimizations
+   * and retirements relayed over the bus) are only ever acted on by id.
+   */
+  private findPendingModification(userId: string, id?: string): PendingModification | undefined {
+    const pending = this.orchestrator.getPendingModifications();
+    return id ? pending.find(m => m.plan.id === id) : pending.filter(m => m.requestedBy === userId).pop();
+  }
+
+  private findFailedModification(userId: string, id?: string): FailedModification | undefined {
+    const failed = this.orchestrator.getFailedModifications();
+    return id ? failed.find(m => m.plan.id === id) : failed.filter(m => m.requestedBy === userId).pop();
+  }
+
+  private async handleSlashCommand(input: string, userId: string, context?: any): Promise<string> {
     const command = input.toLowerCase().trim();
+    const [name, ...args] = input.trim().split(/\s+/);
+    
+    switch (name.toLowerCase()) {
+      case '/history':
+        return args.length > 0
+          ? await this.orchestrator.showModification(args[0])
+          : await this.orchestrator.showHistory();
+      
+      case '/revert':
+        if (args.length === 0) {
+          return 'Say which modification to revert: "/revert <id>", "/revert <from>..<to>" or "/revert last". "/history" lists them.';
+        }
+        return await this.orchestrator.revertModifications(args.join(''));
+      
+      case '/undo':
+        return await this.orchestrator.revertModifications('last');
+      
+      case '/agents':
+        return await this.controlGeneratedAgents(args, userId);
+
+      case '/diff': {
+        const modification = this.findPendingModification(userId, args[0]);
+        return modification
+          ? await this.orchestrator.reviewModification(modification.plan.id)
+          : args[0] ? `Nothing awaiting review with id ${args[0]}.` : 'None of your changes await review. Say "/diff <id>" for someone else\'s.';
+      }
+    }
     
     switch (command) {
       case '/help':
@@ -92,14 +233,46 @@ export class ArchitectCommandRouter {
       default:
         // Try to parse as a natural language command
         const cleanInput = input.substring(1); // Remove the /
-        return await this.handleNaturalLanguage(cleanInput, userId);
+        return await this.handleNaturalLanguage(cleanInput, userId, context);
     }
   }
 
-  private async handleNaturalLanguage(input: string, userId: string): Promise<string> {
+  // Generated agents run under the plugin loader, which may live in another process
+  private async controlGeneratedAgents(args: string[], userId: string): Promise<string> {
+    if (['regenerate', 'upgrade'].includes((args[0] || '').toLowerCase())) {
+      return args[1]
+        ? await this.orchestrator.regenerateAgent(args[1], userId)
+        : 'Say which agent to regenerate: "/agents regenerate <name>".';
+    }
+    if (['retire', 'decommission'].includes((args[0] || '').toLowerCase())) {
+      return args[1]
+        ? await this.orchestrator.retireAgent(args[1], args[2]?.toLowerCase() === 'archive', userId)
+        : 'Say which agent to retire: "/agents retire <name> [archive]".';
+    }
+
+    const action = (args[0] || 'list').toLowerCase() as AgentMessagePayloads['plugin_control']['action'];
+    if (!PLUGIN_ACTIONS.includes(action) || (action !== 'list' && !args[1])) {
+      return 'Usage: "/agents" to list generated agents, "/agents start|stop|reload <name>", "/agents regenerate <name>", or "/agents retire <name> [archive]".';
+    }
+
+    try {
+      const response = await this.bus.request(
+        this.bus.createMessage('plugin_control', 'Architect', 'PluginLoader', { action, agent: args[1], requestedBy: userId }),
+        30 * 1000
+      );
+      return response.payload.success || action === 'list'
+        ? response.payload.message
+        : `⚠️ ${response.payload.message}`;
+    } catch (error) {
+      return `The plugin loader didn't answer: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  }
+
+  private async handleNaturalLanguage(input: string, userId: string, context?: any): Promise<string> {
     try {
       // Analyze the architectural request
-      const request = await this.analyzer.analyzeArchitecturalRequest(input, userId);
+      const request = await this.analyzer.analyzeArchitecturalRequest(input, userId, context);
+      request.requestedBy = userId;
       
       // Check if this request requires approval
       if (request.riskLevel === 'high' || this.requiresApproval(input)) {
@@ -116,7 +289,7 @@ This modification requires approval due to its risk level. Reply with "approve"
       }
       
       // Execute immediately for low-risk requests
-      return await this.orchestrator.executeArchitecturalWork(request);
+      return await this.orchestrator.executeRequest(request);
       
     } catch (error) {
       console.error('[ArchitectCommandRouter] Natural language processing failed:', error);
@@ -150,7 +323,14 @@ Type your request in natural language or use slash commands. I can analyze, buil
 /status     - System health and performance
 /examples   - Copy-paste examples
 /commands   - Quick command reference
-/pending    - View pending approvals
+/pending    - View pending approvals and changes awaiting review
+/diff       - Show the diff of your change awaiting review, or /diff <id>
+/discard    - Drop your change awaiting review, or /discard <id>
+/retry      - Retry a change that failed validation
+/history    - List past modifications, or show one with /history <id>
+/revert     - Revert a modification: /revert <id> or /revert <from>..<to>
+/undo       - Revert the latest modification
+/agents     - List generated agents, or /agents start|stop|reload|regenerate|retire <name>
 /clear      - Clear pending operations
 \`\`\`
 
@@ -196,7 +376,7 @@ Set up production environment
 ---
 
 ## ⚡ **Quick Actions**
-- **"approve"** - Execute pending high-risk modifications
+- **"approve"** - Execute your pending high-risk modification, or **"approve <id>"** for one listed in /pending
 - **"status"** - Quick system overview
 - **"help"** - Show this guide
 - **"fix errors"** - Auto-detect and resolve issues
@@ -323,8 +503,10 @@ Configure automatic backups every hour
 
 ## **Approval Workflow**
 - High-risk operations → Shows plan
-- Reply \`"approve"\` → Executes safely
-- Reply \`"cancel"\` → Aborts operation
+- Code changes → Built on a branch, diff shown for review
+- Reply \`"approve"\` → Executes or merges your own change
+- Reply \`"approve <id>"\` → Anyone else's, ids from \`/pending\`
+- Reply \`"discard"\` → Drops the branch
 
 ## **Emergency**
 - \`"undo last"\` - Reverse changes
@@ -339,24 +521,53 @@ Configure automatic backups every hour
       const statusRequest: ArchitecturalRequest = {
         type: 'system-status',
         description: 'System health check',
-        userId: 'system',
         priority: 'medium',
         riskLevel: 'low'
       };
       
-      return await this.orchestrator.executeArchitecturalWork(statusRequest);
+      return await this.orchestrator.executeRequest(statusRequest);
     } catch (error) {
       return `System status check failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   }
 
+  getPendingSnapshot(): PendingApprovalSnapshot[] {
+    const requests: PendingApprovalSnapshot[] = Array.from(this.pendingApprovals, ([userId, request]) => ({
+      id: `request:${userId}`,
+      kind: 'request',
+      description: request.description,
+      riskLevel: request.riskLevel,
+      requestedBy: request.requestedBy || userId
+    }));
+    const modifications: PendingApprovalSnapshot[] = this.orchestrator.getPendingModifications().map(modification => ({
+      id: modification.plan.id,
+      kind: 'modification',
+      description: modification.plan.description,
+      riskLevel: modification.plan.riskLevel,
+      requestedBy: modification.requestedBy,
+      createdAt: modification.createdAt,
+      branch: modification.branch,
+      files: modification.plan.files
+    }));
+    return [...requests, ...modifications];
+  }
+
   private getPendingApprovals(userId: string): string {
     const pending = this.pendingApprovals.get(userId);
+    const reviews = this.orchestrator.getPendingModifications();
     
-    if (!pending) {
+    if (!pending && reviews.length === 0) {
       return "✅ No pending approvals.";
     }
     
+    if (!pending) {
+      return `🔍 **Awaiting Review:**
+
+${reviews.map(m => `• \`${m.plan.id}\` - ${m.plan.description}${m.requestedBy ? ` (from ${m.requestedBy})` : ''}`).join('\n')}
+
+Say **"/diff <id>"** to see the changes, **"approve <id>"** to merge or **"discard <id>"** to drop it. Without an id these act on your own latest change.`;
+    }
+    
     return `⏳ **Pending Approval:**
 
 **Request:** ${pending.description}
@@ -1,11 +1,36 @@
 // src/agents/architect/core/CompleteArchitectOrchestrator.ts
-import { ArchitecturalRequest, ArchitectConfig } from "../types/index.js";
+import { ArchitecturalRequest, ArchitectConfig, PendingModification, FailedModification, ConfigCallSite, IntelligentAgentBuildResult } from "../types/index.js";
 import { ArchitectVoice } from "../communication/ArchitectVoice.js";
 import { CodeAnalyzer } from "../intelligence/CodeAnalyzer.js";
 import { CodeModifier } from "../operations/CodeModifier.js";
+import { UnifiedDiff } from "../operations/UnifiedDiff.js";
+import { ModificationValidator } from "../operations/ModificationValidator.js";
 import { IntelligentAgentBuilder } from "../operations/IntelligentAgentBuilder.js";
+import { AgentRegenerator } from "../operations/AgentRegenerator.js";
+import { AgentDecommissioner } from "../operations/AgentDecommissioner.js";
+import { DiscordBotCreator } from "../operations/DiscordBotCreator.js";
 import { SystemRefiner } from "../operations/SystemRefiner.js";
 import { EnhancedUniversalAnalyzer } from "./EnhancedUniversalAnalyzer.js";
+import { CodeIndex } from "../intelligence/CodeIndex.js";
+import { LLMProvider } from "../../../shared/llm/index.js";
+import { ConfigService, getConfigService } from "../../../shared/config/index.js";
+import { AgentMessageBus } from "../../../shared/messaging/index.js";
+import { ArchWatch } from "../../watcher/archwatch/ArchWatch.js";
+
+const MAX_REVIEW_DIFF_CHARS = 3000;
+const MAX_REVIEW_CALL_SITES = 10;
+
+export type DiffAttachmentHandler = (name: string, diff: string) => Promise<void>;
+// Returned text is added to the approval reply
+export type ModificationMergedHandler = (modification: PendingModification) => Promise<string | void>;
+export type ModificationDiscardedHandler = (planId: string) => Promise<void>;
+
+// What came of a modification request, for callers that report it somewhere other than the reply
+export interface ModificationOutcome {
+  reply: string;
+  status: 'awaitingReview' | 'implemented' | 'failed';
+  planId?: string;
+}
 
 export class CompleteArchitectOrchestrator {
   private analyzer: EnhancedUniversalAnalyzer;
@@ -14,16 +39,54 @@ export class CompleteArchitectOrchestrator {
   private modifier: CodeModifier;
   private builder: IntelligentAgentBuilder;
   private refiner: SystemRefiner;
+  private regenerator: AgentRegenerator;
+  private decommissioner: AgentDecommissioner;
   private config: ArchitectConfig;
+  private diffAttachmentHandlers: DiffAttachmentHandler[] = [];
+  private mergedHandlers: ModificationMergedHandler[] = [];
+  private discardedHandlers: ModificationDiscardedHandler[] = [];
+  private codeIndex: CodeIndex;
+  private stopWatchingConfig: () => void;
 
-  constructor(config: ArchitectConfig) {
+  constructor(config: ArchitectConfig, llm: LLMProvider, runtimeConfig: ConfigService = getConfigService(), watcher?: ArchWatch, bus?: AgentMessageBus) {
     this.config = config;
-    this.analyzer = new EnhancedUniversalAnalyzer(config.claudeApiKey);
-    this.voice = new ArchitectVoice(config.claudeApiKey);
-    this.codeAnalyzer = new CodeAnalyzer(config.claudeApiKey);
-    this.modifier = new CodeModifier(config.claudeApiKey);
-    this.builder = new IntelligentAgentBuilder(config.claudeApiKey);
-    this.refiner = new SystemRefiner(config.claudeApiKey);
+    // One index shared by analysis and modification, kept current as files change
+    const codeIndex = new CodeIndex();
+    codeIndex.watch();
+    this.codeIndex = codeIndex;
+    const validator = new ModificationValidator({ timeoutMs: runtimeConfig.get().architect.validationTimeoutMs, ...config.validation });
+    this.stopWatchingConfig = runtimeConfig.onChange((current, changed) => {
+      if (changed.includes('architect.validationTimeoutMs')) {
+        validator.configure({ timeoutMs: current.architect.validationTimeoutMs });
+      }
+    });
+    this.analyzer = new EnhancedUniversalAnalyzer(llm, codeIndex);
+    this.voice = new ArchitectVoice(llm, runtimeConfig);
+    this.codeAnalyzer = new CodeAnalyzer(llm);
+    this.modifier = new CodeModifier(llm, undefined, validator, codeIndex, runtimeConfig);
+    this.builder = new IntelligentAgentBuilder(llm);
+    this.refiner = new SystemRefiner(llm);
+    this.regenerator = new AgentRegenerator();
+    this.decommissioner = new AgentDecommissioner(watcher, bus, config.discordToken ? new DiscordBotCreator(config.discordToken) : undefined);
+  }
+
+  // Stops watching files and config, so a restarted Architect doesn't leave its predecessor's watchers behind
+  close(): void {
+    this.codeIndex.close();
+    this.stopWatchingConfig();
+  }
+
+  // Long diffs are handed to these (e.g. as a file upload) instead of being truncated
+  onDiffAttachment(handler: DiffAttachmentHandler): void {
+    this.diffAttachmentHandlers.push(handler);
+  }
+
+  onModificationMerged(handler: ModificationMergedHandler): void {
+    this.mergedHandlers.push(handler);
+  }
+
+  onModificationDiscarded(handler: ModificationDiscardedHandler): void {
+    this.discardedHandlers.push(handler);
   }
 
   async executeArchitecturalWork(input: string, userId: string, context?: any): Promise<string> {
@@ -31,21 +94,33 @@ export class CompleteArchitectOrchestrator {
     
     try {
       const request = await this.analyzer.analyzeArchitecturalRequest(input, userId, context);
-      
-      switch (request.type) {
-        case "agent-creation":
-          return await this.handleAgentCreation(request);
-        case "system-modification":
-          return await this.handleSystemModification(request);
-        default:
-          return await this.handleGenericRequest(request);
-      }
+      return await this.executeRequest(request);
     } catch (error) {
       console.error(`[CompleteArchitectOrchestrator] Error:`, error);
       return await this.handleIntelligentError(input, error);
     }
   }
 
+  async executeRequest(request: ArchitecturalRequest): Promise<string> {
+    switch (request.type) {
+      case "agent-creation":
+        return await this.handleAgentCreation(request);
+      case "system-modification":
+      case "performance-optimization":
+        return await this.handleSystemModification(request);
+      case "system-status":
+        return await this.handleSystemStatus();
+      default:
+        return await this.handleGenericRequest(request);
+    }
+  }
+
+  private async handleSystemStatus(): Promise<string> {
+    const health = await this.codeAnalyzer.getSystemHealth();
+    const issues = health.issues?.length ? `\nIssues: ${health.issues.slice(0, 3).join('; ')}` : '';
+    return `System ${health.status}: ${health.summary}${issues}`;
+  }
+
   private async handleAgentCreation(request: ArchitecturalRequest): Promise<string> {
     try {
       const buildResult = await this.builder.buildIntelligentAgent(request.description);
@@ -59,6 +134,8 @@ Files Generated: ${buildResult.files.length} TypeScript files
 Status: Ready to deploy
 
 Your agent should be online shortly!`;
+      } else if (buildResult.validation && !buildResult.validation.passed) {
+        return this.formatAgentValidationFailure(buildResult);
       } else {
         return this.handleIntelligentError(request.description, new Error(buildResult.error || "Agent creation failed"));
       }
@@ -68,21 +145,320 @@ Your agent should be online shortly!`;
   }
 
   private async handleSystemModification(request: ArchitecturalRequest): Promise<string> {
+    return (await this.executeModificationRequest(request)).reply;
+  }
+
+  async executeModificationRequest(request: ArchitecturalRequest): Promise<ModificationOutcome> {
     try {
       const plan = await this.modifier.planModification(request.description);
-      const result = await this.modifier.executeModification(plan);
+      const result = await this.modifier.executeModification(plan, request.requestedBy);
+      
+      if (result.awaitingReview) {
+        return { reply: await this.reviewModification(result.planId), status: 'awaitingReview', planId: result.planId };
+      }
+      if (result.validationFailed) {
+        return { reply: this.formatValidationFailure(result), status: 'failed', planId: result.planId };
+      }
       
-      return result.committed ? 
-        `Done! ${result.summary}` : 
-        `Had trouble with that: ${result.summary}. What specifically did you want to change?`;
+      return result.committed
+        ? { reply: `Done! ${result.summary}`, status: 'implemented', planId: plan.id }
+        : { reply: `Had trouble with that: ${result.summary}. What specifically did you want to change?`, status: 'failed' };
     } catch (error) {
-      return this.handleIntelligentError(request.description, error);
+      return { reply: await this.handleIntelligentError(request.description, error), status: 'failed' };
+    }
+  }
+
+  getPendingModifications(): PendingModification[] {
+    return this.modifier.getPendingModifications();
+  }
+
+  getFailedModifications(): FailedModification[] {
+    return this.modifier.getFailedModifications();
+  }
+
+  async retryModification(planId: string): Promise<string> {
+    try {
+      const result = await this.modifier.retryModification(planId);
+      if (result.awaitingReview) {
+        return await this.reviewModification(result.planId);
+      }
+      return result.validationFailed ? this.formatValidationFailure(result) : result.summary;
+    } catch (error) {
+      return this.handleIntelligentError(planId, error);
+    }
+  }
+
+  async reviewModification(planId: string): Promise<string> {
+    const modification = this.modifier.getPendingModifications().find(m => m.plan.id === planId);
+    return modification ? await this.formatReview(modification) : `No pending modification ${planId}.`;
+  }
+
+  async approveModification(planId: string): Promise<string> {
+    try {
+      const modification = this.modifier.getPendingModifications().find(m => m.plan.id === planId);
+      const retirement = modification?.plan.retire;
+      if (retirement) {
+        return await this.approveRetirement(planId, modification!);
+      }
+
+      const result = await this.modifier.approveModification(planId);
+      if (result.validationFailed) {
+        return this.formatValidationFailure(result);
+      }
+      if (!result.committed) {
+        return result.summary;
+      }
+
+      const notes: string[] = [];
+      for (const handler of modification ? this.mergedHandlers : []) {
+        try {
+          const note = await handler(modification!);
+          if (note) notes.push(note);
+        } catch (error) {
+          console.error(`[CompleteArchitectOrchestrator] Merge handler failed for ${planId}:`, error);
+        }
+      }
+      return [`Done! ${result.summary}`, ...notes].join('\n');
+    } catch (error) {
+      return `Couldn't merge ${planId}: ${error instanceof Error ? error.message : String(error)}. The branch is still there; fix the conflict or say "discard ${planId}".`;
+    }
+  }
+
+  /**
+   * Rebuilds a generated agent on the newest version of its template and
+   * puts the result up for review; nothing changes until it is approved.
+   */
+  async regenerateAgent(agentName: string, requestedBy?: string): Promise<string> {
+    try {
+      const regeneration = await this.regenerator.plan(agentName);
+      const { from, to } = regeneration;
+      const kept = regeneration.kept.map(entry => `• \`${entry.file}\` - ${entry.reason}`);
+      const notes = [
+        kept.length ? `**Left as they are:**\n${kept.join('\n')}` : '',
+        regeneration.preserved.length ? `**Hand-edited regions carried over:** ${regeneration.preserved.join(', ')}` : ''
+      ].filter(Boolean).join('\n\n');
+
+      if (!regeneration.plan) {
+        return `${regeneration.agentName} is already up to date with ${to.id} v${to.version}.${notes ? `\n\n${notes}` : ''}`;
+      }
+
+      const result = await this.modifier.executeModification(regeneration.plan, requestedBy);
+      if (result.validationFailed) {
+        return this.formatValidationFailure(result);
+      }
+      if (!result.awaitingReview) {
+        return result.summary;
+      }
+      return `${regeneration.agentName}: ${from.id} v${from.version} → v${to.version}${notes ? `\n\n${notes}` : ''}
+
+${await this.reviewModification(result.planId)}`;
+    } catch (error) {
+      return `Couldn't regenerate ${agentName}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Puts the removal of a generated agent up for review. Approving it stops
+   * the agent, removes (or archives) its files and start call, deletes its
+   * Discord channel and learning data, and logs the decision to ArchWatch.
+   */
+  async retireAgent(agentName: string, archive: boolean, requestedBy?: string): Promise<string> {
+    try {
+      const plan = await this.decommissioner.plan(agentName, archive);
+      const result = await this.modifier.executeModification(plan, requestedBy);
+      if (result.validationFailed) {
+        return this.formatValidationFailure(result);
+      }
+      if (!result.awaitingReview) {
+        return result.summary;
+      }
+      const agent = plan.retire!.agent;
+      return `Approving this stops ${agent}, ${archive ? `archives its files under \`data/archived-agents\` and removes them` : 'removes its files'}, deletes its Discord channel and clears its learning data.
+
+${await this.reviewModification(result.planId)}`;
+    } catch (error) {
+      return `Couldn't decommission ${agentName}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  async discardModification(planId: string): Promise<string> {
+    const discarded = await this.modifier.discardModification(planId);
+    if (discarded) {
+      for (const handler of this.discardedHandlers) {
+        await handler(planId).catch(error => {
+          console.error(`[CompleteArchitectOrchestrator] Discard handler failed for ${planId}:`, error);
+        });
+      }
+    }
+    return discarded ? `Discarded ${planId}. Nothing was merged.` : `No pending modification ${planId}.`;
+  }
+
+  // The agent is stopped before its files go, so a failed merge leaves it stopped but intact
+  private async approveRetirement(planId: string, modification: PendingModification): Promise<string> {
+    const retirement = modification.plan.retire!;
+    const { notes, archivedTo } = await this.decommissioner.prepare(retirement, modification.requestedBy);
+    const restart = `${retirement.agent} was stopped before the merge; "/agents start ${retirement.agent}" brings it back.`;
+
+    let result;
+    try {
+      result = await this.modifier.approveModification(planId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.decommissioner.recordFailure(retirement, message, modification.requestedBy);
+      return `Couldn't merge ${planId}: ${message}. The branch is still there; fix the conflict or say "discard ${planId}".\n${restart}`;
+    }
+    if (result.validationFailed || !result.committed) {
+      await this.decommissioner.recordFailure(retirement, result.summary, modification.requestedBy);
+      return `${result.validationFailed ? this.formatValidationFailure(result) : result.summary}\n${restart}`;
+    }
+
+    notes.push(...await this.decommissioner.finish(retirement, modification.plan.files, modification.requestedBy, archivedTo));
+    return [`Done! ${result.summary}`, ...notes].join('\n');
+  }
+
+  private async formatReview(modification: PendingModification): Promise<string> {
+    const changes = modification.plan.changes
+      .filter(change => change.diff)
+      .map(change => {
+        const { additions, deletions } = UnifiedDiff.stats(change.diff!);
+        return `• ${change.type} \`${change.file}\` (+${additions} -${deletions})`;
+      });
+
+    return `**🔍 Review Required: ${modification.plan.description}**
+
+**Branch:** \`${modification.branch}\` → \`${modification.baseBranch}\`
+**Risk Level:** ${modification.plan.riskLevel}
+**Changes:**
+${changes.join('\n')}
+${this.formatCallSites(modification.plan.changes.flatMap(change => change.callSites || []))}
+
+${await this.presentDiff(modification.plan.id, modification.diff)}
+
+Reply "approve ${modification.plan.id}" to merge, or "discard ${modification.plan.id}" to drop the branch.`;
+  }
+
+  private formatCallSites(sites: ConfigCallSite[]): string {
+    if (sites.length === 0) return '';
+    const shown = sites.slice(0, MAX_REVIEW_CALL_SITES).map(site => `• \`${site.file}:${site.line}\` ${site.text}`);
+    if (sites.length > MAX_REVIEW_CALL_SITES) {
+      shown.push(`• ... and ${sites.length - MAX_REVIEW_CALL_SITES} more`);
+    }
+    return `\n**Affected call sites (${sites.length}):**\n${shown.join('\n')}\n`;
+  }
+
+  // Diff as a code block, truncated with the full version attached when it is too long
+  private async presentDiff(id: string, diff: string): Promise<string> {
+    let shown = diff.trimEnd();
+    if (diff.length > MAX_REVIEW_DIFF_CHARS) {
+      const name = `${id}.diff`;
+      let attached = false;
+      for (const handler of this.diffAttachmentHandlers) {
+        try {
+          await handler(name, diff);
+          attached = true;
+        } catch (error) {
+          console.error(`[CompleteArchitectOrchestrator] Failed to attach ${name}:`, error);
+        }
+      }
+      shown = `${diff.substring(0, MAX_REVIEW_DIFF_CHARS)}\n... (${diff.length - MAX_REVIEW_DIFF_CHARS} more characters${attached ? `, full diff in ${name}` : ''})`;
+    }
+
+    return `\`\`\`diff
+${shown}
+\`\`\``;
+  }
+
+  async showHistory(): Promise<string> {
+    const history = this.modifier.getHistory();
+    if (history.length === 0) {
+      return "📜 No modifications in history yet.";
+    }
+
+    const lines = history.map(record => {
+      const status = record.revertedAt ? '↩️ reverted' : record.canUndo ? '✅' : '🔒';
+      return `• \`${record.id}\` ${status} ${new Date(record.timestamp).toLocaleString()} - ${record.description} (${record.files.length} files)`;
+    });
+
+    return `📜 **Modification History** (newest first)
+
+${lines.join('\n')}
+
+Use "/history <id>" to see a diff, "/revert <id>" or "/revert <from>..<to>" to undo.`;
+  }
+
+  async showModification(id: string): Promise<string> {
+    const entry = await this.modifier.getModification(id);
+    if (!entry) {
+      return `No modification ${id} in history. Say "/history" to list them.`;
     }
+
+    const { record, diff } = entry;
+    const status = record.revertedAt
+      ? `reverted ${new Date(record.revertedAt).toLocaleString()}`
+      : record.canUndo ? 'applied, can be reverted' : 'applied, too old to revert';
+
+    return `📜 **${record.id}: ${record.description}**
+
+**When:** ${new Date(record.timestamp).toLocaleString()}${record.requestedBy ? ` by ${record.requestedBy}` : ''}
+**Status:** ${status}
+**Commit:** ${record.gitCommit ? `\`${record.gitCommit.substring(0, 10)}\`` : 'none (snapshots)'}
+**Files:** ${record.files.map(file => `\`${file}\``).join(', ')}
+
+${diff ? await this.presentDiff(record.id, diff) : '_No diff kept for this modification._'}`;
+  }
+
+  // Accepts "last", a single id, or "from..to"
+  async revertModifications(target: string): Promise<string> {
+    if (!target || target === 'last') {
+      const result = await this.modifier.undoLastModification();
+      return result.success ? `↩️ ${result.message}` : `× ${result.message}`;
+    }
+
+    const range = target.split('..');
+    if (range.length === 2) {
+      const result = await this.modifier.revertRange(range[0].trim(), range[1].trim());
+      const done = result.reverted.length > 0 ? `\nReverted: ${result.reverted.join(', ')}` : '';
+      return result.success ? `↩️ ${result.message}${done}` : `× ${result.message}${done}`;
+    }
+
+    const result = await this.modifier.revertModification(target.trim());
+    return result.success ? `↩️ ${result.message}` : `× ${result.message}`;
+  }
+
+  private formatValidationFailure(result: any): string {
+    return `**❌ Validation Failed: ${result.summary}**
+
+\`\`\`
+${result.errors.join('\n')}
+\`\`\`
+
+Reply "retry ${result.planId}" and I'll try again with these errors in mind${result.attempts > 1 ? ` (attempt ${result.attempts + 1})` : ''}, or "discard ${result.planId}" to drop it.`;
+  }
+
+  private formatAgentValidationFailure(buildResult: IntelligentAgentBuildResult): string {
+    const failed = buildResult.validation!.smoke.filter(result => !result.passed);
+    const replies = failed
+      .map(result => `• "${result.prompt}" → ${result.replies.length > 0 ? result.replies[result.replies.length - 1].slice(0, 200) : result.error}`)
+      .join('\n');
+
+    return `**❌ ${buildResult.agentSpec.name} didn't pass validation, so I didn't ship it**
+
+\`\`\`
+${ModificationValidator.summarize(buildResult.validation!).join('\n')}
+\`\`\`
+${replies ? `\nSample prompts that failed:\n${replies}\n` : ''}
+${buildResult.validation!.removed ? `The generated files in ${buildResult.agentPath} were removed. ` : ''}Nothing was committed or started.`;
   }
 
   private async handleIntelligentError(request: string, error: any): Promise<string> {
     const errorMsg = error instanceof Error ? error.message : String(error);
     
+    if (errorMsg.startsWith("Conflict in ")) {
+      return `${errorMsg}.
+
+The file changed after I planned this edit, so I didn't apply anything. Ask again and I'll plan against the current version.`;
+    }
+    
     if (errorMsg.includes("Unknown change type 'add'")) {
       return `I see what happened! The system uses 'create' instead of 'add'.
 
@@ -1,8 +1,8 @@
 // src/agents/architect/core/EnhancedUniversalAnalyzer.ts
 import { ArchitecturalRequest, IntelligenceLevel, LearningMode } from '../types/index.js';
 import { CodeIntelligence } from '../intelligence/CodeIntelligence.js';
-import { FileMapper } from '../intelligence/FileMapper.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { CodeIndex } from '../intelligence/CodeIndex.js';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import { promises as fs } from 'fs';
 
 interface RequestAnalysis {
@@ -24,15 +24,15 @@ interface RequestAnalysis {
 }
 
 export class EnhancedUniversalAnalyzer {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private codeIntelligence: CodeIntelligence;
   private requestHistory: any[] = [];
   private learningMode: LearningMode = 'active';
   private patterns: Map<string, any> = new Map();
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
-    this.codeIntelligence = new CodeIntelligence(claudeApiKey);
+  constructor(llm: LLMProvider, codeIndex?: CodeIndex) {
+    this.llm = llm;
+    this.codeIntelligence = new CodeIntelligence(llm, codeIndex);
     this.initializeIntelligence();
   }
 
@@ -254,9 +254,9 @@ export class EnhancedUniversalAnalyzer {
 
   private async analyzeIntent(input: string, userId: string): Promise<any> {
     // Deep intent analysis using Claude
-    const response = await this.claude.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 1000,
+    const response = await this.llm.complete({
+      tier: 'powerful',
+      maxTokens: 1000,
       system: `You are an expert at understanding user intent for software development tasks. 
 
 Analyze the user's request and determine:
@@ -278,10 +278,10 @@ Return detailed JSON analysis of user intent, complexity, and requirements.`
       }]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
+    const content = response.text;
+    if (content) {
       try {
-        return JSON.parse(content.text);
+        return JSON.parse(content);
       } catch {
         return this.fallbackIntentAnalysis(input);
       }
@@ -292,7 +292,7 @@ Return detailed JSON analysis of user intent, complexity, and requirements.`
 
   private async analyzeCodebaseImpact(input: string): Promise<any> {
     // Analyze how this request would impact the codebase
-    const relevantFiles = FileMapper.discoverFiles(input);
+    const relevantFiles = await this.codeIntelligence.findRelevantFiles(input);
     const existingCapabilities = await this.catalogExistingCapabilities();
     const architecturalImpact = await this.assessArchitecturalImpact(input);
     
@@ -2,8 +2,7 @@
 import { ArchitecturalRequest, AgentSpec } from '../types/index.js';
 import { IntelligentAgentBuilder } from '../operations/IntelligentAgentBuilder.js';
 import { CodeIntelligence } from '../intelligence/CodeIntelligence.js';
-import { FileMapper } from '../intelligence/FileMapper.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import { promises as fs } from 'fs';
 
 interface ImprovementSuggestion {
@@ -24,16 +23,16 @@ interface ArchitectLearning {
 }
 
 export class SelfImprovingArchitect {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private agentBuilder: IntelligentAgentBuilder;
   private codeIntelligence: CodeIntelligence;
   private learning: ArchitectLearning;
   private improvementQueue: ImprovementSuggestion[] = [];
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
-    this.agentBuilder = new IntelligentAgentBuilder(claudeApiKey);
-    this.codeIntelligence = new CodeIntelligence(claudeApiKey);
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
+    this.agentBuilder = new IntelligentAgentBuilder(llm);
+    this.codeIntelligence = new CodeIntelligence(llm);
     this.learning = {
       successfulPatterns: [],
       failurePatterns: [],
@@ -116,7 +115,7 @@ ${buildResult.summary}
 ✅ **Adaptive Behavior**: Adjusts responses based on usage patterns  
 ✅ **Feedback Integration**: Processes user feedback for continuous improvement
 ✅ **Performance Monitoring**: Tracks metrics and optimizes automatically
-✅ **Watcher System**: ${buildResult.watcherResult.summary}
+✅ **Watcher System**: ${buildResult.watcherResult?.summary || 'Not created for this agent'}
 
 **Codebase Integration:**
 ✅ **Files Generated**: ${buildResult.files.length} intelligent TypeScript files
@@ -143,7 +142,7 @@ Your new agent is not just functional—it's **intelligent and evolving**! 🚀`
     console.log(`[SelfImprovingArchitect] 🔧 Intelligent system modification: ${request.description}`);
     
     // Use deep codebase knowledge for intelligent modification
-    const relevantFiles = FileMapper.discoverFiles(request.description);
+    const relevantFiles = await this.codeIntelligence.findRelevantFiles(request.description);
     const modificationPlan = await this.createIntelligentModificationPlan(request, relevantFiles);
     
     // Execute modification with intelligence
@@ -257,9 +256,9 @@ I'm getting **smarter and more efficient** with every interaction! 🚀`;
     // Intelligent analysis to determine if enhancement is better than new creation
     const existingAgents = await this.getExistingAgents();
     
-    const response = await this.claude.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 500,
+    const response = await this.llm.complete({
+      tier: 'powerful',
+      maxTokens: 500,
       system: `Analyze if the request would be better served by enhancing an existing agent rather than creating a new one.
 
 EXISTING AGENTS: ${existingAgents.join(', ')}
@@ -279,10 +278,10 @@ Return JSON: {"shouldEnhance": boolean, "targetAgent": string, "reason": string}
       }]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
+    const content = response.text;
+    if (content) {
       try {
-        return JSON.parse(content.text);
+        return JSON.parse(content);
       } catch {
         return { shouldEnhance: false };
       }
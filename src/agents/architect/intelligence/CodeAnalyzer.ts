@@ -1,4 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, estimateCost } from '../../../shared/llm/index.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -19,11 +19,10 @@ interface AnalysisResult {
 }
 
 export class CodeAnalyzer {
-  private claude: Anthropic;
-  private totalAPIUsage = { tokens: 0, cost: 0, calls: 0 };
+  private llm: LLMProvider;
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   async analyzeSystemHealth(targetPath: string = 'src'): Promise<AnalysisResult> {
@@ -54,9 +53,9 @@ export class CodeAnalyzer {
       console.log(`[CodeAnalyzer] 🤖 Sending ${analysisContent.length} chars to Claude for analysis...`);
       const analysisStart = Date.now();
       
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 500,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 500,
         system: `You are a senior code architect analyzing a TypeScript AI system. Provide:
 1. Brief system overview
 2. Key architectural strengths  
@@ -74,18 +73,13 @@ Be specific and actionable.`,
       const analysisEnd = Date.now();
       const analysisDuration = analysisEnd - analysisStart;
       
-      // Track API usage
-      const tokens = response.usage ? response.usage.input_tokens + response.usage.output_tokens : 0;
-      const cost = response.usage ? this.calculateCost(response.usage.input_tokens, response.usage.output_tokens) : 0;
-      
-      this.totalAPIUsage.tokens += tokens;
-      this.totalAPIUsage.cost += cost;
-      this.totalAPIUsage.calls += 1;
+      // Reported in the result; usage across calls is recorded for Dashboard by the instrumented provider
+      const tokens = response.usage.inputTokens + response.usage.outputTokens;
+      const cost = estimateCost(response.model, response.usage, response.provider);
       
       console.log(`[CodeAnalyzer] ⚡ Claude analysis: ${tokens} tokens, $${cost.toFixed(4)}, ${analysisDuration}ms`);
-      console.log(`[CodeAnalyzer] 💰 Session totals: ${this.totalAPIUsage.calls} calls, ${this.totalAPIUsage.tokens} tokens, $${this.totalAPIUsage.cost.toFixed(4)}`);
 
-      const analysisText = response.content[0]?.type === 'text' ? response.content[0].text : 'Analysis failed';
+      const analysisText = response.text || 'Analysis failed';
       
       // Parse Claude's response into structured data
       const result = this.parseAnalysisResponse(analysisText, {
@@ -212,19 +206,4 @@ Be specific and actionable.`,
       }
     };
   }
-
-  private calculateCost(inputTokens: number, outputTokens: number): number {
-    // Claude 3 Haiku pricing
-    const inputCost = (inputTokens / 1000000) * 0.25;
-    const outputCost = (outputTokens / 1000000) * 1.25;
-    return inputCost + outputCost;
-  }
-
-  getSessionStats() {
-    return {
-      totalCalls: this.totalAPIUsage.calls,
-      totalTokens: this.totalAPIUsage.tokens,
-      totalCost: this.totalAPIUsage.cost
-    };
-  }
 }
@@ -0,0 +1,440 @@
+/**
+ * AST index of the codebase built with the TypeScript compiler API
+ */
+
+import ts from 'typescript';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+
+export type SymbolKind = 'class' | 'method' | 'function' | 'interface' | 'type' | 'enum' | 'variable' | 'property';
+
+export interface IndexedSymbol {
+  name: string;
+  kind: SymbolKind;
+  file: string;
+  line: number;
+  exported: boolean;
+  container?: string;     // Enclosing class for methods and properties
+}
+
+export interface IndexedImport {
+  specifier: string;
+  resolved?: string;      // Indexed file the specifier points at, for relative imports
+  names: string[];
+}
+
+export interface IndexedConstant {
+  name: string;
+  value: string | number | boolean;
+  kind: 'string' | 'number' | 'boolean' | 'template';
+  file: string;
+  line: number;
+  container?: string;     // Enclosing class, variable or call the literal sits in
+  start: number;          // Offsets of the value node, for precise edits
+  end: number;
+}
+
+export interface FileIndex {
+  file: string;
+  mtimeMs: number;
+  symbols: IndexedSymbol[];
+  imports: IndexedImport[];
+  exports: string[];
+  constants: IndexedConstant[];
+}
+
+export interface SearchResult {
+  file: string;
+  score: number;
+  matches: string[];      // Symbols and constants that matched, best first
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'what', 'which', 'how', 'does', 'make',
+  'change', 'set', 'update', 'modify', 'increase', 'decrease', 'show', 'current', 'file', 'files', 'code',
+  'please', 'can', 'you', 'should', 'would', 'want', 'add', 'remove', 'use', 'implement', 'implements'
+]);
+
+/**
+ * Records every class, method, export, import edge and literal constant in
+ * the source tree. Files are re-parsed only when their mtime changes, so
+ * refresh() is cheap enough to call before each query.
+ */
+export class CodeIndex {
+  private rootDir: string;
+  private files: Map<string, FileIndex> = new Map();
+  private refreshing: Promise<void> | null = null;
+  private watcher: fs.FSWatcher | null = null;
+  private dirty: Set<string> = new Set();
+  private watchTimer: NodeJS.Timeout | null = null;
+
+  constructor(rootDir: string = 'src') {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Re-parses new and changed files and drops deleted ones.
+   */
+  async refresh(): Promise<void> {
+    // Concurrent callers share one pass
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Keeps the index current between queries by re-parsing files as they
+   * change on disk. Optional: refresh() alone catches changes by mtime.
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    try {
+      this.watcher = fs.watch(this.rootDir, { recursive: true }, (event, filename) => {
+        if (!filename || !this.isSourceFile(filename.toString())) return;
+        this.dirty.add(path.join(this.rootDir, filename.toString()));
+
+        // Editors write in bursts; re-index once things settle
+        if (this.watchTimer) clearTimeout(this.watchTimer);
+        this.watchTimer = setTimeout(() => {
+          this.watchTimer = null;
+          this.refresh().catch(error => console.error('[CodeIndex] Refresh after change failed:', error));
+        }, 300);
+        this.watchTimer.unref();
+      });
+      this.watcher.unref();
+      console.log(`[CodeIndex] Watching ${this.rootDir} for changes`);
+    } catch (error) {
+      console.warn('[CodeIndex] File watching unavailable, relying on refresh():', error);
+    }
+  }
+
+  close(): void {
+    if (this.watchTimer) clearTimeout(this.watchTimer);
+    this.watchTimer = null;
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Ranks files by how well their symbols, constants and path match the
+   * words in a natural language query ("which files implement X").
+   */
+  async search(query: string, limit: number = 8): Promise<SearchResult[]> {
+    await this.refresh();
+
+    const terms = this.queryTerms(query);
+    if (terms.length === 0) return [];
+
+    const results: SearchResult[] = [];
+    for (const index of this.files.values()) {
+      // Each term scores its best match in the file, plus a little for repeats,
+      // so files full of incidental mentions don't outrank the one defining it
+      const best = new Map<string, number>();
+      const counts = new Map<string, number>();
+      const matches: Array<{ name: string; weight: number }> = [];
+
+      const score = (text: string, weight: number, label?: string) => {
+        const hits = this.matchingTerms(terms, this.words(text));
+        for (const term of hits) {
+          best.set(term, Math.max(best.get(term) || 0, weight));
+          counts.set(term, (counts.get(term) || 0) + 1);
+        }
+        if (hits.length > 0 && label) matches.push({ name: label, weight: weight * hits.length });
+      };
+
+      score(path.basename(index.file, '.ts'), 4);
+      for (const symbol of index.symbols) {
+        const weight = symbol.kind === 'class' ? 5 : symbol.kind === 'method' || symbol.kind === 'function' ? 3 : 2;
+        score(symbol.name, weight + (symbol.exported ? 1 : 0), symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name);
+      }
+      for (const constant of index.constants) {
+        score(constant.name, 2, constant.name);
+        if (typeof constant.value === 'string' && constant.value.length < 200) {
+          score(constant.value, 1);
+        }
+      }
+
+      if (best.size === 0) continue;
+      const total = Array.from(best.values()).reduce((sum, weight) => sum + weight, 0) +
+        Array.from(counts.values()).reduce((sum, count) => sum + Math.min(count, 5) * 0.5, 0);
+
+      results.push({
+        file: index.file,
+        score: total,
+        matches: Array.from(new Set(matches.sort((a, b) => b.weight - a.weight).map(match => match.name))).slice(0, 5)
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async findFiles(query: string, limit: number = 8): Promise<string[]> {
+    return (await this.search(query, limit)).map(result => result.file);
+  }
+
+  async findSymbol(name: string): Promise<IndexedSymbol[]> {
+    await this.refresh();
+    return this.allSymbols().filter(symbol => symbol.name === name);
+  }
+
+  async findConstants(name: string): Promise<IndexedConstant[]> {
+    await this.refresh();
+    const normalized = this.normalizeKey(name);
+    return Array.from(this.files.values())
+      .flatMap(index => index.constants)
+      .filter(constant => this.normalizeKey(constant.name) === normalized);
+  }
+
+  // Files with a relative import resolving to `file`
+  async getImporters(file: string): Promise<string[]> {
+    await this.refresh();
+    return Array.from(this.files.values())
+      .filter(index => index.imports.some(edge => edge.resolved === file))
+      .map(index => index.file);
+  }
+
+  async listFiles(): Promise<string[]> {
+    await this.refresh();
+    return Array.from(this.files.keys());
+  }
+
+  async getFile(file: string): Promise<FileIndex | null> {
+    await this.refresh();
+    return this.files.get(path.normalize(file)) || null;
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  private async doRefresh(): Promise<void> {
+    const started = Date.now();
+    const found = await this.listSourceFiles(this.rootDir);
+    const seen = new Set<string>();
+    let parsed = 0;
+
+    for (const file of found) {
+      seen.add(file);
+      try {
+        const stat = await fsp.stat(file);
+        const cached = this.files.get(file);
+        if (cached && cached.mtimeMs === stat.mtimeMs && !this.dirty.has(file)) continue;
+
+        this.files.set(file, this.indexFile(file, await fsp.readFile(file, 'utf-8'), stat.mtimeMs));
+        parsed++;
+      } catch (error) {
+        console.error(`[CodeIndex] Failed to index ${file}:`, error);
+      }
+    }
+
+    for (const file of Array.from(this.files.keys())) {
+      if (!seen.has(file)) this.files.delete(file);
+    }
+    this.dirty.clear();
+
+    if (parsed > 0) {
+      console.log(`[CodeIndex] Indexed ${parsed} file(s) in ${Date.now() - started}ms (${this.files.size} total)`);
+    }
+  }
+
+  private indexFile(file: string, content: string, mtimeMs: number): FileIndex {
+    const source = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+    const index: FileIndex = { file, mtimeMs, symbols: [], imports: [], exports: [], constants: [] };
+    const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+
+    const addSymbol = (name: string, kind: SymbolKind, node: ts.Node, exported: boolean, container?: string) => {
+      index.symbols.push({ name, kind, file, line: lineOf(node), exported, container });
+      if (exported && !container) index.exports.push(name);
+    };
+
+    const addConstant = (name: string, initializer: ts.Expression | undefined, container?: string) => {
+      const literal = initializer && this.literalValue(initializer, source);
+      if (!literal) return;
+      index.constants.push({
+        name,
+        ...literal,
+        file,
+        line: lineOf(initializer!),
+        container,
+        start: initializer!.getStart(source),
+        end: initializer!.getEnd()
+      });
+    };
+
+    const visit = (node: ts.Node, container?: string): void => {
+      if (ts.isImportDeclaration(node) || (ts.isExportDeclaration(node) && node.moduleSpecifier)) {
+        const specifier = (node.moduleSpecifier as ts.StringLiteral).text;
+        index.imports.push({ specifier, resolved: this.resolveImport(file, specifier), names: this.importedNames(node) });
+        if (ts.isExportDeclaration(node)) index.exports.push(...this.importedNames(node));
+        return;
+      }
+
+      if (ts.isClassDeclaration(node) && node.name) {
+        const className = node.name.text;
+        addSymbol(className, 'class', node, this.isExported(node));
+        for (const member of node.members) {
+          const memberName = member.name && this.propertyName(member.name);
+          if (!memberName) continue;
+          if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isGetAccessor(member)) {
+            addSymbol(memberName, 'method', member, false, className);
+          } else if (ts.isPropertyDeclaration(member)) {
+            addSymbol(memberName, 'property', member, false, className);
+            addConstant(memberName, member.initializer, className);
+          }
+        }
+        node.members.forEach(member => ts.forEachChild(member, child => visit(child, className)));
+        return;
+      }
+
+      if (ts.isFunctionDeclaration(node) && node.name) {
+        addSymbol(node.name.text, 'function', node, this.isExported(node));
+      } else if (ts.isInterfaceDeclaration(node)) {
+        addSymbol(node.name.text, 'interface', node, this.isExported(node));
+      } else if (ts.isTypeAliasDeclaration(node)) {
+        addSymbol(node.name.text, 'type', node, this.isExported(node));
+      } else if (ts.isEnumDeclaration(node)) {
+        addSymbol(node.name.text, 'enum', node, this.isExported(node));
+      } else if (ts.isVariableStatement(node)) {
+        const exported = this.isExported(node);
+        for (const declaration of node.declarationList.declarations) {
+          if (!ts.isIdentifier(declaration.name)) continue;
+          const name = declaration.name.text;
+          const isFunction = declaration.initializer && (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer));
+          // Locals inside functions are noise; only module-level variables are symbols
+          if (!container) addSymbol(name, isFunction ? 'function' : 'variable', declaration, exported);
+          addConstant(name, declaration.initializer, container);
+          if (declaration.initializer) visit(declaration.initializer, container || name);
+        }
+        return;
+      } else if (ts.isPropertyAssignment(node)) {
+        const name = this.propertyName(node.name);
+        if (name) addConstant(name, node.initializer, container);
+      }
+
+      ts.forEachChild(node, child => visit(child, container));
+    };
+
+    ts.forEachChild(source, child => visit(child));
+    return index;
+  }
+
+  private literalValue(node: ts.Expression, source: ts.SourceFile): Pick<IndexedConstant, 'value' | 'kind'> | null {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return { value: node.text, kind: 'string' };
+    }
+    if (ts.isNumericLiteral(node)) {
+      return { value: Number(node.text), kind: 'number' };
+    }
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+      return { value: -Number(node.operand.text), kind: 'number' };
+    }
+    if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+      return { value: node.kind === ts.SyntaxKind.TrueKeyword, kind: 'boolean' };
+    }
+    if (ts.isTemplateExpression(node)) {
+      // Prompts with ${} placeholders; keep the source text without the backticks
+      return { value: node.getText(source).slice(1, -1), kind: 'template' };
+    }
+    return null;
+  }
+
+  private resolveImport(fromFile: string, specifier: string): string | undefined {
+    if (!specifier.startsWith('.')) return undefined;
+    const base = path.join(path.dirname(fromFile), specifier);
+    const candidates = [base.replace(/\.js$/, '.ts'), `${base}.ts`, path.join(base, 'index.ts')];
+    return candidates.find(candidate => fs.existsSync(candidate));
+  }
+
+  private importedNames(node: ts.ImportDeclaration | ts.ExportDeclaration): string[] {
+    if (ts.isExportDeclaration(node)) {
+      return node.exportClause && ts.isNamedExports(node.exportClause)
+        ? node.exportClause.elements.map(element => element.name.text)
+        : [];
+    }
+
+    const clause = node.importClause;
+    if (!clause) return [];
+    const names = clause.name ? [clause.name.text] : [];
+    if (clause.namedBindings) {
+      if (ts.isNamedImports(clause.namedBindings)) {
+        names.push(...clause.namedBindings.elements.map(element => element.name.text));
+      } else {
+        names.push(clause.namedBindings.name.text);
+      }
+    }
+    return names;
+  }
+
+  private isExported(node: ts.Node): boolean {
+    return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+  }
+
+  private propertyName(name: ts.PropertyName): string | null {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+      return name.text;
+    }
+    return null;
+  }
+
+  private allSymbols(): IndexedSymbol[] {
+    return Array.from(this.files.values()).flatMap(index => index.symbols);
+  }
+
+  private async listSourceFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    let entries: fs.Dirent[];
+    try {
+      entries = await fsp.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      return files;
+    }
+
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+          files.push(...await this.listSourceFiles(full));
+        }
+      } else if (this.isSourceFile(entry.name)) {
+        files.push(full);
+      }
+    }
+    return files;
+  }
+
+  private isSourceFile(name: string): boolean {
+    return /\.tsx?$/.test(name) && !name.endsWith('.d.ts');
+  }
+
+  // "maxTokens", "max_tokens" and "MAX_TOKENS" all split to ["max", "tokens"]
+  private words(text: string): string[] {
+    return text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1);
+  }
+
+  private queryTerms(query: string): string[] {
+    return Array.from(new Set(this.words(query).filter(word => word.length >= 3 && !STOPWORDS.has(word))));
+  }
+
+  // A term hits a word it equals, one it prefixes ("learn" → "learning") or its plural
+  private matchingTerms(terms: string[], words: string[]): string[] {
+    const extends_ = (longer: string, shorter: string) =>
+      shorter.length >= 4 && longer.startsWith(shorter) && longer.length - shorter.length <= 4;
+    const plural = (longer: string, shorter: string) =>
+      longer === `${shorter}s` || longer === `${shorter}es`;
+    return terms.filter(term => words.some(word => word === term || extends_(word, term) || plural(term, word)));
+  }
+
+  private normalizeKey(key: string): string {
+    return this.words(key).join('');
+  }
+}
@@ -2,14 +2,14 @@
  * Main code intelligence engine for comprehensive code understanding and modification
  */
 
-import { FileMapper } from './FileMapper.js';
+import { CodeIndex } from './CodeIndex.js';
 import { ConfigurationExtractor, ConfigReport, ConfigValue } from './ConfigurationExtractor.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 
 export interface CodeIntelligenceRequest {
   type: 'query' | 'modify' | 'analyze';
   target: {
-    feature: string;        // 'voice', 'feedback', 'api', 'discord'
+    feature: string;        // Best matching class or file, e.g. 'VoiceSystem'
     component: string;      // 'max_tokens', 'humor_level', 'timeout'
     files: string[];        // Auto-identified relevant files
   };
@@ -18,6 +18,7 @@ export interface CodeIntelligenceRequest {
     currentValue: any;      // Extracted current value
     newValue: any;         // Desired new value
     riskLevel: 'low'|'medium'|'high';
+    setting?: ConfigValue;  // Where the current value lives in the code
   };
 }
 
@@ -32,12 +33,21 @@ export interface IntelligenceResult {
 }
 
 export class CodeIntelligence {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private configExtractor: ConfigurationExtractor;
+  private codeIndex: CodeIndex;
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
-    this.configExtractor = new ConfigurationExtractor();
+  constructor(llm: LLMProvider, codeIndex?: CodeIndex) {
+    this.llm = llm;
+    this.codeIndex = codeIndex || new CodeIndex();
+    this.configExtractor = new ConfigurationExtractor(this.codeIndex);
+  }
+
+  /**
+   * Files whose classes, methods and constants best match a natural language query
+   */
+  async findRelevantFiles(query: string, limit: number = 6): Promise<string[]> {
+    return this.codeIndex.findFiles(query, limit);
   }
 
   /**
@@ -96,11 +106,12 @@ export class CodeIntelligence {
       type = 'analyze';
     }
 
-    // Identify the feature being targeted
-    const feature = FileMapper.identifyFeature(query) || 'general';
-    
-    // Discover relevant files
-    const files = FileMapper.discoverFiles(query);
+    // Discover relevant files and name the feature after the best match
+    const results = await this.codeIndex.search(query, 6);
+    const files = results.map(result => result.file);
+    const feature = results.length > 0
+      ? results[0].matches[0]?.split('.')[0] || results[0].file.split('/').pop()!.replace(/\.ts$/, '')
+      : 'general';
     
     // Extract component/property being targeted
     const component = this.extractTargetComponent(query);
@@ -233,9 +244,10 @@ export class CodeIntelligence {
     
     // Find current value if possible
     let currentValue = null;
+    let setting: ConfigValue | undefined;
     if (component !== 'general') {
-      const existing = await this.configExtractor.extractSpecificValue(files, component);
-      currentValue = existing?.value;
+      setting = (await this.configExtractor.extractSpecificValue(files, component)) || undefined;
+      currentValue = setting?.value;
     }
 
     // Determine new value and risk level
@@ -260,7 +272,8 @@ export class CodeIntelligence {
       property: component,
       currentValue,
       newValue,
-      riskLevel
+      riskLevel,
+      setting
     };
   }
 
@@ -296,11 +309,21 @@ export class CodeIntelligence {
       `• Current: ${modification.currentValue || 'Not found'}`,
       `• New Value: ${modification.newValue}`,
       `• Risk Level: ${modification.riskLevel}`,
-      `• Files Affected: ${target.files.join(', ')}`,
+      `• Files Affected: ${target.files.join(', ')}`
+    ];
+
+    if (modification.setting) {
+      const callSites = await this.configExtractor.findCallSites(modification.setting);
+      plan.push(`• Location: ${modification.setting.file}:${modification.setting.line}`);
+      plan.push(`• Call Sites (${callSites.length}):`);
+      plan.push(...callSites.map(site => `  - ${site.file}:${site.line} ${site.text}`));
+    }
+
+    plan.push(
       '',
       'This modification would require updating the identified configuration values',
       'and ensuring compatibility with existing system behavior.'
-    ];
+    );
 
     return plan.join('\n');
   }
@@ -309,8 +332,7 @@ export class CodeIntelligence {
    * Generate comprehensive feature analysis
    */
   private async generateFeatureAnalysis(feature: string, configReport: ConfigReport, files: string[]): Promise<string> {
-    const featureDescriptions = FileMapper.getAvailableFeatures();
-    const description = featureDescriptions[feature] || 'Unknown feature';
+    const description = await this.describeFiles(files);
     
     const analysis = [
       `${feature.replace('_', ' ').toUpperCase()} FEATURE ANALYSIS`,
@@ -336,6 +358,18 @@ export class CodeIntelligence {
     return analysis.join('\n');
   }
 
+  /**
+   * Summarize what the files define, from the code index
+   */
+  private async describeFiles(files: string[]): Promise<string> {
+    const classes: string[] = [];
+    for (const file of files) {
+      const index = await this.codeIndex.getFile(file);
+      index?.symbols.filter(symbol => symbol.kind === 'class').forEach(symbol => classes.push(symbol.name));
+    }
+    return classes.length > 0 ? `Implemented by ${classes.join(', ')}` : 'No classes found in the matched files';
+  }
+
   /**
    * Determine file role in feature
    */
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigurationExtractor } from './ConfigurationExtractor.js';
+
+const SOURCE = `export class Settings {
+  private timeoutMs = 500;
+  private prompt = 'Be concise.';
+  private greeting = \`Hello \${name}, welcome\`;
+}
+`;
+
+async function withSource(run: (file: string, extractor: ConfigurationExtractor) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-extractor-'));
+  const file = path.join(dir, 'Settings.ts');
+  await fs.writeFile(file, SOURCE);
+  try {
+    await run(file, new ConfigurationExtractor());
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('numbers must be clean numeric literals', async () => {
+  await withSource(async (file, extractor) => {
+    assert.equal((await extractor.planValueEdit(file, { key: 'timeoutMs', value: '800' })).newText, '800');
+    assert.equal((await extractor.planValueEdit(file, { key: 'timeoutMs', value: '2.5.' })).newText, '2.5');
+    assert.equal((await extractor.planValueEdit(file, { key: 'timeoutMs', value: 30 })).newText, '30');
+
+    for (const value of ['1,000', '1.5k', '30s', 'fast']) {
+      await assert.rejects(extractor.planValueEdit(file, { key: 'timeoutMs', value }), /is a number/, value);
+    }
+  });
+});
+
+test('strings keep their punctuation and quote style', async () => {
+  await withSource(async (file, extractor) => {
+    const edit = await extractor.planValueEdit(file, { key: 'prompt', value: "Be brief. Don't ramble!" });
+    assert.equal(edit.newText, "'Be brief. Don\\'t ramble!'");
+    assert.match(edit.content, /private prompt = 'Be brief\. Don\\'t ramble!';/);
+  });
+});
+
+test('template literals only change around their substitutions', async () => {
+  await withSource(async (file, extractor) => {
+    const edit = await extractor.planValueEdit(file, { key: 'greeting', value: 'Hi ${name}!' });
+    assert.equal(edit.newText, '`Hi ${name}!`');
+
+    await assert.rejects(extractor.planValueEdit(file, { key: 'greeting', value: 'Hi ${user.name}' }));
+    await assert.rejects(extractor.planValueEdit(file, { key: 'greeting', value: 'Hi there' }));
+  });
+});
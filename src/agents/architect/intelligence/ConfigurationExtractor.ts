@@ -2,8 +2,11 @@
  * Configuration extraction engine for parsing code configurations
  */
 
+import ts from 'typescript';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { CodeIndex } from './CodeIndex.js';
+import { ConfigCallSite } from '../types/index.js';
 
 export interface ConfigReport {
   configurations: ConfigValue[];
@@ -20,14 +23,45 @@ export interface ConfigValue {
   file: string;
   line: number;
   context: string;
+  source: 'property' | 'variable' | 'member' | 'env';
+  container?: string;     // Enclosing class or function
+  owner?: ConfigOwner;
+  start: number;          // Offsets of the literal node; -1 for env reads without a default
+  end: number;
 }
 
+// The symbol whose users see a change to the value: a method, class property or variable
+export interface ConfigOwner {
+  name: string;
+  member: boolean;        // Referenced as `x.name` rather than a bare identifier
+}
+
+export interface ConfigEdit {
+  setting: ConfigValue;
+  oldText: string;
+  newText: string;
+  content: string;        // Full file content after the edit
+}
+
+// Leading words dropped when matching "the commander max tokens" to a key
+const FILLER_WORDS = new Set(['the', 'a', 'an', 'my', 'our', 'its', 'value', 'setting', 'config', 'of', 'for']);
+
 export class ConfigurationExtractor {
-  
+  private codeIndex: CodeIndex;
+
+  constructor(codeIndex?: CodeIndex) {
+    this.codeIndex = codeIndex || new CodeIndex();
+  }
+
   /**
-   * Extract configuration values from multiple files
+   * Extract configuration values from multiple files. With no files given,
+   * the code index picks the ones matching the query.
    */
   async extractConfiguration(files: string[], query: string): Promise<ConfigReport> {
+    if (files.length === 0) {
+      files = await this.codeIndex.findFiles(query);
+    }
+
     const configurations: ConfigValue[] = [];
     const constants: ConfigValue[] = [];
     const prompts: ConfigValue[] = [];
@@ -40,7 +74,7 @@ export class ConfigurationExtractor {
         if (await this.fileExists(file)) {
           const content = await fs.readFile(file, 'utf-8');
           const extracted = this.parseFileConfigurations(content, file, query);
-          
+
           configurations.push(...extracted.configurations);
           constants.push(...extracted.constants);
           prompts.push(...extracted.prompts);
@@ -68,125 +102,158 @@ export class ConfigurationExtractor {
    * Parse configurations from a single file
    */
   private parseFileConfigurations(content: string, filePath: string, query: string): ConfigReport {
-    const lines = content.split('\n');
     const configurations: ConfigValue[] = [];
     const constants: ConfigValue[] = [];
     const prompts: ConfigValue[] = [];
     const environmentVars: ConfigValue[] = [];
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-      
-      // Extract constants and configuration values
-      const configMatches = this.extractConfigValues(line, filePath, lineNumber, lines, i);
-      configMatches.forEach(match => {
-        if (this.isRelevantToQuery(match.key, match.value, query)) {
-          if (match.key.includes('PROMPT') || match.key.includes('prompt') || 
-              (typeof match.value === 'string' && match.value.length > 100)) {
-            prompts.push(match);
-          } else if (match.key.includes('TOKEN') || match.key.includes('KEY') || 
-                     match.key.includes('API') || match.key.includes('SECRET')) {
-            environmentVars.push(match);
-          } else if (match.key.toUpperCase() === match.key && match.key.includes('_')) {
-            constants.push(match);
-          } else {
-            configurations.push(match);
-          }
-        }
-      });
+    for (const setting of this.extractConfigValues(content, filePath)) {
+      if (!this.isRelevantToQuery(setting.key, setting.value, query)) continue;
+
+      if (setting.source === 'env') {
+        environmentVars.push(setting);
+      } else if (setting.key.toLowerCase().includes('prompt') ||
+                 (typeof setting.value === 'string' && setting.value.length > 100)) {
+        prompts.push(setting);
+      } else if (setting.key.toUpperCase() === setting.key && setting.key.includes('_')) {
+        constants.push(setting);
+      } else {
+        configurations.push(setting);
+      }
     }
 
     return { configurations, constants, prompts, environmentVars, summary: '' };
   }
 
   /**
-   * Extract configuration values from a line
+   * Every literal setting in a file: object literal properties, variables,
+   * class properties (declared or assigned through `this.x = ...`), prompt
+   * templates and process.env reads with their fallback values.
    */
-  private extractConfigValues(line: string, file: string, lineNumber: number, allLines: string[], currentIndex: number): ConfigValue[] {
-    const matches: ConfigValue[] = [];
-    
-    // Pattern 1: max_tokens: 35
-    const numberAssignmentRegex = /(\w+):\s*(\d+)/g;
-    let match;
-    while ((match = numberAssignmentRegex.exec(line)) !== null) {
-      matches.push({
-        key: match[1],
-        value: parseInt(match[2]),
-        type: 'number',
-        file,
-        line: lineNumber,
-        context: this.getContext(allLines, currentIndex)
-      });
-    }
+  private extractConfigValues(content: string, file: string): ConfigValue[] {
+    const source = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+    const lines = content.split('\n');
+    const settings: ConfigValue[] = [];
 
-    // Pattern 2: const VARIABLE = 'value' or static readonly VARIABLE = 'value'
-    const constantRegex = /(?:const|static\s+readonly)\s+([A-Z_]+)\s*=\s*['"`]([^'"`]*?)['"`]/g;
-    while ((match = constantRegex.exec(line)) !== null) {
-      matches.push({
-        key: match[1],
-        value: match[2],
-        type: 'string',
+    const add = (key: string, node: ts.Expression | null, at: ts.Node, origin: ConfigValue['source'], container?: string, owner?: ConfigOwner) => {
+      const literal = node ? this.literalValue(node, source) : null;
+      if (node && !literal) return;
+      const line = source.getLineAndCharacterOfPosition((node || at).getStart(source)).line;
+      settings.push({
+        key,
+        value: literal?.value,
+        type: literal?.type || 'string',
         file,
-        line: lineNumber,
-        context: this.getContext(allLines, currentIndex)
+        line: line + 1,
+        context: this.getContext(lines, line),
+        source: origin,
+        container,
+        owner,
+        start: node ? node.getStart(source) : -1,
+        end: node ? node.getEnd() : -1
       });
-    }
+    };
 
-    // Pattern 3: property: 'value'
-    const stringPropertyRegex = /(\w+):\s*['"`]([^'"`]*?)['"`]/g;
-    while ((match = stringPropertyRegex.exec(line)) !== null) {
-      matches.push({
-        key: match[1],
-        value: match[2],
-        type: 'string',
-        file,
-        line: lineNumber,
-        context: this.getContext(allLines, currentIndex)
-      });
-    }
+    const visit = (node: ts.Node, container?: string, owner?: ConfigOwner, className?: string): void => {
+      if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+        const name = node.name?.text;
+        for (const member of node.members) {
+          const memberName = member.name && this.propertyName(member.name);
+          if (ts.isPropertyDeclaration(member) && memberName && member.initializer) {
+            const memberOwner = { name: memberName, member: true };
+            add(memberName, member.initializer, member, 'member', name, memberOwner);
+            visit(member.initializer, name, memberOwner, name);
+          } else if (ts.isConstructorDeclaration(member) && name) {
+            ts.forEachChild(member, child => visit(child, name, { name, member: false }, name));
+          } else if (memberName) {
+            ts.forEachChild(member, child => visit(child, name, { name: memberName, member: true }, name));
+          }
+        }
+        return;
+      }
 
-    // Pattern 4: boolean values
-    const booleanRegex = /(\w+):\s*(true|false)/g;
-    while ((match = booleanRegex.exec(line)) !== null) {
-      matches.push({
-        key: match[1],
-        value: match[2] === 'true',
-        type: 'boolean',
-        file,
-        line: lineNumber,
-        context: this.getContext(allLines, currentIndex)
-      });
-    }
+      if (ts.isFunctionDeclaration(node) && node.name) {
+        const name = node.name.text;
+        ts.forEachChild(node, child => visit(child, name, { name, member: false }, className));
+        return;
+      }
 
-    // Pattern 5: Multi-line template literals (for prompts)
-    if (line.includes('`') && !line.includes('```')) {
-      const promptMatch = line.match(/(\w+)\s*=\s*`([^`]*)/);
-      if (promptMatch) {
-        // Look for the closing backtick
-        let promptValue = promptMatch[2];
-        let endIndex = currentIndex + 1;
-        while (endIndex < allLines.length && !allLines[endIndex].includes('`')) {
-          promptValue += '\n' + allLines[endIndex];
-          endIndex++;
-        }
-        if (endIndex < allLines.length) {
-          const endLine = allLines[endIndex];
-          promptValue += '\n' + endLine.substring(0, endLine.indexOf('`'));
-        }
-        
-        matches.push({
-          key: promptMatch[1],
-          value: promptValue,
-          type: 'string',
-          file,
-          line: lineNumber,
-          context: this.getContext(allLines, currentIndex)
-        });
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+        const name = node.name.text;
+        // Module-level variables are what other code refers to; locals act through their function
+        const variableOwner = owner || { name, member: false };
+        add(name, node.initializer, node, 'variable', container, variableOwner);
+        visit(node.initializer, container || name, variableOwner, className);
+        return;
+      }
+
+      if (ts.isPropertyAssignment(node)) {
+        const name = this.propertyName(node.name);
+        if (name) add(name, node.initializer, node, 'property', container, owner);
+      }
+
+      if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isPropertyAccessExpression(node.left) && node.left.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        const name = node.left.name.text;
+        add(name, node.right, node, 'member', className, { name, member: true });
+      }
+
+      const envKey = this.envKey(node);
+      if (envKey) {
+        // `process.env.X || 'default'` and `?? 'default'` carry the in-code value
+        const parent = node.parent;
+        const fallback = parent && ts.isBinaryExpression(parent) && parent.left === node &&
+          (parent.operatorToken.kind === ts.SyntaxKind.BarBarToken || parent.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken) &&
+          this.literalValue(parent.right, source) ? parent.right : null;
+        add(envKey, fallback, node, 'env', container, owner);
       }
+
+      ts.forEachChild(node, child => visit(child, container, owner, className));
+    };
+
+    ts.forEachChild(source, child => visit(child));
+    return settings;
+  }
+
+  private literalValue(node: ts.Expression, source: ts.SourceFile): { value: string | number | boolean; type: ConfigValue['type'] } | null {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return { value: node.text, type: 'string' };
+    }
+    if (ts.isTemplateExpression(node)) {
+      return { value: node.getText(source).slice(1, -1), type: 'string' };
+    }
+    if (ts.isNumericLiteral(node)) {
+      return { value: Number(node.text), type: 'number' };
+    }
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+      return { value: -Number(node.operand.text), type: 'number' };
+    }
+    if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+      return { value: node.kind === ts.SyntaxKind.TrueKeyword, type: 'boolean' };
+    }
+    return null;
+  }
+
+  // Name of the variable in `process.env.NAME` or `process.env['NAME']`
+  private envKey(node: ts.Node): string | null {
+    const isProcessEnv = (expression: ts.Expression) =>
+      ts.isPropertyAccessExpression(expression) && expression.name.text === 'env' &&
+      ts.isIdentifier(expression.expression) && expression.expression.text === 'process';
+
+    if (ts.isPropertyAccessExpression(node) && isProcessEnv(node.expression)) {
+      return node.name.text;
+    }
+    if (ts.isElementAccessExpression(node) && isProcessEnv(node.expression) && ts.isStringLiteral(node.argumentExpression)) {
+      return node.argumentExpression.text;
     }
+    return null;
+  }
 
-    return matches;
+  private propertyName(name: ts.PropertyName): string | null {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+      return name.text;
+    }
+    return null;
   }
 
   /**
@@ -195,9 +262,9 @@ export class ConfigurationExtractor {
   private isRelevantToQuery(key: string, value: any, query: string): boolean {
     const lowerQuery = query.toLowerCase();
     const lowerKey = key.toLowerCase();
-    
+
     // Always include some key configuration types
-    if (lowerKey.includes('token') || lowerKey.includes('max') || lowerKey.includes('limit') || 
+    if (lowerKey.includes('token') || lowerKey.includes('max') || lowerKey.includes('limit') ||
         lowerKey.includes('timeout') || lowerKey.includes('voice') || lowerKey.includes('prompt') ||
         lowerKey.includes('humor') || lowerKey.includes('sentence') || lowerKey.includes('response')) {
       return true;
@@ -208,6 +275,11 @@ export class ConfigurationExtractor {
       return true;
     }
 
+    // "training threshold" mentions trainingThreshold
+    if (this.normalizeKey(lowerQuery).includes(this.normalizeKey(key)) && this.normalizeKey(key).length >= 6) {
+      return true;
+    }
+
     // Check if value contains query terms
     if (typeof value === 'string' && value.toLowerCase().includes(lowerQuery)) {
       return true;
@@ -230,32 +302,32 @@ export class ConfigurationExtractor {
    */
   private generateSummary(configs: ConfigValue[], constants: ConfigValue[], prompts: ConfigValue[], envVars: ConfigValue[], query: string): string {
     const total = configs.length + constants.length + prompts.length + envVars.length;
-    
+
     if (total === 0) {
       return `No configuration values found relevant to "${query}".`;
     }
 
     const summary = [`Found ${total} configuration items for "${query}":`];
-    
+
     if (configs.length > 0) {
       summary.push(`• ${configs.length} configuration properties`);
-      const keyConfigs = configs.filter(c => 
-        c.key.includes('token') || c.key.includes('max') || c.key.includes('timeout') || 
+      const keyConfigs = configs.filter(c =>
+        c.key.includes('token') || c.key.includes('max') || c.key.includes('timeout') ||
         c.key.includes('limit') || c.key.includes('length')
       );
       if (keyConfigs.length > 0) {
         summary.push(`  - Key settings: ${keyConfigs.map(c => `${c.key}=${c.value}`).join(', ')}`);
       }
     }
-    
+
     if (constants.length > 0) {
       summary.push(`• ${constants.length} constants/static values`);
     }
-    
+
     if (prompts.length > 0) {
       summary.push(`• ${prompts.length} prompts/voice patterns`);
     }
-    
+
     if (envVars.length > 0) {
       summary.push(`• ${envVars.length} environment variables/tokens`);
     }
@@ -279,29 +351,237 @@ export class ConfigurationExtractor {
    * Extract specific configuration value by key
    */
   async extractSpecificValue(files: string[], configKey: string): Promise<ConfigValue | null> {
+    return (await this.findInFiles(files, configKey)) || (await this.findInIndex(configKey));
+  }
+
+  /**
+   * Resolves a phrase from a request ("the commander max tokens") to a
+   * setting, trying ever shorter suffixes in the given files before
+   * falling back to the whole index.
+   */
+  async findSetting(phrase: string, files: string[]): Promise<ConfigValue | null> {
+    const words = phrase.replace(/['"`]/g, '').split(/\s+/).filter(Boolean);
+    while (words.length > 0 && FILLER_WORDS.has(words[0].toLowerCase())) words.shift();
+
+    const candidates = words.map((_, i) => words.slice(i).join(' ')).filter(candidate => this.normalizeKey(candidate).length >= 4);
+    for (const candidate of candidates) {
+      const found = await this.findInFiles(files, candidate);
+      if (found) return found;
+    }
+    for (const candidate of candidates) {
+      const found = await this.findInIndex(candidate);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Replaces the literal holding `key` in `file` with `value`, rendered in
+   * the literal's own type and quote style. Offsets come from a fresh parse,
+   * so the edit lands on the node even if the file moved since indexing.
+   */
+  async planValueEdit(file: string, edit: { key: string; value: string | number | boolean; line?: number }): Promise<ConfigEdit> {
+    const content = await fs.readFile(file, 'utf-8');
+    const normalized = this.normalizeKey(edit.key);
+    const matches = this.extractConfigValues(content, file).filter(setting => this.normalizeKey(setting.key) === normalized);
+    if (matches.length === 0) {
+      throw new Error(`No setting ${edit.key} in ${file}`);
+    }
+
+    const target = edit.line === undefined ? matches[0] : matches.reduce((best, setting) =>
+      Math.abs(setting.line - edit.line!) < Math.abs(best.line - edit.line!) ? setting : best);
+
+    if (target.start < 0) {
+      throw new Error(`${target.key} is read from the environment with no default in code; set it in .env instead`);
+    }
+
+    const oldText = content.substring(target.start, target.end);
+    const newText = this.renderValue(target, oldText, edit.value);
+    const updated = content.substring(0, target.start) + newText + content.substring(target.end);
+
+    // The replacement must parse back to the same setting with the new value
+    const reparsed = this.extractConfigValues(updated, file).find(setting => setting.key === target.key && setting.start === target.start);
+    if (!reparsed || reparsed.end !== target.start + newText.length) {
+      throw new Error(`Setting ${target.key} to ${JSON.stringify(edit.value)} would not produce a valid literal`);
+    }
+
+    return { setting: target, oldText, newText, content: updated };
+  }
+
+  /**
+   * Code that sees a change to the setting: reads of the same env variable
+   * anywhere, otherwise references to its owning method, property or
+   * variable in its file and the files importing it.
+   */
+  async findCallSites(setting: ConfigValue): Promise<ConfigCallSite[]> {
+    const definingFile = path.normalize(setting.file);
+    const sites: ConfigCallSite[] = [];
+
+    if (setting.source === 'env') {
+      for (const file of await this.codeIndex.listFiles()) {
+        const content = await fs.readFile(file, 'utf-8').catch(() => '');
+        if (!content.includes(setting.key)) continue;
+        for (const read of this.extractConfigValues(content, file)) {
+          if (read.source === 'env' && read.key === setting.key && !(file === definingFile && read.line === setting.line)) {
+            sites.push({ file, line: read.line, symbol: `process.env.${read.key}`, text: this.lineText(content, read.line) });
+          }
+        }
+      }
+      return sites;
+    }
+
+    const owner = setting.owner;
+    if (!owner) return sites;
+
+    const files = [definingFile, ...(await this.codeIndex.getImporters(definingFile)).filter(file => file !== definingFile)];
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await fs.readFile(file, 'utf-8');
+      } catch (error) {
+        continue;
+      }
+      if (!content.includes(owner.name)) continue;
+
+      const source = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+      const visit = (node: ts.Node): void => {
+        if (this.references(node, owner)) {
+          const line = source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+          const seen = sites.some(site => site.file === file && site.line === line);
+          if (!seen && !(file === definingFile && line === setting.line)) {
+            sites.push({ file, line, symbol: owner.name, text: this.lineText(content, line) });
+          }
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(source);
+    }
+
+    return sites;
+  }
+
+  private references(node: ts.Node, owner: ConfigOwner): boolean {
+    if (owner.member) {
+      return ts.isPropertyAccessExpression(node) && node.name.text === owner.name;
+    }
+    if (!ts.isIdentifier(node) || node.text !== owner.name) return false;
+
+    // Declarations, imports and `x.name` member names are not uses of the variable
+    const parent = node.parent;
+    return !(
+      (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+      ((ts.isVariableDeclaration(parent) || ts.isFunctionDeclaration(parent) || ts.isClassDeclaration(parent) ||
+        ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent) || ts.isPropertyDeclaration(parent) ||
+        ts.isParameter(parent)) && parent.name === node) ||
+      ts.isImportSpecifier(parent) || ts.isImportClause(parent) || ts.isExportSpecifier(parent)
+    );
+  }
+
+  private renderValue(setting: ConfigValue, oldText: string, value: string | number | boolean): string {
+    const raw = String(value).trim();
+    // Only numbers and booleans lose a trailing full stop; in a string it may be meant
+    const word = raw.replace(/[.!]+$/, '');
+
+    if (setting.type === 'number') {
+      // "1,000" or "1.5k" would otherwise be written as 1 or 1.5
+      if (typeof value === 'number' ? !Number.isFinite(value) : !/^-?\d+(?:\.\d+)?$/.test(word)) {
+        throw new Error(`${setting.key} is a number; "${raw}" is not`);
+      }
+      return String(typeof value === 'number' ? value : Number(word));
+    }
+
+    if (setting.type === 'boolean') {
+      if (typeof value === 'boolean') return String(value);
+      if (/^(true|on|yes|enabled?)$/i.test(word)) return 'true';
+      if (/^(false|off|no|disabled?)$/i.test(word)) return 'false';
+      throw new Error(`${setting.key} is true or false; "${raw}" is neither`);
+    }
+
+    // Strings keep the quote style of the literal they replace
+    const text = raw.replace(/^(['"`])([\s\S]*)\1$/, '$2');
+    const quote = oldText[0];
+    const substitutions = quote === '`' ? this.templateSubstitutions(oldText) : [];
+    if (substitutions.length > 0) {
+      return this.renderTemplate(setting, text, substitutions);
+    }
+    if (quote === '`') {
+      return `\`${text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``;
+    }
+    return `${quote}${text.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`).replace(/\n/g, '\\n')}${quote}`;
+  }
+
+  // Source text of each `${...}` in a template literal, in order
+  private templateSubstitutions(literal: string): string[] {
+    const source = ts.createSourceFile('template.ts', `(${literal})`, ts.ScriptTarget.Latest, true);
+    const statement = source.statements[0];
+    if (!statement || !ts.isExpressionStatement(statement)) return [];
+
+    const expression = ts.isParenthesizedExpression(statement.expression) ? statement.expression.expression : statement.expression;
+    return ts.isTemplateExpression(expression)
+      ? expression.templateSpans.map(span => span.expression.getText(source))
+      : [];
+  }
+
+  /**
+   * A template with substitutions (e.g. a prompt interpolating the user's
+   * name) may only be edited when the new value keeps every `${...}` as is,
+   * otherwise the edit would silently turn them into literal text.
+   */
+  private renderTemplate(setting: ConfigValue, text: string, substitutions: string[]): string {
+    const rendered = text
+      .split(/(\$\{[^}]*\})/)
+      .map((part, i) => i % 2 === 1 ? part : part.replace(/\\/g, '\\\\').replace(/`/g, '\\`'))
+      .join('');
+    const literal = `\`${rendered}\``;
+
+    const kept = this.templateSubstitutions(literal);
+    if (kept.length !== substitutions.length || kept.some((expression, i) => expression !== substitutions[i])) {
+      const expected = substitutions.map(expression => `\${${expression}}`).join(', ');
+      throw new Error(`${setting.key} is a template using ${expected}; the new value must keep them, in the same order`);
+    }
+    return literal;
+  }
+
+  private async findInFiles(files: string[], configKey: string): Promise<ConfigValue | null> {
+    const normalized = this.normalizeKey(configKey);
     for (const file of files) {
       try {
         if (await this.fileExists(file)) {
           const content = await fs.readFile(file, 'utf-8');
-          const lines = content.split('\n');
-          
-          for (let i = 0; i < lines.length; i++) {
-            const matches = this.extractConfigValues(lines[i], file, i + 1, lines, i);
-            const found = matches.find(m => 
-              m.key === configKey || 
-              m.key.toLowerCase() === configKey.toLowerCase() ||
-              m.key.replace('_', '').toLowerCase() === configKey.replace('_', '').toLowerCase()
-            );
-            if (found) {
-              return found;
-            }
+          const found = this.extractConfigValues(content, file).find(setting =>
+            setting.key === configKey || this.normalizeKey(setting.key) === normalized
+          );
+          if (found) {
+            return found;
           }
         }
       } catch (error) {
         console.error(`[ConfigurationExtractor] Error reading ${file}:`, error);
       }
     }
-    
     return null;
   }
-}
\ No newline at end of file
+
+  // Not in the expected files; look the key up anywhere in the index
+  private async findInIndex(configKey: string): Promise<ConfigValue | null> {
+    const [constant] = await this.codeIndex.findConstants(configKey);
+    if (!constant) return null;
+
+    try {
+      const content = await fs.readFile(constant.file, 'utf-8');
+      return this.extractConfigValues(content, constant.file).find(setting => setting.start === constant.start) || null;
+    } catch (error) {
+      console.error(`[ConfigurationExtractor] Error reading ${constant.file}:`, error);
+      return null;
+    }
+  }
+
+  private lineText(content: string, line: number): string {
+    return (content.split('\n')[line - 1] || '').trim().substring(0, 120);
+  }
+
+  // "max tokens", "max_tokens" and "maxTokens" are the same key
+  private normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
@@ -0,0 +1,221 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { AgentRetirement, Change, ModificationPlan } from '../types/index.js';
+import { AgentManifest, MANIFEST_FILE } from '../../../shared/lifecycle/index.js';
+import { AgentMessageBus, getMessageBus } from '../../../shared/messaging/index.js';
+import { ArchWatch } from '../../watcher/archwatch/ArchWatch.js';
+import { DiscordBotCreator } from './DiscordBotCreator.js';
+import { ModificationWorkspace } from './ModificationWorkspace.js';
+import { UnifiedDiff } from './UnifiedDiff.js';
+
+const ARCHIVE_DIR = 'data/archived-agents';
+const AGENT_DATA_DIR = 'data/agents';
+// Agents generated before the plugin loader were started from these by hand
+const ENTRY_POINTS = ['src/index.ts', 'src/local.ts'];
+const UNLOAD_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Retires a generated agent. plan() turns the removal of its files and start
+ * calls into a ModificationPlan for review; once approved, prepare() stops
+ * it (and archives it) before the merge, and finish() deletes its channel and
+ * data afterwards. Every outcome is logged to ArchWatch.
+ */
+export class AgentDecommissioner {
+  private watcher: ArchWatch;
+  private bus: AgentMessageBus;
+  private discord?: DiscordBotCreator;
+  private workspaces: ModificationWorkspace;
+
+  constructor(watcher?: ArchWatch, bus?: AgentMessageBus, discord?: DiscordBotCreator, workspaces?: ModificationWorkspace) {
+    this.watcher = watcher || new ArchWatch();
+    this.bus = bus || getMessageBus();
+    this.discord = discord;
+    this.workspaces = workspaces || new ModificationWorkspace();
+  }
+
+  async plan(agentName: string, archive: boolean): Promise<ModificationPlan> {
+    const agentPath = `src/agents/${agentName.toLowerCase()}`;
+    const manifest = await this.readManifest(agentPath);
+    if (!manifest) {
+      throw new Error(`${agentName} is not a generated agent: there is no ${agentPath}/${MANIFEST_FILE}`);
+    }
+
+    // The deletions are merged and reverted through git, which can't restore what was never committed
+    const uncommitted = this.workspaces.uncommittedFiles(agentPath);
+    if (uncommitted.length > 0) {
+      throw new Error(`Commit or discard the local changes to ${manifest.name} first: ${uncommitted.join(', ')}`);
+    }
+
+    const changes: Change[] = [];
+    // Ignored files aren't in the workspace to delete; finish() sweeps them up
+    const files = this.workspaces.trackedFiles(agentPath) || await this.listFiles(agentPath);
+    for (const file of files) {
+      const content = await fs.readFile(file, 'utf8');
+      changes.push({
+        file,
+        type: 'delete',
+        description: `Remove ${path.relative(agentPath, file)}`,
+        diff: UnifiedDiff.create(file, content, null),
+        baseHash: UnifiedDiff.hash(content)
+      });
+    }
+    for (const entryPoint of ENTRY_POINTS) {
+      const change = await this.startCallRemoval(entryPoint, agentPath, manifest.name);
+      if (change) changes.push(change);
+    }
+
+    return {
+      id: `retire_${Date.now()}`,
+      description: `Decommission ${manifest.name}${archive ? ', archiving its files' : ''}`,
+      files: changes.map(change => change.file),
+      changes,
+      riskLevel: 'high',
+      requiresApproval: true,
+      estimatedDuration: '1-2 minutes',
+      retire: {
+        agent: manifest.name,
+        agentPath,
+        archive,
+        channelId: manifest.channelEnv ? process.env[manifest.channelEnv] || undefined : undefined
+      }
+    };
+  }
+
+  // Runs once the plan is approved, before its deletions are merged
+  async prepare(retirement: AgentRetirement, requestedBy?: string): Promise<{ notes: string[]; archivedTo?: string }> {
+    const notes = [await this.unload(retirement.agent, requestedBy)];
+    if (!retirement.archive) {
+      return { notes };
+    }
+
+    const archivedTo = path.join(ARCHIVE_DIR, `${retirement.agent.toLowerCase()}-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+    await fs.cp(retirement.agentPath, path.join(archivedTo, 'code'), { recursive: true });
+    const dataDir = path.join(AGENT_DATA_DIR, retirement.agent.toLowerCase());
+    if (existsSync(dataDir)) {
+      await fs.cp(dataDir, path.join(archivedTo, 'data'), { recursive: true });
+    }
+    console.log(`[AgentDecommissioner] 📦 Archived ${retirement.agent} to ${archivedTo}`);
+    notes.push(`Archived its files to \`${archivedTo}\``);
+    return { notes, archivedTo };
+  }
+
+  // Runs after the deletions were merged
+  async finish(retirement: AgentRetirement, files: string[], requestedBy?: string, archivedTo?: string): Promise<string[]> {
+    const notes: string[] = [];
+
+    // Whatever git doesn't track (build output, logs) is all that is left
+    await fs.rm(retirement.agentPath, { recursive: true, force: true });
+
+    let channelDeleted = false;
+    if (this.discord) {
+      channelDeleted = await this.discord.deleteChannelForAgent(retirement.agent, retirement.channelId);
+      notes.push(channelDeleted ? 'Deleted its Discord channel' : `⚠️ Couldn't delete its Discord channel, remove #${retirement.agent.toLowerCase()} by hand`);
+    } else {
+      notes.push(`No Discord token is configured, so remove #${retirement.agent.toLowerCase()} by hand`);
+    }
+
+    const dataDir = path.join(AGENT_DATA_DIR, retirement.agent.toLowerCase());
+    const dataRemoved = existsSync(dataDir);
+    if (dataRemoved) {
+      await fs.rm(dataDir, { recursive: true, force: true });
+      notes.push(`Removed its learning data in \`${dataDir}\``);
+    }
+
+    await this.watcher.logArchitecturalDecision('agent-decommission', `Decommission ${retirement.agent}`, {
+      summary: `${retirement.agent} decommissioned${archivedTo ? `, archived to ${archivedTo}` : ''}`,
+      status: this.discord && !channelDeleted ? 'partial' : 'success',
+      files,
+      requestedBy,
+      archivedTo,
+      channelDeleted,
+      dataRemoved
+    }, 'high');
+
+    console.log(`[AgentDecommissioner] ✅ ${retirement.agent} decommissioned`);
+    return notes;
+  }
+
+  // The approved plan didn't merge; the agent stays stopped until someone starts it again
+  async recordFailure(retirement: AgentRetirement, error: string, requestedBy?: string): Promise<void> {
+    await this.watcher.logArchitecturalDecision('agent-decommission', `Decommission ${retirement.agent}`, {
+      summary: `Decommissioning ${retirement.agent} failed`,
+      status: 'failed',
+      requestedBy,
+      error
+    }, 'high');
+  }
+
+  private async unload(agent: string, requestedBy?: string): Promise<string> {
+    try {
+      const response = await this.bus.request(
+        this.bus.createMessage('plugin_control', 'Architect', 'PluginLoader', { action: 'unload', agent, requestedBy: requestedBy || 'Architect' }),
+        UNLOAD_TIMEOUT_MS
+      );
+      return response.payload.message;
+    } catch (error) {
+      console.error(`[AgentDecommissioner] Failed to unload ${agent}:`, error);
+      return `⚠️ The plugin loader didn't answer, so ${agent} keeps running until the next restart`;
+    }
+  }
+
+  /**
+   * Edit of an entry point that drops imports from the agent and the
+   * single-line statements using them. A longer statement is left in place
+   * and fails validation, so it can't be merged half-removed.
+   */
+  private async startCallRemoval(entryPoint: string, agentPath: string, agentName: string): Promise<Change | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(entryPoint, 'utf8');
+    } catch (error) {
+      return null;
+    }
+
+    const importPattern = new RegExp(`from ['"]\\./${path.relative('src', agentPath).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}/`);
+    const lines = content.split('\n');
+    const names = lines.filter(line => importPattern.test(line)).flatMap(line => this.importedNames(line));
+    if (names.length === 0) return null;
+
+    const uses = new RegExp(`\\b(${names.join('|')})\\b`);
+    const updated = lines
+      .filter(line => !importPattern.test(line) && !(uses.test(line) && /[;)]\s*$/.test(line)))
+      .join('\n');
+
+    return {
+      file: entryPoint,
+      type: 'modify',
+      description: `Remove ${agentName}'s start call`,
+      diff: UnifiedDiff.create(entryPoint, content, updated),
+      baseHash: UnifiedDiff.hash(content)
+    };
+  }
+
+  private importedNames(line: string): string[] {
+    const names: string[] = [];
+    const named = line.match(/\{([^}]*)\}/);
+    if (named) {
+      names.push(...named[1].split(',').map(name => name.trim().split(/\s+as\s+/).pop()!).filter(Boolean));
+    }
+    const defaultImport = line.match(/^\s*import\s+(?:type\s+)?([A-Za-z_$][\w$]*)\s*(?:,|from)/);
+    if (defaultImport) names.push(defaultImport[1]);
+    return names;
+  }
+
+  private async readManifest(agentPath: string): Promise<AgentManifest | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(agentPath, MANIFEST_FILE), 'utf8'));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async listFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) files.push(...await this.listFiles(full));
+      else if (entry.isFile()) files.push(full);
+    }
+    return files.sort();
+  }
+}
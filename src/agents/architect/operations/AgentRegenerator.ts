@@ -0,0 +1,158 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AgentRegenerationPlan, Change, ModificationPlan } from '../types/index.js';
+import { GENERATION_RECORD_FILE, PurposeDrivenAgentBuilder } from './PurposeDrivenAgentBuilder.js';
+import { ModificationWorkspace } from './ModificationWorkspace.js';
+import { UnifiedDiff } from './UnifiedDiff.js';
+import { AgentTemplateCatalog, CustomRegions } from '../templates/index.js';
+
+/**
+ * Plans the regeneration of a purpose-driven agent on the newest version of
+ * its template, from the analysis recorded when it was built. Custom regions
+ * carry over and files edited outside them are left alone. The result is an
+ * ordinary ModificationPlan with diffs, so it is reviewed, approved and
+ * reverted like any other change.
+ */
+export class AgentRegenerator {
+  private builder: PurposeDrivenAgentBuilder;
+  private workspaces: ModificationWorkspace;
+
+  constructor(builder?: PurposeDrivenAgentBuilder, workspaces?: ModificationWorkspace) {
+    this.builder = builder || new PurposeDrivenAgentBuilder(process.env.CLAUDE_API_KEY || '');
+    this.workspaces = workspaces || new ModificationWorkspace();
+  }
+
+  async plan(agentName: string): Promise<AgentRegenerationPlan> {
+    const agentPath = PurposeDrivenAgentBuilder.agentPath(agentName);
+    const record = await PurposeDrivenAgentBuilder.readGenerationRecord(agentPath);
+    if (!record) {
+      throw new Error(`${agentPath} has no generation record, so it wasn't built from a template or predates records`);
+    }
+
+    // Uncommitted files would block the merge, and couldn't be restored by a revert
+    const uncommitted = this.workspaces.uncommittedFiles(agentPath);
+    if (uncommitted.length > 0) {
+      throw new Error(`Commit or discard the local changes to ${record.analysis.agentName} first: ${uncommitted.join(', ')}`);
+    }
+
+    // Throws when the template is gone or its newest version rejects the recorded parameters
+    const rendered = this.builder.renderAgent(record.analysis);
+    const to = rendered.analysis.template!;
+    if (AgentTemplateCatalog.compareVersions(to.version, record.template.version) < 0) {
+      throw new Error(`${record.analysis.agentName} was built on ${to.id} v${record.template.version}, newer than the catalog's v${to.version}`);
+    }
+    const nextRecord = this.builder.generationRecord(rendered.analysis, rendered.files);
+
+    const changes: Change[] = [];
+    const preserved: string[] = [];
+    const kept: AgentRegenerationPlan['kept'] = [];
+    const keep = (file: string, relative: string, reason: string) => {
+      kept.push({ file, reason });
+      // Still differs from what was generated, so the next regeneration leaves it alone too
+      if (record.files[relative]) nextRecord.files[relative] = record.files[relative];
+      else delete nextRecord.files[relative];
+    };
+
+    for (const [file, generated] of Object.entries(rendered.files)) {
+      const relative = path.relative(agentPath, file);
+      const current = await this.readIfExists(file);
+
+      if (current === null) {
+        if (record.files[relative]) {
+          keep(file, relative, 'deleted by hand');
+        } else {
+          changes.push(this.change(file, 'create', `Add ${relative}, new in ${to.id} v${to.version}`, null, generated));
+        }
+        continue;
+      }
+
+      let regions: Map<string, string>;
+      try {
+        regions = CustomRegions.extract(current);
+      } catch (error) {
+        keep(file, relative, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+      if (UnifiedDiff.hash(CustomRegions.strip(current)) !== record.files[relative]) {
+        keep(file, relative, 'edited outside its custom regions');
+        continue;
+      }
+
+      const defaults = CustomRegions.extract(generated);
+      const dropped = Array.from(regions.keys()).filter(id => !defaults.has(id));
+      if (dropped.length > 0) {
+        keep(file, relative, `the new version has no custom region ${dropped.join(', ')}`);
+        continue;
+      }
+
+      const { content } = CustomRegions.fill(generated, regions);
+      preserved.push(...Array.from(regions.keys())
+        .filter(id => regions.get(id) !== defaults.get(id))
+        .map(id => `${relative}: ${id}`));
+      if (content !== current) {
+        changes.push(this.change(file, 'modify', `Regenerate ${relative} on ${to.id} v${to.version}`, current, content));
+      }
+    }
+
+    // Files the builder no longer generates
+    for (const [relative, hash] of Object.entries(record.files)) {
+      const file = path.join(agentPath, relative);
+      if (rendered.files[file] !== undefined) continue;
+
+      const current = await this.readIfExists(file);
+      if (current === null) continue;
+      if (UnifiedDiff.hash(CustomRegions.strip(current)) === hash) {
+        changes.push(this.change(file, 'delete', `Remove ${relative}, no longer generated`, current, null));
+      } else {
+        keep(file, relative, 'no longer generated, but edited by hand');
+      }
+    }
+
+    const result: AgentRegenerationPlan = {
+      agentName: record.analysis.agentName,
+      agentPath,
+      from: record.template,
+      to,
+      plan: null,
+      preserved,
+      kept
+    };
+    if (changes.length === 0) return result;
+
+    const recordFile = path.join(agentPath, GENERATION_RECORD_FILE);
+    const currentRecord = await this.readIfExists(recordFile);
+    changes.push(this.change(recordFile, 'modify', `Record ${to.id} v${to.version}`, currentRecord,
+      PurposeDrivenAgentBuilder.formatGenerationRecord(nextRecord)));
+
+    const plan: ModificationPlan = {
+      id: `regen_${Date.now()}`,
+      description: `Regenerate ${result.agentName} on ${to.id} v${to.version} (built on v${record.template.version})`,
+      files: changes.map(change => change.file),
+      changes,
+      riskLevel: 'medium',
+      requiresApproval: true,
+      estimatedDuration: '1-2 minutes',
+      agent: result.agentName
+    };
+    return { ...result, plan };
+  }
+
+  private change(file: string, type: Change['type'], description: string, current: string | null, updated: string | null): Change {
+    return {
+      file,
+      type,
+      description,
+      diff: UnifiedDiff.create(file, current, updated),
+      baseHash: current === null ? undefined : UnifiedDiff.hash(current)
+    };
+  }
+
+  private async readIfExists(file: string): Promise<string | null> {
+    try {
+      return await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TARGETED_PATTERNS } from './CodeModifier.js';
+
+test('increase takes the target value, with or without the current one', () => {
+  assert.deepEqual(
+    'increase the max tokens from 500 to 800'.match(TARGETED_PATTERNS.increase)?.slice(1),
+    ['the max tokens', '800']
+  );
+  assert.deepEqual(
+    'Increase API timeout from 5 to 30 seconds'.match(TARGETED_PATTERNS.increase)?.slice(1),
+    ['API timeout', '30']
+  );
+  assert.deepEqual('increase retries to 5'.match(TARGETED_PATTERNS.increase)?.slice(1), ['retries', '5']);
+  assert.equal('increase retries from 3'.match(TARGETED_PATTERNS.increase), null);
+});
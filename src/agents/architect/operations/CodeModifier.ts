@@ -1,19 +1,27 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { execSync } from 'child_process';
-import Anthropic from '@anthropic-ai/sdk';
-import { ModificationPlan, Change } from '../types/index.js';
-import { FileMapper } from '../intelligence/FileMapper.js';
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
+import { ModificationPlan, Change, PendingModification, FailedModification, ModificationHistory } from '../types/index.js';
+import { CodeIndex } from '../intelligence/CodeIndex.js';
 import { ConfigurationExtractor, ConfigValue } from '../intelligence/ConfigurationExtractor.js';
-
-interface ModificationHistory {
-  id: string;
-  timestamp: string;
-  description: string;
-  files: string[];
-  gitCommit: string;
-  canUndo: boolean;
-}
+import { ModificationWorkspace, Workspace } from './ModificationWorkspace.js';
+import { UnifiedDiff } from './UnifiedDiff.js';
+import { ModificationValidator } from './ModificationValidator.js';
+import { SnapshotStore } from './SnapshotStore.js';
+
+// Modifications older than this lose their snapshots; git-backed ones stay revertable
+const MAX_SNAPSHOT_HISTORY = 50;
+const LEGACY_BACKUP_RETENTION_DAYS = 30;
+
+// Requests simple enough to plan without the LLM. `increase` takes the target value, not the current one
+export const TARGETED_PATTERNS: Record<string, RegExp> = {
+  configValue: /(?:change|set|update|modify)\s+(.+?)\s+(?:to|=)\s+(.+)/i,
+  toneDown: /tone down (.+?) by (\d+)%/i,
+  increase: /increase (.+?)\s+(?:from\s+\S+\s+)?to\s+(\S+)/i,
+  disable: /disable (.+)/i,
+  enable: /enable (.+)/i
+};
 
 interface TargetedModification {
   file: string;
@@ -25,15 +33,35 @@ interface TargetedModification {
 }
 
 export class CodeModifier {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private history: ModificationHistory[] = [];
   private historyFile = 'data/modification-history.json';
+  private pendingFile = 'data/pending-modifications.json';
+  private failedFile = 'data/failed-modifications.json';
+  private backupDir = 'data/backups';
+  private snapshots: SnapshotStore;
   private configExtractor: ConfigurationExtractor;
-
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
-    this.configExtractor = new ConfigurationExtractor();
+  private codeIndex: CodeIndex;
+  private workspaces: ModificationWorkspace;
+  private validator: ModificationValidator;
+  private pending: Map<string, { modification: PendingModification; workspace: Workspace }> = new Map();
+  private pendingLoaded: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private failed: Map<string, FailedModification> = new Map();
+  // Set when the failed file exists but can't be parsed, so it is left for someone to fix instead of overwritten
+  private failedUnreadable = false;
+  private runtimeConfig: ConfigService;
+
+  constructor(llm: LLMProvider, workspaces?: ModificationWorkspace, validator?: ModificationValidator, codeIndex?: CodeIndex, runtimeConfig?: ConfigService) {
+    this.llm = llm;
+    this.runtimeConfig = runtimeConfig || getConfigService();
+    this.codeIndex = codeIndex || new CodeIndex();
+    this.configExtractor = new ConfigurationExtractor(this.codeIndex);
+    this.workspaces = workspaces || new ModificationWorkspace();
+    this.validator = validator || new ModificationValidator();
+    this.snapshots = new SnapshotStore(this.backupDir);
     this.loadHistory();
+    this.pendingLoaded = this.loadFailed().then(() => this.loadPending());
   }
 
   async planModification(request: string): Promise<ModificationPlan> {
@@ -42,13 +70,14 @@ export class CodeModifier {
     // Check if this is a targeted modification that can use intelligent planning
     const targetedPlan = await this.planTargetedModification(request);
     if (targetedPlan) {
+      await this.attachDiffs(targetedPlan);
       return targetedPlan;
     }
     
     // Fall back to Claude-based planning for complex modifications
     const plan = await this.generateIntelligentPlan(request);
     
-    return {
+    const modificationPlan: ModificationPlan = {
       id: `mod_${Date.now()}`,
       description: plan.description,
       files: plan.files,
@@ -57,85 +86,247 @@ export class CodeModifier {
       requiresApproval: plan.riskLevel === 'high',
       estimatedDuration: '5-15 minutes'
     };
+    await this.attachDiffs(modificationPlan);
+    return modificationPlan;
+  }
+
+  /**
+   * Generates each change's new content up front and stores it as a unified
+   * diff, so the exact edit can be reviewed before anything is applied.
+   */
+  private async attachDiffs(plan: ModificationPlan, feedback?: string[]): Promise<void> {
+    for (const change of plan.changes) {
+      try {
+        const current = await this.readIfExists(change.file);
+        let updated: string | null = null;
+        
+        if (change.type === 'delete') {
+          if (current === null) throw new Error('file does not exist');
+        } else if (change.setting?.runtime) {
+          updated = this.runtimeConfig.withOverride(current, change.setting.key, change.setting.value);
+        } else if (change.setting) {
+          // Literal edits are recomputed from a fresh parse; retrying them needs no LLM
+          updated = (await this.configExtractor.planValueEdit(change.file, change.setting)).content;
+        } else if (change.type === 'modify' && current !== null) {
+          updated = await this.generateModifiedContent(change, current, feedback);
+        } else {
+          // Modifying a missing file creates it
+          updated = await this.generateNewContent(change, feedback);
+        }
+        
+        change.diff = UnifiedDiff.create(change.file, current, updated);
+        change.baseHash = current === null ? undefined : UnifiedDiff.hash(current);
+      } catch (error) {
+        console.error(`[CodeModifier] Could not plan ${change.type} of ${change.file}:`, error);
+      }
+    }
   }
 
-  async executeModification(plan: ModificationPlan): Promise<any> {
+  /**
+   * Applies the plan on its own branch, validates it there and returns the
+   * diff for review. Nothing reaches the working tree until approveModification().
+   */
+  async executeModification(plan: ModificationPlan, requestedBy?: string, attempts: number = 1): Promise<any> {
     console.log(`[CodeModifier] Executing: ${plan.description}`);
     
-    let checkpoint: string | null = null;
+    // Orphans are pruned on load, which must not catch this plan's new workspace
+    await this.pendingLoaded;
+    const workspace = await this.workspaces.create(plan.id);
     
     try {
-      // Create checkpoint before making changes
-      checkpoint = await this.createCheckpoint(plan.description);
-      
+      const baseline = await this.validator.baseline(workspace.path, workspace.baseCommit || undefined);
       const results: string[] = [];
       
       for (const change of plan.changes) {
-        const result = await this.applyIntelligentChange(change);
+        const result = await this.applyIntelligentChange(change, workspace);
         results.push(result);
       }
       
-      // Try to commit and sync changes
-      try {
-        await this.commitAndSync(plan.description);
-        
-        // Log successful modification
-        await this.logModification({
-          id: plan.id,
-          timestamp: new Date().toISOString(),
-          description: plan.description,
-          files: plan.files,
-          gitCommit: checkpoint || 'file-based',
-          canUndo: true
-        });
-        
-        return {
-          success: true,
-          summary: `${plan.description}. Modified ${plan.files.length} files.`,
-          results,
-          committed: true,
-          gitCommit: checkpoint
-        };
-        
-      } catch (commitError) {
-        console.error('[CodeModifier] Commit/sync failed:', commitError);
-        
+      const validation = await this.validator.validate(workspace.path, Array.from(workspace.touched), baseline);
+      if (!validation.passed) {
+        // Dropping the workspace is the rollback: nothing was merged yet
+        await this.workspaces.discard(workspace);
+        return this.recordFailure(plan, ModificationValidator.summarize(validation), requestedBy, attempts, results);
+      }
+      
+      await this.workspaces.commit(workspace, plan.description);
+      // Review the diffs that were planned, which are exactly what was applied
+      const diff = plan.changes.map(change => change.diff || '').filter(Boolean).join('\n');
+      
+      if (!diff.trim()) {
+        await this.workspaces.discard(workspace);
         return {
-          success: true,
-          summary: `${plan.description}. Modified files but sync failed: ${commitError.message}`,
+          success: false,
+          summary: `${plan.description}. No changes were produced.`,
           results,
           committed: false
         };
       }
       
+      const modification: PendingModification = {
+        plan,
+        branch: workspace.branch,
+        baseBranch: workspace.baseBranch,
+        diff,
+        results,
+        requestedBy,
+        createdAt: new Date().toISOString()
+      };
+      this.pending.set(plan.id, { modification, workspace });
+      await this.savePending();
+      
+      console.log(`[CodeModifier] ${plan.id} ready for review on ${workspace.branch}`);
+      
+      return {
+        success: true,
+        summary: `${plan.description}. Changed ${workspace.touched.size} files on ${workspace.branch}.`,
+        results,
+        committed: false,
+        awaitingReview: true,
+        planId: plan.id,
+        branch: workspace.branch,
+        diff
+      };
+      
     } catch (error) {
-      // Rollback if we have a checkpoint and execution failed
-      if (checkpoint) {
+      await this.workspaces.discard(workspace);
+      throw error;
+    }
+  }
+
+  getPendingModifications(): PendingModification[] {
+    return Array.from(this.pending.values()).map(entry => entry.modification);
+  }
+
+  getFailedModifications(): FailedModification[] {
+    return Array.from(this.failed.values());
+  }
+
+  /**
+   * Re-plans a failed modification against the current files, passing the
+   * validation errors to the model so it can fix them, and runs it again.
+   */
+  async retryModification(planId: string): Promise<any> {
+    await this.pendingLoaded;
+    const failure = this.failed.get(planId);
+    if (!failure) {
+      return { success: false, summary: `No failed modification ${planId}`, committed: false };
+    }
+    
+    this.failed.delete(planId);
+    await this.saveFailed();
+    console.log(`[CodeModifier] Retrying ${planId} (attempt ${failure.attempts + 1})`);
+    
+    await this.attachDiffs(failure.plan, failure.errors);
+    return this.executeModification(failure.plan, failure.requestedBy, failure.attempts + 1);
+  }
+
+  private async recordFailure(plan: ModificationPlan, errors: string[], requestedBy: string | undefined, attempts: number, results: string[]): Promise<any> {
+    this.failed.set(plan.id, { plan, errors, attempts, requestedBy, failedAt: new Date().toISOString() });
+    await this.saveFailed();
+    console.log(`[CodeModifier] ❌ ${plan.id} failed validation with ${errors.length} error(s)`);
+    
+    return {
+      success: false,
+      summary: `${plan.description}. The changes did not pass validation and were rolled back.`,
+      results,
+      committed: false,
+      validationFailed: true,
+      planId: plan.id,
+      attempts,
+      errors
+    };
+  }
+
+  async approveModification(planId: string): Promise<any> {
+    await this.pendingLoaded;
+    const entry = this.pending.get(planId);
+    if (!entry) {
+      return { success: false, summary: `No pending modification ${planId}`, committed: false };
+    }
+    
+    const { modification, workspace } = entry;
+    const plan = modification.plan;
+    
+    // If the base branch moved since the workspace was made, the merged result was never validated
+    const baseMoved = workspace.kind === 'copy' || this.workspaces.headCommit() !== workspace.baseCommit;
+    const repoPath = process.cwd();
+    const baseline = baseMoved ? await this.validator.baseline(repoPath, this.workspaces.headCommit() || undefined) : null;
+    const files = Array.from(workspace.touched);
+    
+    // Snapshot just the touched files on both sides of the merge
+    const before = await this.snapshots.snapshot(files, repoPath);
+    const mergeCommit = await this.workspaces.merge(workspace, `${plan.description} [${plan.id}]`);
+    this.pending.delete(planId);
+    await this.savePending();
+    
+    const record: ModificationHistory = {
+      id: plan.id,
+      timestamp: new Date().toISOString(),
+      description: plan.description,
+      files,
+      gitCommit: workspace.kind === 'git' ? mergeCommit : '',
+      canUndo: true,
+      requestedBy: modification.requestedBy,
+      before,
+      after: await this.snapshots.snapshot(files, repoPath),
+      diffHash: await this.snapshots.put(modification.diff)
+    };
+    
+    if (baseline) {
+      const validation = await this.validator.validate(repoPath, files, baseline);
+      if (!validation.passed) {
+        // The merge and its revert both go in history; if the revert fails, the merge is there to revert by hand
         try {
-          await this.rollbackToCheckpoint(checkpoint);
-          console.log(`[CodeModifier] Rolled back to checkpoint due to error`);
-        } catch (rollbackError) {
-          console.error('[CodeModifier] Rollback also failed:', rollbackError);
+          await this.rollbackToCheckpoint(record);
+        } catch (error) {
+          await this.logModification(record);
+          throw error;
         }
+        record.canUndo = false;
+        record.revertedAt = new Date().toISOString();
+        await this.logModification(record);
+        console.log(`[CodeModifier] Reverted ${plan.id}: it failed validation after merging`);
+        return this.recordFailure(plan, ModificationValidator.summarize(validation), modification.requestedBy, 1, modification.results);
       }
-      
-      throw error;
     }
+    
+    await this.logModification(record);
+    await this.reloadRuntimeConfig(files);
+    
+    console.log(`[CodeModifier] ✅ Merged ${plan.id} into ${modification.baseBranch}`);
+    
+    return {
+      success: true,
+      summary: `${plan.description}. Merged ${workspace.touched.size} files into ${modification.baseBranch}.`,
+      results: modification.results,
+      committed: true,
+      gitCommit: record.gitCommit
+    };
+  }
+
+  async discardModification(planId: string): Promise<boolean> {
+    await this.pendingLoaded;
+    if (this.failed.delete(planId)) {
+      await this.saveFailed();
+      console.log(`[CodeModifier] Dropped failed ${planId}`);
+      return true;
+    }
+    
+    const entry = this.pending.get(planId);
+    if (!entry) return false;
+    
+    await this.workspaces.discard(entry.workspace);
+    this.pending.delete(planId);
+    await this.savePending();
+    console.log(`[CodeModifier] Discarded ${planId}`);
+    return true;
   }
 
   async planTargetedModification(request: string): Promise<ModificationPlan | null> {
     console.log(`[CodeModifier] Analyzing for targeted modification: ${request}`);
     
-    // Look for specific patterns that indicate targeted modifications
-    const patterns = {
-      configValue: /(?:change|set|update|modify)\s+(.+?)\s+(?:to|=)\s+(.+)/i,
-      toneDown: /tone down (.+?) by (\d+)%/i,
-      increase: /increase (.+?) (?:from|to) (\d+)/i,
-      disable: /disable (.+)/i,
-      enable: /enable (.+)/i
-    };
-    
-    for (const [type, pattern] of Object.entries(patterns)) {
+    for (const [type, pattern] of Object.entries(TARGETED_PATTERNS)) {
       const match = request.match(pattern);
       if (match) {
         console.log(`[CodeModifier] Detected ${type} pattern`);
@@ -149,6 +340,11 @@ export class CodeModifier {
   private async createTargetedPlan(type: string, match: RegExpMatchArray, request: string): Promise<ModificationPlan> {
     const files = await this.identifyRelevantFiles(request);
     
+    const valuePlan = await this.planSettingChange(type, match, request, files);
+    if (valuePlan) {
+      return valuePlan;
+    }
+    
     return {
       id: `targeted_${Date.now()}`,
       description: `Targeted ${type}: ${request}`,
@@ -167,6 +363,104 @@ export class CodeModifier {
     };
   }
 
+  // Applies merged or reverted runtime config right away rather than waiting for the file watcher
+  private async reloadRuntimeConfig(files: string[]): Promise<void> {
+    if (files.some(file => path.resolve(file) === path.resolve(this.runtimeConfig.file))) {
+      await this.runtimeConfig.reload();
+    }
+  }
+
+  /**
+   * Settings that live in the runtime config change the config file, not
+   * source: the edit is reviewed like any other and applies on merge
+   * without a restart.
+   */
+  private planRuntimeSettingChange(key: string, value: string | boolean, request: string): ModificationPlan {
+    const spec = this.runtimeConfig.describe(key)!;
+    const current = key.split('.').reduce((node: any, part) => node?.[part], this.runtimeConfig.get());
+    const pinnedBy = this.runtimeConfig.pinnedBy(key);
+    console.log(`[CodeModifier] 🎛️ Runtime setting ${key}: ${current} → ${value}${pinnedBy ? ` (overridden by ${pinnedBy})` : ''}`);
+    
+    return {
+      id: `targeted_${Date.now()}`,
+      description: `Set ${key} from ${current ?? 'provider default'} to ${value} in ${this.runtimeConfig.file}` +
+        (pinnedBy ? ` (${pinnedBy} is set and takes precedence until removed)` : ''),
+      files: [this.runtimeConfig.file],
+      changes: [{
+        file: this.runtimeConfig.file,
+        type: 'modify',
+        description: request,
+        location: key,
+        reasoning: `Runtime configuration: ${spec.description}`,
+        setting: { key, value, runtime: true }
+      }],
+      riskLevel: 'low',
+      requiresApproval: false,
+      estimatedDuration: '1 minute'
+    };
+  }
+
+  /**
+   * "set X to Y", "increase X to N", "enable/disable X" as a single literal
+   * edit located through the AST. Returns null when no setting matches or the
+   * value doesn't fit it, leaving the change to the LLM.
+   */
+  private async planSettingChange(type: string, match: RegExpMatchArray, request: string, files: string[]): Promise<ModificationPlan | null> {
+    const requested: Record<string, { phrase: string; value: string | boolean } | undefined> = {
+      configValue: { phrase: match[1], value: match[2] },
+      increase: { phrase: match[1], value: match[2] },
+      disable: { phrase: match[1], value: false },
+      enable: { phrase: match[1], value: true }
+    };
+    const target = requested[type];
+    if (!target) return null;
+    
+    const runtimeKey = this.runtimeConfig.findKey(target.phrase);
+    if (runtimeKey) {
+      // Throws on a value the schema rejects, which is better reported than rewritten by the LLM
+      this.runtimeConfig.withOverride(null, runtimeKey, target.value);
+      return this.planRuntimeSettingChange(runtimeKey, target.value, request);
+    }
+    
+    const setting = await this.configExtractor.findSetting(target.phrase, files);
+    if (!setting) {
+      console.log(`[CodeModifier] No setting matches "${target.phrase}", planning with the LLM`);
+      return null;
+    }
+    
+    try {
+      const edit = await this.configExtractor.planValueEdit(setting.file, { key: setting.key, value: target.value, line: setting.line });
+      const callSites = await this.configExtractor.findCallSites(edit.setting);
+      console.log(`[CodeModifier] 🎯 ${setting.key} at ${setting.file}:${edit.setting.line}: ${this.truncate(edit.oldText)} → ${this.truncate(edit.newText)} (${callSites.length} call site(s))`);
+      
+      return {
+        id: `targeted_${Date.now()}`,
+        description: `Set ${setting.key} from ${this.truncate(edit.oldText)} to ${this.truncate(edit.newText)} in ${setting.file}`,
+        files: [setting.file],
+        changes: [{
+          file: setting.file,
+          type: 'modify',
+          description: request,
+          location: `${edit.setting.container ? `${edit.setting.container}, ` : ''}line ${edit.setting.line}`,
+          reasoning: 'Targeted configuration change',
+          setting: { key: setting.key, value: target.value, line: edit.setting.line },
+          callSites
+        }],
+        riskLevel: callSites.length > 5 ? 'medium' : 'low',
+        requiresApproval: false,
+        estimatedDuration: '1-2 minutes'
+      };
+    } catch (error) {
+      console.log(`[CodeModifier] Can't set ${setting.key} directly: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private truncate(text: string, length: number = 60): string {
+    const flat = text.replace(/\s+/g, ' ');
+    return flat.length > length ? `${flat.substring(0, length)}...` : flat;
+  }
+
   private async generateIntelligentPlan(request: string): Promise<any> {
     try {
       const currentFiles = await this.identifyRelevantFiles(request);
@@ -176,9 +470,9 @@ export class CodeModifier {
         .map(([file, content]) => `=== ${file} ===\n${content.slice(0, 1500)}`)
         .join('\n\n');
 
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307', // Fixed: Use correct model name
-        max_tokens: 2000,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 2000,
         messages: [{
           role: 'user',
           content: `You are a senior software architect. Create a modification plan in valid JSON format.
@@ -208,9 +502,9 @@ CRITICAL: Respond with ONLY valid JSON. No explanatory text before or after.
         }]
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        let jsonText = content.text.trim();
+      const content = response.text;
+      if (content) {
+        let jsonText = content.trim();
         
         // Extract JSON from response
         const jsonStart = jsonText.indexOf('{');
@@ -272,150 +566,100 @@ CRITICAL: Respond with ONLY valid JSON. No explanatory text before or after.
     return 'low';
   }
 
-  private async applyIntelligentChange(change: Change): Promise<string> {
+  private async applyIntelligentChange(change: Change, workspace: Workspace): Promise<string> {
     console.log(`[CodeModifier] Applying: ${change.description} to ${change.file}`);
     
-    switch (change.type) {
-      case 'modify':
-        return await this.modifyFileIntelligently(change);
-      case 'create':
-        return await this.createFileIntelligently(change);
-      case 'delete':
-        return await this.deleteFile(change);
-      default:
-        throw new Error(`Unknown change type: ${change.type}`);
+    if (change.diff === undefined) {
+      throw new Error(`No diff was planned for ${change.file}`);
+    }
+    if (!change.diff) {
+      return `No changes needed in ${change.file}`;
+    }
+    
+    const target = this.workspaces.resolve(workspace, change.file);
+    const current = await this.readIfExists(target);
+    
+    // Throws on conflict: the file moved on in a way the planned hunks no longer fit
+    const updated = UnifiedDiff.apply(current, change.diff, change.file);
+    const drifted = current !== null && change.baseHash !== undefined && UnifiedDiff.hash(current) !== change.baseHash;
+    
+    if (updated === null) {
+      await fs.unlink(target);
+      return `Deleted ${change.file}`;
     }
+    
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, updated);
+    
+    const { additions, deletions } = UnifiedDiff.stats(change.diff);
+    const verb = current === null ? 'Created' : 'Modified';
+    return `${verb} ${change.file} (+${additions} -${deletions})${drifted ? ', file had changed since planning but the patch applied cleanly' : ''}`;
   }
 
-  private async modifyFileIntelligently(change: Change): Promise<string> {
-    try {
-      // Check if file exists
-      const currentContent = await fs.readFile(change.file, 'utf8');
-      
-      // Use Claude to generate the modified version
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307', // Fixed: Use correct model name
-        max_tokens: 3000,
-        messages: [{
-          role: 'user',
-          content: `Modify this TypeScript file according to the change request:
+  private async generateModifiedContent(change: Change, currentContent: string, feedback?: string[]): Promise<string> {
+    const response = await this.llm.complete({
+      tier: 'fast',
+      maxTokens: 3000,
+      messages: [{
+        role: 'user',
+        content: `Modify this TypeScript file according to the change request:
 
 CHANGE REQUEST: ${change.description}
 LOCATION: ${change.location || 'anywhere appropriate'}
 
 CURRENT FILE CONTENT:
 ${currentContent}
-
+${this.formatFeedback(feedback)}
 Return the complete modified file content. Maintain all existing functionality while making the requested change. Keep the same code style and patterns.`
-        }]
-      });
+      }]
+    });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        // Write the modified content
-        await fs.writeFile(change.file, content.text);
-        return `Modified ${change.file}`;
-      }
-      
-      throw new Error('Failed to generate modified content');
-    } catch (error) {
-      if (error.code === 'ENOENT') {
-        // File doesn't exist, treat as create
-        return await this.createFileIntelligently(change);
-      }
-      throw new Error(`Failed to modify ${change.file}: ${error.message}`);
+    if (!response.text) {
+      throw new Error(`Failed to generate modified content for ${change.file}`);
     }
+    return this.stripCodeFence(response.text);
   }
 
-  private async createFileIntelligently(change: Change): Promise<string> {
-    try {
-      // Use Claude to generate appropriate file content
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307', // Fixed: Use correct model name
-        max_tokens: 3000,
-        messages: [{
-          role: 'user',
-          content: `Create a new TypeScript file with this specification:
+  private async generateNewContent(change: Change, feedback?: string[]): Promise<string> {
+    const response = await this.llm.complete({
+      tier: 'fast',
+      maxTokens: 3000,
+      messages: [{
+        role: 'user',
+        content: `Create a new TypeScript file with this specification:
 
 FILE: ${change.file}
 DESCRIPTION: ${change.description}
 REQUIREMENTS: ${change.content || 'Standard TypeScript patterns'}
-
+${this.formatFeedback(feedback)}
 Generate clean, well-structured TypeScript code that follows the existing project patterns. Include proper imports, exports, and TypeScript types.`
-        }]
-      });
+      }]
+    });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        // Ensure directory exists
-        const dir = path.dirname(change.file);
-        await fs.mkdir(dir, { recursive: true });
-        
-        // Write the new file
-        await fs.writeFile(change.file, content.text);
-        return `Created ${change.file}`;
-      }
-      
-      throw new Error('Failed to generate file content');
-    } catch (error) {
-      throw new Error(`Failed to create ${change.file}: ${error.message}`);
+    if (!response.text) {
+      throw new Error(`Failed to generate file content for ${change.file}`);
     }
+    return this.stripCodeFence(response.text);
   }
 
-  private async deleteFile(change: Change): Promise<string> {
-    try {
-      await fs.unlink(change.file);
-      return `Deleted ${change.file}`;
-    } catch (error) {
-      throw new Error(`Failed to delete ${change.file}: ${error.message}`);
-    }
+  private formatFeedback(feedback?: string[]): string {
+    if (!feedback || feedback.length === 0) return '';
+    return `\nA PREVIOUS ATTEMPT FAILED VALIDATION WITH THESE ERRORS, AVOID THEM:\n${feedback.join('\n')}\n`;
   }
 
-  private async createCheckpoint(description: string): Promise<string> {
-    try {
-      // Check if we're in a git repository
-      execSync('git rev-parse --is-inside-work-tree', { stdio: 'pipe' });
-      
-      // We're in a git repo, proceed normally
-      execSync('git add .', { stdio: 'pipe' });
-      const commitId = `mod_${Date.now()}`;
-      execSync(`git commit -m "Checkpoint: ${description} [${commitId}]"`, { stdio: 'pipe' });
-      
-      console.log(`[CodeModifier] ✅ Git checkpoint created: ${commitId}`);
-      return commitId;
-      
-    } catch (error) {
-      // Not in git repo, use file-based backup
-      console.log('[CodeModifier] Git unavailable, using file-based checkpoint');
-      return await this.createFileBasedCheckpoint(description);
-    }
+  // Models often wrap the whole file in a markdown fence, which would end up in the diff
+  private stripCodeFence(text: string): string {
+    const fenced = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+    const content = fenced ? fenced[1] : text;
+    return content.endsWith('\n') ? content : content + '\n';
   }
 
-  private async createFileBasedCheckpoint(description: string): Promise<string> {
-    const checkpointId = `checkpoint_${Date.now()}`;
-    const backupDir = `data/backups/${checkpointId}`;
-    
+  private async readIfExists(file: string): Promise<string | null> {
     try {
-      await fs.mkdir(backupDir, { recursive: true });
-      
-      // Copy current src directory
-      await this.copyDirectory('src', `${backupDir}/src`);
-      
-      // Save metadata
-      const metadata = {
-        id: checkpointId,
-        description,
-        timestamp: new Date().toISOString(),
-        type: 'file-based-backup'
-      };
-      
-      await fs.writeFile(`${backupDir}/metadata.json`, JSON.stringify(metadata, null, 2));
-      console.log(`[CodeModifier] File-based checkpoint created: ${checkpointId}`);
-      
-      return checkpointId;
+      return await fs.readFile(file, 'utf8');
     } catch (error) {
-      console.error('[CodeModifier] Checkpoint creation failed:', error);
-      return `fallback_${Date.now()}`;
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
     }
   }
 
@@ -435,76 +679,63 @@ Generate clean, well-structured TypeScript code that follows the existing projec
     }
   }
 
-  private async rollbackToCheckpoint(commit: string): Promise<void> {
+  private async rollbackToCheckpoint(record: ModificationHistory): Promise<void> {
     try {
-      if (commit.startsWith('checkpoint_')) {
-        // File-based checkpoint rollback
-        const backupDir = `data/backups/${commit}`;
-        await this.copyDirectory(`${backupDir}/src`, 'src');
-        console.log(`[CodeModifier] Rolled back to file-based checkpoint: ${commit}`);
+      if (record.gitCommit.startsWith('checkpoint_')) {
+        // Full src copy from before content-addressed snapshots
+        await this.copyDirectory(`${this.backupDir}/${record.gitCommit}/src`, 'src');
+        console.log(`[CodeModifier] Rolled back to file-based checkpoint: ${record.gitCommit}`);
+      } else if (record.gitCommit) {
+        await this.workspaces.revert(record.gitCommit);
+        console.log(`[CodeModifier] Reverted merge ${record.gitCommit}`);
       } else {
-        // Git-based rollback
-        execSync(`git reset --hard ${commit}`, { stdio: 'pipe' });
-        console.log(`[CodeModifier] Rolled back to git checkpoint: ${commit}`);
+        await this.restoreSnapshots(record);
+        console.log(`[CodeModifier] Restored ${record.files.length} files from snapshots of ${record.id}`);
       }
+      await this.reloadRuntimeConfig(record.files);
     } catch (error) {
       console.error('[CodeModifier] Rollback failed:', error);
       throw error;
     }
   }
 
-  private async commitAndSync(description: string): Promise<void> {
-    try {
-      // Check if we're in a git repository
-      execSync('git rev-parse --is-inside-work-tree', { stdio: 'pipe' });
-      
-      // Git operations
-      execSync('git add .', { stdio: 'pipe' });
-      execSync(`git commit -m "${description}"`, { stdio: 'pipe' });
+  /**
+   * Undoes a modification without git by reversing its before → after change
+   * on each file. Files edited since then are patched rather than overwritten,
+   * and any file that no longer fits aborts the whole restore.
+   */
+  private async restoreSnapshots(record: ModificationHistory): Promise<void> {
+    if (!record.before || !record.after) {
+      throw new Error(`No snapshots kept for ${record.id}`);
+    }
+    
+    const restored: Array<{ file: string; content: string | null }> = [];
+    for (const file of record.files) {
+      const before = await this.snapshots.read(record.before, file);
+      const after = await this.snapshots.read(record.after, file);
+      const current = await this.readIfExists(file);
       
-      // Try to push, but don't fail if remote doesn't exist
-      try {
-        execSync('git push origin main', { stdio: 'pipe' });
-        console.log('[CodeModifier] Changes synced to remote repository');
-      } catch (pushError) {
-        console.log('[CodeModifier] Remote push skipped (no remote configured)');
+      const content = current === after
+        ? before
+        : UnifiedDiff.apply(current, UnifiedDiff.create(file, after, before), file);
+      restored.push({ file, content });
+    }
+    
+    for (const { file, content } of restored) {
+      if (content === null) {
+        await fs.rm(file, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, content);
       }
-      
-    } catch (error) {
-      console.log('[CodeModifier] Git operations skipped (not in repository)');
-      // Continue without git - modifications are still saved to filesystem
     }
   }
 
   private async identifyRelevantFiles(request: string): Promise<string[]> {
-    const requestLower = request.toLowerCase();
-    const files: string[] = [];
-
-    // Smart file identification based on request content
-    if (requestLower.includes('voice') || requestLower.includes('personality')) {
-      files.push('src/agents/commander/communication/VoiceSystem.ts');
-    }
-    
-    if (requestLower.includes('feedback') || requestLower.includes('learning')) {
-      files.push('src/agents/commander/intelligence/FeedbackLearningSystem.ts');
-    }
+    const files = await this.codeIndex.findFiles(request, 5);
     
-    if (requestLower.includes('agent') || requestLower.includes('new agent')) {
-      files.push('src/agents/commander/Commander.ts');
-      files.push('src/index.ts');
-    }
-
-    if (requestLower.includes('architect') || requestLower.includes('build')) {
-      files.push('src/agents/architect/Architect.ts');
-      files.push('src/agents/architect/operations/AgentBuilder.ts');
-    }
-
-    // Default to some core files if nothing specific identified
-    if (files.length === 0) {
-      files.push('src/index.ts');
-    }
-
-    return files;
+    // Default to the entry point if nothing in the index matches
+    return files.length > 0 ? files : ['src/index.ts'];
   }
 
   private async readCurrentFiles(filePaths: string[]): Promise<Record<string, string>> {
@@ -521,6 +752,22 @@ Generate clean, well-structured TypeScript code that follows the existing projec
     return contents;
   }
 
+  // Newest first
+  getHistory(limit: number = 20): ModificationHistory[] {
+    return this.history.slice(-limit).reverse();
+  }
+
+  async getModification(id: string): Promise<{ record: ModificationHistory; diff: string | null } | null> {
+    const record = this.history.find(h => h.id === id);
+    if (!record) return null;
+    
+    let diff: string | null = null;
+    if (record.diffHash) {
+      diff = await this.snapshots.get(record.diffHash).catch(() => null);
+    }
+    return { record, diff };
+  }
+
   async undoLastModification(): Promise<any> {
     const lastMod = this.history.filter(h => h.canUndo).pop();
     
@@ -528,30 +775,198 @@ Generate clean, well-structured TypeScript code that follows the existing projec
       return { success: false, message: 'No modifications to undo' };
     }
     
+    return this.revertModification(lastMod.id);
+  }
+
+  async revertModification(id: string): Promise<any> {
+    const record = this.history.find(h => h.id === id);
+    if (!record) {
+      return { success: false, message: `No modification ${id} in history` };
+    }
+    if (!record.canUndo) {
+      return { success: false, message: record.revertedAt ? `${id} was already reverted` : `${id} can no longer be reverted` };
+    }
+    
     try {
-      await this.rollbackToCheckpoint(lastMod.gitCommit);
+      await this.rollbackToCheckpoint(record);
       
-      // Mark as undone
-      lastMod.canUndo = false;
+      record.canUndo = false;
+      record.revertedAt = new Date().toISOString();
       await this.saveHistory();
       
-      console.log(`[CodeModifier] Undid modification: ${lastMod.description}`);
+      console.log(`[CodeModifier] Reverted modification: ${record.description}`);
       
       return {
         success: true,
-        message: `Undid: ${lastMod.description}`,
-        restoredFiles: lastMod.files,
-        gitCommit: lastMod.gitCommit
+        message: `Reverted ${id}: ${record.description}`,
+        restoredFiles: record.files,
+        gitCommit: record.gitCommit
       };
     } catch (error) {
-      console.error('[CodeModifier] Undo failed:', error);
-      return { success: false, message: `Undo failed: ${error.message}` };
+      console.error(`[CodeModifier] Revert of ${id} failed:`, error);
+      return { success: false, message: `Revert of ${id} failed: ${error.message}` };
     }
   }
 
+  /**
+   * Reverts every undoable modification between two ids (inclusive, either
+   * order), newest first, stopping at the first one that fails.
+   */
+  async revertRange(fromId: string, toId: string): Promise<any> {
+    const from = this.history.findIndex(h => h.id === fromId);
+    const to = this.history.findIndex(h => h.id === toId);
+    if (from === -1 || to === -1) {
+      return { success: false, message: `No modification ${from === -1 ? fromId : toId} in history`, reverted: [] };
+    }
+    
+    const range = this.history
+      .slice(Math.min(from, to), Math.max(from, to) + 1)
+      .filter(h => h.canUndo)
+      .reverse();
+    
+    const reverted: string[] = [];
+    for (const record of range) {
+      const result = await this.revertModification(record.id);
+      if (!result.success) {
+        return { success: false, message: result.message, reverted };
+      }
+      reverted.push(record.id);
+    }
+    
+    return {
+      success: true,
+      message: reverted.length > 0 ? `Reverted ${reverted.length} modification(s)` : 'Nothing in that range can be reverted',
+      reverted
+    };
+  }
+
   private async logModification(mod: ModificationHistory): Promise<void> {
     this.history.push(mod);
     await this.saveHistory();
+    await this.pruneBackups();
+  }
+
+  /**
+   * Drops snapshots of all but the most recent modifications, deletes
+   * objects nothing refers to any more, and expires old full-src backups.
+   */
+  private async pruneBackups(): Promise<void> {
+    try {
+      const cutoff = this.history.length - MAX_SNAPSHOT_HISTORY;
+      let changed = false;
+      this.history.forEach((record, index) => {
+        if (index >= cutoff || (!record.before && !record.diffHash)) return;
+        delete record.before;
+        delete record.after;
+        delete record.diffHash;
+        if (!record.gitCommit) record.canUndo = false;
+        changed = true;
+      });
+      
+      const referenced = new Set<string>();
+      for (const record of this.history) {
+        for (const snapshot of [record.before, record.after]) {
+          Object.values(snapshot || {}).forEach(hash => hash && referenced.add(hash));
+        }
+        if (record.diffHash) referenced.add(record.diffHash);
+      }
+      const removed = await this.snapshots.prune(referenced);
+      
+      const expiry = Date.now() - LEGACY_BACKUP_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      const entries = await fs.readdir(this.backupDir).catch(() => [] as string[]);
+      for (const entry of entries.filter(name => name.startsWith('checkpoint_'))) {
+        const createdAt = Number(entry.substring('checkpoint_'.length));
+        if (createdAt < expiry) {
+          await fs.rm(path.join(this.backupDir, entry), { recursive: true, force: true });
+          this.history.filter(h => h.gitCommit === entry).forEach(h => h.canUndo = false);
+          changed = true;
+          console.log(`[CodeModifier] Expired backup ${entry}`);
+        }
+      }
+      if (changed) await this.saveHistory();
+      
+      if (removed > 0) {
+        console.log(`[CodeModifier] Pruned ${removed} unreferenced snapshot object(s)`);
+      }
+    } catch (error) {
+      console.error('[CodeModifier] Backup pruning failed:', error);
+    }
+  }
+
+  /**
+   * Restores modifications still awaiting review after a restart, then removes
+   * worktrees and branches that no pending modification owns.
+   */
+  private async loadPending(): Promise<void> {
+    let entries: Array<{ modification: PendingModification; workspace: Omit<Workspace, 'touched'> & { touched: string[] } }>;
+    try {
+      entries = JSON.parse(await fs.readFile(this.pendingFile, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        // Pruning now would delete every worktree the unreadable file refers to
+        console.error(`[CodeModifier] Couldn't read ${this.pendingFile}, keeping all workspaces:`, error);
+        return;
+      }
+      entries = [];
+    }
+    
+    for (const entry of entries) {
+      const workspace: Workspace = { ...entry.workspace, touched: new Set(entry.workspace.touched) };
+      if (await this.workspaces.exists(workspace)) {
+        this.pending.set(entry.modification.plan.id, { modification: entry.modification, workspace });
+      } else {
+        console.warn(`[CodeModifier] Workspace for pending ${entry.modification.plan.id} is gone, dropping it`);
+      }
+    }
+    if (this.pending.size !== entries.length) {
+      await this.savePending();
+    }
+    if (this.pending.size > 0) {
+      console.log(`[CodeModifier] Restored ${this.pending.size} modification(s) awaiting review`);
+    }
+    
+    try {
+      const removed = await this.workspaces.prune(Array.from(this.pending.values()).map(entry => entry.workspace));
+      if (removed > 0) {
+        console.log(`[CodeModifier] Removed ${removed} orphaned worktree(s) and branch(es)`);
+      }
+    } catch (error) {
+      console.error('[CodeModifier] Pruning orphaned workspaces failed:', error);
+    }
+  }
+
+  private async savePending(): Promise<void> {
+    try {
+      const entries = Array.from(this.pending.values()).map(({ modification, workspace }) => ({
+        modification,
+        workspace: { ...workspace, touched: Array.from(workspace.touched) }
+      }));
+      await this.writeJson(this.pendingFile, entries);
+    } catch (error) {
+      console.error('[CodeModifier] Failed to save pending modifications:', error);
+    }
+  }
+
+  // Failed modifications survive a restart so they can still be retried
+  private async loadFailed(): Promise<void> {
+    try {
+      const entries: FailedModification[] = JSON.parse(await fs.readFile(this.failedFile, 'utf8'));
+      entries.forEach(failure => this.failed.set(failure.plan.id, failure));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[CodeModifier] Couldn't read ${this.failedFile}; failed modifications won't be saved until it is fixed or removed:`, error);
+        this.failedUnreadable = true;
+      }
+    }
+  }
+
+  private async saveFailed(): Promise<void> {
+    if (this.failedUnreadable) return;
+    try {
+      await this.writeJson(this.failedFile, Array.from(this.failed.values()));
+    } catch (error) {
+      console.error('[CodeModifier] Failed to save failed modifications:', error);
+    }
   }
 
   private async loadHistory(): Promise<void> {
@@ -559,16 +974,30 @@ Generate clean, well-structured TypeScript code that follows the existing projec
       const data = await fs.readFile(this.historyFile, 'utf8');
       this.history = JSON.parse(data);
     } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[CodeModifier] Couldn't read ${this.historyFile}, starting a new history:`, error);
+      }
       this.history = [];
     }
   }
 
   private async saveHistory(): Promise<void> {
     try {
-      await fs.mkdir('data', { recursive: true });
-      await fs.writeFile(this.historyFile, JSON.stringify(this.history, null, 2));
+      await this.writeJson(this.historyFile, this.history);
     } catch (error) {
       console.error('[CodeModifier] Failed to save history:', error);
     }
   }
+
+  // Serialized, and written then renamed so a crash mid-write never leaves a truncated file
+  private async writeJson(file: string, data: unknown): Promise<void> {
+    const write = this.saving.then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const tempFile = `${file}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(data, null, 2));
+      await fs.rename(tempFile, file);
+    });
+    this.saving = write.catch(() => {});
+    await write;
+  }
 }
@@ -108,6 +108,33 @@ export class DiscordBotCreator {
     }
   }
 
+  // The channel the agent was configured with, or else the one createChannelForAgent() names after it
+  async deleteChannelForAgent(agentName: string, channelId?: string): Promise<boolean> {
+    const id = channelId || (await this.findExistingChannel(this.guildId, agentName.toLowerCase()))?.id;
+    if (!id) {
+      console.log(`[DiscordBotCreator] No channel found for ${agentName}`);
+      return false;
+    }
+
+    try {
+      const response = await fetch(`https://discord.com/api/v10/channels/${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bot ${this.discordToken}`
+        }
+      });
+
+      if (response.ok) {
+        console.log(`[DiscordBotCreator] 🗑️ Deleted channel ${id} of ${agentName}`);
+        return true;
+      }
+      console.error(`[DiscordBotCreator] Failed to delete channel ${id}: ${await response.text()}`);
+    } catch (error) {
+      console.error(`[DiscordBotCreator] Channel deletion error:`, error);
+    }
+    return false;
+  }
+
   private async findExistingChannel(guildId: string, channelName: string): Promise<any> {
     try {
       const response = await fetch(`https://discord.com/api/v10/guilds/${guildId}/channels`, {
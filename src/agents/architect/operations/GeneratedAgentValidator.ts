@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { AgentValidationReport, AgentSmokeResult, ValidationStep } from '../types/index.js';
+import { ModificationValidator } from './ModificationValidator.js';
+import { AgentManifest, AgentPluginLoader, SupervisedAgent } from '../../../shared/lifecycle/index.js';
+import { ScriptedProvider, ScriptedRule } from '../../../shared/llm/index.js';
+import { InMemoryTransport } from '../../../shared/transport/index.js';
+
+export interface GeneratedAgentCheck {
+  manifest: AgentManifest;
+  agentPath: string;                 // Relative to the repo root, e.g. src/agents/pingbot
+  files: string[];
+  prompts: string[];
+  errorReplies?: RegExp[];           // Replies the agent falls back to when handling fails
+  llmRules?: ScriptedRule[];         // Scripted LLM answers for the prompts
+}
+
+export interface GeneratedAgentValidatorOptions {
+  rootDir?: string;
+  timeoutMs?: number;                // For the type-check
+  smokeTimeoutMs?: number;           // Per start, prompt and stop
+}
+
+const SMOKE_CHANNEL = 'smoke-test';
+const MAX_PROMPTS = 5;
+
+/**
+ * Gate for agents the builders generate: the agent's files must resolve
+ * their imports and type-check, then the agent is started on an in-memory
+ * transport with a scripted LLM and must answer each sample prompt without
+ * falling back to an error reply. An agent that fails is deleted, so it
+ * never reaches a commit or the plugin loader.
+ */
+export class GeneratedAgentValidator {
+  private rootDir: string;
+  private smokeTimeoutMs: number;
+  private validator: ModificationValidator;
+
+  constructor(options: GeneratedAgentValidatorOptions = {}) {
+    this.rootDir = options.rootDir || '.';
+    this.smokeTimeoutMs = options.smokeTimeoutMs || 30 * 1000;
+    this.validator = new ModificationValidator({
+      typeCheck: true,
+      checkImports: true,
+      timeoutMs: options.timeoutMs || 5 * 60 * 1000
+    });
+  }
+
+  // One prompt per capability, in capability order, the way a user would ask for it
+  static samplePrompts(capabilities: string[], purpose: string): string[] {
+    const prompts = capabilities
+      .slice(0, MAX_PROMPTS)
+      .map(capability => `Can you help me with ${capability.replace(/[-_]+/g, ' ').trim().toLowerCase()}?`);
+
+    return prompts.length > 0 ? prompts : [`What can you do for ${purpose}?`];
+  }
+
+  async validate(check: GeneratedAgentCheck): Promise<AgentValidationReport> {
+    const { name } = check.manifest;
+    console.log(`[GeneratedAgentValidator] 🧪 Validating ${name} (${check.prompts.length} sample prompts)`);
+
+    const steps = await this.compile(check);
+    let smoke: AgentSmokeResult[] = [];
+    if (steps.every(step => step.passed)) {
+      const result = await this.smokeTest(check);
+      smoke = result.results;
+      steps.push(result.step);
+    }
+
+    const report: AgentValidationReport = { passed: steps.every(step => step.passed), steps, smoke, removed: false };
+    if (!report.passed) {
+      await fs.rm(path.resolve(this.rootDir, check.agentPath), { recursive: true, force: true });
+      report.removed = true;
+    }
+
+    console.log(`[GeneratedAgentValidator] ${report.passed ? '✅' : '❌'} ${name}: ${steps.map(step => `${step.name}: ${step.passed ? 'ok' : `${step.errors.length} error(s)`}`).join(', ')}${report.removed ? ' - files removed' : ''}`);
+    return report;
+  }
+
+  private async compile(check: GeneratedAgentCheck): Promise<ValidationStep[]> {
+    // Scoped to the agent; shared modules it imports are still checked, but their errors aren't its own
+    const tsconfig = path.join(os.tmpdir(), `tsconfig.${check.manifest.name}.${Date.now()}.json`);
+    await fs.writeFile(tsconfig, JSON.stringify({
+      extends: path.resolve(this.rootDir, 'tsconfig.json'),
+      compilerOptions: { noEmit: true },
+      include: [`${path.resolve(this.rootDir, check.agentPath)}/**/*`]
+    }));
+
+    try {
+      this.validator.configure({ tsconfig });
+      const result = await this.validator.validate(this.rootDir, check.files);
+      const agentDir = path.normalize(check.agentPath) + path.sep;
+
+      return result.steps.map(step => {
+        const errors = step.name === 'typecheck'
+          ? step.errors.filter(error => error.startsWith('tsc failed') || path.normalize(error).startsWith(agentDir))
+          : step.errors;
+        return { ...step, passed: errors.length === 0, errors };
+      });
+    } finally {
+      await fs.rm(tsconfig, { force: true });
+    }
+  }
+
+  private async smokeTest(check: GeneratedAgentCheck): Promise<{ step: ValidationStep; results: AgentSmokeResult[] }> {
+    const { manifest } = check;
+    const transport = new InMemoryTransport({ channels: [SMOKE_CHANNEL], botName: manifest.name });
+    // Echoing the prompt keeps error text an agent passes through the LLM visible in its reply
+    const llm = new ScriptedProvider({
+      rules: check.llmRules,
+      fallback: request => request.messages[request.messages.length - 1]?.content || ''
+    });
+    const results: AgentSmokeResult[] = [];
+    let agent: SupervisedAgent | undefined;
+
+    try {
+      const entry = AgentPluginLoader.resolveEntry(path.resolve(this.rootDir, check.agentPath), manifest.entry);
+      const module = await import(`${pathToFileURL(entry).href}?smoke=${Date.now()}`);
+      const AgentClass = module[manifest.exportName || manifest.name];
+      if (typeof AgentClass !== 'function') {
+        throw new Error(`${manifest.entry} does not export ${manifest.exportName || manifest.name}`);
+      }
+
+      agent = new AgentClass(this.smokeConfig(manifest), llm, transport) as SupervisedAgent;
+      await this.withTimeout(agent.start(), `${manifest.name} did not start`);
+
+      for (const prompt of check.prompts) {
+        results.push(await this.sendPrompt(transport, prompt, check.errorReplies || []));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { step: { name: 'smoke', passed: false, errors: [`startup: ${message}`] }, results };
+    } finally {
+      // Also after a failed or timed out start, which may have bound ports or set timers already
+      await this.stopAgent(agent, manifest.name);
+    }
+
+    const failed = results.filter(result => !result.passed);
+    return {
+      step: { name: 'smoke', passed: failed.length === 0, errors: failed.map(result => `"${result.prompt}": ${result.error}`) },
+      results
+    };
+  }
+
+  private async stopAgent(agent: SupervisedAgent | undefined, name: string): Promise<void> {
+    if (typeof agent?.stop !== 'function') return;
+    try {
+      await this.withTimeout(agent.stop(), `${name} did not stop`);
+    } catch (error) {
+      console.warn(`[GeneratedAgentValidator] ⚠️ ${name} failed to stop after its smoke test:`, error);
+    }
+  }
+
+  private async sendPrompt(transport: InMemoryTransport, prompt: string, errorReplies: RegExp[]): Promise<AgentSmokeResult> {
+    const before = transport.messagesIn(SMOKE_CHANNEL).length;
+    try {
+      await this.withTimeout(
+        transport.simulateMessage(SMOKE_CHANNEL, prompt, { id: 'smoke-tester', name: 'smoke-tester' }),
+        'no reply in time'
+      );
+    } catch (error) {
+      return { prompt, passed: false, replies: [], error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const replies = transport.messagesIn(SMOKE_CHANNEL).slice(before).map(message => message.content);
+    const errorReply = replies.find(reply => errorReplies.some(pattern => pattern.test(reply)));
+    if (replies.length === 0) {
+      return { prompt, passed: false, replies, error: 'no reply' };
+    }
+    return errorReply
+      ? { prompt, passed: false, replies, error: `error reply "${errorReply}"` }
+      : { prompt, passed: true, replies };
+  }
+
+  // Same shape the plugin loader builds from env, with the channel pointed at the smoke channel
+  private smokeConfig(manifest: AgentManifest): Record<string, string> {
+    return Object.fromEntries(Object.entries(manifest.config).map(([field, envName]) =>
+      [field, envName === manifest.channelEnv ? SMOKE_CHANNEL : `smoke-${field}`]
+    ));
+  }
+
+  private withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(`${message} within ${this.smokeTimeoutMs}ms`)), this.smokeTimeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -1,34 +1,24 @@
-import Anthropic from '@anthropic-ai/sdk';
-
-interface AgentPurposeAnalysis {
-  agentName: string;
-  corePurpose: string;
-  specificCapabilities: string[];
-  interactionPatterns: string[];
-  responseTypes: string[];
-  dataNeeds: string[];
-  integrationNeeds: string[];
-  learningAspects: string[];
-  clarifyingQuestions: string[];
-  readyToBuild: boolean;
-  confidence: number;
-}
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { AgentPurposeAnalysis, TemplateParameterValues } from '../types/index.js';
+import { AgentTemplateCatalog } from '../templates/index.js';
 
 export class IntelligentAgentAnalyzer {
-  private claude: Anthropic;
+  private llm: LLMProvider;
+  private catalog: AgentTemplateCatalog;
   private analysisHistory: Map<string, AgentPurposeAnalysis> = new Map();
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider, catalog?: AgentTemplateCatalog) {
+    this.llm = llm;
+    this.catalog = catalog || new AgentTemplateCatalog();
   }
 
   async analyzeAgentPurpose(request: string, previousAnswers?: Record<string, string>): Promise<AgentPurposeAnalysis> {
     console.log(`[IntelligentAgentAnalyzer] Analyzing agent purpose: ${request}`);
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 1500,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 1500,
         messages: [{
           role: 'user',
           content: `You are an expert AI agent architect. Analyze this agent creation request to understand EXACTLY what the agent needs to do.
@@ -78,6 +68,9 @@ ANALYSIS FRAMEWORK:
    - Better understanding of specific domain
    - Pattern recognition for its use case
 
+9. **Template Parameters**: The agent is generated from one of these templates. Fill in the parameters of whichever fits best; leave out ones the request doesn't determine.
+${this.catalog.describe()}
+
 Respond with JSON:
 {
   "agentName": "ProperAgentName",
@@ -88,6 +81,7 @@ Respond with JSON:
   "dataNeeds": ["what data it works with"],
   "integrationNeeds": ["external services needed"],
   "learningAspects": ["how it should improve"],
+  "templateParameters": { "parameterName": "value" },
   "clarifyingQuestions": ["question1", "question2"] or [],
   "readyToBuild": true/false,
   "confidence": 0.0-1.0
@@ -114,10 +108,10 @@ Request: "agent for customer support"
         }]
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
+      const content = response.text;
+      if (content) {
         try {
-          let jsonText = content.text.trim();
+          let jsonText = content.trim();
           
           // Extract JSON from response
           const jsonStart = jsonText.indexOf('{');
@@ -127,12 +121,12 @@ Request: "agent for customer support"
             jsonText = jsonText.substring(jsonStart, jsonEnd);
           }
           
-          const analysis = JSON.parse(jsonText);
+          const analysis = this.withTemplate(JSON.parse(jsonText));
           
           // Store analysis for potential follow-up
           this.analysisHistory.set(analysis.agentName, analysis);
           
-          console.log(`[IntelligentAgentAnalyzer] Analysis complete - Ready to build: ${analysis.readyToBuild}`);
+          console.log(`[IntelligentAgentAnalyzer] Analysis complete - Template: ${analysis.template?.id}@${analysis.template?.version}, ready to build: ${analysis.readyToBuild}`);
           
           return analysis;
           
@@ -160,10 +154,38 @@ Request: "agent for customer support"
     return await this.analyzeAgentPurpose(combinedRequest, answers);
   }
 
+  /**
+   * Picks the template from interaction patterns and integrations, and
+   * validates the parameters the LLM filled in for it. Invalid or missing
+   * parameters become clarifying questions rather than a failed build.
+   */
+  private withTemplate(analysis: AgentPurposeAnalysis & { templateParameters?: TemplateParameterValues }): AgentPurposeAnalysis {
+    const { templateParameters, ...rest } = analysis;
+    const template = this.catalog.select(rest);
+
+    // The LLM may fill in parameters of templates that weren't picked
+    const names = new Set(template.parameters.map(parameter => parameter.name));
+    const supplied = Object.fromEntries(Object.entries(templateParameters || {}).filter(([name]) => names.has(name)));
+
+    try {
+      const parameters = this.catalog.validateParameters(template, supplied);
+      return { ...rest, template: { id: template.id, version: template.version, parameters } };
+    } catch (error) {
+      const problem = error instanceof Error ? error.message : String(error);
+      console.log(`[IntelligentAgentAnalyzer] ${problem}`);
+      return {
+        ...rest,
+        template: { id: template.id, version: template.version, parameters: supplied },
+        clarifyingQuestions: [...(rest.clarifyingQuestions || []), `${problem}. What should they be?`],
+        readyToBuild: false
+      };
+    }
+  }
+
   private createFallbackAnalysis(request: string): AgentPurposeAnalysis {
     const agentName = this.extractAgentName(request);
     
-    return {
+    return this.withTemplate({
       agentName,
       corePurpose: request,
       specificCapabilities: ['basic-responses'],
@@ -179,7 +201,7 @@ Request: "agent for customer support"
       ],
       readyToBuild: false,
       confidence: 0.3
-    };
+    });
   }
 
   private extractAgentName(request: string): string {
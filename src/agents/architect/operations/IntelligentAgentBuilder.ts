@@ -1,24 +1,38 @@
 // src/agents/architect/operations/IntelligentAgentBuilder.ts
-import { AgentSpec } from '../types/index.js';
-import Anthropic from '@anthropic-ai/sdk';
-import { promises as fs } from 'fs';
+import { AgentSpec, AgentValidationReport, IntelligentAgentBuildResult } from '../types/index.js';
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { AgentMessageBus, getMessageBus } from '../../../shared/messaging/index.js';
+import { AgentManifest, AgentPluginLoader } from '../../../shared/lifecycle/index.js';
+import { GeneratedAgentValidator } from './GeneratedAgentValidator.js';
+import { ModificationValidator } from './ModificationValidator.js';
+import { existsSync, promises as fs } from 'fs';
 import { execSync } from 'child_process';
 
 export class IntelligentAgentBuilder {
-  private claude: Anthropic;
-
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  private llm: LLMProvider;
+  private bus: AgentMessageBus;
+  private validator: GeneratedAgentValidator;
+
+  constructor(llm: LLMProvider, bus?: AgentMessageBus, validator?: GeneratedAgentValidator) {
+    this.llm = llm;
+    this.bus = bus || getMessageBus();
+    this.validator = validator || new GeneratedAgentValidator();
   }
 
-  async buildIntelligentAgent(request: string): Promise<any> {
+  async buildIntelligentAgent(request: string): Promise<IntelligentAgentBuildResult> {
     console.log(`[IntelligentAgentBuilder] Building: ${request}`);
     
+    const spec = await this.parseRequest(request);
+    const agentPath = `src/agents/${spec.name.toLowerCase()}`;
+    const manifest = this.manifestFor(spec);
+    const createdFiles: string[] = [];
+
+    // A failed build deletes the directory, so never generate over an existing agent
+    if (existsSync(agentPath)) {
+      return this.buildResult(spec, agentPath, [], false, false, undefined, `${agentPath} already exists`);
+    }
+
     try {
-      const spec = await this.parseRequest(request);
-      const agentPath = `src/agents/${spec.name.toLowerCase()}`;
-      const createdFiles: string[] = [];
-      
       // Create directories
       await this.createDirectories(agentPath);
       
@@ -38,30 +52,74 @@ export class IntelligentAgentBuilder {
       const typesFile = await this.generateTypes(spec, agentPath);
       createdFiles.push(typesFile);
       
-      // Update main index
-      await this.updateMainIndex(spec);
+      // Type-check and smoke test before anything is committed or started
+      const validation = await this.validator.validate({
+        manifest,
+        agentPath,
+        files: createdFiles,
+        prompts: GeneratedAgentValidator.samplePrompts(spec.capabilities, spec.purpose),
+        errorReplies: [/^Sorry, I encountered an error/]
+      });
+      if (!validation.passed) {
+        return this.buildResult(spec, agentPath, [], false, false, validation,
+          `${spec.name} failed validation:\n${ModificationValidator.summarize(validation).join('\n')}`);
+      }
+      
+      // Register with the plugin loader
+      createdFiles.push(await AgentPluginLoader.writeManifest(agentPath, manifest));
       
       // Commit changes
       const committed = await this.commitChanges(spec, createdFiles);
+      await this.requestStart(spec);
       
-      return {
-        summary: `${spec.name} created with ${createdFiles.length} files`,
-        files: createdFiles,
-        ready: true,
-        committed,
-        discordConfigured: true
-      };
+      return this.buildResult(spec, agentPath, createdFiles, true, committed, validation);
       
     } catch (error) {
-      return {
-        summary: `Failed to create agent`,
-        files: [],
-        ready: false,
-        error: error instanceof Error ? error.message : String(error)
-      };
+      return this.buildResult(spec, agentPath, [], false, false, undefined,
+        error instanceof Error ? error.message : String(error));
     }
   }
 
+  private buildResult(
+    spec: AgentSpec,
+    agentPath: string,
+    files: string[],
+    ready: boolean,
+    committed: boolean,
+    validation?: AgentValidationReport,
+    error?: string
+  ): IntelligentAgentBuildResult {
+    const removed = validation?.removed ? ', its files were removed' : '';
+    return {
+      summary: ready
+        ? `${spec.name} created with ${files.length} files (type-checked, ${validation?.smoke.length || 0} smoke prompts passed)`
+        : `Failed to create ${spec.name}${removed}`,
+      agentSpec: spec,
+      files,
+      agentPath,
+      capabilities: spec.capabilities,
+      intelligence: {
+        learningCapabilities: spec.intelligence?.learningCapabilities || [],
+        adaptationMethods: spec.intelligence?.adaptationMethods || [],
+        performanceMonitoring: spec.intelligence?.performanceMonitoring || false
+      },
+      ready,
+      committed,
+      codebaseImpact: {
+        newPatterns: [],
+        enhancedCapabilities: spec.capabilities,
+        systemImplications: []
+      },
+      environmentSetup: {
+        variables: Object.values(this.manifestFor(spec).config),
+        deploymentTriggered: false,
+        integrationComplete: ready
+      },
+      validation,
+      error
+    };
+  }
+
   private async parseRequest(request: string): Promise<AgentSpec> {
     const name = this.extractName(request) || 'TestBot';
     const purpose = this.extractPurpose(request) || 'Simple ping-pong responses';
@@ -105,20 +163,23 @@ export class IntelligentAgentBuilder {
     const mainContent = `import { ${spec.name}Discord } from './communication/${spec.name}Discord.js';
 import { ${spec.name}Voice } from './communication/${spec.name}Voice.js';
 import { ${spec.name}Orchestrator } from './core/${spec.name}Orchestrator.js';
+import { createLLMProvider, LLMProvider } from '../../shared/llm/index.js';
+import { ChatTransport } from '../../shared/transport/index.js';
 
 export class ${spec.name} {
   private discord: ${spec.name}Discord;
   private voice: ${spec.name}Voice;
   private orchestrator: ${spec.name}Orchestrator;
 
-  constructor(config: any) {
+  constructor(config: any, llm?: LLMProvider, transport?: ChatTransport) {
     this.voice = new ${spec.name}Voice();
-    this.orchestrator = new ${spec.name}Orchestrator(config.claudeApiKey);
+    this.orchestrator = new ${spec.name}Orchestrator(llm || createLLMProvider({ anthropicApiKey: config.claudeApiKey, agent: '${spec.name}' }));
     this.discord = new ${spec.name}Discord(
       config.${spec.name.toLowerCase()}Token,
       config.${spec.name.toLowerCase()}ChannelId,
       this.voice,
-      this.orchestrator
+      this.orchestrator,
+      transport
     );
     
     console.log('[${spec.name}] Initialized');
@@ -139,13 +200,13 @@ export class ${spec.name} {
     files.push(`${basePath}/${spec.name}.ts`);
     
     // Orchestrator
-    const orchestratorContent = `import Anthropic from '@anthropic-ai/sdk';
+    const orchestratorContent = `import { LLMProvider } from '../../../shared/llm/index.js';
 
 export class ${spec.name}Orchestrator {
-  private claude: Anthropic;
+  private llm: LLMProvider;
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   async processMessage(message: string, userId: string): Promise<string> {
@@ -163,14 +224,13 @@ export class ${spec.name}Orchestrator {
     return 'I\\'m a simple ping-pong bot! Try sending "ping" 🏓';
     ` : `
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 300,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 300,
         messages: [{ role: 'user', content: message }]
       });
       
-      const content = response.content[0];
-      return content.type === 'text' ? content.text : 'Processing...';
+      return response.text || 'Processing...';
     } catch (error) {
       return 'Sorry, I encountered an error processing your message.';
     }
@@ -221,58 +281,49 @@ export class ${spec.name}Orchestrator {
     const files: string[] = [];
     
     // Discord integration
-    const discordContent = `import { Client, GatewayIntentBits } from 'discord.js';
+    const discordContent = `import { ChatMessage, ChatTransport, DiscordTransport } from '../../../shared/transport/index.js';
 
 export class ${spec.name}Discord {
-  private client: Client;
-  private token: string;
+  private transport: ChatTransport;
   private channelId: string;
   private voice: any;
   private orchestrator: any;
 
-  constructor(token: string, channelId: string, voice: any, orchestrator: any) {
-    this.token = token;
+  constructor(token: string, channelId: string, voice: any, orchestrator: any, transport?: ChatTransport) {
     this.channelId = channelId;
     this.voice = voice;
     this.orchestrator = orchestrator;
-    
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent
-      ]
-    });
+    this.transport = transport || new DiscordTransport({ token, logPrefix: '${spec.name}Discord' });
 
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
-    this.client.once('ready', () => {
-      console.log(\`[${spec.name}Discord] Ready as \${this.client.user?.tag}\`);
+    this.transport.onReady(async () => {
+      console.log('[${spec.name}Discord] Ready');
     });
 
-    this.client.on('messageCreate', async (message) => {
-      if (message.author.bot || message.channelId !== this.channelId) return;
+    this.transport.onMessage(async (message: ChatMessage) => {
+      if (message.author.isBot || message.channelId !== this.channelId) return;
 
       try {
         const response = await this.orchestrator.processMessage(message.content, message.author.id);
         if (response) {
-          await message.reply(response);
+          await this.transport.reply(message, response);
         }
       } catch (error) {
         console.error(\`[${spec.name}Discord] Error:\`, error);
-        await message.reply('Sorry, I encountered an error.');
+        await this.transport.reply(message, 'Sorry, I encountered an error.');
       }
     });
   }
 
   async start(): Promise<void> {
-    await this.client.login(this.token);
+    await this.transport.start();
   }
 
   async stop(): Promise<void> {
-    this.client.destroy();
+    await this.transport.stop();
   }
 }`;
     
@@ -314,49 +365,33 @@ export interface ${spec.name}Message {
     return typesFile;
   }
 
-  private async updateMainIndex(spec: AgentSpec): Promise<void> {
-    try {
-      const indexPath = 'src/index.ts';
-      const content = await fs.readFile(indexPath, 'utf8');
-      const lines = content.split('\n');
-      
-      // Add import
-      const importStatement = `import { ${spec.name} } from './agents/${spec.name.toLowerCase()}/${spec.name}.js';`;
-      if (!content.includes(importStatement)) {
-        lines.splice(1, 0, importStatement);
-      }
-      
-      // Add startup function
-      const startFunction = `
-async function start${spec.name}() {
-  const ${spec.name.toLowerCase()}Config = {
-    ${spec.name.toLowerCase()}Token: process.env.${spec.name.toUpperCase()}_DISCORD_TOKEN!,
-    ${spec.name.toLowerCase()}ChannelId: process.env.${spec.name.toUpperCase()}_CHANNEL_ID!,
-    claudeApiKey: process.env.CLAUDE_API_KEY!
-  };
-
-  if (${spec.name.toLowerCase()}Config.${spec.name.toLowerCase()}Token && ${spec.name.toLowerCase()}Config.${spec.name.toLowerCase()}ChannelId) {
-    const ${spec.name.toLowerCase()} = new ${spec.name}(${spec.name.toLowerCase()}Config);
-    await ${spec.name.toLowerCase()}.start();
-  } else {
-    console.log('[${spec.name}] Environment variables not set, skipping startup');
+  // The plugin loader discovers the agent from its manifest, so index.ts is never edited
+  private manifestFor(spec: AgentSpec): AgentManifest {
+    const prefix = spec.name.toUpperCase();
+    return {
+      name: spec.name,
+      entry: `./${spec.name}.js`,
+      purpose: spec.purpose,
+      capabilities: spec.capabilities,
+      config: {
+        [`${spec.name.toLowerCase()}Token`]: `${prefix}_DISCORD_TOKEN`,
+        [`${spec.name.toLowerCase()}ChannelId`]: `${prefix}_CHANNEL_ID`,
+        claudeApiKey: 'CLAUDE_API_KEY'
+      },
+      requiredEnv: [`${prefix}_DISCORD_TOKEN`, `${prefix}_CHANNEL_ID`],
+      channelEnv: `${prefix}_CHANNEL_ID`
+    };
   }
-}`;
-      
-      const promiseAllIndex = lines.findIndex(line => line.includes('Promise.all'));
-      if (promiseAllIndex !== -1) {
-        lines.splice(promiseAllIndex, 0, startFunction);
-        const promiseAllLine = lines[promiseAllIndex + startFunction.split('\n').length];
-        lines[promiseAllIndex + startFunction.split('\n').length] = promiseAllLine.replace(
-          '])',
-          `,\n  start${spec.name}()\n])`
-        );
-      }
-      
-      await fs.writeFile(indexPath, lines.join('\n'));
-      console.log(`[IntelligentAgentBuilder] Updated index.ts for ${spec.name}`);
+
+  private async requestStart(spec: AgentSpec): Promise<void> {
+    try {
+      await this.bus.publish(this.bus.createMessage('plugin_control', 'Architect', 'PluginLoader', {
+        action: 'start',
+        agent: spec.name,
+        requestedBy: 'Architect'
+      }));
     } catch (error) {
-      console.error(`[IntelligentAgentBuilder] Failed to update index.ts:`, error);
+      console.error(`[IntelligentAgentBuilder] Failed to request start of ${spec.name}:`, error);
     }
   }
 
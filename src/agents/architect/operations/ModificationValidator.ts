@@ -0,0 +1,250 @@
+import { execFile } from 'child_process';
+import { builtinModules } from 'module';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { ValidationConfig, ValidationResult, ValidationStep } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_VALIDATION: ValidationConfig = {
+  typeCheck: true,
+  tsconfig: 'tsconfig.json',
+  checkImports: true,
+  timeoutMs: 5 * 60 * 1000
+};
+
+const MAX_REPORTED_ERRORS = 20;
+// TS1xxx are syntax errors; while any exist tsc stops before the semantic pass
+const SYNTAX_ERROR = /error TS1\d{3}:/;
+
+/**
+ * Runs the checks a modified tree must pass: tsc --noEmit, the configured
+ * test command, and resolution of imports in the touched files. The tree
+ * may already have type errors, so only errors beyond those in a baseline
+ * taken before the change count as failures.
+ */
+export class ModificationValidator {
+  private config: ValidationConfig;
+  // Type error counts per base commit, so the baseline is only computed once per commit
+  private baselines: Map<string, Map<string, number>> = new Map();
+
+  constructor(config: Partial<ValidationConfig> = {}) {
+    this.config = { ...DEFAULT_VALIDATION, ...config };
+  }
+
+  configure(config: Partial<ValidationConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Type errors of `rootDir` before any change is applied. Cached when a
+   * commit is given, since the same commit always has the same errors.
+   */
+  async baseline(rootDir: string, commit?: string): Promise<Map<string, number>> {
+    if (!this.config.typeCheck) return new Map();
+
+    const cached = commit ? this.baselines.get(commit) : undefined;
+    if (cached) return cached;
+
+    // Counted, so a second copy of an existing error is still a new error
+    const errors = new Map<string, number>();
+    for (const error of await this.collectTypeErrors(rootDir)) {
+      const key = this.errorKey(error);
+      errors.set(key, (errors.get(key) || 0) + 1);
+    }
+    if (commit) {
+      this.baselines.set(commit, errors);
+    }
+    return errors;
+  }
+
+  async validate(rootDir: string, files: string[], baseline: Map<string, number> = new Map()): Promise<ValidationResult> {
+    const steps: ValidationStep[] = [];
+
+    if (this.config.checkImports) {
+      steps.push(await this.checkImports(rootDir, files));
+    }
+
+    if (this.config.typeCheck) {
+      const remaining = new Map(baseline);
+      const errors = (await this.collectTypeErrors(rootDir)).filter(error => {
+        const key = this.errorKey(error);
+        const count = remaining.get(key) || 0;
+        if (count === 0) return true;
+        remaining.set(key, count - 1);
+        return false;
+      });
+      steps.push({ name: 'typecheck', passed: errors.length === 0, errors });
+    }
+
+    // Tests only mean something once the code compiles
+    if (this.config.testCommand && steps.every(step => step.passed)) {
+      steps.push(await this.runTests(rootDir, this.config.testCommand));
+    }
+
+    const result = { passed: steps.every(step => step.passed), steps };
+    console.log(`[ModificationValidator] ${result.passed ? '✅' : '❌'} ${steps.map(step => `${step.name}: ${step.passed ? 'ok' : `${step.errors.length} error(s)`}`).join(', ')}`);
+    return result;
+  }
+
+  // Flattened, capped error list for reporting back to the user or the LLM
+  static summarize(result: ValidationResult): string[] {
+    const errors = result.steps
+      .filter(step => !step.passed)
+      .flatMap(step => step.errors.map(error => `[${step.name}] ${error}`));
+
+    return errors.length > MAX_REPORTED_ERRORS
+      ? [...errors.slice(0, MAX_REPORTED_ERRORS), `... and ${errors.length - MAX_REPORTED_ERRORS} more`]
+      : errors;
+  }
+
+  /**
+   * tsc only reports type errors once every file parses, so one file with
+   * syntax errors hides all of them. When that happens the files that don't
+   * parse are left out and the rest of the tree is checked again.
+   */
+  private async collectTypeErrors(rootDir: string): Promise<string[]> {
+    const errors = await this.runTsc(rootDir, this.config.tsconfig);
+    if (errors.length === 0 || !errors.every(error => SYNTAX_ERROR.test(error))) {
+      return errors;
+    }
+
+    const unparsable = Array.from(new Set(errors.map(error => error.replace(/\(\d+,\d+\).*$/, ''))));
+    const tsconfig = await this.tsconfigWithout(rootDir, unparsable);
+    if (!tsconfig) {
+      console.warn(`[ModificationValidator] ⚠️ Type check is blind: syntax errors in ${unparsable.join(', ')} stop tsc before it checks types`);
+      return errors;
+    }
+
+    try {
+      const rest = await this.runTsc(rootDir, tsconfig);
+      if (rest.length > 0 && rest.every(error => SYNTAX_ERROR.test(error))) {
+        // Other files import the unparsable ones, which pulls them back into the program
+        console.warn(`[ModificationValidator] ⚠️ Type check is blind: syntax errors in ${unparsable.join(', ')} stop tsc before it checks types`);
+      }
+      return [...errors, ...rest.filter(error => !errors.includes(error))];
+    } finally {
+      await fs.rm(tsconfig, { force: true });
+    }
+  }
+
+  // A temporary tsconfig with the same options and every root file except `files`
+  private async tsconfigWithout(rootDir: string, files: string[]): Promise<string | null> {
+    const base = path.resolve(rootDir, this.config.tsconfig);
+    let rootFiles: string[];
+    try {
+      const { stdout } = await this.execTsc(rootDir, ['--showConfig', '-p', base]);
+      rootFiles = (JSON.parse(stdout).files || []).map((file: string) => path.resolve(path.dirname(base), file));
+    } catch (error) {
+      return null;
+    }
+
+    const excluded = new Set(files.map(file => path.resolve(rootDir, file)));
+    const tsconfig = path.join(os.tmpdir(), `tsconfig.validate.${process.pid}.${Date.now()}.json`);
+    await fs.writeFile(tsconfig, JSON.stringify({
+      extends: base,
+      files: rootFiles.filter(file => !excluded.has(file)),
+      include: []
+    }));
+    return tsconfig;
+  }
+
+  private async runTsc(rootDir: string, tsconfig: string): Promise<string[]> {
+    try {
+      await this.execTsc(rootDir, ['--noEmit', '-p', tsconfig]);
+      return [];
+    } catch (error) {
+      const output = `${(error as any).stdout || ''}${(error as any).stderr || ''}`;
+      const errors = output.split('\n').filter(line => /error TS\d+:/.test(line)).map(line => line.trim());
+
+      if (errors.length === 0) {
+        // tsc itself failed to run (missing, timed out, bad tsconfig)
+        return [`tsc failed: ${(error as any).killed ? 'timed out' : output.trim().split('\n')[0] || (error as Error).message}`];
+      }
+      return errors;
+    }
+  }
+
+  private async execTsc(rootDir: string, args: string[]): Promise<{ stdout: string; stderr: string }> {
+    const localTsc = path.join(rootDir, 'node_modules', '.bin', 'tsc');
+    const hasLocalTsc = await fs.access(localTsc).then(() => true, () => false);
+    const [command, commandArgs] = hasLocalTsc
+      ? [localTsc, args]
+      : ['npx', ['--no-install', 'tsc', ...args]];
+
+    return execFileAsync(command, commandArgs, { cwd: rootDir, timeout: this.config.timeoutMs, maxBuffer: 20 * 1024 * 1024 });
+  }
+
+  // Line numbers move with every edit, so errors are compared by file, code and message
+  private errorKey(error: string): string {
+    return error.replace(/^(.*?)\(\d+,\d+\)/, '$1');
+  }
+
+  private async runTests(rootDir: string, testCommand: string): Promise<ValidationStep> {
+    try {
+      await execFileAsync('sh', ['-c', testCommand], { cwd: rootDir, timeout: this.config.timeoutMs, maxBuffer: 20 * 1024 * 1024 });
+      return { name: 'tests', passed: true, errors: [] };
+    } catch (error) {
+      const output = `${(error as any).stdout || ''}${(error as any).stderr || ''}`.trim();
+      const tail = output.split('\n').slice(-MAX_REPORTED_ERRORS);
+      return {
+        name: 'tests',
+        passed: false,
+        errors: [`\`${testCommand}\` ${(error as any).killed ? 'timed out' : `exited with ${(error as any).code}`}`, ...tail]
+      };
+    }
+  }
+
+  private async checkImports(rootDir: string, files: string[]): Promise<ValidationStep> {
+    const errors: string[] = [];
+    const importPattern = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*\(\s*['"]([^'"]+)['"]\s*\)|import\s+['"]([^'"]+)['"]/g;
+
+    for (const file of files.filter(file => /\.(ts|tsx|js|mjs)$/.test(file))) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(rootDir, file), 'utf8');
+      } catch (error) {
+        continue; // Deleted by the plan
+      }
+
+      for (const match of content.matchAll(importPattern)) {
+        const specifier = match[1] || match[2] || match[3];
+        if (!(await this.resolves(rootDir, file, specifier))) {
+          errors.push(`${file}: cannot resolve '${specifier}'`);
+        }
+      }
+    }
+
+    return { name: 'imports', passed: errors.length === 0, errors };
+  }
+
+  private async resolves(rootDir: string, fromFile: string, specifier: string): Promise<boolean> {
+    const exists = (candidate: string) => fs.access(candidate).then(() => true, () => false);
+
+    if (specifier.startsWith('.')) {
+      const base = path.resolve(rootDir, path.dirname(fromFile), specifier);
+      // ESM imports name the emitted .js file while the source is .ts
+      const candidates = [
+        base,
+        base.replace(/\.js$/, '.ts'),
+        base.replace(/\.js$/, '.tsx'),
+        `${base}.ts`,
+        path.join(base, 'index.ts')
+      ];
+      for (const candidate of candidates) {
+        if (await exists(candidate) && (await fs.stat(candidate)).isFile()) return true;
+      }
+      return false;
+    }
+
+    if (specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0])) {
+      return true;
+    }
+
+    const parts = specifier.split('/');
+    const packageName = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+    return exists(path.join(rootDir, 'node_modules', packageName));
+  }
+}
@@ -0,0 +1,303 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface Workspace {
+  id: string;
+  kind: 'git' | 'copy';
+  path: string;
+  branch: string;
+  baseBranch: string;
+  baseCommit: string;
+  touched: Set<string>; // Repo-relative paths written or deleted in this workspace
+}
+
+/**
+ * Isolated place to apply one ModificationPlan. In a git checkout this is a
+ * worktree on its own branch, so nothing touches the main working tree until
+ * merge(). Without git it falls back to a copy of src/ that is written back
+ * file by file on merge.
+ */
+export class ModificationWorkspace {
+  private repoPath: string;
+  private rootDir: string;
+
+  constructor(repoPath: string = process.cwd(), rootDir: string = path.join(os.tmpdir(), 'architect-worktrees')) {
+    this.repoPath = path.resolve(repoPath);
+    this.rootDir = rootDir;
+  }
+
+  isGitRepository(): boolean {
+    try {
+      this.git(['rev-parse', '--is-inside-work-tree']);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async create(id: string): Promise<Workspace> {
+    const workspacePath = path.join(this.rootDir, id);
+    await fs.mkdir(this.rootDir, { recursive: true });
+
+    if (this.isGitRepository()) {
+      const branch = `architect/${id}`;
+      const baseBranch = this.git(['rev-parse', '--abbrev-ref', 'HEAD']).trim();
+      const baseCommit = this.git(['rev-parse', 'HEAD']).trim();
+      this.git(['worktree', 'add', '-b', branch, workspacePath, baseCommit]);
+      await this.linkDependencies(workspacePath);
+
+      console.log(`[ModificationWorkspace] Created worktree ${workspacePath} on ${branch}`);
+      return { id, kind: 'git', path: workspacePath, branch, baseBranch, baseCommit, touched: new Set() };
+    }
+
+    await fs.cp(path.join(this.repoPath, 'src'), path.join(workspacePath, 'src'), { recursive: true });
+    for (const file of ['tsconfig.json', 'package.json']) {
+      await fs.copyFile(path.join(this.repoPath, file), path.join(workspacePath, file)).catch(() => {});
+    }
+    await this.linkDependencies(workspacePath);
+    console.log(`[ModificationWorkspace] Git unavailable, working on a copy in ${workspacePath}`);
+    return { id, kind: 'copy', path: workspacePath, branch: id, baseBranch: 'working tree', baseCommit: '', touched: new Set() };
+  }
+
+  /**
+   * Absolute path of a repo-relative file inside the workspace. Marks the file
+   * as touched so merges and diffs only consider what the plan changed.
+   */
+  resolve(workspace: Workspace, file: string): string {
+    const relative = path.normalize(file).replace(/^(\.\.(\/|\\|$))+/, '');
+    workspace.touched.add(relative);
+    return path.join(workspace.path, relative);
+  }
+
+  async commit(workspace: Workspace, message: string): Promise<string | null> {
+    if (workspace.kind !== 'git') return null;
+
+    this.git(['add', '-A', '--', ...workspace.touched], workspace.path);
+    if (!this.git(['diff', '--cached', '--name-only'], workspace.path).trim()) {
+      return null;
+    }
+
+    this.git(['commit', '-m', message], workspace.path, this.identityEnv());
+    return this.git(['rev-parse', 'HEAD'], workspace.path).trim();
+  }
+
+  // HEAD of the main working tree, to tell whether the base moved since a workspace was created
+  headCommit(): string | null {
+    try {
+      return this.git(['rev-parse', 'HEAD']).trim();
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Repo-relative paths under `dir` that are modified or untracked; empty without git
+  uncommittedFiles(dir: string): string[] {
+    if (!this.isGitRepository()) return [];
+    return this.git(['status', '--porcelain', '--untracked-files=all', '--', dir])
+      .split('\n')
+      .filter(Boolean)
+      .map(line => line.substring(3));
+  }
+
+  // Repo-relative paths git tracks under `dir`, or null without git
+  trackedFiles(dir: string): string[] | null {
+    if (!this.isGitRepository()) return null;
+    return this.git(['ls-files', '--', dir]).split('\n').filter(Boolean);
+  }
+
+  async diff(workspace: Workspace): Promise<string> {
+    if (workspace.kind === 'git') {
+      return this.git(['diff', `${workspace.baseCommit}..${workspace.branch}`]);
+    }
+
+    // Without git, list what would be written back
+    const lines: string[] = [];
+    for (const file of workspace.touched) {
+      const exists = await fs.access(path.join(workspace.path, file)).then(() => true, () => false);
+      lines.push(`${exists ? 'M' : 'D'} ${file}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Brings the workspace's changes into the main working tree. Git refuses the
+   * merge if local uncommitted edits would be overwritten, which is the point.
+   */
+  async merge(workspace: Workspace, message: string): Promise<string> {
+    if (workspace.kind === 'git') {
+      const current = this.git(['rev-parse', '--abbrev-ref', 'HEAD']).trim();
+      if (current !== workspace.baseBranch) {
+        throw new Error(`Checked out branch is ${current}, expected ${workspace.baseBranch}. Switch back before merging.`);
+      }
+
+      try {
+        this.git(['merge', '--no-ff', '-m', message, workspace.branch], this.repoPath, this.identityEnv());
+      } catch (error) {
+        // Leave the main tree as it was; the branch stays around for another attempt
+        try {
+          this.git(['merge', '--abort']);
+        } catch (abortError) {
+          // Nothing to abort: git refused before starting
+        }
+        const stderr = (error as any).stderr?.toString().trim();
+        throw new Error(`Merge of ${workspace.branch} failed${stderr ? `: ${stderr}` : ''}`);
+      }
+      const mergeCommit = this.git(['rev-parse', 'HEAD']).trim();
+      await this.discard(workspace);
+      return mergeCommit;
+    }
+
+    for (const file of workspace.touched) {
+      const source = path.join(workspace.path, file);
+      const target = path.join(this.repoPath, file);
+      const exists = await fs.access(source).then(() => true, () => false);
+      if (exists) {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.copyFile(source, target);
+      } else {
+        await fs.rm(target, { force: true });
+      }
+    }
+    await this.discard(workspace);
+    return workspace.id;
+  }
+
+  // Undoes a merged plan with a new commit, keeping later history and local edits intact
+  async revert(mergeCommit: string): Promise<void> {
+    try {
+      this.git(['revert', '--no-edit', '-m', '1', mergeCommit], this.repoPath, this.identityEnv());
+    } catch (error) {
+      try {
+        this.git(['revert', '--abort']);
+      } catch (abortError) {
+        // Nothing to abort
+      }
+      const stderr = (error as any).stderr?.toString().trim();
+      throw new Error(`Revert of ${mergeCommit} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+  }
+
+  async discard(workspace: Workspace): Promise<void> {
+    if (workspace.kind === 'git') {
+      try {
+        this.git(['worktree', 'remove', '--force', workspace.path]);
+      } catch (error) {
+        console.error(`[ModificationWorkspace] Failed to remove worktree ${workspace.path}:`, error);
+      }
+      try {
+        this.git(['branch', '-D', workspace.branch]);
+      } catch (error) {
+        // Already gone
+      }
+      return;
+    }
+
+    await fs.rm(workspace.path, { recursive: true, force: true });
+  }
+
+  // Whether a workspace recorded before a restart is still on disk (temp dirs may be wiped)
+  async exists(workspace: Workspace): Promise<boolean> {
+    const onDisk = await fs.access(workspace.path).then(() => true, () => false);
+    if (!onDisk || workspace.kind !== 'git') return onDisk;
+
+    try {
+      this.git(['rev-parse', '--verify', '--quiet', `refs/heads/${workspace.branch}`]);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Removes workspaces and architect/ branches that none of `keep` owns, e.g.
+   * those left behind when the process stopped with modifications pending.
+   * Returns how many were removed.
+   */
+  async prune(keep: Workspace[]): Promise<number> {
+    const root = await fs.realpath(this.rootDir).catch(() => path.resolve(this.rootDir));
+    const keepNames = new Set(keep.map(workspace => path.basename(workspace.path)));
+    let removed = 0;
+
+    if (!this.isGitRepository()) {
+      const entries = await fs.readdir(root).catch(() => [] as string[]);
+      for (const entry of entries.filter(entry => !keepNames.has(entry))) {
+        await fs.rm(path.join(root, entry), { recursive: true, force: true });
+        removed++;
+      }
+      return removed;
+    }
+
+    // Forget worktrees whose directories are already gone, then remove the ones nothing owns
+    this.git(['worktree', 'prune']);
+    const worktrees = this.git(['worktree', 'list', '--porcelain'])
+      .split('\n')
+      .filter(line => line.startsWith('worktree '))
+      .map(line => line.substring('worktree '.length));
+    for (const worktree of worktrees) {
+      if (path.dirname(worktree) !== root || keepNames.has(path.basename(worktree))) continue;
+      try {
+        this.git(['worktree', 'remove', '--force', worktree]);
+        removed++;
+      } catch (error) {
+        console.error(`[ModificationWorkspace] Failed to remove orphaned worktree ${worktree}:`, error);
+      }
+    }
+
+    const keepBranches = new Set(keep.map(workspace => workspace.branch));
+    const branches = this.git(['for-each-ref', '--format=%(refname:short)', 'refs/heads/architect/'])
+      .split('\n')
+      .filter(Boolean);
+    for (const branch of branches) {
+      if (keepBranches.has(branch)) continue;
+      try {
+        this.git(['branch', '-D', branch]);
+        removed++;
+      } catch (error) {
+        console.error(`[ModificationWorkspace] Failed to delete orphaned branch ${branch}:`, error);
+      }
+    }
+
+    return removed;
+  }
+
+  // Validation runs tsc and tests inside the workspace, which needs the installed packages
+  private async linkDependencies(workspacePath: string): Promise<void> {
+    const modules = path.join(this.repoPath, 'node_modules');
+    if (!(await fs.access(modules).then(() => true, () => false))) return;
+
+    try {
+      await fs.symlink(modules, path.join(workspacePath, 'node_modules'), 'dir');
+    } catch (error) {
+      console.warn(`[ModificationWorkspace] Could not link node_modules into ${workspacePath}:`, error);
+    }
+  }
+
+  // git commit refuses to run without an identity; only fill in what config lacks
+  private identityEnv(): NodeJS.ProcessEnv {
+    try {
+      this.git(['config', 'user.name']);
+      this.git(['config', 'user.email']);
+      return process.env;
+    } catch (error) {
+      return {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Architect',
+        GIT_AUTHOR_EMAIL: 'architect@localhost',
+        GIT_COMMITTER_NAME: 'Architect',
+        GIT_COMMITTER_EMAIL: 'architect@localhost'
+      };
+    }
+  }
+
+  private git(args: string[], cwd: string = this.repoPath, env: NodeJS.ProcessEnv = process.env): string {
+    return execFileSync('git', args, {
+      cwd,
+      env,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 20 * 1024 * 1024
+    });
+  }
+}
@@ -1,92 +1,249 @@
-import { promises as fs } from 'fs';
-import { AgentSpec } from '../types/index.js';
-
-interface AgentPurposeAnalysis {
-  agentName: string;
-  corePurpose: string;
-  specificCapabilities: string[];
-  interactionPatterns: string[];
-  responseTypes: string[];
-  dataNeeds: string[];
-  integrationNeeds: string[];
-  learningAspects: string[];
-  clarifyingQuestions: string[];
-  readyToBuild: boolean;
-  confidence: number;
-}
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import {
+  AgentPurposeAnalysis,
+  AgentSpec,
+  AgentGenerationRecord,
+  AgentTemplate,
+  AgentValidationReport,
+  IntelligentAgentBuildResult
+} from '../types/index.js';
+import { AgentMessageBus, getMessageBus } from '../../../shared/messaging/index.js';
+import { AgentManifest, AgentPluginLoader } from '../../../shared/lifecycle/index.js';
+import { ScriptedRule } from '../../../shared/llm/index.js';
+import { GeneratedAgentValidator } from './GeneratedAgentValidator.js';
+import { ModificationValidator } from './ModificationValidator.js';
+import { UnifiedDiff } from './UnifiedDiff.js';
+import { AgentTemplateCatalog, CustomRegions } from '../templates/index.js';
+
+export const GENERATION_RECORD_FILE = 'generation.json';
 
 export class PurposeDrivenAgentBuilder {
   private claudeApiKey: string;
   private discordToken?: string;
+  private bus: AgentMessageBus;
+  private validator: GeneratedAgentValidator;
+  private catalog: AgentTemplateCatalog;
 
-  constructor(claudeApiKey: string, discordToken?: string) {
+  constructor(
+    claudeApiKey: string,
+    discordToken?: string,
+    bus?: AgentMessageBus,
+    validator?: GeneratedAgentValidator,
+    catalog?: AgentTemplateCatalog
+  ) {
     this.claudeApiKey = claudeApiKey;
     this.discordToken = discordToken;
+    this.bus = bus || getMessageBus();
+    this.validator = validator || new GeneratedAgentValidator();
+    this.catalog = catalog || new AgentTemplateCatalog();
   }
 
-  async buildPurposeDrivenAgent(analysis: AgentPurposeAnalysis): Promise<any> {
+  async buildPurposeDrivenAgent(analysis: AgentPurposeAnalysis): Promise<IntelligentAgentBuildResult> {
     console.log(`[PurposeDrivenAgentBuilder] Building ${analysis.agentName} for: ${analysis.corePurpose}`);
     
-    const agentPath = `src/agents/${analysis.agentName.toLowerCase()}`;
+    const agentPath = PurposeDrivenAgentBuilder.agentPath(analysis.agentName);
     const createdFiles: string[] = [];
     
+    // Rejected builds are deleted, so an existing agent is never generated over
+    if (existsSync(agentPath)) {
+      return this.buildResult(analysis, agentPath, [], false, undefined, `${agentPath} already exists`);
+    }
+    
     try {
+      // 0. Render everything first, so invalid template parameters fail before any file is written
+      const rendered = this.renderAgent(analysis);
+      analysis = rendered.analysis;
+      
       // 1. Create Commander-style folder structure
       await this.createStandardDirectories(agentPath);
       
-      // 2. Generate purpose-specific core files
-      const coreFiles = await this.generatePurposeSpecificCore(analysis, agentPath);
-      createdFiles.push(...coreFiles);
-      
-      // 3. Generate communication layer
-      const commFiles = await this.generateCommunicationLayer(analysis, agentPath);
-      createdFiles.push(...commFiles);
-      
-      // 4. Generate intelligence layer
-      const intelligenceFiles = await this.generateIntelligenceLayer(analysis, agentPath);
-      createdFiles.push(...intelligenceFiles);
-      
-      // 5. Generate workflow layer
-      const workflowFiles = await this.generateWorkflowLayer(analysis, agentPath);
-      createdFiles.push(...workflowFiles);
+      // 2. Write the core, communication, intelligence, workflow and support layers
+      for (const [file, content] of Object.entries(rendered.files)) {
+        await fs.writeFile(file, content);
+        createdFiles.push(file);
+      }
       
-      // 6. Generate types and index
-      const supportFiles = await this.generateSupportFiles(analysis, agentPath);
-      createdFiles.push(...supportFiles);
+      // 3. Type-check and smoke test each capability before the agent goes live
+      const validation = await this.validate(analysis, agentPath, createdFiles);
+      if (!validation.passed) {
+        return this.buildResult(analysis, agentPath, [], false, validation,
+          `${analysis.agentName} failed validation:\n${ModificationValidator.summarize(validation).join('\n')}`);
+      }
       
-      // 7. Update main index.ts
-      await this.updateMainIndex(analysis);
+      // 4. Record what it was built from, then hand it to the plugin loader
+      createdFiles.push(await PurposeDrivenAgentBuilder.writeGenerationRecord(agentPath, this.generationRecord(analysis, rendered.files)));
+      createdFiles.push(await this.registerWithLoader(analysis, agentPath));
       
       console.log(`[PurposeDrivenAgentBuilder] ✅ Created ${analysis.agentName} with ${createdFiles.length} files`);
       
-      return {
-        summary: `${analysis.agentName} created for ${analysis.corePurpose}`,
-        files: createdFiles,
-        ready: true,
-        agentName: analysis.agentName,
-        agentPath,
-        architecture: 'Purpose-driven with Commander structure',
-        purpose: analysis.corePurpose,
-        capabilities: analysis.specificCapabilities,
-        environmentVars: [
-          `${analysis.agentName.toUpperCase()}_DISCORD_TOKEN`,
-          `${analysis.agentName.toUpperCase()}_USER_CHANNEL_ID`,
-          `${analysis.agentName.toUpperCase()}_AGENT_CHANNEL_ID`,
-          'CLAUDE_API_KEY'
-        ]
-      };
+      return this.buildResult(analysis, agentPath, createdFiles, true, validation);
       
     } catch (error) {
       console.error(`[PurposeDrivenAgentBuilder] Failed to create ${analysis.agentName}:`, error);
-      return {
-        summary: `Failed to create ${analysis.agentName}: ${error.message}`,
-        files: createdFiles,
-        ready: false,
-        error: error.message
-      };
+      const message = error instanceof Error ? error.message : String(error);
+      // The directory didn't exist before this build, so a half-written agent can go entirely
+      await fs.rm(agentPath, { recursive: true, force: true }).catch(cleanupError => {
+        console.error(`[PurposeDrivenAgentBuilder] Failed to remove ${agentPath}:`, cleanupError);
+      });
+      return this.buildResult(analysis, agentPath, [], false, undefined, message);
     }
   }
 
+  static agentPath(agentName: string): string {
+    return `src/agents/${agentName.toLowerCase()}`;
+  }
+
+  /**
+   * Every file of the agent, by path, rendered on the newest version of its
+   * template. The returned analysis records the template and the validated
+   * parameters that were used.
+   */
+  renderAgent(analysis: AgentPurposeAnalysis): { analysis: AgentPurposeAnalysis; files: Record<string, string> } {
+    const template = this.resolveTemplate(analysis);
+    const parameters = analysis.template?.id === template.id ? analysis.template.parameters : {};
+    const behavior = this.catalog.render(template, {
+      agentName: analysis.agentName,
+      purpose: analysis.corePurpose,
+      capabilities: analysis.specificCapabilities,
+      parameters
+    });
+    console.log(`[PurposeDrivenAgentBuilder] Using the ${template.name} template v${template.version}`);
+
+    const resolved: AgentPurposeAnalysis = {
+      ...analysis,
+      template: { id: template.id, version: template.version, parameters: this.catalog.validateParameters(template, parameters) }
+    };
+    return { analysis: resolved, files: this.renderFiles(resolved, PurposeDrivenAgentBuilder.agentPath(analysis.agentName), behavior) };
+  }
+
+  // Hashes skip custom regions, so a later regeneration can tell which files were edited outside them
+  generationRecord(analysis: AgentPurposeAnalysis, files: Record<string, string>): AgentGenerationRecord {
+    const agentPath = PurposeDrivenAgentBuilder.agentPath(analysis.agentName);
+    const hashes: Record<string, string> = {};
+    for (const [file, content] of Object.entries(files)) {
+      hashes[path.relative(agentPath, file)] = UnifiedDiff.hash(CustomRegions.strip(content));
+    }
+
+    return {
+      builder: 'purpose-driven',
+      generatedAt: new Date().toISOString(),
+      template: analysis.template!,
+      analysis,
+      files: hashes
+    };
+  }
+
+  static formatGenerationRecord(record: AgentGenerationRecord): string {
+    return JSON.stringify(record, null, 2) + '\n';
+  }
+
+  static async writeGenerationRecord(agentPath: string, record: AgentGenerationRecord): Promise<string> {
+    const file = path.join(agentPath, GENERATION_RECORD_FILE);
+    await fs.writeFile(file, this.formatGenerationRecord(record));
+    return file;
+  }
+
+  // Null for agents built before records were kept, or by another builder
+  static async readGenerationRecord(agentPath: string): Promise<AgentGenerationRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(agentPath, GENERATION_RECORD_FILE), 'utf8'));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // The analyzer's pick, or a fresh one for analyses made without it; always the newest version
+  private resolveTemplate(analysis: AgentPurposeAnalysis): AgentTemplate {
+    if (!analysis.template) {
+      return this.catalog.select(analysis);
+    }
+    const template = this.catalog.get(analysis.template.id);
+    if (!template) {
+      throw new Error(`Unknown agent template ${analysis.template.id}`);
+    }
+    return template;
+  }
+
+  private async validate(analysis: AgentPurposeAnalysis, agentPath: string, files: string[]): Promise<AgentValidationReport> {
+    const prompts = GeneratedAgentValidator.samplePrompts(analysis.specificCapabilities, analysis.corePurpose);
+
+    // Answer each prompt's intent analysis with its capability, so every capability handler runs
+    const llmRules: ScriptedRule[] = prompts.slice(0, analysis.specificCapabilities.length).map((prompt, index) => ({
+      match: `USER INPUT: "${prompt}"`,
+      response: JSON.stringify({
+        capability: analysis.specificCapabilities[index].toLowerCase(),
+        confidence: 0.9,
+        parameters: { extracted_info: prompt },
+        reasoning: 'Smoke test'
+      })
+    }));
+
+    return this.validator.validate({
+      manifest: this.manifestFor(analysis),
+      agentPath,
+      files,
+      prompts,
+      llmRules,
+      errorReplies: [/I encountered an error/, /I had trouble with/, /having trouble understanding that request/]
+    });
+  }
+
+  private buildResult(
+    analysis: AgentPurposeAnalysis,
+    agentPath: string,
+    files: string[],
+    ready: boolean,
+    validation?: AgentValidationReport,
+    error?: string
+  ): IntelligentAgentBuildResult {
+    const spec: AgentSpec = {
+      name: analysis.agentName,
+      purpose: analysis.corePurpose,
+      capabilities: analysis.specificCapabilities,
+      dependencies: ['discord.js'],
+      structure: {
+        core: [`${analysis.agentName}.ts`, 'core/PurposeRouter.ts', 'core/CapabilityHandler.ts', 'core/TemplateBehavior.ts'],
+        intelligence: [`intelligence/${analysis.agentName}Intelligence.ts`, 'intelligence/LearningSystem.ts'],
+        communication: ['communication/DiscordInterface.ts', 'communication/VoiceSystem.ts']
+      },
+      discordIntegration: true
+    };
+
+    return {
+      summary: ready
+        ? `${analysis.agentName} created for ${analysis.corePurpose}`
+        : `Failed to create ${analysis.agentName}${validation?.removed ? ', its files were removed' : ''}`,
+      agentSpec: spec,
+      files,
+      agentPath,
+      capabilities: analysis.specificCapabilities,
+      intelligence: {
+        learningCapabilities: analysis.learningAspects,
+        adaptationMethods: [],
+        performanceMonitoring: false
+      },
+      ready,
+      committed: false,
+      codebaseImpact: {
+        newPatterns: [
+          'Purpose-driven with Commander structure',
+          ...(analysis.template ? [`${analysis.template.id} template v${analysis.template.version}`] : [])
+        ],
+        enhancedCapabilities: analysis.specificCapabilities,
+        systemImplications: analysis.integrationNeeds
+      },
+      environmentSetup: {
+        variables: Object.values(this.manifestFor(analysis).config),
+        deploymentTriggered: false,
+        integrationComplete: ready
+      },
+      validation,
+      template: analysis.template,
+      error
+    };
+  }
+
   private async createStandardDirectories(basePath: string): Promise<void> {
     const dirs = [
       basePath,
@@ -102,62 +259,75 @@ export class PurposeDrivenAgentBuilder {
     }
   }
 
-  private async generatePurposeSpecificCore(analysis: AgentPurposeAnalysis, basePath: string): Promise<string[]> {
-    const files: string[] = [];
-    
-    // Main agent file - purpose-specific
-    const mainFile = `${basePath}/${analysis.agentName}.ts`;
-    const mainContent = this.generateMainAgentFile(analysis);
-    await fs.writeFile(mainFile, mainContent);
-    files.push(mainFile);
-    
-    // Purpose-specific router
-    const routerFile = `${basePath}/core/PurposeRouter.ts`;
-    const routerContent = this.generatePurposeRouter(analysis);
-    await fs.writeFile(routerFile, routerContent);
-    files.push(routerFile);
-    
-    // Capability handler
-    const capabilityFile = `${basePath}/core/CapabilityHandler.ts`;
-    const capabilityContent = this.generateCapabilityHandler(analysis);
-    await fs.writeFile(capabilityFile, capabilityContent);
-    files.push(capabilityFile);
-    
-    return files;
+  private renderFiles(analysis: AgentPurposeAnalysis, basePath: string, behavior: string): Record<string, string> {
+    return {
+      // Purpose-specific core; the router and capability handler defer to the template behavior
+      [`${basePath}/${analysis.agentName}.ts`]: this.generateMainAgentFile(analysis),
+      [`${basePath}/core/PurposeRouter.ts`]: this.generatePurposeRouter(analysis),
+      [`${basePath}/core/CapabilityHandler.ts`]: this.generateCapabilityHandler(analysis),
+      [`${basePath}/core/TemplateBehavior.ts`]: behavior,
+      
+      // Communication layer
+      [`${basePath}/communication/DiscordInterface.ts`]: this.generateDiscordInterface(analysis),
+      [`${basePath}/communication/VoiceSystem.ts`]: this.generateVoiceSystem(analysis),
+      
+      // Intelligence layer
+      [`${basePath}/intelligence/${analysis.agentName}Intelligence.ts`]: this.generatePurposeIntelligence(analysis),
+      [`${basePath}/intelligence/LearningSystem.ts`]: this.generateLearningSystem(analysis),
+      
+      // Workflow layer
+      [`${basePath}/workflow/WorkManager.ts`]: this.generateWorkManager(analysis),
+      
+      // Types and index
+      [`${basePath}/types/index.ts`]: this.generateTypes(analysis),
+      [`${basePath}/index.ts`]: this.generateIndex(analysis)
+    };
   }
 
   private generateMainAgentFile(analysis: AgentPurposeAnalysis): string {
     return `import { DiscordInterface } from './communication/DiscordInterface.js';
 import { VoiceSystem } from './communication/VoiceSystem.js';
 import { PurposeRouter } from './core/PurposeRouter.js';
+import { TemplateBehavior } from './core/TemplateBehavior.js';
 import { ${analysis.agentName}Intelligence } from './intelligence/${analysis.agentName}Intelligence.js';
 import { LearningSystem } from './intelligence/LearningSystem.js';
 import { WorkManager } from './workflow/WorkManager.js';
 import { ${analysis.agentName}Config } from './types/index.js';
+import { createLLMProvider, LLMProvider } from '../../shared/llm/index.js';
+import { ChatTransport } from '../../shared/transport/index.js';
 
 export class ${analysis.agentName} {
   private discordInterface: DiscordInterface;
   private voiceSystem: VoiceSystem;
   private router: PurposeRouter;
+  private behavior: TemplateBehavior;
   private intelligence: ${analysis.agentName}Intelligence;
   private learningSystem: LearningSystem;
   private workManager: WorkManager;
   private config: ${analysis.agentName}Config;
 
-  constructor(config: ${analysis.agentName}Config) {
+  constructor(config: ${analysis.agentName}Config, llm?: LLMProvider, transport?: ChatTransport) {
     this.config = config;
     
     // Initialize systems
-    this.discordInterface = new DiscordInterface(config);
-    this.voiceSystem = new VoiceSystem(config.claudeApiKey, "${analysis.agentName}");
-    this.intelligence = new ${analysis.agentName}Intelligence(config.claudeApiKey);
+    const provider = llm || createLLMProvider({ anthropicApiKey: config.claudeApiKey, agent: "${analysis.agentName}" });
+    this.discordInterface = new DiscordInterface(config, transport);
+    this.voiceSystem = new VoiceSystem(provider, "${analysis.agentName}");
+    this.intelligence = new ${analysis.agentName}Intelligence(provider);
     this.learningSystem = new LearningSystem(config.claudeApiKey);
     this.workManager = new WorkManager();
+    this.behavior = new TemplateBehavior({
+      llm: provider,
+      send: async (content) => {
+        await this.discordInterface.sendMessage(content);
+      }
+    });
     this.router = new PurposeRouter(
       this.intelligence,
       this.learningSystem,
       this.workManager,
-      this.voiceSystem
+      this.voiceSystem,
+      this.behavior
     );
     
     console.log('[${analysis.agentName}] Purpose: ${analysis.corePurpose}');
@@ -176,12 +346,19 @@ export class ${analysis.agentName} {
       }
     });
 
-    // Start Discord interface
+    // Start Discord interface, then the template's own work
     await this.discordInterface.start();
+    await this.behavior.start();
     
     console.log('[${analysis.agentName}] 🤖 ${analysis.agentName} online - Ready for ${analysis.corePurpose}');
   }
 
+  async stop(): Promise<void> {
+    await this.behavior.stop();
+    await this.discordInterface.stop();
+    console.log('[${analysis.agentName}] Stopped');
+  }
+
   private async handleUserInteraction(input: string, userId: string, messageId: string): Promise<void> {
     console.log(\`[${analysis.agentName}] Processing: "\${input}"\`);
     
@@ -231,6 +408,7 @@ import { LearningSystem } from '../intelligence/LearningSystem.js';
 import { WorkManager } from '../workflow/WorkManager.js';
 import { VoiceSystem } from '../communication/VoiceSystem.js';
 import { CapabilityHandler } from './CapabilityHandler.js';
+import { TemplateBehavior } from './TemplateBehavior.js';
 
 export class PurposeRouter {
   private intelligence: ${analysis.agentName}Intelligence;
@@ -238,18 +416,21 @@ export class PurposeRouter {
   private workManager: WorkManager;
   private voiceSystem: VoiceSystem;
   private capabilityHandler: CapabilityHandler;
+  private behavior: TemplateBehavior;
 
   constructor(
     intelligence: ${analysis.agentName}Intelligence,
     learningSystem: LearningSystem,
     workManager: WorkManager,
-    voiceSystem: VoiceSystem
+    voiceSystem: VoiceSystem,
+    behavior: TemplateBehavior
   ) {
     this.intelligence = intelligence;
     this.learningSystem = learningSystem;
     this.workManager = workManager;
     this.voiceSystem = voiceSystem;
-    this.capabilityHandler = new CapabilityHandler();
+    this.behavior = behavior;
+    this.capabilityHandler = new CapabilityHandler(behavior);
     
     console.log('[${analysis.agentName}Router] Purpose router initialized');
   }
@@ -321,6 +502,11 @@ ${analysis.specificCapabilities.map(cap => {
 
   private async handleGeneralRequest(input: string, intent: any, userId: string): Promise<{ message: string; type: string }> {
     // Handle general requests that don't match specific capabilities
+    const reply = await this.behavior.handle(input, userId);
+    if (reply) {
+      return { message: reply, type: 'response' };
+    }
+    
     return {
       message: \`I understand you want help with "\${input}". As ${analysis.agentName}, I'm specialized in ${analysis.corePurpose}. Could you be more specific about what you need?\`,
       type: 'clarification'
@@ -338,11 +524,16 @@ ${analysis.specificCapabilities.map(cap => {
     
     // ${analysis.agentName}-specific logic for: ${cap}
     try {
-      // TODO: Implement specific logic for ${cap}
+      const reply = await this.behavior.handle(input, userId, ${JSON.stringify(cap)});
+      if (reply) {
+        return { message: reply, type: 'response' };
+      }
+      
+${CustomRegions.wrap(`capability.${methodName}`, `      // TODO: Implement specific logic for ${cap}
       return {
         message: \`I'm handling your request for ${cap}. Input: "\${input}"\`,
         type: 'working'
-      };
+      };`, '      ')}
     } catch (error) {
       console.error(\`[${analysis.agentName}Capabilities] ${cap} failed:\`, error);
       return {
@@ -353,73 +544,55 @@ ${analysis.specificCapabilities.map(cap => {
   }`;
     });
 
-    return `export class CapabilityHandler {
-  constructor() {
+    return `// Code between <custom:...> markers is kept when this agent is regenerated on a newer
+// template. Edits anywhere else keep the file from being regenerated at all.
+import { TemplateBehavior } from './TemplateBehavior.js';
+${CustomRegions.wrap('imports', '')}
+
+export class CapabilityHandler {
+  private behavior: TemplateBehavior;
+
+  constructor(behavior: TemplateBehavior) {
+    this.behavior = behavior;
     console.log('[${analysis.agentName}Capabilities] Capability handler initialized');
   }
 
 ${capabilityMethods.join('\n\n')}
-}`;
-  }
 
-  private async generateCommunicationLayer(analysis: AgentPurposeAnalysis, basePath: string): Promise<string[]> {
-    const files: string[] = [];
-    
-    // Discord interface - standard
-    const discordFile = `${basePath}/communication/DiscordInterface.ts`;
-    const discordContent = this.generateDiscordInterface(analysis);
-    await fs.writeFile(discordFile, discordContent);
-    files.push(discordFile);
-    
-    // Voice system - purpose-specific
-    const voiceFile = `${basePath}/communication/VoiceSystem.ts`;
-    const voiceContent = this.generateVoiceSystem(analysis);
-    await fs.writeFile(voiceFile, voiceContent);
-    files.push(voiceFile);
-    
-    return files;
+${CustomRegions.wrap('members', '', '  ')}
+}`;
   }
 
   private generateDiscordInterface(analysis: AgentPurposeAnalysis): string {
-    return `import { Client, GatewayIntentBits, TextChannel, Message } from 'discord.js';
+    return `import { ChatMessage, ChatTransport, DiscordTransport } from '../../../shared/transport/index.js';
 import { ${analysis.agentName}Config } from '../types/index.js';
 
 export class DiscordInterface {
-  private client: Client;
-  private userChannel: TextChannel | null = null;
-  private agentChannel: TextChannel | null = null;
+  private transport: ChatTransport;
   private config: ${analysis.agentName}Config;
-  private messageHandlers: Array<(message: Message) => Promise<void>> = [];
+  private messageHandlers: Array<(message: ChatMessage) => Promise<void>> = [];
   private messageContext: Map<string, {input: string, response: string}> = new Map();
 
-  constructor(config: ${analysis.agentName}Config) {
+  constructor(config: ${analysis.agentName}Config, transport?: ChatTransport) {
     this.config = config;
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent,
-        GatewayIntentBits.GuildMessageReactions
-      ]
+    this.transport = transport || new DiscordTransport({
+      token: config.${analysis.agentName.toLowerCase()}Token,
+      presence: { name: '${analysis.corePurpose}', type: 3 },
+      logPrefix: '${analysis.agentName}Discord'
     });
     
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
-    this.client.once('ready', async () => {
-      console.log(\`[${analysis.agentName}Discord] Connected as \${this.client.user?.tag}\`);
-      this.userChannel = this.client.channels.cache.get(this.config.userChannelId) as TextChannel;
-      this.agentChannel = this.client.channels.cache.get(this.config.agentChannelId) as TextChannel;
-      
-      this.client.user?.setPresence({
-        activities: [{ name: '${analysis.corePurpose}', type: 3 }],
-        status: 'online'
-      });
+    this.transport.onReady(async () => {
+      if (!this.transport.hasChannel(this.config.userChannelId)) {
+        console.warn(\`[${analysis.agentName}Discord] User channel \${this.config.userChannelId} not found\`);
+      }
     });
 
-    this.client.on('messageCreate', async (message) => {
-      if (message.author.bot) return;
+    this.transport.onMessage(async (message) => {
+      if (message.author.isBot) return;
       if (message.channelId !== this.config.userChannelId) return;
       
       for (const handler of this.messageHandlers) {
@@ -428,15 +601,13 @@ export class DiscordInterface {
     });
   }
 
-  onMessage(handler: (message: Message) => Promise<void>): void {
+  onMessage(handler: (message: ChatMessage) => Promise<void>): void {
     this.messageHandlers.push(handler);
   }
 
-  async sendMessage(content: string): Promise<Message | null> {
-    if (!this.userChannel) return null;
-    
+  async sendMessage(content: string): Promise<ChatMessage | null> {
     try {
-      return await this.userChannel.send(content);
+      return await this.transport.send(this.config.userChannelId, content);
     } catch (error) {
       console.error('[${analysis.agentName}Discord] Failed to send message:', error);
       return null;
@@ -449,39 +620,43 @@ export class DiscordInterface {
     // Keep only last 20 messages
     if (this.messageContext.size > 20) {
       const firstKey = this.messageContext.keys().next().value;
-      this.messageContext.delete(firstKey);
+      if (firstKey !== undefined) this.messageContext.delete(firstKey);
     }
   }
 
   async start(): Promise<void> {
-    await this.client.login(this.config.${analysis.agentName.toLowerCase()}Token);
+    await this.transport.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.transport.stop();
   }
 
   get isReady(): boolean {
-    return this.client.isReady();
+    return this.transport.isReady();
   }
 }`;
   }
 
   private generateVoiceSystem(analysis: AgentPurposeAnalysis): string {
-    return `import Anthropic from '@anthropic-ai/sdk';
+    return `import { LLMProvider, estimateCost } from '../../../shared/llm/index.js';
 
 export class VoiceSystem {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private agentName: string;
   private totalTokens = 0;
   private totalCost = 0;
 
-  constructor(claudeApiKey: string, agentName: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider, agentName: string) {
+    this.llm = llm;
     this.agentName = agentName;
   }
 
   async formatResponse(content: string, context: any = {}): Promise<string> {
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 300,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 300,
         messages: [{
           role: 'user',
           content: \`You are \${this.agentName}, specialized in ${analysis.corePurpose}.
@@ -504,14 +679,11 @@ Keep it:
       });
 
       // Track usage
-      if (response.usage) {
-        this.totalTokens += response.usage.input_tokens + response.usage.output_tokens;
-        this.totalCost += (response.usage.input_tokens * 0.00025 + response.usage.output_tokens * 0.00125) / 1000;
-      }
+      this.totalTokens += response.usage.inputTokens + response.usage.outputTokens;
+      this.totalCost += estimateCost(response.model, response.usage, response.provider);
 
-      const formatted = response.content[0];
-      if (formatted.type === 'text') {
-        return formatted.text;
+      if (response.text) {
+        return response.text;
       }
       
       return content;
@@ -538,41 +710,23 @@ Keep it:
 }`;
   }
 
-  private async generateIntelligenceLayer(analysis: AgentPurposeAnalysis, basePath: string): Promise<string[]> {
-    const files: string[] = [];
-    
-    // Purpose-specific intelligence
-    const intelligenceFile = `${basePath}/intelligence/${analysis.agentName}Intelligence.ts`;
-    const intelligenceContent = this.generatePurposeIntelligence(analysis);
-    await fs.writeFile(intelligenceFile, intelligenceContent);
-    files.push(intelligenceFile);
-    
-    // Learning system
-    const learningFile = `${basePath}/intelligence/LearningSystem.ts`;
-    const learningContent = this.generateLearningSystem(analysis);
-    await fs.writeFile(learningFile, learningContent);
-    files.push(learningFile);
-    
-    return files;
-  }
-
   private generatePurposeIntelligence(analysis: AgentPurposeAnalysis): string {
-    return `import Anthropic from '@anthropic-ai/sdk';
+    return `import { LLMProvider } from '../../../shared/llm/index.js';
 
 export class ${analysis.agentName}Intelligence {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   async analyzePurposeIntent(input: string): Promise<any> {
     console.log('[${analysis.agentName}Intelligence] Analyzing purpose-specific intent');
     
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 500,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 500,
         messages: [{
           role: 'user',
           content: \`You are ${analysis.agentName}, specialized in ${analysis.corePurpose}.
@@ -598,10 +752,9 @@ If the input doesn't match any specific capability, use "general" as the capabil
         }]
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
+      if (response.text) {
         try {
-          return JSON.parse(content.text);
+          return JSON.parse(response.text);
         } catch (parseError) {
           return this.fallbackIntent(input);
         }
@@ -700,18 +853,6 @@ If the input doesn't match any specific capability, use "general" as the capabil
 }`;
   }
 
-  private async generateWorkflowLayer(analysis: AgentPurposeAnalysis, basePath: string): Promise<string[]> {
-    const files: string[] = [];
-    
-    // Work manager
-    const workManagerFile = `${basePath}/workflow/WorkManager.ts`;
-    const workManagerContent = this.generateWorkManager(analysis);
-    await fs.writeFile(workManagerFile, workManagerContent);
-    files.push(workManagerFile);
-    
-    return files;
-  }
-
   private generateWorkManager(analysis: AgentPurposeAnalysis): string {
     return `export class WorkManager {
   private activeWork: Map<string, any> = new Map();
@@ -764,24 +905,6 @@ If the input doesn't match any specific capability, use "general" as the capabil
 }`;
   }
 
-  private async generateSupportFiles(analysis: AgentPurposeAnalysis, basePath: string): Promise<string[]> {
-    const files: string[] = [];
-    
-    // Types
-    const typesFile = `${basePath}/types/index.ts`;
-    const typesContent = this.generateTypes(analysis);
-    await fs.writeFile(typesFile, typesContent);
-    files.push(typesFile);
-    
-    // Index
-    const indexFile = `${basePath}/index.ts`;
-    const indexContent = this.generateIndex(analysis);
-    await fs.writeFile(indexFile, indexContent);
-    files.push(indexFile);
-    
-    return files;
-  }
-
   private generateTypes(analysis: AgentPurposeAnalysis): string {
     return `// ${analysis.agentName} Types - Purpose: ${analysis.corePurpose}
 
@@ -838,7 +961,7 @@ export * from './types/index.js';
 
 // Quick start function
 export async function start${analysis.agentName}(): Promise<void> {
-  const { ${analysis.agentName} } from await import('./${analysis.agentName}.js');
+  const { ${analysis.agentName} } = await import('./${analysis.agentName}.js');
   
   const config = {
     ${analysis.agentName.toLowerCase()}Token: process.env.${analysis.agentName.toUpperCase()}_DISCORD_TOKEN!,
@@ -852,62 +975,37 @@ export async function start${analysis.agentName}(): Promise<void> {
 }`;
   }
 
-  private async updateMainIndex(analysis: AgentPurposeAnalysis): Promise<void> {
-    try {
-      const indexPath = 'src/index.ts';
-      const currentContent = await fs.readFile(indexPath, 'utf8');
-      
-      const importLine = `import { ${analysis.agentName} } from './agents/${analysis.agentName.toLowerCase()}/${analysis.agentName}.js';`;
-      
-      if (currentContent.includes(importLine)) {
-        console.log(`[PurposeDrivenAgentBuilder] ${analysis.agentName} already integrated in index.ts`);
-        return;
-      }
-      
-      const lines = currentContent.split('\n');
-      const lastImportIndex = lines.map((line, index) => line.startsWith('import') ? index : -1)
-        .filter(index => index !== -1)
-        .pop() ?? -1;
-      
-      lines.splice(lastImportIndex + 1, 0, importLine);
-      
-      const startFunctionName = `start${analysis.agentName}`;
-      const startFunction = `
-async function ${startFunctionName}() {
-  const ${analysis.agentName.toLowerCase()}Config = {
-    ${analysis.agentName.toLowerCase()}Token: process.env.${analysis.agentName.toUpperCase()}_DISCORD_TOKEN!,
-    userChannelId: process.env.${analysis.agentName.toUpperCase()}_USER_CHANNEL_ID!,
-    agentChannelId: process.env.${analysis.agentName.toUpperCase()}_AGENT_CHANNEL_ID!,
-    claudeApiKey: process.env.CLAUDE_API_KEY!
-  };
-
-  if (${analysis.agentName.toLowerCase()}Config.${analysis.agentName.toLowerCase()}Token && ${analysis.agentName.toLowerCase()}Config.userChannelId) {
-    const ${analysis.agentName.toLowerCase()} = new ${analysis.agentName}(${analysis.agentName.toLowerCase()}Config);
-    await ${analysis.agentName.toLowerCase()}.start();
-  } else {
-    console.log('[${analysis.agentName}] Environment variables not set, skipping startup');
+  private manifestFor(analysis: AgentPurposeAnalysis): AgentManifest {
+    const prefix = analysis.agentName.toUpperCase();
+    return {
+      name: analysis.agentName,
+      entry: `./${analysis.agentName}.js`,
+      purpose: analysis.corePurpose,
+      capabilities: analysis.specificCapabilities,
+      config: {
+        [`${analysis.agentName.toLowerCase()}Token`]: `${prefix}_DISCORD_TOKEN`,
+        userChannelId: `${prefix}_USER_CHANNEL_ID`,
+        agentChannelId: `${prefix}_AGENT_CHANNEL_ID`,
+        claudeApiKey: 'CLAUDE_API_KEY'
+      },
+      requiredEnv: [`${prefix}_DISCORD_TOKEN`, `${prefix}_USER_CHANNEL_ID`],
+      channelEnv: `${prefix}_USER_CHANNEL_ID`
+    };
   }
-}`;
-      
-      const promiseAllIndex = lines.findIndex(line => line.includes('Promise.all'));
-      if (promiseAllIndex !== -1) {
-        lines.splice(promiseAllIndex, 0, startFunction);
-        
-        const promiseAllLine = lines[promiseAllIndex + startFunction.split('\n').length];
-        if (promiseAllLine.includes('startCommander()')) {
-          lines[promiseAllIndex + startFunction.split('\n').length] = promiseAllLine.replace(
-            '])',
-            `,\n  ${startFunctionName}()\n])`
-          );
-        }
-      }
-      
-      await fs.writeFile(indexPath, lines.join('\n'));
-      console.log(`[PurposeDrivenAgentBuilder] Updated index.ts to include ${analysis.agentName}`);
-      
+
+  // The plugin loader discovers the agent from its manifest and starts it on request
+  private async registerWithLoader(analysis: AgentPurposeAnalysis, basePath: string): Promise<string> {
+    const manifestFile = await AgentPluginLoader.writeManifest(basePath, this.manifestFor(analysis));
+
+    try {
+      await this.bus.publish(this.bus.createMessage('plugin_control', 'Architect', 'PluginLoader', {
+        action: 'start',
+        agent: analysis.agentName,
+        requestedBy: 'Architect'
+      }));
     } catch (error) {
-      console.error('[PurposeDrivenAgentBuilder] Failed to update main index:', error);
-      throw error;
+      console.error(`[PurposeDrivenAgentBuilder] Failed to request start of ${analysis.agentName}:`, error);
     }
+    return manifestFile;
   }
 }
@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FileSnapshot } from '../types/index.js';
+import { UnifiedDiff } from './UnifiedDiff.js';
+
+/**
+ * Content-addressed storage for file versions under data/backups/objects.
+ * Identical content is stored once, so snapshotting the few files a
+ * modification touches is cheap compared to copying all of src.
+ */
+export class SnapshotStore {
+  private objectsDir: string;
+
+  constructor(backupDir: string = 'data/backups') {
+    this.objectsDir = path.join(backupDir, 'objects');
+  }
+
+  async put(content: string): Promise<string> {
+    const hash = UnifiedDiff.hash(content);
+    const file = this.objectPath(hash);
+
+    if (!(await fs.access(file).then(() => true, () => false))) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, content);
+    }
+    return hash;
+  }
+
+  async get(hash: string): Promise<string> {
+    return fs.readFile(this.objectPath(hash), 'utf8');
+  }
+
+  async snapshot(files: string[], rootDir: string = process.cwd()): Promise<FileSnapshot> {
+    const snapshot: FileSnapshot = {};
+    for (const file of files) {
+      try {
+        snapshot[file] = await this.put(await fs.readFile(path.join(rootDir, file), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        snapshot[file] = null;
+      }
+    }
+    return snapshot;
+  }
+
+  async read(snapshot: FileSnapshot, file: string): Promise<string | null> {
+    const hash = snapshot[file];
+    return hash ? this.get(hash) : null;
+  }
+
+  /**
+   * Removes every object not in `referenced`. Returns how many were deleted.
+   */
+  async prune(referenced: Set<string>): Promise<number> {
+    let removed = 0;
+    let prefixes: string[];
+    try {
+      prefixes = await fs.readdir(this.objectsDir);
+    } catch (error) {
+      return 0;
+    }
+
+    for (const prefix of prefixes) {
+      const dir = path.join(this.objectsDir, prefix);
+      for (const hash of await fs.readdir(dir)) {
+        if (!referenced.has(hash)) {
+          await fs.rm(path.join(dir, hash), { force: true });
+          removed++;
+        }
+      }
+      if ((await fs.readdir(dir)).length === 0) {
+        await fs.rmdir(dir);
+      }
+    }
+    return removed;
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.objectsDir, hash.substring(0, 2), hash);
+  }
+}
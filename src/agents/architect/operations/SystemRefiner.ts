@@ -1,13 +1,13 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import fs from 'fs/promises';
 import { createClient } from 'redis';
 
 export class SystemRefiner {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private redis?: any;
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
     this.initRedis();
   }
 
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UnifiedDiff } from './UnifiedDiff.js';
+
+const ORIGINAL = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+
+function roundTrip(oldContent: string | null, newContent: string | null): void {
+  const diff = UnifiedDiff.create('file.ts', oldContent, newContent);
+  assert.equal(UnifiedDiff.apply(oldContent, diff, 'file.ts'), newContent);
+}
+
+test('edits, insertions and deletions round-trip', () => {
+  roundTrip(ORIGINAL, ORIGINAL.replace('line 3\n', 'line three\n'));
+  roundTrip(ORIGINAL, ORIGINAL.replace('line 10\n', 'line 10\ninserted\n'));
+  roundTrip(ORIGINAL, ORIGINAL.replace('line 1\n', '').replace('line 20\n', ''));
+  roundTrip(ORIGINAL, 'prepended\n' + ORIGINAL.replace('line 15\n', 'changed\n') + 'appended\n');
+});
+
+test('creating and deleting a file round-trip', () => {
+  roundTrip(null, 'new file\n');
+  roundTrip(ORIGINAL, null);
+});
+
+test('adding or dropping the final newline is a change', () => {
+  const withoutNewline = ORIGINAL.slice(0, -1);
+  assert.notEqual(UnifiedDiff.create('file.ts', ORIGINAL, withoutNewline), '');
+  roundTrip(ORIGINAL, withoutNewline);
+  roundTrip(withoutNewline, ORIGINAL);
+});
+
+test('identical content has an empty diff that applies as a no-op', () => {
+  assert.equal(UnifiedDiff.create('file.ts', ORIGINAL, ORIGINAL), '');
+  assert.equal(UnifiedDiff.apply(ORIGINAL, ''), ORIGINAL);
+});
+
+test('a hunk still applies after lines were added above it', () => {
+  const diff = UnifiedDiff.create('file.ts', ORIGINAL, ORIGINAL.replace('line 15\n', 'line fifteen\n'));
+  const drifted = 'header 1\nheader 2\n' + ORIGINAL;
+
+  assert.equal(UnifiedDiff.apply(drifted, diff), drifted.replace('line 15\n', 'line fifteen\n'));
+});
+
+test('a hunk whose lines changed since the diff was made is a conflict', () => {
+  const diff = UnifiedDiff.create('file.ts', ORIGINAL, ORIGINAL.replace('line 15\n', 'line fifteen\n'));
+
+  assert.throws(() => UnifiedDiff.apply(ORIGINAL.replace('line 15\n', 'edited elsewhere\n'), diff, 'file.ts'), /Conflict in file.ts/);
+  assert.throws(() => UnifiedDiff.apply(null, diff, 'file.ts'), /no longer exists/);
+  assert.throws(() => UnifiedDiff.apply(ORIGINAL, UnifiedDiff.create('file.ts', null, 'new\n'), 'file.ts'), /already exists/);
+});
+
+test('stats count added and removed lines', () => {
+  const diff = UnifiedDiff.create('file.ts', ORIGINAL, ORIGINAL.replace('line 3\n', 'line three\nextra\n').replace('line 18\n', ''));
+
+  assert.deepEqual(UnifiedDiff.stats(diff), { additions: 2, deletions: 2 });
+});
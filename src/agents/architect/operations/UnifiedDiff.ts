@@ -0,0 +1,278 @@
+import crypto from 'crypto';
+
+interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Prefixed with ' ', '-' or '+'
+}
+
+type Edit = { type: ' ' | '-' | '+'; line: string };
+
+const CONTEXT_LINES = 3;
+// How far a hunk may have drifted from its recorded position and still apply
+const MAX_HUNK_OFFSET = 200;
+// Marks a last line that has no newline after it, so adding or dropping the final newline is a change
+const NO_NEWLINE = '\0';
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Minimal unified diff support for ModificationPlan changes: create a diff
+ * between two versions of a file, and apply one back with conflict detection
+ * when the file has changed since the diff was made.
+ */
+export class UnifiedDiff {
+  static hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Diff of `oldContent` → `newContent`. Pass null for a file that does not
+   * exist on that side (creation or deletion).
+   */
+  static create(file: string, oldContent: string | null, newContent: string | null): string {
+    const oldLines = this.splitLines(oldContent || '');
+    const newLines = this.splitLines(newContent || '');
+    const edits = this.computeEdits(oldLines, newLines);
+
+    if (!edits.some(edit => edit.type !== ' ')) {
+      return '';
+    }
+
+    const header = [
+      `--- ${oldContent === null ? '/dev/null' : `a/${file}`}`,
+      `+++ ${newContent === null ? '/dev/null' : `b/${file}`}`
+    ];
+
+    return [...header, ...this.buildHunks(edits).map(hunk => this.formatHunk(hunk))].join('\n') + '\n';
+  }
+
+  /**
+   * Applies `diff` to `content` (null when the file does not exist). Hunks are
+   * matched on their context and removed lines, searching near the recorded
+   * position; throws when a hunk no longer matches so the caller can re-plan.
+   */
+  static apply(content: string | null, diff: string, file: string = 'file'): string | null {
+    if (!diff.trim()) return content;
+
+    const header = diff.substring(0, Math.max(0, diff.indexOf('\n@@')));
+    const deletesFile = /^\+\+\+ \/dev\/null$/m.test(header);
+    const createsFile = /^--- \/dev\/null$/m.test(header);
+
+    if (createsFile && content !== null) {
+      throw new Error(`Conflict in ${file}: expected a new file but it already exists`);
+    }
+    if (!createsFile && content === null) {
+      throw new Error(`Conflict in ${file}: file no longer exists`);
+    }
+
+    const lines = this.splitLines(content || '');
+    const hunks = this.parseHunks(diff);
+    let offset = 0;
+
+    for (const hunk of hunks) {
+      const expected = hunk.lines.filter(line => !line.startsWith('+')).map(line => line.substring(1));
+      const replacement = hunk.lines.filter(line => !line.startsWith('-')).map(line => line.substring(1));
+      // Zero-length old ranges point at the line before the insertion
+      const origin = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+
+      const position = this.findHunk(lines, expected, origin);
+      if (position === -1) {
+        throw new Error(`Conflict in ${file}: hunk @@ -${hunk.oldStart},${hunk.oldLines} @@ no longer matches the file`);
+      }
+
+      lines.splice(position, expected.length, ...replacement);
+      offset += position - origin + replacement.length - expected.length;
+    }
+
+    if (deletesFile) {
+      if (lines.length > 0) {
+        throw new Error(`Conflict in ${file}: file has content the deletion did not expect`);
+      }
+      return null;
+    }
+
+    return this.joinLines(lines);
+  }
+
+  static stats(diff: string): { additions: number; deletions: number } {
+    let additions = 0;
+    let deletions = 0;
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('+') && !line.startsWith('+++')) additions++;
+      if (line.startsWith('-') && !line.startsWith('---')) deletions++;
+    }
+    return { additions, deletions };
+  }
+
+  private static findHunk(lines: string[], expected: string[], origin: number): number {
+    const matchesAt = (start: number) =>
+      start >= 0 && start + expected.length <= lines.length &&
+      expected.every((line, i) => lines[start + i] === line);
+
+    for (let distance = 0; distance <= MAX_HUNK_OFFSET; distance++) {
+      if (matchesAt(origin - distance)) return origin - distance;
+      if (distance > 0 && matchesAt(origin + distance)) return origin + distance;
+    }
+    return -1;
+  }
+
+  // Longest common subsequence over the differing middle section
+  private static computeEdits(oldLines: string[], newLines: string[]): Edit[] {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+      oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const width = b.length + 1;
+    const table = new Uint32Array((a.length + 1) * width);
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i * width + j] = a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    const edits: Edit[] = oldLines.slice(0, prefix).map(line => ({ type: ' ' as const, line }));
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        edits.push({ type: ' ', line: a[i] });
+        i++;
+        j++;
+      } else if (i < a.length && (j >= b.length || table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+        // Removals first on ties, so a replaced line reads as - then +
+        edits.push({ type: '-', line: a[i++] });
+      } else {
+        edits.push({ type: '+', line: b[j++] });
+      }
+    }
+    edits.push(...oldLines.slice(oldLines.length - suffix).map(line => ({ type: ' ' as const, line })));
+
+    return edits;
+  }
+
+  private static buildHunks(edits: Edit[]): Hunk[] {
+    // Line numbers (1-based) each edit sits at on the old and new side
+    const oldAt: number[] = [];
+    const newAt: number[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    for (const edit of edits) {
+      oldAt.push(oldLine);
+      newAt.push(newLine);
+      if (edit.type !== '+') oldLine++;
+      if (edit.type !== '-') newLine++;
+    }
+
+    // Changes closer than two context windows share a hunk
+    const changed = edits.map((edit, i) => edit.type !== ' ' ? i : -1).filter(i => i !== -1);
+    const groups: Array<[number, number]> = [];
+    for (const index of changed) {
+      const last = groups[groups.length - 1];
+      if (last && index - last[1] <= CONTEXT_LINES * 2) {
+        last[1] = index;
+      } else {
+        groups.push([index, index]);
+      }
+    }
+
+    return groups.map(([first, last]) => {
+      const from = Math.max(0, first - CONTEXT_LINES);
+      const to = Math.min(edits.length - 1, last + CONTEXT_LINES);
+      const slice = edits.slice(from, to + 1);
+      const oldLines = slice.filter(edit => edit.type !== '+').length;
+      const newLines = slice.filter(edit => edit.type !== '-').length;
+
+      return {
+        // Empty ranges start at the line before, per the unified format
+        oldStart: oldLines === 0 ? oldAt[from] - 1 : oldAt[from],
+        oldLines,
+        newStart: newLines === 0 ? newAt[from] - 1 : newAt[from],
+        newLines,
+        lines: slice.map(edit => `${edit.type}${edit.line}`)
+      };
+    });
+  }
+
+  private static formatHunk(hunk: Hunk): string {
+    const lines = hunk.lines.map(line =>
+      line.endsWith(NO_NEWLINE) ? `${line.slice(0, -1)}\n${NO_NEWLINE_MARKER}` : line);
+    return [`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...lines].join('\n');
+  }
+
+  private static parseHunks(diff: string): Hunk[] {
+    const hunks: Hunk[] = [];
+    const lines = diff.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const header = lines[i].match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (!header) continue;
+
+      const hunk: Hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: []
+      };
+
+      // Read by count so content lines that look like headers are kept
+      let oldSeen = 0;
+      let newSeen = 0;
+      while ((oldSeen < hunk.oldLines || newSeen < hunk.newLines) && i + 1 < lines.length) {
+        const line = lines[++i];
+        if (line.startsWith('\\')) {
+          // "\ No newline at end of file" applies to the line before it
+          if (hunk.lines.length > 0) hunk.lines[hunk.lines.length - 1] += NO_NEWLINE;
+          continue;
+        }
+        const marked = line === '' ? ' ' : line; // Some tools strip the space from empty context lines
+        if (marked[0] !== '-') newSeen++;
+        if (marked[0] !== '+') oldSeen++;
+        hunk.lines.push(marked);
+      }
+
+      // The marker follows a hunk's last line, after the counts are already met
+      if (lines[i + 1]?.startsWith('\\') && hunk.lines.length > 0) {
+        hunk.lines[hunk.lines.length - 1] += NO_NEWLINE;
+        i++;
+      }
+
+      hunks.push(hunk);
+    }
+
+    return hunks;
+  }
+
+  private static splitLines(content: string): string[] {
+    if (content === '') return [];
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    } else {
+      lines[lines.length - 1] += NO_NEWLINE;
+    }
+    return lines;
+  }
+
+  private static joinLines(lines: string[]): string {
+    if (lines.length === 0) return '';
+    const text = lines.join('\n');
+    return text.endsWith(NO_NEWLINE) ? text.slice(0, -1) : `${text}\n`;
+  }
+}
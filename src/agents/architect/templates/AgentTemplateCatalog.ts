@@ -0,0 +1,178 @@
+import {
+  AgentPurposeAnalysis,
+  AgentTemplate,
+  TemplateParameter,
+  TemplateParameterValue,
+  TemplateParameterValues,
+  TemplateRenderContext
+} from '../types/index.js';
+import { CHAT_ASSISTANT_TEMPLATE } from './ChatAssistantTemplate.js';
+import { SCHEDULED_REPORTER_TEMPLATE } from './ScheduledReporterTemplate.js';
+import { WEBHOOK_LISTENER_TEMPLATE } from './WebhookListenerTemplate.js';
+import { DATA_WATCHER_TEMPLATE } from './DataWatcherTemplate.js';
+import { CODE_REVIEWER_TEMPLATE } from './CodeReviewerTemplate.js';
+
+export const DEFAULT_TEMPLATE_ID = 'chat-assistant';
+
+export const BUILT_IN_TEMPLATES: AgentTemplate[] = [
+  CHAT_ASSISTANT_TEMPLATE,
+  SCHEDULED_REPORTER_TEMPLATE,
+  WEBHOOK_LISTENER_TEMPLATE,
+  DATA_WATCHER_TEMPLATE,
+  CODE_REVIEWER_TEMPLATE
+];
+
+/**
+ * Named, versioned behaviors a purpose-driven agent is generated from. The
+ * analyzer picks one from how users interact with the agent and what it
+ * integrates with; parameters are validated against the template before
+ * anything is rendered, so a bad value never reaches generated code.
+ */
+export class AgentTemplateCatalog {
+  private templates: Map<string, AgentTemplate> = new Map();
+
+  constructor(templates: AgentTemplate[] = BUILT_IN_TEMPLATES) {
+    for (const template of templates) {
+      this.register(template);
+    }
+  }
+
+  // Keeps the newest version of each template id
+  register(template: AgentTemplate): void {
+    const current = this.templates.get(template.id);
+    if (current && AgentTemplateCatalog.compareVersions(current.version, template.version) >= 0) {
+      console.warn(`[AgentTemplateCatalog] ⚠️ Ignoring ${template.id}@${template.version}, ${current.version} is registered`);
+      return;
+    }
+    this.templates.set(template.id, template);
+  }
+
+  list(): AgentTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  get(id: string): AgentTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /**
+   * The template whose keywords best match the analysis. Interaction
+   * patterns count double, since they say what the agent does rather than
+   * what it talks to; with no match at all the chat assistant is used.
+   */
+  select(analysis: Pick<AgentPurposeAnalysis, 'interactionPatterns' | 'integrationNeeds'>): AgentTemplate {
+    const interactions = (analysis.interactionPatterns || []).join(' | ').toLowerCase();
+    const integrations = (analysis.integrationNeeds || []).join(' | ').toLowerCase();
+    const hits = (text: string, keywords: string[]) => keywords.filter(keyword => text.includes(keyword)).length;
+
+    let best: AgentTemplate | undefined;
+    let bestScore = 0;
+    for (const template of this.templates.values()) {
+      const score = 2 * hits(interactions, template.match.interactionPatterns) + hits(integrations, template.match.integrationNeeds);
+      if (score > bestScore) {
+        best = template;
+        bestScore = score;
+      }
+    }
+
+    return best || this.templates.get(DEFAULT_TEMPLATE_ID) || this.list()[0];
+  }
+
+  /**
+   * Supplied values coerced to their declared types with defaults filled in.
+   * Throws with every problem listed when a value is unknown, missing or out
+   * of bounds.
+   */
+  validateParameters(template: AgentTemplate, supplied: TemplateParameterValues = {}): TemplateParameterValues {
+    const problems: string[] = [];
+    const known = new Set(template.parameters.map(parameter => parameter.name));
+    for (const name of Object.keys(supplied)) {
+      if (!known.has(name)) problems.push(`unknown parameter ${name}`);
+    }
+
+    const values: TemplateParameterValues = {};
+    for (const parameter of template.parameters) {
+      const raw = supplied[parameter.name];
+      if (raw === undefined || raw === '') {
+        if (parameter.default !== undefined) {
+          values[parameter.name] = parameter.default;
+        } else if (parameter.required) {
+          problems.push(`${parameter.name} is required (${parameter.description})`);
+        }
+        continue;
+      }
+
+      const value = this.coerce(parameter, raw);
+      const problem = this.check(parameter, value);
+      if (problem) {
+        problems.push(problem);
+      } else {
+        values[parameter.name] = value;
+      }
+    }
+
+    if (problems.length === 0 && template.validate) {
+      problems.push(...template.validate(values));
+    }
+    if (problems.length > 0) {
+      throw new Error(`Invalid parameters for ${template.id}@${template.version}: ${problems.join('; ')}`);
+    }
+    return values;
+  }
+
+  // Source of the agent's core/TemplateBehavior.ts; validates the parameters first
+  render(template: AgentTemplate, context: TemplateRenderContext): string {
+    const parameters = this.validateParameters(template, context.parameters);
+    return template.render({ ...context, parameters });
+  }
+
+  // Parameter reference for the analyzer's prompt
+  describe(): string {
+    return this.list().map(template => {
+      const parameters = template.parameters.map(parameter =>
+        `${parameter.name} (${parameter.type}${parameter.required ? ', required' : ''}): ${parameter.description}`
+      );
+      return `- ${template.id}: ${template.description}\n  ${parameters.join('\n  ')}`;
+    }).join('\n');
+  }
+
+  // Numeric semver comparison; missing parts count as 0
+  static compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(part => parseInt(part, 10) || 0);
+    const right = b.split('.').map(part => parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const diff = (left[i] || 0) - (right[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private coerce(parameter: TemplateParameter, value: TemplateParameterValue): TemplateParameterValue {
+    if (parameter.type === 'number' && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (parameter.type === 'boolean' && typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+      return value.toLowerCase() === 'true';
+    }
+    if (parameter.type === 'string' && typeof value === 'number') {
+      return String(value);
+    }
+    return value;
+  }
+
+  private check(parameter: TemplateParameter, value: TemplateParameterValue): string | null {
+    if (parameter.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${parameter.name} must be a number, got ${JSON.stringify(value)}`;
+      if (parameter.integer && !Number.isInteger(value)) return `${parameter.name} must be a whole number, got ${value}`;
+      if (parameter.min !== undefined && value < parameter.min) return `${parameter.name} must be at least ${parameter.min}, got ${value}`;
+      if (parameter.max !== undefined && value > parameter.max) return `${parameter.name} must be at most ${parameter.max}, got ${value}`;
+    } else if (parameter.type === 'boolean') {
+      if (typeof value !== 'boolean') return `${parameter.name} must be true or false, got ${JSON.stringify(value)}`;
+    } else {
+      if (typeof value !== 'string') return `${parameter.name} must be text, got ${JSON.stringify(value)}`;
+      if (parameter.pattern && !parameter.pattern.test(value)) return `${parameter.name} must match ${parameter.pattern}, got "${value}"`;
+      if (parameter.choices && !parameter.choices.includes(value)) return `${parameter.name} must be one of ${parameter.choices.join(', ')}, got "${value}"`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+import { AgentTemplate } from '../types/index.js';
+import { behaviorPreamble, literal } from './render.js';
+
+export const CHAT_ASSISTANT_TEMPLATE: AgentTemplate = {
+  id: 'chat-assistant',
+  name: 'Chat assistant',
+  version: '1.0.0',
+  description: 'Answers questions conversationally, keeping a short history per user',
+  match: {
+    interactionPatterns: ['chat', 'conversation', 'question', 'answer', 'command-response', 'command/response', 'q&a', 'support'],
+    integrationNeeds: ['knowledge base', 'faq', 'documentation']
+  },
+  parameters: [
+    { name: 'persona', type: 'string', default: 'friendly and concise', description: 'How the assistant should come across' },
+    { name: 'historyLength', type: 'number', default: 10, min: 0, max: 50, integer: true, description: 'Exchanges remembered per user' },
+    { name: 'maxTokens', type: 'number', default: 400, min: 50, max: 4000, integer: true, description: 'Length limit of each answer' }
+  ],
+
+  render(context) {
+    const { parameters } = context;
+    const system = `You are ${context.agentName}, a ${parameters.persona} assistant for ${context.purpose}. ` +
+      `You can help with: ${context.capabilities.join(', ')}.`;
+
+    return `${behaviorPreamble(this, context)}
+const SYSTEM_PROMPT = ${literal(system)};
+const HISTORY_LENGTH = ${literal(parameters.historyLength)};
+const MAX_TOKENS = ${literal(parameters.maxTokens)};
+
+type Turn = { role: 'user' | 'assistant'; content: string };
+
+export class TemplateBehavior {
+  private context: BehaviorContext;
+  private history: Map<string, Turn[]> = new Map();
+
+  constructor(context: BehaviorContext) {
+    this.context = context;
+  }
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {
+    this.history.clear();
+  }
+
+  // Every request is conversation for a chat assistant
+  async handle(input: string, userId: string, capability?: string): Promise<string | null> {
+    const history = this.history.get(userId) || [];
+    history.push({ role: 'user', content: input });
+
+    const response = await this.context.llm.complete({
+      tier: 'fast',
+      maxTokens: MAX_TOKENS,
+      system: capability ? \`\${SYSTEM_PROMPT} The user needs help with \${capability}.\` : SYSTEM_PROMPT,
+      messages: history
+    });
+
+    history.push({ role: 'assistant', content: response.text });
+    this.history.set(userId, HISTORY_LENGTH > 0 ? history.slice(-(HISTORY_LENGTH * 2)) : []);
+    return response.text;
+  }
+}
+`;
+  }
+};
@@ -0,0 +1,84 @@
+import { AgentTemplate } from '../types/index.js';
+import { behaviorPreamble, literal } from './render.js';
+
+export const CODE_REVIEWER_TEMPLATE: AgentTemplate = {
+  id: 'code-reviewer',
+  name: 'Code reviewer',
+  version: '1.0.0',
+  description: 'Reviews pasted diffs, or git ranges of a local repository, with the LLM',
+  match: {
+    interactionPatterns: ['review', 'code review', 'pull request', 'diff', 'feedback on code', 'lint'],
+    integrationNeeds: ['git', 'github', 'gitlab', 'repository', 'bitbucket']
+  },
+  parameters: [
+    { name: 'repoPath', type: 'string', default: '.', description: 'Repository that "review <range>" diffs' },
+    { name: 'baseRef', type: 'string', default: 'main', pattern: /^[\w./-]+$/, description: 'Branch "review my changes" compares against' },
+    { name: 'focus', type: 'string', default: 'bugs, security issues and readability', description: 'What reviews should concentrate on' },
+    { name: 'maxDiffChars', type: 'number', default: 12000, min: 1000, max: 100000, integer: true, description: 'Longest diff sent for review' }
+  ],
+
+  render(context) {
+    const { parameters } = context;
+
+    return `${behaviorPreamble(this, context, ["import { execFile } from 'child_process';", "import { promisify } from 'util';"])}
+const execFileAsync = promisify(execFile);
+
+const REPO_PATH = ${literal(parameters.repoPath)};
+const BASE_REF = ${literal(parameters.baseRef)};
+const MAX_DIFF_CHARS = ${literal(parameters.maxDiffChars)};
+const SYSTEM_PROMPT = ${literal(`You are ${context.agentName}, a code reviewer for ${context.purpose}. Focus on ${parameters.focus}. ` +
+      'Reference files and lines, and separate must-fix issues from suggestions.')};
+
+export class TemplateBehavior {
+  private context: BehaviorContext;
+
+  constructor(context: BehaviorContext) {
+    this.context = context;
+  }
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  async handle(input: string, userId: string, capability?: string): Promise<string | null> {
+    const pasted = this.extractDiff(input);
+    if (pasted) return this.review(pasted, 'the pasted diff');
+
+    const range = input.match(/\\breview\\s+(HEAD\\S*|[0-9a-f]{7,40}|[\\w./~^-]+\\.\\.\\.?[\\w./~^-]+)(?=\\s|$)/i)?.[1];
+    if (range) return this.reviewRange(range);
+
+    if (/\\breview\\b.*\\b(my|the|current)\\s+(changes|branch)\\b/i.test(input)) {
+      return this.reviewRange(\`\${BASE_REF}...HEAD\`);
+    }
+    return null;
+  }
+
+  private extractDiff(input: string): string | null {
+    const fenced = input.match(/\\\`\\\`\\\`(?:diff|patch)?\\n([\\s\\S]*?)\\\`\\\`\\\`/);
+    if (fenced && /^(diff --git|@@|[-+]{3} )/m.test(fenced[1])) return fenced[1];
+    return /^(diff --git|@@ )/m.test(input) ? input : null;
+  }
+
+  private async reviewRange(range: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', ['diff', range], { cwd: REPO_PATH, maxBuffer: 20 * 1024 * 1024 });
+      return stdout.trim() ? this.review(stdout, range) : \`No changes in \${range}.\`;
+    } catch (error) {
+      return \`Couldn't diff \${range}: \${error instanceof Error ? error.message.split('\\n')[0] : error}\`;
+    }
+  }
+
+  private async review(diff: string, label: string): Promise<string> {
+    const truncated = diff.length > MAX_DIFF_CHARS;
+    const response = await this.context.llm.complete({
+      tier: 'balanced',
+      maxTokens: 1200,
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: \`Review \${label}:\\n\\n\${diff.slice(0, MAX_DIFF_CHARS)}\` }]
+    });
+    return \`**Review of \${label}**\${truncated ? \` (first \${MAX_DIFF_CHARS} characters)\` : ''}\\n\${response.text}\`;
+  }
+}
+`;
+  }
+};
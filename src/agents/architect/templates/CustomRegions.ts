@@ -0,0 +1,81 @@
+interface Region {
+  id: string;
+  open: number;   // Line index of the opening marker
+  close: number;  // Line index of the closing marker
+}
+
+const OPEN_MARKER = /^\s*\/\/ <custom:([\w.-]+)>\s*$/;
+const CLOSE_MARKER = /^\s*\/\/ <\/custom:([\w.-]+)>\s*$/;
+
+/**
+ * Hand-editable regions in generated agent code, delimited by
+ * `// <custom:id>` and `// </custom:id>` lines. Regenerating an agent carries
+ * each region's body over into the same region of the new code.
+ */
+export class CustomRegions {
+  static wrap(id: string, body: string, indent: string = ''): string {
+    return `${indent}// <custom:${id}>\n${body}\n${indent}// </custom:${id}>`;
+  }
+
+  // Region id → body; throws on unbalanced, nested or duplicate markers
+  static extract(content: string): Map<string, string> {
+    const lines = content.split('\n');
+    const bodies = new Map<string, string>();
+    for (const region of this.parse(lines)) {
+      bodies.set(region.id, lines.slice(region.open + 1, region.close).join('\n'));
+    }
+    return bodies;
+  }
+
+  // The content with every region emptied, so edits inside regions don't change its hash
+  static strip(content: string): string {
+    return this.replaceBodies(content, () => []);
+  }
+
+  // Replaces the bodies of regions present in `bodies`; returns the ids that were filled
+  static fill(content: string, bodies: Map<string, string>): { content: string; filled: string[] } {
+    const filled: string[] = [];
+    const updated = this.replaceBodies(content, (id, current) => {
+      const body = bodies.get(id);
+      if (body === undefined) return current;
+      filled.push(id);
+      return body.split('\n');
+    });
+    return { content: updated, filled };
+  }
+
+  private static replaceBodies(content: string, replace: (id: string, current: string[]) => string[]): string {
+    const lines = content.split('\n');
+    const output: string[] = [];
+    let next = 0;
+    for (const region of this.parse(lines)) {
+      output.push(...lines.slice(next, region.open + 1));
+      output.push(...replace(region.id, lines.slice(region.open + 1, region.close)));
+      next = region.close;
+    }
+    output.push(...lines.slice(next));
+    return output.join('\n');
+  }
+
+  private static parse(lines: string[]): Region[] {
+    const regions: Region[] = [];
+    let open: { id: string; line: number } | null = null;
+
+    for (let index = 0; index < lines.length; index++) {
+      const opening = lines[index].match(OPEN_MARKER);
+      const closing = lines[index].match(CLOSE_MARKER);
+      if (opening) {
+        if (open) throw new Error(`Custom region ${opening[1]} starts inside ${open.id} (line ${index + 1})`);
+        if (regions.some(region => region.id === opening[1])) throw new Error(`Custom region ${opening[1]} appears twice`);
+        open = { id: opening[1], line: index };
+      } else if (closing) {
+        if (!open || open.id !== closing[1]) throw new Error(`Unexpected end of custom region ${closing[1]} (line ${index + 1})`);
+        regions.push({ id: open.id, open: open.line, close: index });
+        open = null;
+      }
+    }
+
+    if (open) throw new Error(`Custom region ${open.id} is never closed`);
+    return regions;
+  }
+}
@@ -0,0 +1,102 @@
+import { AgentTemplate } from '../types/index.js';
+import { behaviorPreamble, literal } from './render.js';
+
+export const DATA_WATCHER_TEMPLATE: AgentTemplate = {
+  id: 'data-watcher',
+  name: 'Data watcher',
+  version: '1.0.0',
+  description: 'Polls a URL and posts what changed whenever its content changes',
+  match: {
+    interactionPatterns: ['monitor', 'monitoring', 'watch', 'alert', 'alerts', 'continuous', 'track', 'poll', 'changes'],
+    integrationNeeds: ['api', 'feed', 'rss', 'status page', 'endpoint', 'website', 'url']
+  },
+  parameters: [
+    { name: 'url', type: 'string', required: true, pattern: /^https?:\/\/\S+$/, description: 'URL to watch' },
+    { name: 'intervalMinutes', type: 'number', default: 15, min: 1, max: 1440, integer: true, description: 'Minutes between checks' },
+    { name: 'describeChanges', type: 'boolean', default: true, description: 'Have the LLM describe each change instead of just flagging it' },
+    { name: 'timeoutSeconds', type: 'number', default: 10, min: 1, max: 120, integer: true, description: 'How long one check may take' }
+  ],
+
+  render(context) {
+    const { parameters } = context;
+
+    return `${behaviorPreamble(this, context, ["import { createHash } from 'crypto';"])}
+const URL_TO_WATCH = ${literal(parameters.url)};
+const INTERVAL_MS = ${literal(parameters.intervalMinutes)} * 60 * 1000;
+const DESCRIBE_CHANGES = ${literal(parameters.describeChanges)};
+const TIMEOUT_MS = ${literal(parameters.timeoutSeconds)} * 1000;
+const MAX_COMPARED_CHARS = 6000;
+const SYSTEM_PROMPT = ${literal(`You are ${context.agentName}, watching data for ${context.purpose}. Describe what changed in a few bullet points.`)};
+
+export class TemplateBehavior {
+  private context: BehaviorContext;
+  private timer: NodeJS.Timeout | null = null;
+  private lastHash: string | null = null;
+  private lastBody = '';
+  private lastCheckedAt: Date | null = null;
+
+  constructor(context: BehaviorContext) {
+    this.context = context;
+  }
+
+  // The first scheduled check records a baseline; alerts start from the one after
+  async start(): Promise<void> {
+    this.timer = setInterval(() => {
+      this.check(true).catch(error => console.error('[TemplateBehavior] Scheduled check failed:', error));
+    }, INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async handle(input: string, userId: string, capability?: string): Promise<string | null> {
+    if (!/\\b(check|status|changed?|latest)\\b/i.test(input)) return null;
+    return this.check(false);
+  }
+
+  private async check(notify: boolean): Promise<string> {
+    let body: string;
+    try {
+      const response = await fetch(URL_TO_WATCH, { signal: AbortSignal.timeout(TIMEOUT_MS) });
+      body = await response.text();
+    } catch (error) {
+      return \`Couldn't reach \${URL_TO_WATCH}: \${error instanceof Error ? error.message : error}\`;
+    }
+
+    const hash = createHash('sha256').update(body).digest('hex');
+    const previous = this.lastBody;
+    const previousCheck = this.lastCheckedAt;
+    const changed = this.lastHash !== null && hash !== this.lastHash;
+    this.lastHash = hash;
+    this.lastBody = body;
+    this.lastCheckedAt = new Date();
+
+    if (!changed) {
+      return previousCheck
+        ? \`No changes at \${URL_TO_WATCH} since \${previousCheck.toISOString()}\`
+        : \`Now watching \${URL_TO_WATCH}\`;
+    }
+
+    const message = DESCRIBE_CHANGES ? await this.describe(previous, body) : \`🔔 \${URL_TO_WATCH} changed\`;
+    if (notify) await this.context.send(message);
+    return message;
+  }
+
+  private async describe(before: string, after: string): Promise<string> {
+    const response = await this.context.llm.complete({
+      tier: 'fast',
+      maxTokens: 400,
+      system: SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        content: \`BEFORE:\\n\${before.slice(0, MAX_COMPARED_CHARS)}\\n\\nAFTER:\\n\${after.slice(0, MAX_COMPARED_CHARS)}\`
+      }]
+    });
+    return \`🔔 \${URL_TO_WATCH} changed:\\n\${response.text}\`;
+  }
+}
+`;
+  }
+};
@@ -0,0 +1,81 @@
+import { AgentTemplate } from '../types/index.js';
+import { behaviorPreamble, literal } from './render.js';
+
+export const SCHEDULED_REPORTER_TEMPLATE: AgentTemplate = {
+  id: 'scheduled-reporter',
+  name: 'Scheduled reporter',
+  version: '1.0.0',
+  description: 'Posts an LLM-written report on a fixed interval, and on request',
+  match: {
+    interactionPatterns: ['schedule', 'scheduled', 'daily', 'weekly', 'hourly', 'periodic', 'report', 'digest', 'summary', 'recap'],
+    integrationNeeds: ['cron', 'calendar']
+  },
+  parameters: [
+    { name: 'intervalMinutes', type: 'number', default: 1440, min: 1, max: 10080, integer: true, description: 'Minutes between reports' },
+    { name: 'reportTitle', type: 'string', default: 'Scheduled report', description: 'Heading of each report' },
+    {
+      name: 'reportPrompt',
+      type: 'string',
+      default: 'Summarize what matters since the last report and call out anything that needs attention.',
+      description: 'What each report should cover'
+    },
+    { name: 'maxTokens', type: 'number', default: 600, min: 50, max: 4000, integer: true, description: 'Length limit of each report' }
+  ],
+
+  render(context) {
+    const { parameters } = context;
+
+    return `${behaviorPreamble(this, context)}
+const SYSTEM_PROMPT = ${literal(`You are ${context.agentName}, writing reports for ${context.purpose}.`)};
+const INTERVAL_MS = ${literal(parameters.intervalMinutes)} * 60 * 1000;
+const REPORT_TITLE = ${literal(parameters.reportTitle)};
+const REPORT_PROMPT = ${literal(parameters.reportPrompt)};
+const MAX_TOKENS = ${literal(parameters.maxTokens)};
+
+export class TemplateBehavior {
+  private context: BehaviorContext;
+  private timer: NodeJS.Timeout | null = null;
+  private lastReportAt: Date | null = null;
+
+  constructor(context: BehaviorContext) {
+    this.context = context;
+  }
+
+  async start(): Promise<void> {
+    this.timer = setInterval(() => {
+      this.sendReport().catch(error => console.error('[TemplateBehavior] Scheduled report failed:', error));
+    }, INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async handle(input: string, userId: string, capability?: string): Promise<string | null> {
+    if (!/\\b(report|summary|digest|recap)\\b/i.test(input)) return null;
+    return this.generateReport(capability);
+  }
+
+  private async sendReport(): Promise<void> {
+    await this.context.send(await this.generateReport());
+    this.lastReportAt = new Date();
+  }
+
+  private async generateReport(focus?: string): Promise<string> {
+    const since = this.lastReportAt ? this.lastReportAt.toISOString() : 'this is the first report';
+    const response = await this.context.llm.complete({
+      tier: 'fast',
+      maxTokens: MAX_TOKENS,
+      system: SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        content: \`\${REPORT_PROMPT}\${focus ? \` Focus on \${focus}.\` : ''}\\nPrevious report: \${since}\`
+      }]
+    });
+    return \`**\${REPORT_TITLE}**\\n\${response.text}\`;
+  }
+}
+`;
+  }
+};
@@ -0,0 +1,153 @@
+import { AgentTemplate } from '../types/index.js';
+import { behaviorPreamble, literal } from './render.js';
+
+export const WEBHOOK_LISTENER_TEMPLATE: AgentTemplate = {
+  id: 'webhook-listener',
+  name: 'Webhook listener',
+  version: '1.1.0',
+  description: 'Receives webhooks over HTTP and posts a summary of each event',
+  match: {
+    interactionPatterns: ['webhook', 'event', 'events', 'notification', 'push', 'incoming'],
+    integrationNeeds: ['webhook', 'github', 'stripe', 'http', 'callback', 'zapier']
+  },
+  parameters: [
+    { name: 'port', type: 'number', default: 8787, min: 1024, max: 65535, integer: true, description: 'Port the HTTP listener binds' },
+    {
+      name: 'host',
+      type: 'string',
+      default: '127.0.0.1',
+      pattern: /^[\w.:-]+$/,
+      description: 'Interface the listener binds; 0.0.0.0 accepts webhooks from other machines'
+    },
+    { name: 'path', type: 'string', default: '/webhook', pattern: /^\/[\w\-/]*$/, description: 'Path webhooks are posted to' },
+    {
+      name: 'secretEnv',
+      type: 'string',
+      pattern: /^[A-Z_][A-Z0-9_]*$/,
+      description: 'Env variable holding a secret callers must send in X-Webhook-Secret'
+    },
+    { name: 'summarize', type: 'boolean', default: true, description: 'Summarize payloads with the LLM instead of posting them raw' },
+    { name: 'maxEvents', type: 'number', default: 50, min: 1, max: 1000, integer: true, description: 'Recent events kept for "what came in?" questions' }
+  ],
+
+  // Without a secret every request is accepted, which is only safe when nothing else can reach the port
+  validate(parameters) {
+    const host = String(parameters.host);
+    const loopback = host === 'localhost' || host === '::1' || /^127\./.test(host);
+    return loopback || parameters.secretEnv ? [] : [`secretEnv is required when host ${host} is not a loopback address`];
+  },
+
+  render(context) {
+    const { parameters } = context;
+
+    return `${behaviorPreamble(this, context, ["import crypto from 'crypto';", "import http from 'http';"])}
+const PORT = ${literal(parameters.port)};
+const HOST = ${literal(parameters.host)};
+const PATH = ${literal(parameters.path)};
+const SECRET_ENV = ${literal(parameters.secretEnv ?? '')};
+const SUMMARIZE = ${literal(parameters.summarize)};
+const MAX_EVENTS = ${literal(parameters.maxEvents)};
+const MAX_BODY_BYTES = 1024 * 1024;
+const SYSTEM_PROMPT = ${literal(`You are ${context.agentName}, reporting incoming webhook events for ${context.purpose}. Summarize each payload in two or three sentences.`)};
+
+interface WebhookEvent {
+  receivedAt: string;
+  body: string;
+}
+
+export class TemplateBehavior {
+  private context: BehaviorContext;
+  private server: http.Server | null = null;
+  private events: WebhookEvent[] = [];
+
+  constructor(context: BehaviorContext) {
+    this.context = context;
+  }
+
+  async start(): Promise<void> {
+    const server = http.createServer((request, response) => this.receive(request, response));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(PORT, HOST, () => resolve());
+    });
+    this.server = server;
+    console.log(\`[TemplateBehavior] Listening for webhooks on \${HOST}:\${PORT}\${PATH}\`);
+    if (SECRET_ENV && !process.env[SECRET_ENV]) {
+      console.warn(\`[TemplateBehavior] \${SECRET_ENV} is not set, so every webhook will be rejected\`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  async handle(input: string, userId: string, capability?: string): Promise<string | null> {
+    if (!/\\b(webhooks?|events?)\\b/i.test(input)) return null;
+    if (this.events.length === 0) return \`No webhooks received yet. Send them to POST :\${PORT}\${PATH}\`;
+
+    const recent = this.events.slice(-5).map(event => \`• \${event.receivedAt}: \${event.body.slice(0, 200)}\`);
+    return \`Last \${recent.length} of \${this.events.length} webhooks:\\n\${recent.join('\\n')}\`;
+  }
+
+  private receive(request: http.IncomingMessage, response: http.ServerResponse): void {
+    if (request.method !== 'POST' || (request.url || '').split('?')[0] !== PATH) {
+      response.writeHead(404).end();
+      return;
+    }
+    if (SECRET_ENV && !this.authorized(request)) {
+      response.writeHead(401).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        response.writeHead(413).end();
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      if (size > MAX_BODY_BYTES) return;
+      response.writeHead(202).end();
+      this.record(Buffer.concat(chunks).toString('utf8')).catch(error => {
+        console.error('[TemplateBehavior] Failed to report webhook:', error);
+      });
+    });
+  }
+
+  // Fails closed when the secret isn't configured; digests keep the comparison constant-time
+  private authorized(request: http.IncomingMessage): boolean {
+    const secret = process.env[SECRET_ENV];
+    const provided = request.headers['x-webhook-secret'];
+    if (!secret || typeof provided !== 'string') return false;
+
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(provided), digest(secret));
+  }
+
+  private async record(body: string): Promise<void> {
+    this.events.push({ receivedAt: new Date().toISOString(), body });
+    if (this.events.length > MAX_EVENTS) this.events.shift();
+
+    if (!SUMMARIZE) {
+      await this.context.send(\`📨 Webhook received:\\n\\\`\\\`\\\`\\n\${body.slice(0, 1500)}\\n\\\`\\\`\\\`\`);
+      return;
+    }
+    const response = await this.context.llm.complete({
+      tier: 'fast',
+      maxTokens: 300,
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: body.slice(0, 8000) }]
+    });
+    await this.context.send(\`📨 \${response.text}\`);
+  }
+}
+`;
+  }
+};
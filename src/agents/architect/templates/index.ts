@@ -0,0 +1,7 @@
+export { AgentTemplateCatalog, BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID } from './AgentTemplateCatalog.js';
+export { CHAT_ASSISTANT_TEMPLATE } from './ChatAssistantTemplate.js';
+export { SCHEDULED_REPORTER_TEMPLATE } from './ScheduledReporterTemplate.js';
+export { WEBHOOK_LISTENER_TEMPLATE } from './WebhookListenerTemplate.js';
+export { DATA_WATCHER_TEMPLATE } from './DataWatcherTemplate.js';
+export { CODE_REVIEWER_TEMPLATE } from './CodeReviewerTemplate.js';
+export { CustomRegions } from './CustomRegions.js';
@@ -0,0 +1,25 @@
+import { AgentTemplate, TemplateRenderContext } from '../types/index.js';
+
+// Values are embedded as JSON so quotes and backticks in a purpose can't break the generated code
+export function literal(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Header every TemplateBehavior shares. The generated agent builds the
+ * behavior with its LLM and a send() to its user channel, starts and stops
+ * it with the agent, and offers it each request through handle(), which
+ * returns null for requests the behavior doesn't own.
+ */
+export function behaviorPreamble(template: AgentTemplate, context: TemplateRenderContext, imports: string[] = []): string {
+  return `// Generated from the ${template.name} template v${template.version} for ${context.agentName}
+import { LLMProvider } from '../../../shared/llm/index.js';
+${imports.map(line => `${line}\n`).join('')}
+export const TEMPLATE = { id: ${literal(template.id)}, version: ${literal(template.version)} };
+
+export interface BehaviorContext {
+  llm: LLMProvider;
+  send: (content: string) => Promise<void>;
+}
+`;
+}
@@ -7,6 +7,27 @@ export interface ArchitectConfig {
   githubToken?: string;
   learningEnabled?: boolean;
   selfImprovementEnabled?: boolean;
+  validation?: Partial<ValidationConfig>;
+}
+
+// Checks a modification must pass before it is offered for review
+export interface ValidationConfig {
+  typeCheck: boolean;
+  tsconfig: string;
+  testCommand?: string;
+  checkImports: boolean;
+  timeoutMs: number;
+}
+
+export interface ValidationStep {
+  name: 'typecheck' | 'tests' | 'imports' | 'smoke';
+  passed: boolean;
+  errors: string[];
+}
+
+export interface ValidationResult {
+  passed: boolean;
+  steps: ValidationStep[];
 }
 
 export interface ArchitecturalRequest {
@@ -15,6 +36,7 @@ export interface ArchitecturalRequest {
         'agent-enhancement' | 'performance-optimization' | 'learning-analysis';
   description: string;
   target?: string;
+  requestedBy?: string;
   priority: 'low' | 'medium' | 'high' | 'critical';
   riskLevel: 'low' | 'medium' | 'high';
   intelligence?: {
@@ -24,6 +46,84 @@ export interface ArchitecturalRequest {
   };
 }
 
+export interface AgentPurposeAnalysis {
+  agentName: string;
+  corePurpose: string;
+  specificCapabilities: string[];
+  interactionPatterns: string[];
+  responseTypes: string[];
+  dataNeeds: string[];
+  integrationNeeds: string[];
+  learningAspects: string[];
+  clarifyingQuestions: string[];
+  readyToBuild: boolean;
+  confidence: number;
+  template?: AgentTemplateChoice;    // Picked by IntelligentAgentAnalyzer from the catalog
+}
+
+export type TemplateParameterValue = string | number | boolean;
+export type TemplateParameterValues = Record<string, TemplateParameterValue>;
+
+export interface TemplateParameter {
+  name: string;
+  type: 'string' | 'number' | 'boolean';
+  default?: TemplateParameterValue;  // Absent with required, or for optional parameters
+  required?: boolean;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  pattern?: RegExp;
+  choices?: string[];
+  description: string;
+}
+
+export interface TemplateRenderContext {
+  agentName: string;
+  purpose: string;
+  capabilities: string[];
+  parameters: TemplateParameterValues; // Already validated, defaults filled in
+}
+
+export interface AgentTemplate {
+  id: string;                        // e.g. 'scheduled-reporter'
+  name: string;
+  version: string;                   // Semver; bump whenever the rendered code changes
+  description: string;
+  // Keywords matched against the analysis' interactionPatterns and integrationNeeds
+  match: {
+    interactionPatterns: string[];
+    integrationNeeds: string[];
+  };
+  parameters: TemplateParameter[];
+  validate?(parameters: TemplateParameterValues): string[]; // Problems between parameters, checked after each is valid on its own
+  render(context: TemplateRenderContext): string; // Source of the agent's core/TemplateBehavior.ts
+}
+
+export interface AgentTemplateChoice {
+  id: string;
+  version: string;
+  parameters: TemplateParameterValues;
+}
+
+// generation.json beside a generated agent's manifest: what it was built from
+export interface AgentGenerationRecord {
+  builder: 'purpose-driven';
+  generatedAt: string;
+  template: AgentTemplateChoice;
+  analysis: AgentPurposeAnalysis;
+  files: Record<string, string>;  // Path within the agent → hash of the generated content with custom regions emptied
+}
+
+export interface AgentRegenerationPlan {
+  agentName: string;
+  agentPath: string;
+  from: AgentTemplateChoice;
+  to: AgentTemplateChoice;
+  plan: ModificationPlan | null;  // Null when regenerating changes nothing
+  preserved: string[];            // "file: region" for each hand-edited region carried over
+  kept: Array<{ file: string; reason: string }>;  // Files left as they are
+}
+
 export interface AgentSpec {
   name: string;
   purpose: string;
@@ -53,6 +153,89 @@ export interface AgentSpec {
   };
 }
 
+export interface ModificationPlan {
+  id: string;
+  description: string;
+  files: string[];
+  changes: Change[];
+  riskLevel: 'low' | 'medium' | 'high';
+  requiresApproval: boolean;
+  estimatedDuration: string;
+  agent?: string;  // Generated agent the plan regenerates, reloaded once merged
+  retire?: AgentRetirement;  // Set when the plan deletes a generated agent
+}
+
+export interface AgentRetirement {
+  agent: string;
+  agentPath: string;
+  archive: boolean;    // Copy the agent's files and data under data/ before they are removed
+  channelId?: string;  // From the agent's channel variable, when it is set
+}
+
+export interface Change {
+  file: string;
+  type: 'modify' | 'create' | 'delete';
+  description: string;
+  location?: string;
+  reasoning?: string;
+  content?: string;
+  diff?: string;      // Unified diff against the file as it was when planned
+  baseHash?: string;  // sha256 of that version, absent for new files
+  setting?: SettingEdit;        // Set when the change is a single literal edit rather than an LLM rewrite
+  callSites?: ConfigCallSite[]; // Code that reads the edited value
+}
+
+export interface SettingEdit {
+  key: string;
+  value: string | number | boolean;
+  line?: number;      // Picks between several settings with the same key in one file
+  runtime?: boolean;  // A runtime config key (e.g. 'comwatch.trainingThreshold') set in the config file
+}
+
+export interface ConfigCallSite {
+  file: string;
+  line: number;
+  symbol: string;     // What the site references: the setting's method, property or variable
+  text: string;
+}
+
+// A plan applied on its own branch, waiting for review before it reaches the base branch
+export interface PendingModification {
+  plan: ModificationPlan;
+  branch: string;
+  baseBranch: string;
+  diff: string;
+  results: string[];
+  requestedBy?: string;
+  createdAt: string;
+}
+
+// File path → content hash in the snapshot store, or null when the file did not exist
+export type FileSnapshot = Record<string, string | null>;
+
+export interface ModificationHistory {
+  id: string;
+  timestamp: string;
+  description: string;
+  files: string[];
+  gitCommit: string;      // Merge commit; empty without git, where snapshots are used instead
+  canUndo: boolean;
+  requestedBy?: string;
+  before?: FileSnapshot;
+  after?: FileSnapshot;
+  diffHash?: string;      // Reviewed diff, kept in the snapshot store
+  revertedAt?: string;
+}
+
+// A plan whose applied changes failed validation; kept so it can be retried with the errors as feedback
+export interface FailedModification {
+  plan: ModificationPlan;
+  errors: string[];
+  attempts: number;
+  requestedBy?: string;
+  failedAt: string;
+}
+
 export interface IntelligentModificationPlan {
   id: string;
   description: string;
@@ -164,6 +347,21 @@ export interface CodebaseKnowledge {
   };
 }
 
+// One scripted prompt sent to a generated agent during its smoke test
+export interface AgentSmokeResult {
+  prompt: string;
+  passed: boolean;
+  replies: string[];
+  error?: string;
+}
+
+export interface AgentValidationReport {
+  passed: boolean;
+  steps: ValidationStep[];          // imports, typecheck, then smoke once it compiles
+  smoke: AgentSmokeResult[];
+  removed: boolean;                 // Files were deleted because validation failed
+}
+
 export interface IntelligentAgentBuildResult {
   summary: string;
   agentSpec: AgentSpec;
@@ -192,6 +390,9 @@ export interface IntelligentAgentBuildResult {
     deploymentTriggered: boolean;
     integrationComplete: boolean;
   };
+  validation?: AgentValidationReport;
+  template?: AgentTemplateChoice;
+  error?: string;
 }
 
 export interface BehaviorRefinementSpec {
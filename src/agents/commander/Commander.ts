@@ -1,7 +1,10 @@
-import { Message } from 'discord.js';
 import { UniversalRouter } from './core/UniversalRouter.js';
 import { DiscordInterface } from './communication/DiscordInterface.js';
 import { CommanderConfig } from './types/index.js';
+import { LLMProvider, createLLMProvider } from '../../shared/llm/index.js';
+import { ChatTransport, ChatMessage } from '../../shared/transport/index.js';
+import { AgentMessage, AgentMessageBus, getMessageBus } from '../../shared/messaging/index.js';
+import { ConfigService, getConfigService } from '../../shared/config/index.js';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -9,24 +12,41 @@ dotenv.config();
 export class Commander {
   private universalRouter: UniversalRouter;
   private discordInterface: DiscordInterface;
+  private bus: AgentMessageBus;
   private config: CommanderConfig;
-
-  constructor() {
-    this.config = this.loadConfig();
-    this.universalRouter = new UniversalRouter(this.config);
-    this.discordInterface = new DiscordInterface(this.config);
+  private runtimeConfig: ConfigService;
+
+  constructor(
+    llm?: LLMProvider,
+    transport?: ChatTransport,
+    overrides: Partial<CommanderConfig> = {},
+    bus?: AgentMessageBus,
+    runtimeConfig?: ConfigService
+  ) {
+    this.runtimeConfig = runtimeConfig || getConfigService();
+    this.config = { ...this.loadConfig(!transport), ...overrides };
+    const provider = llm || createLLMProvider({ anthropicApiKey: this.config.claudeApiKey, agent: 'Commander' });
+    this.bus = bus || getMessageBus();
+    this.discordInterface = new DiscordInterface(this.config, provider, transport);
+    this.universalRouter = new UniversalRouter(this.config, provider, this.discordInterface, this.bus, this.runtimeConfig);
     
     this.setupMessageHandling();
   }
 
-  private loadConfig(): CommanderConfig {
-    const requiredEnvVars = [
-      'DISCORD_TOKEN',
-      'CLAUDE_API_KEY',
-      'GITHUB_TOKEN',
-      'GITHUB_REPO_OWNER',
-      'GITHUB_REPO_NAME'
-    ];
+  private loadConfig(requireDiscord: boolean): CommanderConfig {
+    // Local transports (terminal, in-memory) can run without Discord credentials
+    const requiredEnvVars: string[] = [];
+    if (requireDiscord) {
+      requiredEnvVars.push('DISCORD_TOKEN');
+    }
+    // GitHub is optional, since pull requests fall back to local git; but a partial setup is a mistake
+    const githubVars = ['GITHUB_TOKEN', 'GITHUB_REPO_OWNER', 'GITHUB_REPO_NAME'];
+    if (githubVars.some(varName => process.env[varName])) {
+      requiredEnvVars.push(...githubVars);
+    }
+    if ((process.env.LLM_PROVIDER || 'anthropic') === 'anthropic') {
+      requiredEnvVars.push('CLAUDE_API_KEY');
+    }
 
     const missing = requiredEnvVars.filter(varName => !process.env[varName]);
     if (missing.length > 0) {
@@ -36,7 +56,7 @@ export class Commander {
     return {
       discordToken: process.env.DISCORD_TOKEN!,
       userChannelId: process.env.DISCORD_CHANNEL_ID!, // Your existing channel
-      agentChannelId: process.env.AGENT_CHANNEL_ID || '1393086808866426930', // Agent coordination
+      agentChannelId: this.runtimeConfig.get().channels.agentCoordination,
       claudeApiKey: process.env.CLAUDE_API_KEY!,
       githubToken: process.env.GITHUB_TOKEN!,
       githubOwner: process.env.GITHUB_REPO_OWNER!,
@@ -46,27 +66,67 @@ export class Commander {
   }
 
   private setupMessageHandling(): void {
-    // Set up Discord message handling
-    this.discordInterface.client?.on('messageCreate', async (message: Message) => {
-      // Ignore bot messages
-      if (message.author.bot) return;
-      
-      // Only respond to messages in the user channel
-      if (message.channel.id !== this.config.userChannelId) return;
-      
-      // Handle the message
+    // Only user-channel messages from humans reach this handler
+    this.discordInterface.onUserMessage(async (message: ChatMessage) => {
       await this.handleUserMessage(message);
     });
   }
 
-  private async handleUserMessage(message: Message): Promise<void> {
+  private async handleAgentMessage(message: AgentMessage): Promise<void> {
+    switch (message.type) {
+      case 'cost_alert': {
+        const { alert, severity } = (message as AgentMessage<'cost_alert'>).payload;
+        console.warn(`[Commander] 💰 Cost alert from ${message.from} (${severity}): ${alert}`);
+        break;
+      }
+
+      case 'plugin_status':
+        await this.universalRouter.updatePluginStatus((message as AgentMessage<'plugin_status'>).payload);
+        break;
+
+      case 'performance_report':
+        console.log(`[Commander] 📊 Performance report from ${message.from}`);
+        break;
+
+      case 'optimization_request': {
+        // Commander has no automated optimization path yet; surface it to the team instead
+        const { issue, recommendations } = (message as AgentMessage<'optimization_request'>).payload;
+        await this.discordInterface.sendMessageToChannel(
+          this.config.agentChannelId,
+          `🔧 **Optimization request from ${message.from}**\n${issue}\n${recommendations.map(r => `• ${r}`).join('\n')}`
+        );
+        await this.bus.respond(message, 'Commander', {
+          success: false,
+          message: 'Commander logged the request for manual follow-up; no automated change was made.'
+        });
+        break;
+      }
+
+      case 'work_items_request':
+        await this.bus.reply(message, 'Commander', 'work_items', { workItems: await this.universalRouter.getWorkItemSnapshots() });
+        break;
+
+      case 'command':
+        // Work is requested in the user channel; agents read the board with work_items_request
+        if (message.requiresResponse) {
+          await this.bus.respond(message, 'Commander', {
+            success: false,
+            message: 'Commander takes work requests in its user channel.'
+          });
+        }
+        break;
+
+      default:
+        console.log(`[Commander] Ignoring ${message.type} from ${message.from}`);
+    }
+  }
+
+  private async handleUserMessage(message: ChatMessage): Promise<void> {
     try {
-      console.log(`[Commander] Processing message from ${message.author.tag}: "${message.content}"`);
+      console.log(`[Commander] Processing message from ${message.author.name}: "${message.content}"`);
       
       // Show typing indicator
-      if ('sendTyping' in message.channel) {
-        await message.channel.sendTyping();
-      }
+      await this.discordInterface.sendTyping(message.channelId);
       
       // Route the message through the universal router
       const response = await this.universalRouter.routeUniversalInput(
@@ -76,14 +136,14 @@ export class Commander {
       );
       
       // Send response
-      await message.reply(response);
+      await this.discordInterface.reply(message, response);
       
     } catch (error) {
       console.error('[Commander] Error handling user message:', error);
       
       // Send error response
       try {
-        await message.reply('× System error processing request. Please try again or rephrase.');
+        await this.discordInterface.reply(message, '× System error processing request. Please try again or rephrase.');
       } catch (replyError) {
         console.error('[Commander] Failed to send error response:', replyError);
       }
@@ -91,14 +151,14 @@ export class Commander {
   }
 
   // Voice message handling (when VMT integration is ready)
-  private async handleVoiceMessage(message: Message): Promise<void> {
+  private async handleVoiceMessage(message: ChatMessage): Promise<void> {
     // TODO: Handle voice messages when VMT integration is complete
     // VMT should transcribe voice → text, then we process as normal
     console.log('[Commander] Voice message handling TODO - waiting for VMT integration');
   }
 
   // File upload handling (for future image-to-code service)
-  private async handleFileUpload(message: Message): Promise<void> {
+  private async handleFileUpload(message: ChatMessage): Promise<void> {
     // TODO: Handle file uploads (images, mockups, etc.)
     // This will integrate with your planned image-to-code service
     console.log('[Commander] File upload handling TODO - waiting for image-to-code service');
@@ -108,6 +168,8 @@ export class Commander {
   async start(): Promise<void> {
     console.log('[Commander] Starting up...');
     
+    await this.bus.subscribe('Commander', (message) => this.handleAgentMessage(message));
+
     // Start Discord interface
     await this.discordInterface.start();
     
@@ -117,13 +179,22 @@ export class Commander {
     // Set up VMT integration (if available)
     await this.discordInterface.setupVMTIntegration();
     
+    await this.universalRouter.startScheduler();
+    
     console.log('[Commander] 🚀 Commander is online and ready!');
     console.log(`[Commander] User Channel: ${this.config.userChannelId}`);
     console.log(`[Commander] Agent Channel: ${this.config.agentChannelId}`);
   }
 
+  async flush(): Promise<void> {
+    await this.universalRouter.flushWork();
+  }
+
   async stop(): Promise<void> {
     console.log('[Commander] Shutting down...');
+    this.universalRouter.stopScheduler();
+    this.bus.unsubscribe('Commander');
+    await this.flush();
     await this.discordInterface.stop();
     console.log('[Commander] Shutdown complete.');
   }
@@ -157,19 +228,16 @@ export class Commander {
   }
 }
 
-// Graceful shutdown handling
-process.on('SIGINT', async () => {
-  console.log('Received SIGINT, shutting down gracefully...');
-  process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-  console.log('Received SIGTERM, shutting down gracefully...');
-  process.exit(0);
-});
-
-// Start the commander if this file is run directly
+// Start the commander if this file is run directly; src/index.ts supervises it otherwise
 if (import.meta.url === `file://${process.argv[1]}`) {
   const commander = new Commander();
   commander.start().catch(console.error);
+
+  const shutdown = async (signal: string) => {
+    console.log(`Received ${signal}, shutting down gracefully...`);
+    await commander.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
 }
\ No newline at end of file
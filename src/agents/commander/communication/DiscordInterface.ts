@@ -1,47 +1,35 @@
-import { Client, GatewayIntentBits, TextChannel, ThreadChannel, EmbedBuilder, Message } from 'discord.js';
-import { WorkItem, AgentMessage, DiscordEmbed, CommanderConfig } from '../types/index.js';
+import { WorkItem, CommanderConfig } from '../types/index.js';
 import { FeedbackLearningSystem } from '../intelligence/FeedbackLearningSystem.js';
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { ChatTransport, ChatMessage, ChatChannel, DiscordTransport } from '../../../shared/transport/index.js';
 
 export class DiscordInterface {
-  public client: Client;
-  private userChannel: TextChannel | null = null;
-  private agentChannel: TextChannel | null = null;
+  private transport: ChatTransport;
   private config: CommanderConfig;
-  private workItemEmbeds: Map<string, Message> = new Map();
-  private workItemThreads: Map<string, ThreadChannel> = new Map();
+  private workItemThreads: Map<string, string> = new Map();
   private feedbackSystem: FeedbackLearningSystem;
   private messageContext: Map<string, {input: string, response: string}> = new Map();
   private waitingForSuggestion: string | null = null;
 
-  constructor(config: CommanderConfig) {
+  constructor(config: CommanderConfig, llm?: LLMProvider, transport?: ChatTransport) {
     this.config = config;
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent,
-        GatewayIntentBits.GuildMessageReactions,
-        GatewayIntentBits.GuildVoiceStates
-      ]
+    this.transport = transport || new DiscordTransport({
+      token: config.discordToken,
+      presence: { name: 'Building with AI', type: 3 },
+      logPrefix: 'DiscordInterface'
     });
     this.setupEventHandlers();
     this.setupFeedbackReactions();
-    this.feedbackSystem = new FeedbackLearningSystem(config.claudeApiKey);
+    this.feedbackSystem = new FeedbackLearningSystem(llm);
   }
 
   private setupEventHandlers(): void {
-    this.client.once('ready', async () => {
-      console.log(`[DiscordInterface] Connected as ${this.client.user?.tag}`);
-      this.userChannel = this.client.channels.cache.get(this.config.userChannelId) as TextChannel;
-      this.agentChannel = this.client.channels.cache.get(this.config.agentChannelId) as TextChannel;
-      this.client.user?.setPresence({
-        activities: [{ name: 'Building with AI', type: 3 }],
-        status: 'online'
-      });
+    this.transport.onReady(async () => {
+      console.log(`[DiscordInterface] Ready on ${this.transport.name} transport`);
     });
 
-    this.client.on('messageCreate', async (message) => {
-      if (message.author.bot) return;
+    this.transport.onMessage(async (message) => {
+      if (message.author.isBot) return;
       if (this.waitingForSuggestion && message.channelId === this.config.userChannelId) {
         const context = this.messageContext.get(this.waitingForSuggestion);
         if (context) {
@@ -75,18 +63,14 @@ export class DiscordInterface {
         }
       }
     });
-
-    this.client.on('error', (error) => {
-      console.error('[DiscordInterface] Client error:', error);
-    });
   }
 
   setupFeedbackReactions(): void {
-    this.client.on('messageReactionAdd', async (reaction, user) => {
-      if (user.bot) return;
-      if (reaction.message.author?.id !== this.client.user?.id) return;
+    this.transport.onReaction(async (reaction) => {
+      if (reaction.user.isBot) return;
+      if (reaction.messageAuthorId !== this.transport.botUserId) return;
       
-      const emoji = reaction.emoji.name;
+      const emoji = reaction.emoji;
       let feedbackType: string | null = null;
       
       if (emoji && ['👍', '✅', '💯'].includes(emoji)) feedbackType = 'positive';
@@ -95,7 +79,7 @@ export class DiscordInterface {
       
       if (feedbackType) {
         console.log(`[Discord] Feedback: ${emoji} (${feedbackType})`);
-        await this.handleFeedbackReaction(reaction.message.id, feedbackType, user.id);
+        await this.handleFeedbackReaction(reaction.messageId, feedbackType, reaction.user.id);
       }
     });
   }
@@ -138,93 +122,69 @@ export class DiscordInterface {
     console.log('[DiscordInterface] VMT integration setup TODO');
   }
 
-  async sendMessage(content: string): Promise<Message | null> {
-    if (!this.userChannel) return null;
-    try {
-      return await this.userChannel.send(content);
-    } catch (error) {
-      console.error('[DiscordInterface] Failed to send message:', error);
-      return null;
-    }
+  onUserMessage(handler: (message: ChatMessage) => Promise<void>): void {
+    this.transport.onMessage(async (message) => {
+      if (message.author.isBot) return;
+      if (message.channelId !== this.config.userChannelId) return;
+      await handler(message);
+    });
   }
 
-  async sendMessageToChannel(channelId: string, content: string): Promise<void> {
-    try {
-      const channel = this.client.channels.cache.get(channelId);
-      if (channel && channel.isTextBased() && 'send' in channel) {
-        await channel.send(content);
-        console.log(`[DiscordInterface] Sent delegation message to channel ${channelId}`);
-      } else {
-        console.error(`[DiscordInterface] Channel ${channelId} not found or not text-based`);
-      }
-    } catch (error) {
-      console.error(`[DiscordInterface] Failed to send message to channel ${channelId}:`, error);
-    }
+  async reply(message: ChatMessage, content: string): Promise<ChatMessage | null> {
+    return this.transport.reply(message, content);
   }
 
-  async getAllChannels(): Promise<Array<{id: string, name: string}>> {
-    const channels: Array<{id: string, name: string}> = [];
-    
-    this.client.guilds.cache.forEach(guild => {
-      guild.channels.cache.forEach(channel => {
-        if (channel.isTextBased()) {
-          channels.push({
-            id: channel.id,
-            name: channel.name || 'Unknown'
-          });
-        }
-      });
-    });
-    
-    return channels;
+  async sendTyping(channelId: string): Promise<void> {
+    await this.transport.sendTyping(channelId);
   }
 
-  async sendAgentMessage(message: AgentMessage): Promise<void> {
-    if (!this.agentChannel) return;
-    try {
-      await this.agentChannel.send(`🤖 ${message.from} → ${message.to}\n${message.content}`);
-    } catch (error) {
-      console.error('[DiscordInterface] Failed to send agent message:', error);
+  async sendMessage(content: string): Promise<ChatMessage | null> {
+    return this.transport.send(this.config.userChannelId, content);
+  }
+
+  async sendMessageToChannel(channelId: string, content: string): Promise<void> {
+    const sent = await this.transport.send(channelId, content);
+    if (sent) {
+      console.log(`[DiscordInterface] Sent delegation message to channel ${channelId}`);
     }
   }
 
-  async createWorkItemThread(workItem: WorkItem): Promise<ThreadChannel> {
-    if (!this.userChannel) throw new Error('User channel not available');
-    
-    const thread = await this.userChannel.threads.create({
-      name: `${workItem.id}: ${workItem.title}`,
-      autoArchiveDuration: 1440,
-      reason: `Work item thread for ${workItem.id}`
-    });
+  async getAllChannels(): Promise<ChatChannel[]> {
+    return this.transport.listChannels();
+  }
+
+  async createWorkItemThread(workItem: WorkItem): Promise<{ id: string }> {
+    const thread = await this.transport.createThread(this.config.userChannelId, `${workItem.id}: ${workItem.title}`);
+    if (!thread) throw new Error('User channel not available');
     
-    this.workItemThreads.set(workItem.id, thread);
+    this.workItemThreads.set(workItem.id, thread.id);
     return thread;
   }
 
   async updateWorkItemThread(workItem: WorkItem, message: string): Promise<void> {
-    const thread = this.workItemThreads.get(workItem.id);
-    if (thread) {
-      await thread.send(`📊 Progress: ${workItem.progress}% - ${message}`);
+    const threadId = this.workItemThreads.get(workItem.id) || workItem.threadId;
+    if (threadId) {
+      await this.transport.send(threadId, `📊 Progress: ${workItem.progress}% - ${message}`);
     }
   }
 
   async start(): Promise<void> {
-    await this.client.login(this.config.discordToken);
+    await this.transport.start();
   }
 
   async stop(): Promise<void> {
-    await this.client.destroy();
+    await this.transport.stop();
   }
 
   get isReady(): boolean {
-    return this.client.isReady();
+    return this.transport.isReady();
   }
 
   get userChannelReady(): boolean {
-    return !!this.userChannel;
+    return this.transport.isReady() && this.transport.hasChannel(this.config.userChannelId);
   }
 
   get agentChannelReady(): boolean {
-    return !!this.agentChannel;
+    return this.transport.isReady() && this.transport.hasChannel(this.config.agentChannelId);
   }
 }
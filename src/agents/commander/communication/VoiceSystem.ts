@@ -1,17 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, estimateCost } from '../../../shared/llm/index.js';
 import { FeedbackLearningSystem } from '../intelligence/FeedbackLearningSystem.js';
-
-interface APIUsage {
-  inputTokens: number;
-  outputTokens: number;
-  cost: number;
-  model: string;
-}
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
 
 export class VoiceSystem {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private feedbackSystem: FeedbackLearningSystem;
-  private static totalAPIUsage: APIUsage[] = [];
+  private config: ConfigService;
   
   private static readonly COMMANDER_VOICE_PROMPT = `You are the AI Commander - a sophisticated CTO with quiet confidence and effortless charm.
 
@@ -59,9 +53,10 @@ VOICE RULES:
 
 AVOID: Trying too hard, forced puns, obvious jokes, clichés, over-explanation`;
 
-  constructor(claudeApiKey: string, feedbackSystem: FeedbackLearningSystem) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider, feedbackSystem: FeedbackLearningSystem, config: ConfigService = getConfigService()) {
+    this.llm = llm;
     this.feedbackSystem = feedbackSystem;
+    this.config = config;
   }
 
   static getSystemPrompt(learningExamples?: string): string {
@@ -115,9 +110,9 @@ Acknowledge with Commander's sophisticated charm - show you're learning while ma
       console.log(`[VoiceSystem] 🤖 Generating ${type} response...`);
       const startTime = Date.now();
       
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 35,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: this.config.get().commander.voiceMaxTokens,
         system: VoiceSystem.getSystemPrompt(learningExamples),
         messages: [{
           role: 'user',
@@ -128,24 +123,13 @@ Acknowledge with Commander's sophisticated charm - show you're learning while ma
       const endTime = Date.now();
       const duration = endTime - startTime;
       
-      // Track API usage
-      if (response.usage) {
-        const cost = this.calculateCost('claude-3-haiku-20240307', response.usage.input_tokens, response.usage.output_tokens);
-        const usage: APIUsage = {
-          inputTokens: response.usage.input_tokens,
-          outputTokens: response.usage.output_tokens,
-          cost: cost,
-          model: 'claude-3-haiku-20240307'
-        };
-        VoiceSystem.totalAPIUsage.push(usage);
-        
-        console.log(`[VoiceSystem] ⚡ API Call: ${response.usage.input_tokens}in + ${response.usage.output_tokens}out tokens, $${cost.toFixed(4)}, ${duration}ms`);
-        console.log(`[VoiceSystem] 💰 Session total: $${this.getSessionCost().toFixed(4)} (${this.getSessionTokens()} tokens)`);
-      }
+      // Usage itself is recorded for Dashboard by the instrumented provider
+      const cost = estimateCost(response.model, response.usage, response.provider);
+      console.log(`[VoiceSystem] ⚡ API Call: ${response.usage.inputTokens}in + ${response.usage.outputTokens}out tokens, $${cost.toFixed(4)}, ${duration}ms`);
       
-      const voiceContent = response.content[0];
-      if (voiceContent.type === 'text') {
-        const finalResponse = this.refineResponse(voiceContent.text);
+      const voiceContent = response.text;
+      if (voiceContent) {
+        const finalResponse = this.refineResponse(voiceContent);
         console.log(`[VoiceSystem] ✅ Generated: "${finalResponse}"`);
         return finalResponse;
       }
@@ -169,31 +153,6 @@ Acknowledge with Commander's sophisticated charm - show you're learning while ma
     }
   }
 
-  private calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-    // Claude 3 Haiku pricing: $0.25 per 1M input tokens, $1.25 per 1M output tokens
-    const inputCost = (inputTokens / 1000000) * 0.25;
-    const outputCost = (outputTokens / 1000000) * 1.25;
-    return inputCost + outputCost;
-  }
-
-  private getSessionCost(): number {
-    return VoiceSystem.totalAPIUsage.reduce((total, usage) => total + usage.cost, 0);
-  }
-
-  private getSessionTokens(): number {
-    return VoiceSystem.totalAPIUsage.reduce((total, usage) => total + usage.inputTokens + usage.outputTokens, 0);
-  }
-
-  static getAPIStats(): { totalCost: number, totalTokens: number, callCount: number } {
-    const totalCost = VoiceSystem.totalAPIUsage.reduce((total, usage) => total + usage.cost, 0);
-    const totalTokens = VoiceSystem.totalAPIUsage.reduce((total, usage) => total + usage.inputTokens + usage.outputTokens, 0);
-    return {
-      totalCost,
-      totalTokens,
-      callCount: VoiceSystem.totalAPIUsage.length
-    };
-  }
-
   private refineResponse(response: string): string {
     return response
       .replace(/^["']|["']$/g, '') // Remove quotes
@@ -1,4 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
 import { ConversationThread } from './ConversationThread.js';
 import { SystemContext, SystemContextData } from '../context/SystemContext.js';
 
@@ -45,13 +46,15 @@ export interface DynamicResponse {
 }
 
 export class ConversationEngine {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private conversationHistory: Map<string, ConversationThread> = new Map();
   private systemContext: SystemContext;
+  private config: ConfigService;
 
-  constructor(claudeApiKey: string, systemContext: SystemContext) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider, systemContext: SystemContext, config: ConfigService = getConfigService()) {
+    this.llm = llm;
     this.systemContext = systemContext;
+    this.config = config;
   }
 
   async processMessage(
@@ -143,9 +146,9 @@ Provide a JSON response with:
 }`;
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 1000,
+      const response = await this.llm.complete({
+        tier: 'powerful',
+        maxTokens: this.config.get().commander.conversationMaxTokens,
         system: systemPrompt,
         messages: [{
           role: 'user',
@@ -169,7 +172,7 @@ Consider the full conversation context and current time. Provide a coherent, hel
 
   private parseClaudeResponse(response: any): DynamicResponse {
     try {
-      const content = response.content[0]?.text || '';
+      const content = response.text || '';
       
       // Try to extract JSON from the response
       const jsonMatch = content.match(/\{[\s\S]*\}/);
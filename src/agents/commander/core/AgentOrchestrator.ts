@@ -1,20 +1,39 @@
-import { WorkItem, AgentMessage, CommanderConfig } from '../types/index.js';
+import { WorkItem, CommanderConfig, AgentProgressEvent } from '../types/index.js';
 import { DiscordInterface } from '../communication/DiscordInterface.js';
 import { VoiceSystem } from '../communication/VoiceSystem.js';
+import { AgentExecutorRegistry } from '../execution/AgentExecutorRegistry.js';
+import { WorkManager } from '../workflow/WorkManager.js';
+import { WorkItemStateMachine } from '../workflow/WorkItemStateMachine.js';
+import { LLMProvider, createLLMProvider } from '../../../shared/llm/index.js';
+import { AgentMessageBus, getMessageBus } from '../../../shared/messaging/index.js';
+
+// Agents that are referenced by intent analysis but have no executor yet
+const PLANNED_AGENTS = ['CodeAnalyzer', 'MemoryService'];
 
 export class AgentOrchestrator {
   private discordInterface: DiscordInterface;
+  private bus: AgentMessageBus;
   private agentChannelId: string;
   
-  // Registry of available agents
-  private availableAgents: Map<string, any> = new Map();
+  // Executors for every agent that can take work, keyed by capability name
+  private registry: AgentExecutorRegistry;
+  private workManager: WorkManager;
+  private runningWork: Map<string, AbortController> = new Map();
+  private progressListeners: Array<(event: AgentProgressEvent) => void> = [];
   
-  constructor(config: CommanderConfig) {
-    this.discordInterface = new DiscordInterface(config);
+  constructor(
+    config: CommanderConfig,
+    llm?: LLMProvider,
+    discordInterface?: DiscordInterface,
+    bus?: AgentMessageBus,
+    workManager?: WorkManager
+  ) {
+    const provider = llm || createLLMProvider({ anthropicApiKey: config.claudeApiKey, agent: 'Commander' });
+    this.discordInterface = discordInterface || new DiscordInterface(config, provider);
+    this.bus = bus || getMessageBus();
     this.agentChannelId = config.agentChannelId;
-    
-    // Register available agents
-    this.registerAvailableAgents();
+    this.registry = AgentExecutorRegistry.withDefaults(provider);
+    this.workManager = workManager || new WorkManager();
   }
 
   async executeWork(workItem: WorkItem): Promise<{ success: boolean; message: string }> {
@@ -22,16 +41,15 @@ export class AgentOrchestrator {
     
     try {
       // Step 1: Validate agents are available
-      const unavailableAgents = workItem.assignedAgents.filter(agent => !this.isAgentAvailable(agent));
+      const unavailableAgents = workItem.assignedAgents.filter(agent => !this.registry.isAvailable(agent));
       
       if (unavailableAgents.length > 0) {
-        return {
-          success: false,
-          message: `Agents not available: ${unavailableAgents.join(', ')} (TODO: implement these agents)`
-        };
+        const message = `Agents not available: ${unavailableAgents.join(', ')} (available: ${this.getAvailableAgents().join(', ')})`;
+        await this.failBeforeStart(workItem, message);
+        return { success: false, message };
       }
       
-      // Step 2: Send coordination message to agent channel
+      // Step 2: Publish the task on the agent message bus
       await this.sendAgentCoordination(workItem);
       
       // Step 3: Execute with primary agent
@@ -52,134 +70,158 @@ export class AgentOrchestrator {
     }
   }
 
+  cancelWork(workItemId: string): boolean {
+    const controller = this.runningWork.get(workItemId);
+    if (!controller) return false;
+
+    controller.abort();
+    console.log(`[AgentOrchestrator] Cancellation requested for ${workItemId}`);
+    return true;
+  }
+
+  isRunning(workItemId: string): boolean {
+    return this.runningWork.has(workItemId);
+  }
+
+  onProgress(listener: (event: AgentProgressEvent) => void): void {
+    this.progressListeners.push(listener);
+  }
+
+  getExecutorRegistry(): AgentExecutorRegistry {
+    return this.registry;
+  }
+
   private async executeWithPrimaryAgent(workItem: WorkItem): Promise<{ success: boolean; message: string }> {
-    const primaryAgent = workItem.primaryAgent;
-    
-    switch (primaryAgent) {
-      case 'FrontendArchitect':
-        return await this.executeFrontendWork(workItem);
-        
-      case 'BackendEngineer':
-        return {
-          success: false,
-          message: 'BackendEngineer agent TODO - will build API/database functionality'
-        };
-        
-      case 'QCAgent':
-        return {
-          success: false,
-          message: 'QCAgent moved to separate service - quality review TODO'
-        };
-        
-      case 'PerformanceOptimizer':
-        return {
-          success: false,
-          message: 'PerformanceOptimizer agent TODO - will optimize speed/efficiency'
-        };
-        
-      case 'MobileSpecialist':
-        return {
-          success: false,
-          message: 'MobileSpecialist agent TODO - will optimize for mobile/PWA'
-        };
-        
-      default:
+    const executor = this.registry.get(workItem.primaryAgent);
+    if (!executor) {
+      const message = `Unknown agent: ${workItem.primaryAgent}`;
+      await this.failBeforeStart(workItem, message);
+      return { success: false, message };
+    }
+
+    try {
+      await this.workManager.transition(workItem.id, 'building', `${workItem.primaryAgent} started`);
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Cannot start work item'
+      };
+    }
+
+    const controller = new AbortController();
+    this.runningWork.set(workItem.id, controller);
+    workItem.progress = 0;
+
+    console.log(`[AgentOrchestrator] Starting ${workItem.primaryAgent} work for ${workItem.id}`);
+
+    try {
+      const result = await executor.execute({
+        workItem,
+        signal: controller.signal,
+        reportProgress: (progress, message) => this.reportProgress(workItem, progress, message)
+      });
+
+      if (controller.signal.aborted) {
+        throw new Error('Work cancelled');
+      }
+
+      await this.workManager.updateWorkItem(workItem.id, {
+        outputs: { ...workItem.outputs, files: result.files },
+        progress: result.success ? 100 : workItem.progress
+      });
+      await this.workManager.transition(workItem.id, result.success ? 'completed' : 'failed', result.message);
+
+      return {
+        success: result.success,
+        message: VoiceSystem.enhanceCTOVoice(result.message)
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Paused or cancelled items were already moved by WorkManager before the abort
+      if (controller.signal.aborted) {
         return {
           success: false,
-          message: `Unknown agent: ${primaryAgent}`
+          message: `${workItem.id} ${workItem.status} at ${workItem.progress}%`
         };
+      }
+
+      await this.workManager.updateWorkItem(workItem.id, {
+        errors: [...(workItem.errors || []), errorMessage]
+      });
+      if (workItem.status === 'building') {
+        await this.workManager.transition(workItem.id, 'failed', errorMessage);
+      }
+
+      return {
+        success: false,
+        message: `${workItem.primaryAgent} failed: ${errorMessage}`
+      };
+
+    } finally {
+      this.runningWork.delete(workItem.id);
     }
   }
 
-  private async executeFrontendWork(workItem: WorkItem): Promise<{ success: boolean; message: string }> {
-    // TODO: Integrate with actual FrontendArchitect agent
-    // For now, simulate the work
-    
-    console.log(`[AgentOrchestrator] Starting FrontendArchitect work for ${workItem.id}`);
-    
-    // Update progress
-    workItem.status = 'building';
-    workItem.progress = 25;
-    const progressMsg = VoiceSystem.formatResponse(
-      'Frontend architect analyzing requirements...',
-      { type: 'status', workItemId: workItem.id, progress: workItem.progress }
-    );
-    await this.updateWorkItemProgress(workItem, { success: true, message: progressMsg });
-    
-    // Simulate work phases
-    await this.delay(2000);
-    workItem.progress = 50;
-    const buildingMsg = VoiceSystem.formatResponse(
-      'Generating enterprise-grade components...',
-      { type: 'status', workItemId: workItem.id, progress: workItem.progress }
-    );
-    await this.updateWorkItemProgress(workItem, { success: true, message: buildingMsg });
-    
-    await this.delay(3000);
-    workItem.progress = 75;
-    const deployMsg = VoiceSystem.formatResponse(
-      'Creating deployment artifacts...',
-      { type: 'status', workItemId: workItem.id, progress: workItem.progress }
-    );
-    await this.updateWorkItemProgress(workItem, { success: true, message: deployMsg });
-    
-    await this.delay(2000);
-    workItem.progress = 90;
-    const previewMsg = VoiceSystem.formatResponse(
-      'Deploying to preview environment...',
-      { type: 'status', workItemId: workItem.id, progress: workItem.progress }
-    );
-    await this.updateWorkItemProgress(workItem, { success: true, message: previewMsg });
-    
-    await this.delay(1000);
-    workItem.progress = 100;
-    workItem.status = 'completed';
-    
-    // Mock results
-    workItem.outputs = {
-      files: [
-        { path: 'src/components/GeneratedComponent.tsx', content: '// Enterprise-grade component code' }
-      ],
-      deploymentUrl: 'https://deploy-url.netlify.app',
-      prUrl: 'https://github.com/user/repo/pull/123',
-      previewUrl: 'https://preview-url.netlify.app'
-    };
-    
-    const completionMsg = VoiceSystem.formatResponse(
-      'Frontend component deployed successfully!',
-      { type: 'completion', workItemId: workItem.id }
-    );
-    await this.updateWorkItemProgress(workItem, { 
-      success: true, 
-      message: completionMsg
+  // Work that can't start is failed rather than left in analyzing; a retry goes back through planning
+  private async failBeforeStart(workItem: WorkItem, reason: string): Promise<void> {
+    await this.workManager.updateWorkItem(workItem.id, {
+      errors: [...(workItem.errors || []), reason]
     });
-    
-    return {
-      success: true,
-      message: VoiceSystem.enhanceCTOVoice(`Frontend work completed - preview available at ${workItem.outputs.previewUrl}`)
-    };
+    if (WorkItemStateMachine.canTransition(workItem.status, 'failed')) {
+      await this.workManager.transition(workItem.id, 'failed', reason);
+    }
   }
 
-  private async sendAgentCoordination(workItem: WorkItem): Promise<void> {
-    const message: AgentMessage = {
-      from: 'Commander',
-      to: workItem.primaryAgent,
-      type: 'task',
-      workItemId: workItem.id,
-      content: `🤖 [COM-L1] → [${workItem.primaryAgent.toUpperCase()}] Task: ${workItem.title}
-
-Requirements: ${workItem.description}
-Complexity: ${workItem.status}
-Thread: <#${workItem.threadId}>
+  private async reportProgress(workItem: WorkItem, progress: number, message: string): Promise<void> {
+    await this.workManager.recordProgress(workItem.id, Math.max(0, Math.min(100, Math.round(progress))), message);
 
-User Context: ${JSON.stringify(workItem.userPreferences || {})}`,
+    const event: AgentProgressEvent = {
+      workItemId: workItem.id,
+      agent: workItem.primaryAgent,
+      progress: workItem.progress,
+      message,
       timestamp: new Date()
     };
+
+    for (const listener of this.progressListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[AgentOrchestrator] Progress listener failed:', error);
+      }
+    }
+
+    await this.updateWorkItemProgress(workItem, { success: true, message });
+
+    try {
+      await this.bus.publish(this.bus.createMessage('status', 'Commander', 'all', {
+        workItemId: workItem.id,
+        status: workItem.status,
+        progress: workItem.progress,
+        message
+      }, { priority: 'low' }));
+    } catch (error) {
+      console.error('[AgentOrchestrator] Failed to publish progress:', error);
+    }
+  }
+
+  private async sendAgentCoordination(workItem: WorkItem): Promise<void> {
+    const message = this.bus.createMessage('task', 'Commander', workItem.primaryAgent, {
+      workItemId: workItem.id,
+      title: workItem.title,
+      description: workItem.description,
+      requirements: workItem.clarifiedRequirements,
+      threadId: workItem.threadId,
+      userPreferences: workItem.userPreferences
+    }, {
+      priority: workItem.priority === 'critical' ? 'urgent' : workItem.priority
+    });
     
-    // Send to agent coordination channel
     try {
-      await this.discordInterface.sendAgentMessage(message);
-      console.log(`[AgentOrchestrator] Sent coordination message to ${workItem.primaryAgent}`);
+      await this.bus.publish(message);
+      console.log(`[AgentOrchestrator] Published task for ${workItem.primaryAgent}`);
     } catch (error) {
       console.error('[AgentOrchestrator] Failed to send agent coordination:', error);
     }
@@ -195,54 +237,14 @@ User Context: ${JSON.stringify(workItem.userPreferences || {})}`,
     }
   }
 
-  private registerAvailableAgents(): void {
-    // Register agents that are currently implemented
-    this.availableAgents.set('FrontendArchitect', {
-      name: 'FrontendArchitect',
-      description: 'Builds enterprise-grade UI components and interfaces',
-      categories: ['build-ui', 'modify-ui'],
-      status: 'available'
-    });
-    
-    // Register planned agents as TODO
-    const plannedAgents = [
-      'BackendEngineer',
-      'QCAgent', 
-      'PerformanceOptimizer',
-      'MobileSpecialist',
-      'CodeAnalyzer',
-      'MemoryService'
-    ];
-    
-    plannedAgents.forEach(agent => {
-      this.availableAgents.set(agent, {
-        name: agent,
-        description: `${agent} functionality`,
-        status: 'todo'
-      });
-    });
-  }
-
-  private isAgentAvailable(agentName: string): boolean {
-    const agent = this.availableAgents.get(agentName);
-    return agent && agent.status === 'available';
-  }
-
-  // Utility methods
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   // Public methods for agent management
   public getAvailableAgents(): string[] {
-    return Array.from(this.availableAgents.keys()).filter(name => 
-      this.availableAgents.get(name)?.status === 'available'
-    );
+    return this.registry.getCapabilities()
+      .filter(capability => capability.isAvailable())
+      .map(capability => capability.name);
   }
 
   public getPlannedAgents(): string[] {
-    return Array.from(this.availableAgents.keys()).filter(name => 
-      this.availableAgents.get(name)?.status === 'todo'
-    );
+    return PLANNED_AGENTS.filter(name => !this.registry.isAvailable(name));
   }
-}
\ No newline at end of file
+}
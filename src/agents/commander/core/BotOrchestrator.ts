@@ -1,5 +1,5 @@
 import { DiscordInterface } from '../communication/DiscordInterface.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 
 interface RegisteredBot {
   name: string;
@@ -13,11 +13,11 @@ interface RegisteredBot {
 
 export class BotOrchestrator {
   private registeredBots: Map<string, RegisteredBot> = new Map();
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private discordInterface: DiscordInterface;
 
-  constructor(claudeApiKey: string, discordInterface: DiscordInterface) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider, discordInterface: DiscordInterface) {
+    this.llm = llm;
     this.discordInterface = discordInterface;
     this.loadRegisteredBots();
     console.log('[BotOrchestrator] Bot delegation system initialized');
@@ -46,9 +46,9 @@ export class BotOrchestrator {
     }
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 300,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 300,
         system: `You are Commander's delegation system. Analyze requests and determine if they should be delegated to specialist bots.
 
 AVAILABLE BOTS:
@@ -80,10 +80,10 @@ Analyze if this matches any specialist bot's expertise or if Commander should ha
         }]
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
+      const content = response.text;
+      if (content) {
         try {
-          const analysis = JSON.parse(content.text);
+          const analysis = JSON.parse(content);
           
           if (analysis.delegate && analysis.botName) {
             const bot = this.registeredBots.get(analysis.botName.toLowerCase());
@@ -138,6 +138,16 @@ Analyze if this matches any specialist bot's expertise or if Commander should ha
     }
   }
 
+  async setBotOnline(botName: string, online: boolean): Promise<void> {
+    const bot = this.registeredBots.get(botName.toLowerCase());
+    if (!bot || bot.isOnline === online) return;
+
+    bot.isOnline = online;
+    bot.lastSeen = new Date();
+    await this.saveRegisteredBots();
+    console.log(`[BotOrchestrator] ${bot.name} is now ${online ? 'online' : 'offline'}`);
+  }
+
   async getAvailableBots(): Promise<RegisteredBot[]> {
     return Array.from(this.registeredBots.values()).filter(bot => bot.isOnline);
   }
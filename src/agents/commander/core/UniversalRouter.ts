@@ -1,3 +1,4 @@
+import * as path from 'path';
 import { COM_L1_IntentAnalyzer } from '../intelligence/COM-L1-IntentAnalyzer.js';
 import { RequirementGatherer } from '../intelligence/RequirementGatherer.js';
 import { AgentOrchestrator } from './AgentOrchestrator.js';
@@ -8,11 +9,16 @@ import { VoiceSystem } from '../communication/VoiceSystem.js';
 import { ConversationEngine } from '../conversation/ConversationEngine.js';
 import { SystemContext } from '../context/SystemContext.js';
 import { DynamicRequestHandler } from '../execution/DynamicRequestHandler.js';
-import { UniversalIntent, WorkItem, CommanderConfig } from '../types/index.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { Scheduler } from '../scheduling/Scheduler.js';
+import { ScheduleManager } from '../scheduling/ScheduleManager.js';
+import { UniversalIntent, WorkItem, WorkItemStatus, CommanderConfig, ScheduledTask } from '../types/index.js';
+import { LLMProvider, createLLMProvider } from '../../../shared/llm/index.js';
+import { AgentMessageBus, AgentMessagePayloads, WorkItemSnapshot, getMessageBus } from '../../../shared/messaging/index.js';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
 import { ComWatch } from '../../watcher/comwatch/ComWatch.js';
 import { FeedbackLearningSystem } from '../intelligence/FeedbackLearningSystem.js';
 import { ContextProvider } from '../intelligence/ContextProvider.js';
+import { GitHubFileManager, LocalGitFileManager, RepositoryFileManager } from '../../../shared/repository/index.js';
 
 export class UniversalRouter {
   private intentAnalyzer: COM_L1_IntentAnalyzer;
@@ -21,7 +27,7 @@ export class UniversalRouter {
   private botOrchestrator: BotOrchestrator;
   private workManager: WorkManager;
   private discordInterface: DiscordInterface;
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private conversationContext: Map<string, any> = new Map();
   private comWatch: ComWatch;
   private feedbackSystem: FeedbackLearningSystem;
@@ -29,23 +35,32 @@ export class UniversalRouter {
   private conversationEngine: ConversationEngine;
   private systemContext: SystemContext;
   private dynamicRequestHandler: DynamicRequestHandler;
+  private scheduler: Scheduler;
+  private scheduleManager: ScheduleManager;
+  private bus: AgentMessageBus;
   
-  constructor(config: CommanderConfig) {
-    this.intentAnalyzer = new COM_L1_IntentAnalyzer(config.claudeApiKey);
-    this.requirementGatherer = new RequirementGatherer(config.claudeApiKey);
-    this.agentOrchestrator = new AgentOrchestrator(config);
+  constructor(config: CommanderConfig, llm?: LLMProvider, discordInterface?: DiscordInterface, bus?: AgentMessageBus, runtimeConfig: ConfigService = getConfigService()) {
+    this.llm = llm || createLLMProvider({ anthropicApiKey: config.claudeApiKey, agent: 'Commander' });
+    this.discordInterface = discordInterface || new DiscordInterface(config, this.llm);
+    this.bus = bus || getMessageBus();
+    this.intentAnalyzer = new COM_L1_IntentAnalyzer(this.llm);
+    this.requirementGatherer = new RequirementGatherer(this.llm);
     this.workManager = new WorkManager();
-    this.discordInterface = new DiscordInterface(config);
-    this.claude = new Anthropic({ apiKey: config.claudeApiKey });
-    this.comWatch = new ComWatch();
-    this.feedbackSystem = new FeedbackLearningSystem(config.claudeApiKey);
-    this.voiceSystem = new VoiceSystem(config.claudeApiKey, this.feedbackSystem);
-    this.botOrchestrator = new BotOrchestrator(config.claudeApiKey, this.discordInterface);
+    this.agentOrchestrator = new AgentOrchestrator(config, this.llm, this.discordInterface, this.bus, this.workManager);
+    this.comWatch = new ComWatch(runtimeConfig);
+    this.feedbackSystem = new FeedbackLearningSystem(this.llm);
+    this.voiceSystem = new VoiceSystem(this.llm, this.feedbackSystem, runtimeConfig);
+    this.botOrchestrator = new BotOrchestrator(this.llm, this.discordInterface);
     
     // Initialize new conversation system
     this.systemContext = new SystemContext(config);
-    this.conversationEngine = new ConversationEngine(config.claudeApiKey, this.systemContext);
-    this.dynamicRequestHandler = new DynamicRequestHandler(config.claudeApiKey);
+    this.conversationEngine = new ConversationEngine(this.llm, this.systemContext, runtimeConfig);
+    const repository = this.createRepositoryFileManager(config);
+    this.dynamicRequestHandler = new DynamicRequestHandler(this.llm, { [repository.name]: repository.manager }, this.workManager);
+    this.scheduler = new Scheduler();
+    this.scheduleManager = new ScheduleManager(this.llm, this.scheduler);
+    
+    this.workManager.onStatusChange((workItem, from, to) => this.handleWorkStatusChange(workItem, from, to));
   }
 
   async routeUniversalInput(
@@ -69,7 +84,7 @@ export class UniversalRouter {
       }
 
       // Check for bot management commands
-      const botManagementResponse = await this.handleBotManagement(input);
+      const botManagementResponse = await this.handleBotManagement(input, userId);
       if (botManagementResponse) {
         await this.discordInterface.updateTrackedMessage(messageId, botManagementResponse);
         return botManagementResponse;
@@ -129,7 +144,7 @@ export class UniversalRouter {
     }
   }
 
-  private async handleBotManagement(input: string): Promise<string | null> {
+  private async handleBotManagement(input: string, userId: string): Promise<string | null> {
     const lowerInput = input.toLowerCase();
     
     if (lowerInput.includes('bot status') || lowerInput.includes('available bots')) {
@@ -143,22 +158,51 @@ export class UniversalRouter {
     if (lowerInput.includes('remove bot') && lowerInput.includes(' ')) {
       const botName = lowerInput.split('remove bot ')[1]?.trim();
       if (botName) {
-        const removed = await this.botOrchestrator.removeBotFromSystem(botName);
-        if (removed) {
-          return await this.voiceSystem.formatResponse(`Removed ${botName} from the system.`, { type: 'completion' });
-        } else {
-          return await this.voiceSystem.formatResponse(`Bot ${botName} not found.`, { type: 'error' });
-        }
+        return await this.requestDecommission(botName, userId);
       }
     }
     
     return null;
   }
 
+  // Retiring an agent deletes code and its channel, so the Architect plans it and waits for approval there
+  private async requestDecommission(botName: string, userId: string): Promise<string> {
+    try {
+      await this.bus.publish(this.bus.createMessage('command', 'Commander', 'Architect', {
+        command: `/agents retire ${botName}`,
+        requestedBy: userId
+      }));
+      return await this.voiceSystem.formatResponse(
+        `Asked the Architect to plan decommissioning ${botName}. Review it in the Architect channel and approve it there with "approve <id>".`,
+        { type: 'completion' }
+      );
+    } catch (error) {
+      console.error(`[UniversalRouter] Failed to request decommissioning of ${botName}:`, error);
+      return await this.voiceSystem.formatResponse(`Couldn't reach the Architect to decommission ${botName}.`, { type: 'error' });
+    }
+  }
+
   async registerNewBot(name: string, purpose: string, capabilities: string[], channelId: string): Promise<void> {
     await this.botOrchestrator.registerBot(name, purpose, capabilities, channelId);
   }
 
+  // Generated agents come and go through the plugin loader; delegate only to running ones
+  async updatePluginStatus(status: AgentMessagePayloads['plugin_status']): Promise<void> {
+    if (status.removed) {
+      await this.botOrchestrator.removeBotFromSystem(status.agent);
+      return;
+    }
+    if (status.state !== 'running') {
+      await this.botOrchestrator.setBotOnline(status.agent, false);
+      return;
+    }
+    if (!status.channelId) {
+      console.log(`[UniversalRouter] ${status.agent} is running but has no channel to delegate to`);
+      return;
+    }
+    await this.botOrchestrator.registerBot(status.agent, status.purpose, status.capabilities, status.channelId);
+  }
+
   private async handleBuildRequest(
     intent: UniversalIntent, 
     userId: string, 
@@ -180,22 +224,17 @@ export class UniversalRouter {
       return await this.voiceSystem.formatResponse(gatheringResult.nextQuestion, { type: 'question' });
     }
     
-    const workItem = await this.workManager.createWorkItem({
+    const workItem = await this.enqueueWork({
       title: this.generateWorkItemTitle(intent),
       description: gatheringResult.clarifiedRequest || intent.parameters.description,
       originalRequest: intent.parameters.description,
-      assignedAgents: intent.requiredAgents,
-      primaryAgent: intent.requiredAgents[0],
+      agents: intent.requiredAgents,
       estimatedComplexity: intent.estimatedComplexity,
+      requirements: gatheringResult.extractedRequirements || [],
       userId,
       messageId
     });
     
-    const thread = await this.discordInterface.createWorkItemThread(workItem);
-    workItem.threadId = thread.id;
-    
-    const orchestrationResult = await this.agentOrchestrator.executeWork(workItem);
-    
     this.updateConversationContext(userId, {
       lastWorkItem: workItem.id,
       recentWorkItems: [workItem.id, ...(this.getConversationContext(userId).recentWorkItems || [])].slice(0, 5)
@@ -206,7 +245,181 @@ export class UniversalRouter {
       { type: 'action', workItemId: workItem.id }
     );
     
-    return `▶ ${actionResponse}\n→ ${orchestrationResult.message}`;
+    const team = workItem.childIds.length > 0 ? intent.requiredAgents.join(', ') : workItem.primaryAgent;
+    return `▶ ${actionResponse}\n→ ${team} ${workItem.childIds.length > 0 ? 'are' : 'is'} on it. Say "cancel ${workItem.id}" to stop.`;
+  }
+
+  // Creates the work item and its thread, then hands it to the agents
+  private async enqueueWork(params: {
+    title: string;
+    description: string;
+    originalRequest: string;
+    agents: string[];
+    estimatedComplexity?: UniversalIntent['estimatedComplexity'];
+    requirements: string[];
+    userId: string;
+    messageId: string;
+  }): Promise<WorkItem> {
+    const workItem = await this.workManager.createWorkItem({
+      title: params.title,
+      description: params.description,
+      originalRequest: params.originalRequest,
+      assignedAgents: params.agents,
+      primaryAgent: params.agents[0],
+      estimatedComplexity: params.estimatedComplexity,
+      userId: params.userId,
+      messageId: params.messageId
+    });
+    const thread = await this.discordInterface.createWorkItemThread(workItem);
+    await this.workManager.updateWorkItem(workItem.id, {
+      threadId: thread.id,
+      clarifiedRequirements: params.requirements
+    });
+    
+    if (params.agents.length > 1) {
+      await this.decomposeWorkItem(workItem, params.userId, params.messageId);
+    } else {
+      this.runWorkInBackground(workItem);
+    }
+    
+    return workItem;
+  }
+
+  // The configured repository is this codebase, named as GitHub or the checkout's directory names it.
+  // PRs go to GitHub when a token is configured, otherwise to branches in the local checkout
+  private createRepositoryFileManager(config: CommanderConfig): { name: string; manager: RepositoryFileManager } {
+    if (config.githubToken && config.githubOwner && config.githubRepo) {
+      return {
+        name: config.githubRepo,
+        manager: new GitHubFileManager({ token: config.githubToken, owner: config.githubOwner, repo: config.githubRepo })
+      };
+    }
+    console.log('[UniversalRouter] No GitHub token, pull requests will use local git branches');
+    return { name: path.basename(process.cwd()), manager: new LocalGitFileManager() };
+  }
+
+  async startScheduler(): Promise<void> {
+    await this.scheduler.start(task => this.runScheduledTask(task));
+  }
+
+  stopScheduler(): void {
+    this.scheduler.stop();
+  }
+
+  async flushWork(): Promise<void> {
+    await this.workManager.flush();
+  }
+
+  private async runScheduledTask(task: ScheduledTask): Promise<string> {
+    const action = task.action;
+    
+    if (action.kind === 'work-item') {
+      const workItem = await this.enqueueWork({
+        title: action.title,
+        description: action.description,
+        originalRequest: `Scheduled: ${task.name}`,
+        agents: action.agents,
+        requirements: [],
+        userId: task.createdBy,
+        messageId: `${task.id}_${task.runCount}`
+      });
+      await this.discordInterface.sendMessage(`⏰ ${task.name}: started ${workItem.id} (${action.agents.join(', ')})`);
+      return `Started ${workItem.id}`;
+    }
+    
+    if (action.target === 'Commander') {
+      const response = await this.routeUniversalInput(action.command, task.createdBy, `${task.id}_${task.runCount}`);
+      await this.discordInterface.sendMessage(`⏰ ${task.name}\n${response}`);
+      return response;
+    }
+    
+    const reply = await this.bus.request(this.bus.createMessage('command', 'Commander', action.target, {
+      command: action.command,
+      requestedBy: task.createdBy,
+      scheduleId: task.id
+    }));
+    
+    await this.discordInterface.sendMessage(`⏰ ${task.name} (${action.target})\n${reply.payload.message}`);
+    return reply.payload.success ? reply.payload.message : `Failed: ${reply.payload.message}`;
+  }
+
+  // One sub-task per agent; quality review waits for everything it checks
+  private async decomposeWorkItem(parent: WorkItem, userId: string, messageId: string): Promise<void> {
+    const builders = parent.assignedAgents.filter(agent => agent !== 'QCAgent');
+    const builderIds: string[] = [];
+    
+    for (const agent of builders) {
+      const child = await this.workManager.createWorkItem({
+        title: `${agent}: ${parent.title}`,
+        description: parent.description,
+        originalRequest: parent.originalRequest,
+        assignedAgents: [agent],
+        primaryAgent: agent,
+        userId,
+        messageId,
+        parentWorkItem: parent.id
+      });
+      await this.workManager.updateWorkItem(child.id, { clarifiedRequirements: parent.clarifiedRequirements });
+      builderIds.push(child.id);
+    }
+    
+    if (parent.assignedAgents.includes('QCAgent')) {
+      await this.workManager.createWorkItem({
+        title: `QCAgent: ${parent.title}`,
+        description: parent.description,
+        originalRequest: parent.originalRequest,
+        assignedAgents: ['QCAgent'],
+        primaryAgent: 'QCAgent',
+        userId,
+        messageId,
+        parentWorkItem: parent.id,
+        blockedBy: builderIds
+      });
+    }
+    
+    await this.workManager.transition(parent.id, 'building', `Split into ${parent.childIds.length} sub-tasks`);
+    
+    for (const child of this.workManager.getChildren(parent.id)) {
+      if (child.status !== 'blocked') {
+        this.runWorkInBackground(child);
+      }
+    }
+  }
+
+  async getWorkItemSnapshots(): Promise<WorkItemSnapshot[]> {
+    return (await this.workManager.listWorkItems()).map(workItem => WorkManager.snapshot(workItem));
+  }
+
+  private handleWorkStatusChange(workItem: WorkItem, from: WorkItemStatus, to: WorkItemStatus): void {
+    this.bus.publish(this.bus.createMessage('work_item_status', 'Commander', 'Dashboard', WorkManager.snapshot(workItem), { priority: 'low' }))
+      .catch(error => console.error('[UniversalRouter] Failed to publish work item status:', error));
+
+    // Pausing or cancelling stops the executor mid-run
+    if (to === 'cancelled' || to === 'paused') {
+      this.agentOrchestrator.cancelWork(workItem.id);
+      return;
+    }
+    
+    // Resumed or unblocked leaf items go back to their executor
+    if (to === 'planning' && (from === 'paused' || from === 'blocked') && workItem.childIds.length === 0) {
+      this.runWorkInBackground(workItem);
+    }
+    
+    if (workItem.threadId && !workItem.parentId && (to === 'completed' || to === 'failed')) {
+      this.discordInterface.updateWorkItemThread(workItem, `${workItem.id} ${to}`).catch(error => {
+        console.error('[UniversalRouter] Failed to post status update:', error);
+      });
+    }
+  }
+
+  private runWorkInBackground(workItem: WorkItem): void {
+    this.agentOrchestrator.executeWork(workItem)
+      .then(async (result) => {
+        console.log(`[UniversalRouter] ${workItem.id} finished: ${result.message}`);
+      })
+      .catch(error => {
+        console.error(`[UniversalRouter] Background work ${workItem.id} failed:`, error);
+      });
   }
 
   private async handleModifyRequest(
@@ -238,10 +451,10 @@ export class UniversalRouter {
       parentWorkItem: workItem.id
     });
     
-    const result = await this.agentOrchestrator.executeWork(modificationItem);
+    this.runWorkInBackground(modificationItem);
     
     const modifyResponse = await this.voiceSystem.formatResponse(
-      `Modifying ${workItem.id} - ${result.message}`,
+      `Modifying ${workItem.id} as ${modificationItem.id} - ${modificationItem.primaryAgent} is on it`,
       { type: 'action' }
     );
     
@@ -276,6 +489,9 @@ export class UniversalRouter {
       case 'manage-work':
         const workResult = await this.workManager.handleWorkManagement(intent, userId);
         return await this.voiceSystem.formatResponse(workResult, { type: 'management' });
+      case 'manage-schedule':
+        const scheduleResult = await this.scheduleManager.handleScheduleManagement(intent, userId);
+        return await this.voiceSystem.formatResponse(scheduleResult, { type: 'management' });
       case 'manage-deployment':
         return await this.voiceSystem.formatResponse(`Deployment Management - ${intent.parameters.description} (Deployment features TODO)`, { type: 'action' });
       default:
@@ -343,7 +559,7 @@ export class UniversalRouter {
       // If there are actions to execute, handle them
       if (conversationResponse.actions && conversationResponse.actions.length > 0) {
         console.log(`[UniversalRouter] Executing ${conversationResponse.actions.length} actions`);
-        const actionResults = await this.executeConversationActions(conversationResponse.actions, conversationResponse.intent);
+        const actionResults = await this.executeConversationActions(conversationResponse.actions, conversationResponse.intent, userId);
         
         // Format response with action results
         return this.formatResponseWithActions(conversationResponse.content, actionResults);
@@ -465,12 +681,12 @@ ${insights.length > 0 ? 'Insights:\n' + insights.join('\n') : 'No insights yet.'
     return description.substring(0, 47) + '...';
   }
 
-  private async executeConversationActions(actions: any[], intent: any): Promise<any[]> {
+  private async executeConversationActions(actions: any[], intent: any, userId: string): Promise<any[]> {
     const results: any[] = [];
 
     for (const action of actions) {
       try {
-        const result = await this.dynamicRequestHandler.handleRequest(intent, this.getConversationContext('default'));
+        const result = await this.dynamicRequestHandler.handleRequest(intent, { ...this.getConversationContext(userId), userId });
         results.push(result);
       } catch (error) {
         results.push({
@@ -0,0 +1,85 @@
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { AgentCapability, AgentExecutor } from '../types/index.js';
+import { CodeGenerationExecutor, CodeGenerationProfile } from './CodeGenerationExecutor.js';
+
+const DEFAULT_PROFILES: CodeGenerationProfile[] = [
+  {
+    name: 'FrontendArchitect',
+    description: 'Builds enterprise-grade UI components and interfaces',
+    categories: ['build-ui', 'modify-ui'],
+    complexity: ['simple', 'medium', 'complex', 'enterprise'],
+    role: 'You are a senior frontend architect. You write production-ready React + TypeScript components with accessible markup, typed props and no placeholder code.',
+    defaultPath: 'src/components/GeneratedComponent.tsx',
+    maxFiles: 4
+  },
+  {
+    name: 'BackendEngineer',
+    description: 'Builds API endpoints, services and data models',
+    categories: ['build-api', 'build-backend', 'modify-api'],
+    complexity: ['simple', 'medium', 'complex', 'enterprise'],
+    role: 'You are a senior backend engineer. You write production-ready Node.js + TypeScript services with input validation, error handling and typed data models.',
+    defaultPath: 'src/api/generated.ts',
+    maxFiles: 4
+  },
+  {
+    name: 'QCAgent',
+    description: 'Writes automated tests and review checklists for requested work',
+    categories: ['build-tests', 'review'],
+    complexity: ['simple', 'medium', 'complex'],
+    role: 'You are a quality engineer. You write focused, runnable TypeScript tests that cover the main behaviour and edge cases of the described feature.',
+    defaultPath: 'tests/generated.test.ts',
+    maxFiles: 3
+  },
+  {
+    name: 'PerformanceOptimizer',
+    description: 'Produces optimized implementations for speed and efficiency',
+    categories: ['optimize', 'modify-performance'],
+    complexity: ['medium', 'complex', 'enterprise'],
+    role: 'You are a performance engineer. You write TypeScript that minimizes allocations, network round trips and re-renders, and you explain trade-offs in brief code comments.',
+    defaultPath: 'src/performance/optimized.ts',
+    maxFiles: 3
+  },
+  {
+    name: 'MobileSpecialist',
+    description: 'Adapts interfaces for mobile and PWA delivery',
+    categories: ['build-mobile', 'modify-mobile'],
+    complexity: ['simple', 'medium', 'complex'],
+    role: 'You are a mobile web specialist. You write responsive, touch-friendly React + TypeScript and PWA assets (manifest, service worker) that work offline.',
+    defaultPath: 'src/mobile/GeneratedMobileView.tsx',
+    maxFiles: 4
+  }
+];
+
+export class AgentExecutorRegistry {
+  private executors: Map<string, AgentExecutor> = new Map();
+
+  register(executor: AgentExecutor): void {
+    this.executors.set(executor.capability.name, executor);
+    console.log(`[AgentExecutorRegistry] Registered ${executor.capability.name}`);
+  }
+
+  unregister(name: string): boolean {
+    return this.executors.delete(name);
+  }
+
+  get(name: string): AgentExecutor | undefined {
+    return this.executors.get(name);
+  }
+
+  isAvailable(name: string): boolean {
+    const executor = this.executors.get(name);
+    return !!executor && executor.capability.isAvailable();
+  }
+
+  getCapabilities(): AgentCapability[] {
+    return Array.from(this.executors.values()).map(executor => executor.capability);
+  }
+
+  static withDefaults(llm: LLMProvider): AgentExecutorRegistry {
+    const registry = new AgentExecutorRegistry();
+    for (const profile of DEFAULT_PROFILES) {
+      registry.register(new CodeGenerationExecutor(llm, profile));
+    }
+    return registry;
+  }
+}
@@ -0,0 +1,150 @@
+import { LLMProvider } from '../../../shared/llm/index.js';
+import {
+  AgentCapability,
+  AgentExecutor,
+  AgentExecutionContext,
+  AgentExecutionResult,
+  GeneratedFile
+} from '../types/index.js';
+
+export interface CodeGenerationProfile {
+  name: string;
+  description: string;
+  categories: string[];
+  complexity: string[];
+  role: string; // System prompt describing the specialist
+  defaultPath: string; // Used when the plan can't be parsed
+  maxFiles: number;
+}
+
+interface PlannedFile {
+  path: string;
+  purpose: string;
+}
+
+/**
+ * Executor that plans a set of files for a work item and then generates each
+ * one with the LLM. Progress is reported after every file and the abort
+ * signal is checked between LLM calls.
+ */
+export class CodeGenerationExecutor implements AgentExecutor {
+  readonly capability: AgentCapability;
+  private llm: LLMProvider;
+  private profile: CodeGenerationProfile;
+
+  constructor(llm: LLMProvider, profile: CodeGenerationProfile) {
+    this.llm = llm;
+    this.profile = profile;
+    this.capability = {
+      name: profile.name,
+      description: profile.description,
+      categories: profile.categories,
+      complexity: profile.complexity,
+      estimatedTime: (request: string) => Math.max(1, Math.ceil(request.length / 200)) * profile.maxFiles,
+      isAvailable: () => true
+    };
+  }
+
+  async execute(context: AgentExecutionContext): Promise<AgentExecutionResult> {
+    const { workItem, signal, reportProgress } = context;
+
+    await reportProgress(5, `${this.profile.name} planning files...`);
+    const plan = await this.planFiles(context);
+    this.throwIfCancelled(signal);
+
+    await reportProgress(15, `Planned ${plan.length} file${plan.length === 1 ? '' : 's'}: ${plan.map(f => f.path).join(', ')}`);
+
+    const files: GeneratedFile[] = [];
+    for (let i = 0; i < plan.length; i++) {
+      this.throwIfCancelled(signal);
+
+      const content = await this.generateFile(plan[i], plan, context);
+      files.push({ path: plan[i].path, content });
+
+      const progress = 15 + Math.round(((i + 1) / plan.length) * 80);
+      await reportProgress(progress, `Generated ${plan[i].path}`);
+    }
+
+    return {
+      success: files.length > 0,
+      message: `${this.profile.name} generated ${files.length} file${files.length === 1 ? '' : 's'} for ${workItem.title}`,
+      files
+    };
+  }
+
+  private async planFiles(context: AgentExecutionContext): Promise<PlannedFile[]> {
+    const { workItem } = context;
+    const prompt = `Plan the files needed for this work item.
+
+Title: ${workItem.title}
+Request: ${workItem.description}
+Requirements: ${workItem.clarifiedRequirements.join('; ') || 'none stated'}
+
+Respond with JSON only:
+{"files": [{"path": "relative/path.ext", "purpose": "what this file does"}]}
+
+Use at most ${this.profile.maxFiles} files.`;
+
+    try {
+      const response = await this.llm.complete({
+        tier: 'balanced',
+        system: this.profile.role,
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 800,
+        temperature: 0.2
+      });
+
+      const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) throw new Error('No JSON in plan response');
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      const files: PlannedFile[] = (parsed.files || [])
+        .filter((f: any) => typeof f?.path === 'string' && f.path.trim())
+        .map((f: any) => ({ path: f.path.trim(), purpose: String(f.purpose || '') }))
+        .slice(0, this.profile.maxFiles);
+
+      if (files.length > 0) return files;
+    } catch (error) {
+      console.warn(`[${this.profile.name}] Plan parsing failed, using default file:`, error);
+    }
+
+    return [{ path: this.profile.defaultPath, purpose: workItem.description }];
+  }
+
+  private async generateFile(
+    file: PlannedFile,
+    plan: PlannedFile[],
+    context: AgentExecutionContext
+  ): Promise<string> {
+    const { workItem } = context;
+    const prompt = `Write the complete contents of ${file.path}.
+
+Purpose: ${file.purpose}
+Work item: ${workItem.title}
+Request: ${workItem.description}
+Other files in this change: ${plan.filter(f => f !== file).map(f => f.path).join(', ') || 'none'}
+
+Return only the file contents, no explanations.`;
+
+    const response = await this.llm.complete({
+      tier: 'balanced',
+      system: this.profile.role,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 4000,
+      temperature: 0.2
+    });
+
+    return this.stripCodeFences(response.text);
+  }
+
+  private stripCodeFences(text: string): string {
+    const fenced = text.match(/```[\w-]*\n([\s\S]*?)```/);
+    return (fenced ? fenced[1] : text).trim() + '\n';
+  }
+
+  private throwIfCancelled(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw new Error('Work cancelled');
+    }
+  }
+}
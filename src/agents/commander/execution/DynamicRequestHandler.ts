@@ -1,6 +1,9 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import { RequestIntent, RequestAction } from '../conversation/ConversationEngine.js';
 import { ConversationContext } from '../conversation/ConversationThread.js';
+import { WorkManager } from '../workflow/WorkManager.js';
+import { GeneratedFile } from '../types/index.js';
+import { RepositoryFileManager } from '../../../shared/repository/index.js';
 
 export interface RequestResult {
   success: boolean;
@@ -27,11 +30,22 @@ export interface PRSpecification {
   files?: string[];
 }
 
+const MAX_PR_FILES = 5;
+
 export class DynamicRequestHandler {
-  private claude: Anthropic;
+  private llm: LLMProvider;
+  private fileManagers: Record<string, RepositoryFileManager>;
+  private workManager?: WorkManager;
+
+  // fileManagers is keyed by repository name; the first one is this codebase and the PR parser's default
+  constructor(llm: LLMProvider, fileManagers: Record<string, RepositoryFileManager> = {}, workManager?: WorkManager) {
+    this.llm = llm;
+    this.fileManagers = fileManagers;
+    this.workManager = workManager;
+  }
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  private get defaultRepository(): string {
+    return Object.keys(this.fileManagers)[0] || 'aos-dev-team';
   }
 
   async handleRequest(
@@ -79,14 +93,20 @@ export class DynamicRequestHandler {
         };
       }
 
-      // For now, explain what would be created
-      return {
-        success: true,
-        message: `✅ I would create PR: "${prSpec.title}" in ${prSpec.repository}. (GitHub integration TODO)`,
-        actionTaken: 'pr-planned',
-        data: prSpec,
-        suggestedAlternatives: ['Use Systems Architect', 'Manual creation']
-      };
+      // Never fall back to another repository: a change meant for Aurora must not land here
+      const fileManager = this.fileManagers[prSpec.repository];
+      if (!fileManager) {
+        const configured = Object.keys(this.fileManagers);
+        return {
+          success: false,
+          message: `❌ The ${prSpec.repository} repository isn't configured, so I can't open "${prSpec.title}".${configured.length > 0 ? ` Configured: ${configured.join(', ')}` : ''}`,
+          actionTaken: 'pr-planned',
+          data: prSpec,
+          suggestedAlternatives: ['Use Systems Architect', 'Manual creation']
+        };
+      }
+
+      return await this.createPullRequest(prSpec, intent, context, fileManager);
     } catch (error) {
       return {
         success: false,
@@ -97,6 +117,120 @@ export class DynamicRequestHandler {
     }
   }
 
+  private async createPullRequest(
+    prSpec: PRSpecification,
+    intent: RequestIntent,
+    context: ConversationContext,
+    fileManager: RepositoryFileManager
+  ): Promise<RequestResult> {
+    const workItem = this.workManager ? await this.workManager.createWorkItem({
+      title: `PR: ${prSpec.title}`,
+      description: prSpec.description,
+      originalRequest: intent.description,
+      assignedAgents: ['Commander'],
+      primaryAgent: 'Commander',
+      userId: context?.userId || 'unknown',
+      messageId: `pr_${Date.now()}`
+    }) : null;
+
+    try {
+      if (workItem) await this.workManager!.transition(workItem.id, 'building', `Preparing changes on ${prSpec.repository}`);
+
+      const files = await this.generatePRChanges(prSpec, fileManager);
+      if (files.length === 0) {
+        throw new Error('No file changes could be generated for this PR');
+      }
+
+      const base = fileManager.defaultBranch;
+      const branch = prSpec.branch || `commander/${this.slugify(prSpec.title)}-${Date.now().toString(36)}`;
+      await fileManager.createBranch(branch, base);
+      await fileManager.commitFiles(branch, files, prSpec.title);
+
+      const body = await this.generatePRDescription(prSpec, files);
+      const pullRequest = await fileManager.createPullRequest({ title: prSpec.title, body, head: branch, base });
+
+      if (workItem) {
+        await this.workManager!.updateWorkItem(workItem.id, { outputs: { files, prUrl: pullRequest.url } });
+        await this.workManager!.transition(workItem.id, 'completed', `Opened PR #${pullRequest.number}`);
+      }
+
+      console.log(`[DynamicRequestHandler] Opened PR #${pullRequest.number}: ${pullRequest.url}`);
+
+      return {
+        success: true,
+        message: `✅ Opened PR #${pullRequest.number}: "${prSpec.title}"\n→ ${pullRequest.url}\n→ ${files.length} file(s) on \`${branch}\``,
+        actionTaken: 'pr-created',
+        data: { ...prSpec, branch, prUrl: pullRequest.url, workItemId: workItem?.id }
+      };
+    } catch (error) {
+      if (workItem) {
+        await this.workManager!.transition(workItem.id, 'failed', (error as Error).message).catch(() => {});
+      }
+      throw error;
+    }
+  }
+
+  private async generatePRChanges(prSpec: PRSpecification, fileManager: RepositoryFileManager): Promise<GeneratedFile[]> {
+    const files: GeneratedFile[] = [];
+
+    for (const filePath of (prSpec.files || []).slice(0, MAX_PR_FILES)) {
+      const existing = await fileManager.getFile(filePath);
+
+      const response = await this.llm.complete({
+        tier: 'powerful',
+        maxTokens: 4000,
+        system: 'You are a senior TypeScript engineer making a focused change for a pull request. Return only the complete file content, no markdown fences or commentary.',
+        messages: [{
+          role: 'user',
+          content: `PR: ${prSpec.title}
+GOAL: ${prSpec.description}
+FILE: ${filePath}
+
+${existing ? `CURRENT CONTENT:\n${existing.content}` : 'This file does not exist yet; create it.'}`
+        }]
+      });
+
+      const content = response.text.replace(/^```[a-z]*\n/i, '').replace(/\n```\s*$/, '');
+      if (content.trim() && content !== existing?.content) {
+        files.push({ path: filePath, content: content.endsWith('\n') ? content : `${content}\n` });
+      }
+    }
+
+    return files;
+  }
+
+  private async generatePRDescription(prSpec: PRSpecification, files: GeneratedFile[]): Promise<string> {
+    const fileList = files.map(file => `- \`${file.path}\``).join('\n');
+
+    try {
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 600,
+        messages: [{
+          role: 'user',
+          content: `Write a concise GitHub pull request description in markdown for this change. Start with one or two sentences on what it does and why, then a short "Changes" list. No headings above level 2.
+
+TITLE: ${prSpec.title}
+GOAL: ${prSpec.description}
+FILES:
+${fileList}`
+        }]
+      });
+
+      if (response.text.trim()) {
+        return `${response.text.trim()}\n\n---\nOpened by Commander.`;
+      }
+    } catch (error) {
+      console.error('[DynamicRequestHandler] Failed to generate PR description:', error);
+    }
+
+    return `${prSpec.description}\n\n## Changes\n${fileList}\n\n---\nOpened by Commander.`;
+  }
+
+  private slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 40) || 'change';
+  }
+
   private async handleCodeAnalysis(intent: RequestIntent, context: ConversationContext): Promise<RequestResult> {
     return {
       success: true,
@@ -153,25 +287,25 @@ export class DynamicRequestHandler {
   private async parsePRRequest(description: string, context: ConversationContext): Promise<PRSpecification> {
     // Use AI to understand complex conditional requests
     try {
-      const analysis = await this.claude.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 800,
+      const analysis = await this.llm.complete({
+        tier: 'powerful',
+        maxTokens: 800,
         system: `Parse complex PR creation requests into actionable specifications.
 
 REPOSITORIES:
-- "aos-dev-team": EPOCH I AI development infrastructure  
+- "${this.defaultRepository}": EPOCH I AI development infrastructure (this codebase)
 - "aurora": Main Aurora OS application
 
 EXAMPLE REQUEST: "when it detects user intent to build WITHIN the epoch I dev team codebase (not Aurora)- offer to use systems arch bot or a new pull request in GH"
 
-This means: Create PR that adds logic to detect when users want to build in aos-dev-team (not Aurora) and offer two options: Systems Architect bot OR direct GitHub PR.
+This means: Create PR that adds logic to detect when users want to build in ${this.defaultRepository} (not Aurora) and offer two options: Systems Architect bot OR direct GitHub PR.
 
 Return JSON with:
 {
   "title": "Brief PR title",
   "description": "What the PR would accomplish", 
   "needsArchitect": boolean,
-  "repository": "aos-dev-team|aurora",
+  "repository": "${this.defaultRepository}|aurora",
   "files": ["list", "of", "files", "to", "modify"]
 }`,
         messages: [{
@@ -180,7 +314,7 @@ Return JSON with:
         }]
       });
 
-      const content = analysis.content[0]?.text || '';
+      const content = analysis.text || '';
       const jsonMatch = content.match(/\{[\s\S]*\}/);
       
       if (jsonMatch) {
@@ -189,7 +323,7 @@ Return JSON with:
           title: parsed.title || 'Generated PR',
           description: parsed.description || description,
           needsArchitect: parsed.needsArchitect || false,
-          repository: parsed.repository || 'aos-dev-team',
+          repository: parsed.repository || this.defaultRepository,
           files: parsed.files || []
         };
       }
@@ -199,7 +333,7 @@ Return JSON with:
         title: 'Generated PR Request',
         description: description,
         needsArchitect: true, // Default to architect for safety
-        repository: 'aos-dev-team'
+        repository: this.defaultRepository
       };
     } catch (error) {
       console.error('[DynamicRequestHandler] Error parsing PR request:', error);
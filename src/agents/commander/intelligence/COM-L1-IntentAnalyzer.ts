@@ -1,12 +1,12 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import { UniversalIntent } from '../types/index.js';
 import { VoiceSystem } from '../communication/VoiceSystem.js';
 
 export class COM_L1_IntentAnalyzer {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   
-  constructor(apiKey: string) {
-    this.claude = new Anthropic({ apiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   async analyzeUniversalIntent(input: string, context?: {
@@ -29,7 +29,7 @@ LEVEL 1 CATEGORIES:
 - build: Create something new (UI, API, feature, component, app, etc.)
 - modify: Change existing work (fix, update, enhance, style, etc.)  
 - analyze: Examine/inspect (code review, performance, health, debug)
-- manage: Control workflow (pause, cancel, status, deploy, etc.)
+- manage: Control workflow (pause, cancel, status, deploy, recurring schedules, etc.)
 - question: Ask for information (how to, what is, explain, etc.)
 - conversation: General chat, feedback, thanks, off-topic requests, casual talk
 
@@ -37,17 +37,21 @@ LEVEL 2 SUBCATEGORIES (examples):
 - build: build-ui, build-api, build-integration, build-full-app
 - modify: modify-existing, modify-style, modify-behavior, modify-content
 - analyze: analyze-code, analyze-performance, analyze-health  
-- manage: manage-work, manage-deployment, manage-project
+- manage: manage-work, manage-schedule, manage-deployment, manage-project
 
 LEVEL 3 SPECIFIC (examples):
 - build-ui: build-ui-component, build-ui-form, build-ui-page, build-ui-layout
 - modify-existing: modify-component-style, modify-component-behavior
+- manage-work: manage-cancel, manage-pause, manage-resume, manage-status, manage-history
+- manage-schedule: manage-schedule-create, manage-schedule-list, manage-schedule-delete, manage-schedule-pause, manage-schedule-resume
 
 AGENT ROUTING:
 - UI/Frontend: FrontendArchitect
-- Backend/API: BackendEngineer (TODO)
-- Performance: PerformanceOptimizer (TODO)  
+- Backend/API: BackendEngineer
+- Performance: PerformanceOptimizer
+- Mobile/PWA: MobileSpecialist
 - Quality: QCAgent
+- Requests spanning several areas list every agent needed; the work is split into one sub-task per agent
 - Analysis: CodeAnalyzer (TODO)
 - Memory: MemoryService (TODO)
 
@@ -64,7 +68,13 @@ EXAMPLES:
 "How are we?" → conversation/conversation-status/conversation-casual, [Commander], simple
 "I want to create a beer" → conversation/conversation-offtopic/conversation-redirect, [Commander], simple
 "What's up?" → conversation/conversation-casual/conversation-greeting, [Commander], simple
+"Build a signup page with an API and tests" → build/build-full-app/build-full-app-feature, [FrontendArchitect, BackendEngineer, QCAgent], medium
 "Cancel the login work" → manage/manage-work/manage-cancel, [Commander], simple
+"Resume the dashboard build" → manage/manage-work/manage-resume, [Commander], simple
+"Run a code health analysis every Monday" → manage/manage-schedule/manage-schedule-create, [Commander], simple
+"Send me a cost report every day at 9am" → manage/manage-schedule/manage-schedule-create, [Commander], simple
+"What's scheduled?" → manage/manage-schedule/manage-schedule-list, [Commander], simple
+"Stop the weekly health check" → manage/manage-schedule/manage-schedule-pause, target "weekly health check", [Commander], simple
 "What is React?" → question/question-concept/question-tech-concept, [Commander], simple
 "Thanks, looks great!" → conversation/conversation-positive/conversation-feedback, [MemoryService], simple
 
@@ -81,27 +91,25 @@ Return JSON:
   "estimatedComplexity": "simple|medium|complex|enterprise",
   "parameters": {
     "description": "enhanced description",
-    "target": "what to modify (if modify)",
+    "target": "what to modify (if modify), or the work item / schedule id or name (if manage)",
     "context": "relevant context",
     "requirements": ["extracted requirements"]
   }
 }`;
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 1000,
+      const response = await this.llm.complete({
+        tier: 'powerful',
+        maxTokens: 1000,
+        critical: true, // Without it no request is understood
         system: VoiceSystem.getSystemPrompt(),
         messages: [{ role: 'user', content: analysisPrompt }]
       });
       
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Invalid response type from Claude');
-      }
+      const content = response.text;
       
       // Extract JSON from response
-      const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error('No JSON found in Claude response');
       }
@@ -1,4 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import { createClient } from 'redis';
 
 interface FeedbackExample {
@@ -15,14 +15,12 @@ interface FeedbackExample {
 
 export class FeedbackLearningSystem {
   private examples: FeedbackExample[] = [];
-  private claude?: Anthropic;
+  private llm?: LLMProvider;
   private redis?: any;
   private redisKey = 'commander:feedback';
   
-  constructor(claudeApiKey?: string) {
-    if (claudeApiKey) {
-      this.claude = new Anthropic({ apiKey: claudeApiKey });
-    }
+  constructor(llm?: LLMProvider) {
+    this.llm = llm;
     this.initRedis();
     this.loadFeedback();
   }
@@ -93,15 +91,15 @@ export class FeedbackLearningSystem {
   }
 
   async detectFeedback(userMessage: string, lastResponse: string): Promise<boolean> {
-    if (!this.claude) {
-      console.log('[FeedbackLearning] No Claude API key, using fallback detection');
+    if (!this.llm) {
+      console.log('[FeedbackLearning] No LLM provider, using fallback detection');
       return /feedback|correction|better|instead|don't|avoid|DO NOT|too try-hard|way too|dial.*down/i.test(userMessage);
     }
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 50,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 50,
         messages: [{
           role: 'user',
           content: `Previous AI response: "${lastResponse}"
@@ -111,8 +109,7 @@ Is the user giving feedback/correction about the previous response? Answer only:
         }]
       });
       
-      const content = response.content[0];
-      return content.type === 'text' && content.text.trim().toUpperCase().includes('YES');
+      return response.text.trim().toUpperCase().includes('YES');
     } catch (error) {
       console.error('[FeedbackLearning] AI feedback detection failed, using fallback');
       return /feedback|correction|better|instead|don't|avoid|DO NOT|too try-hard|way too|dial.*down/i.test(userMessage);
@@ -120,16 +117,16 @@ Is the user giving feedback/correction about the previous response? Answer only:
   }
 
   async extractSuggestion(userFeedback: string, previousResponse: string): Promise<string | undefined> {
-    if (!this.claude) {
-      console.log('[FeedbackLearning] No Claude API key, using fallback extraction');
+    if (!this.llm) {
+      console.log('[FeedbackLearning] No LLM provider, using fallback extraction');
       const match = userFeedback.match(/should.*be.*['"]([^'"]+)['"]/i);
       return match ? match[1].trim() : undefined;
     }
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 200,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 200,
         messages: [{
           role: 'user',
           content: `Previous AI response: "${previousResponse}"
@@ -144,9 +141,9 @@ Examples:
         }]
       });
       
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const extracted = content.text.trim();
+      const content = response.text;
+      if (content) {
+        const extracted = content.trim();
         return extracted === 'GENERAL_FEEDBACK' ? undefined : extracted;
       }
     } catch (error) {
@@ -158,7 +155,7 @@ Examples:
   }
 
   private async classifyFeedback(feedback: string, context?: string): Promise<'positive' | 'negative' | 'suggestion'> {
-    if (!this.claude) {
+    if (!this.llm) {
       if (/DO NOT|don't|bad|wrong|terrible|too try-hard|way too|dial.*down/i.test(feedback)) return 'negative';
       if (/try|instead|better|should|more like|one or two liner/i.test(feedback)) return 'suggestion';
       if (/good|great|perfect|nice|love|excellent/i.test(feedback)) return 'positive';
@@ -166,9 +163,9 @@ Examples:
     }
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 50,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 50,
         messages: [{
           role: 'user',
           content: `User feedback: "${feedback}"
@@ -183,9 +180,9 @@ Answer only: POSITIVE, NEGATIVE, or SUGGESTION`
         }]
       });
       
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const classification = content.text.trim().toUpperCase();
+      const content = response.text;
+      if (content) {
+        const classification = content.trim().toUpperCase();
         if (classification.includes('POSITIVE')) return 'positive';
         if (classification.includes('SUGGESTION')) return 'suggestion';
         return 'negative';
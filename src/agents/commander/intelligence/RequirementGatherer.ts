@@ -1,11 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import { RequirementGatheringResult } from '../types/index.js';
 
 export class RequirementGatherer {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   
-  constructor(apiKey: string) {
-    this.claude = new Anthropic({ apiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   async analyzeRequirements(
@@ -64,18 +64,15 @@ Return JSON:
 }`;
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 800,
+      const response = await this.llm.complete({
+        tier: 'powerful',
+        maxTokens: 800,
         messages: [{ role: 'user', content: analysisPrompt }]
       });
       
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Invalid response type from Claude');
-      }
+      const content = response.text;
       
-      const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error('No JSON found in Claude response');
       }
@@ -127,18 +124,15 @@ Now update the clarified request with this new information. Do we have enough to
 Return JSON with updated clarifiedRequest and whether to continue gathering.`;
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 600,
+      const response = await this.llm.complete({
+        tier: 'powerful',
+        maxTokens: 600,
         messages: [{ role: 'user', content: continuationPrompt }]
       });
       
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Invalid response type from Claude');
-      }
+      const content = response.text;
       
-      const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error('No JSON found in Claude response');
       }
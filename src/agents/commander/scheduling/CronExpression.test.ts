@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CronExpression } from './CronExpression.js';
+
+// Local time, like CronExpression itself; January avoids DST changes
+const at = (day: number, hour: number, minute: number) => new Date(2026, 0, day, hour, minute);
+
+test('next is the first matching minute strictly after the given time', () => {
+  const everyQuarter = new CronExpression('*/15 * * * *');
+  assert.deepEqual(everyQuarter.next(at(5, 8, 0)), at(5, 8, 15));
+  assert.deepEqual(everyQuarter.next(at(5, 8, 14)), at(5, 8, 15));
+  assert.deepEqual(everyQuarter.next(at(5, 23, 50)), at(6, 0, 0));
+
+  assert.deepEqual(new CronExpression('@daily').next(at(5, 0, 0)), at(6, 0, 0));
+  assert.deepEqual(new CronExpression('30 9 * * *').next(at(5, 10, 0)), at(6, 9, 30));
+});
+
+test('ranges, lists, steps and names', () => {
+  // 2026-01-05 is a Monday
+  const weekdayMornings = new CronExpression('0 9 * * mon-fri');
+  assert.deepEqual(weekdayMornings.next(at(9, 9, 0)), at(12, 9, 0));
+
+  assert.deepEqual(new CronExpression('0 8,17 * * *').next(at(5, 9, 0)), at(5, 17, 0));
+  assert.deepEqual(new CronExpression('0 0-6/3 * * *').next(at(5, 1, 0)), at(5, 3, 0));
+  assert.deepEqual(new CronExpression('0 0 1 feb *').next(at(5, 0, 0)), new Date(2026, 1, 1, 0, 0));
+  // 7 is Sunday too
+  assert.deepEqual(new CronExpression('0 12 * * 7').next(at(5, 0, 0)), at(11, 12, 0));
+});
+
+test('when both day fields are restricted either one matches', () => {
+  // The 10th, or any Monday
+  const cron = new CronExpression('0 0 10 * mon');
+  assert.deepEqual(cron.next(at(5, 1, 0)), at(10, 0, 0));
+  assert.deepEqual(cron.next(at(10, 1, 0)), at(12, 0, 0));
+});
+
+test('malformed and never-matching expressions are rejected', () => {
+  for (const expression of ['* * * *', '60 * * * *', '0 24 * * *', '*/0 * * * *', '5-1 * * * *', '0 0 * foo *']) {
+    assert.throws(() => new CronExpression(expression), /Invalid/, expression);
+    assert.equal(CronExpression.isValid(expression), false, expression);
+  }
+
+  assert.equal(CronExpression.isValid('0 0 31 2 *'), false);
+  assert.equal(CronExpression.isValid('0 0 29 2 *'), true);
+});
@@ -0,0 +1,166 @@
+// Five-field cron expressions: minute hour day-of-month month day-of-week.
+// Supports *, lists (1,2), ranges (1-5), steps (*/15, 0-30/10), month and
+// weekday names, and the @hourly/@daily/@weekly/@monthly shortcuts.
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 }
+];
+
+// Searching past this finds nothing new: every minute/day combination repeats within 4 years (Feb 29)
+const MAX_SEARCH_DAYS = 366 * 4;
+
+export class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private domRestricted: boolean;
+  private dowRestricted: boolean;
+
+  constructor(expression: string) {
+    this.source = expression.trim();
+    const normalized = ALIASES[this.source.toLowerCase()] || this.source;
+    const parts = normalized.split(/\s+/);
+
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+    }
+
+    const [minutes, hours, dom, months, dow] = parts.map((part, i) => this.parseField(part, FIELDS[i]));
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = dom;
+    this.months = months;
+    // 7 is an alias for Sunday
+    this.daysOfWeek = new Set(Array.from(dow).map(day => day % 7));
+    this.domRestricted = parts[2] !== '*';
+    this.dowRestricted = parts[4] !== '*';
+  }
+
+  // Well-formed and matches at least once (e.g. not "0 0 31 2 *")
+  static isValid(expression: string): boolean {
+    try {
+      new CronExpression(expression).next();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * First matching minute strictly after `from`, in local time.
+   */
+  next(from: Date = new Date()): Date {
+    const candidate = new Date(from.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    const limit = from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+    while (candidate.getTime() <= limit) {
+      if (!this.months.has(candidate.getMonth() + 1) || !this.matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return candidate;
+    }
+
+    throw new Error(`Cron expression "${this.source}" never matches`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const domMatch = this.daysOfMonth.has(date.getDate());
+    const dowMatch = this.daysOfWeek.has(date.getDay());
+
+    // Standard cron: when both day fields are restricted, either may match
+    if (this.domRestricted && this.dowRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+
+  private parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.toLowerCase().split(',')) {
+      const [rangePart, stepPart] = part.split('/');
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`);
+      }
+
+      let start: number;
+      let end: number;
+      if (rangePart === '*') {
+        start = spec.min;
+        end = spec.max;
+      } else if (rangePart.includes('-')) {
+        const [low, high] = rangePart.split('-');
+        start = this.parseValue(low, spec);
+        end = this.parseValue(high, spec);
+      } else {
+        start = this.parseValue(rangePart, spec);
+        end = stepPart === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private parseValue(token: string, spec: FieldSpec): number {
+    const nameIndex = spec.names?.indexOf(token.slice(0, 3)) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + (spec.namesOffset || 0) : Number(token);
+
+    if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+      throw new Error(`Invalid ${spec.name} value "${token}" (expected ${spec.min}-${spec.max})`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,182 @@
+import { LLMProvider } from '../../../shared/llm/index.js';
+import { UniversalIntent, ScheduleAction } from '../types/index.js';
+import { CronExpression } from './CronExpression.js';
+import { Scheduler } from './Scheduler.js';
+
+const COMMAND_TARGETS = ['Commander', 'Architect', 'Dashboard'];
+
+export class ScheduleManager {
+  private llm: LLMProvider;
+  private scheduler: Scheduler;
+
+  constructor(llm: LLMProvider, scheduler: Scheduler) {
+    this.llm = llm;
+    this.scheduler = scheduler;
+  }
+
+  async handleScheduleManagement(intent: UniversalIntent, userId: string): Promise<string> {
+    const action = intent.specific;
+    const target = intent.parameters.target;
+
+    console.log(`[ScheduleManager] Handling ${action} for target: ${target}`);
+
+    switch (action) {
+      case 'manage-schedule-create':
+        return await this.createSchedule(intent.parameters.description, userId);
+
+      case 'manage-schedule-list':
+        return this.listSchedules();
+
+      case 'manage-schedule-delete':
+        return await this.deleteSchedule(target);
+
+      case 'manage-schedule-pause':
+        return await this.setScheduleEnabled(target, false);
+
+      case 'manage-schedule-resume':
+        return await this.setScheduleEnabled(target, true);
+
+      default:
+        return `🤔 I understand you want to manage schedules, but I'm not sure what to do. Try "list schedules" or "every Monday at 9am run a health check".`;
+    }
+  }
+
+  private async createSchedule(description: string, userId: string): Promise<string> {
+    const parsed = await this.parseScheduleRequest(description);
+    if (!parsed) {
+      return `× Couldn't work out a schedule from that. Say when and what, e.g. "every weekday at 9am send me a cost report".`;
+    }
+
+    if (!CronExpression.isValid(parsed.cron)) {
+      return `× "${parsed.cron}" isn't a valid schedule. Try rephrasing the timing.`;
+    }
+
+    if (parsed.action.kind === 'command' && !COMMAND_TARGETS.includes(parsed.action.target)) {
+      return `× Can't schedule commands for ${parsed.action.target}. Available: ${COMMAND_TARGETS.join(', ')}`;
+    }
+
+    const task = await this.scheduler.create({
+      name: parsed.name,
+      cron: parsed.cron,
+      action: parsed.action,
+      createdBy: userId
+    });
+
+    return `⏰ Scheduled ${task.id} - ${task.name}\n→ ${this.describeAction(task.action)} (\`${task.cron}\`)\n→ Next run: ${this.formatTime(task.nextRunAt)}`;
+  }
+
+  private listSchedules(): string {
+    const tasks = this.scheduler.list();
+    if (tasks.length === 0) {
+      return `⏰ No schedules yet.`;
+    }
+
+    const lines = tasks.map(task => {
+      const state = task.enabled ? `next ${this.formatTime(task.nextRunAt)}` : 'paused';
+      return `• ${task.id} - ${task.name} (\`${task.cron}\`, ${state}, ran ${task.runCount}x)`;
+    });
+
+    return `⏰ ${tasks.length} schedule(s):\n${lines.join('\n')}`;
+  }
+
+  private async deleteSchedule(target: string | undefined): Promise<string> {
+    const task = target ? this.scheduler.find(target) : null;
+    if (!task) {
+      return `× No schedule matching "${target || ''}". Say "list schedules" to see them.`;
+    }
+
+    await this.scheduler.remove(task.id);
+    return `× Deleted ${task.id} - ${task.name}`;
+  }
+
+  private async setScheduleEnabled(target: string | undefined, enabled: boolean): Promise<string> {
+    const task = target ? this.scheduler.find(target) : null;
+    if (!task) {
+      return `× No schedule matching "${target || ''}". Say "list schedules" to see them.`;
+    }
+
+    const updated = await this.scheduler.setEnabled(task.id, enabled);
+    if (!updated) {
+      return `× Couldn't update ${task.id}.`;
+    }
+
+    return enabled
+      ? `▶ Resumed ${updated.id} - ${updated.name}, next run ${this.formatTime(updated.nextRunAt)}`
+      : `⏸ Paused ${updated.id} - ${updated.name}`;
+  }
+
+  private async parseScheduleRequest(description: string): Promise<{ name: string; cron: string; action: ScheduleAction } | null> {
+    const prompt = `Convert this scheduling request into a cron schedule and an action.
+
+REQUEST: "${description}"
+CURRENT TIME: ${new Date().toString()}
+
+ACTIONS:
+- work-item: recurring development work for Commander's agents (FrontendArchitect, BackendEngineer, QCAgent, PerformanceOptimizer, MobileSpecialist)
+- command: a message sent to an agent as if the user typed it
+  - Architect: code health analysis, code changes, agent building
+  - Dashboard: cost reports, performance reports, usage analytics
+  - Commander: anything else
+
+Use standard 5-field cron (minute hour day-of-month month day-of-week) in local time.
+
+Return JSON only:
+{
+  "name": "short name",
+  "cron": "0 9 * * 1",
+  "action": { "kind": "command", "target": "Architect", "command": "analyze code health" }
+}
+or
+{
+  "name": "short name",
+  "cron": "0 2 * * *",
+  "action": { "kind": "work-item", "title": "short title", "description": "what to build", "agents": ["QCAgent"] }
+}`;
+
+    try {
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 400,
+        messages: [{ role: 'user', content: prompt }]
+      });
+
+      const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) return null;
+
+      const result = JSON.parse(jsonMatch[0]);
+      if (!result.cron || !result.action?.kind) return null;
+
+      const action: ScheduleAction = result.action.kind === 'work-item'
+        ? {
+            kind: 'work-item',
+            title: result.action.title || result.name || description,
+            description: result.action.description || description,
+            agents: Array.isArray(result.action.agents) && result.action.agents.length > 0 ? result.action.agents : ['FrontendArchitect']
+          }
+        : {
+            kind: 'command',
+            target: result.action.target || 'Commander',
+            command: result.action.command || description
+          };
+
+      return {
+        name: result.name || description.substring(0, 50),
+        cron: String(result.cron),
+        action
+      };
+    } catch (error) {
+      console.error('[ScheduleManager] Failed to parse schedule request:', error);
+      return null;
+    }
+  }
+
+  private describeAction(action: ScheduleAction): string {
+    return action.kind === 'work-item'
+      ? `Starts work "${action.title}" for ${action.agents.join(', ')}`
+      : `Sends "${action.command}" to ${action.target}`;
+  }
+
+  private formatTime(iso?: string): string {
+    return iso ? new Date(iso).toLocaleString() : 'not scheduled';
+  }
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ScheduleAction } from '../types/index.js';
+import { Scheduler } from './Scheduler.js';
+
+const ACTION: ScheduleAction = { kind: 'command', target: 'Dashboard', command: '/budget' };
+
+test('schedules are saved and loaded back', async () => {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scheduler-'));
+  try {
+    const scheduler = new Scheduler(dataDir);
+    const task = await scheduler.create({ name: 'Budget report', cron: '0 9 * * mon', action: ACTION, createdBy: 'user' });
+
+    const reloaded = new Scheduler(dataDir);
+    assert.equal(await reloaded.remove(task.id), true);
+    assert.deepEqual(await fs.readdir(dataDir), ['schedules.json']);
+  } finally {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+});
+
+test('an unreadable schedules file is not overwritten', async () => {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scheduler-'));
+  try {
+    const file = path.join(dataDir, 'schedules.json');
+    await fs.writeFile(file, '[{"id": "sched_1",');
+
+    const scheduler = new Scheduler(dataDir);
+    await scheduler.create({ name: 'Budget report', cron: '@daily', action: ACTION, createdBy: 'user' });
+
+    assert.equal(await fs.readFile(file, 'utf8'), '[{"id": "sched_1",');
+  } finally {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+});
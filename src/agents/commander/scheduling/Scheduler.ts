@@ -0,0 +1,205 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ScheduledTask, ScheduleAction } from '../types/index.js';
+import { CronExpression } from './CronExpression.js';
+
+export type ScheduledTaskHandler = (task: ScheduledTask) => Promise<string>;
+
+export class Scheduler {
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private dataDir: string;
+  private schedulesFile: string;
+  private handler: ScheduledTaskHandler | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private inFlight: Set<string> = new Set();
+  private checkIntervalMs: number;
+  private loaded: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  // Set when schedules.json exists but can't be parsed, so it is left for someone to fix instead of overwritten
+  private unreadable = false;
+
+  constructor(dataDir: string = './data', checkIntervalMs: number = 30 * 1000) {
+    this.dataDir = dataDir;
+    this.checkIntervalMs = checkIntervalMs;
+    this.schedulesFile = path.join(dataDir, 'schedules.json');
+    this.loaded = this.loadSchedules();
+  }
+
+  async start(handler: ScheduledTaskHandler): Promise<void> {
+    await this.loaded;
+    this.handler = handler;
+
+    // Runs missed while the process was down fire once on the first tick
+    const missed = this.list().filter(task => task.enabled && task.nextRunAt && new Date(task.nextRunAt) < new Date());
+    if (missed.length > 0) {
+      console.log(`[Scheduler] ${missed.length} schedule(s) missed a run while offline, catching up`);
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('[Scheduler] Tick failed:', error));
+    }, this.checkIntervalMs);
+    await this.tick();
+
+    console.log(`[Scheduler] ⏰ Started with ${this.tasks.size} schedule(s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.handler = null;
+  }
+
+  async create(params: {
+    name: string;
+    cron: string;
+    action: ScheduleAction;
+    createdBy: string;
+  }): Promise<ScheduledTask> {
+    await this.loaded;
+
+    // Throws with a readable message when the expression is malformed
+    const cron = new CronExpression(params.cron);
+
+    const task: ScheduledTask = {
+      id: `sched_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: params.name,
+      cron: cron.source,
+      action: params.action,
+      enabled: true,
+      createdBy: params.createdBy,
+      createdAt: new Date().toISOString(),
+      nextRunAt: cron.next().toISOString(),
+      runCount: 0
+    };
+
+    this.tasks.set(task.id, task);
+    await this.saveSchedules();
+
+    console.log(`[Scheduler] Created ${task.id} "${task.name}" (${task.cron}), next run ${task.nextRunAt}`);
+    return task;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    await this.loaded;
+    const removed = this.tasks.delete(id);
+    if (removed) {
+      await this.saveSchedules();
+    }
+    return removed;
+  }
+
+  async setEnabled(id: string, enabled: boolean): Promise<ScheduledTask | null> {
+    await this.loaded;
+    const task = this.tasks.get(id);
+    if (!task) return null;
+
+    task.enabled = enabled;
+    // Re-enabling starts from now rather than replaying everything missed while paused
+    if (enabled) {
+      task.nextRunAt = new CronExpression(task.cron).next().toISOString();
+    }
+    await this.saveSchedules();
+    return task;
+  }
+
+  get(id: string): ScheduledTask | null {
+    return this.tasks.get(id) || null;
+  }
+
+  list(): ScheduledTask[] {
+    return Array.from(this.tasks.values())
+      .sort((a, b) => (a.nextRunAt || '').localeCompare(b.nextRunAt || ''));
+  }
+
+  find(query: string): ScheduledTask | null {
+    const exact = this.tasks.get(query);
+    if (exact) return exact;
+
+    const lower = query.toLowerCase();
+    return this.list().find(task => task.name.toLowerCase().includes(lower)) || null;
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.handler || this.running) return;
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const due = this.list().filter(task =>
+        task.enabled && task.nextRunAt && new Date(task.nextRunAt) <= now && !this.inFlight.has(task.id));
+      if (due.length === 0) return;
+
+      // Advance first so a slow run is never picked up twice
+      for (const task of due) {
+        task.lastRunAt = now.toISOString();
+        task.nextRunAt = new CronExpression(task.cron).next(now).toISOString();
+        task.runCount++;
+      }
+      await this.saveSchedules();
+
+      // Runs don't wait on each other: one slow or unresponsive agent must not stall every other schedule
+      for (const task of due) {
+        this.run(task, this.handler);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run(task: ScheduledTask, handler: ScheduledTaskHandler): Promise<void> {
+    this.inFlight.add(task.id);
+    console.log(`[Scheduler] ▶ Running ${task.id} "${task.name}"`);
+    try {
+      task.lastResult = await handler(task);
+    } catch (error) {
+      task.lastResult = `Failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(`[Scheduler] ${task.id} failed:`, error);
+    } finally {
+      this.inFlight.delete(task.id);
+    }
+    await this.saveSchedules();
+  }
+
+  private async loadSchedules(): Promise<void> {
+    try {
+      await fs.mkdir(this.dataDir, { recursive: true });
+      const data = await fs.readFile(this.schedulesFile, 'utf-8');
+      const tasks: ScheduledTask[] = JSON.parse(data);
+      this.tasks = new Map(tasks.map(task => [task.id, task]));
+      console.log(`[Scheduler] Loaded ${this.tasks.size} schedules from storage`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.log('[Scheduler] No existing schedules found, starting fresh');
+      } else {
+        console.error(`[Scheduler] Couldn't read ${this.schedulesFile}; schedules won't be saved until it is fixed or removed:`, error);
+        this.unreadable = true;
+      }
+      this.tasks = new Map();
+    }
+  }
+
+  // Runs finish concurrently, so writes are serialized
+  private saveSchedules(): Promise<void> {
+    this.saving = this.saving.then(() => this.writeSchedules());
+    return this.saving;
+  }
+
+  private async writeSchedules(): Promise<void> {
+    if (this.unreadable) {
+      console.warn(`[Scheduler] Not saving schedules over the unreadable ${this.schedulesFile}`);
+      return;
+    }
+
+    try {
+      // Write then rename so a crash mid-write never leaves a truncated file
+      const tempFile = `${this.schedulesFile}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(Array.from(this.tasks.values()), null, 2));
+      await fs.rename(tempFile, this.schedulesFile);
+    } catch (error) {
+      console.error('[Scheduler] Failed to save schedules:', error);
+    }
+  }
+}
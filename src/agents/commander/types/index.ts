@@ -26,14 +26,38 @@ export interface UniversalIntent {
   };
 }
 
+export type WorkItemStatus =
+  | 'analyzing'
+  | 'planning'
+  | 'blocked'
+  | 'building'
+  | 'paused'
+  | 'deploying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface WorkItemEvent {
+  timestamp: string;
+  type: 'created' | 'transition' | 'progress' | 'dependency' | 'subtask' | 'note';
+  from?: WorkItemStatus;
+  to?: WorkItemStatus;
+  message: string;
+}
+
 export interface WorkItem {
   id: string;
   threadId?: string; // Discord thread ID
   title: string;
   description: string;
-  status: 'analyzing' | 'planning' | 'building' | 'deploying' | 'completed' | 'failed' | 'cancelled';
+  status: WorkItemStatus;
   priority: 'low' | 'medium' | 'high' | 'critical';
   
+  // Decomposition and ordering
+  parentId?: string;
+  childIds: string[];
+  blockedBy: string[]; // Work item IDs that must complete first
+  
   // Agent assignment
   assignedAgents: string[];
   primaryAgent: string;
@@ -51,7 +75,7 @@ export interface WorkItem {
   
   // Results
   outputs?: {
-    files?: { path: string; content: string }[];
+    files?: GeneratedFile[];
     deploymentUrl?: string;
     prUrl?: string;
     previewUrl?: string;
@@ -61,17 +85,12 @@ export interface WorkItem {
   errors?: string[];
   retryCount: number;
   userErrorPreference?: 'ask' | 'auto-retry' | 'suggest-fix';
+  
+  // Append-only audit trail
+  history: WorkItemEvent[];
 }
 
-export interface AgentMessage {
-  from: string;
-  to: string | 'all';
-  type: 'task' | 'status' | 'completion' | 'error' | 'coordination';
-  workItemId?: string;
-  content: string;
-  timestamp: Date;
-  metadata?: Record<string, any>;
-}
+export type { AgentMessage } from '../../../shared/messaging/types.js';
 
 export interface DiscordEmbed {
   title: string;
@@ -117,4 +136,52 @@ export interface AgentCapability {
   complexity: string[];
   estimatedTime: (request: string) => number; // minutes
   isAvailable: () => boolean;
-}
\ No newline at end of file
+}
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+export interface AgentProgressEvent {
+  workItemId: string;
+  agent: string;
+  progress: number; // 0-100
+  message: string;
+  timestamp: Date;
+}
+
+export interface AgentExecutionContext {
+  workItem: WorkItem;
+  signal: AbortSignal;
+  reportProgress: (progress: number, message: string) => Promise<void>;
+}
+
+export interface AgentExecutionResult {
+  success: boolean;
+  message: string;
+  files: GeneratedFile[];
+}
+
+export interface AgentExecutor {
+  capability: AgentCapability;
+  execute(context: AgentExecutionContext): Promise<AgentExecutionResult>;
+}
+
+export type ScheduleAction =
+  | { kind: 'work-item'; title: string; description: string; agents: string[] }
+  | { kind: 'command'; target: 'Commander' | 'Architect' | 'Dashboard'; command: string };
+
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  cron: string;
+  action: ScheduleAction;
+  enabled: boolean;
+  createdBy: string;
+  createdAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastResult?: string;
+  runCount: number;
+}
@@ -0,0 +1,60 @@
+import { WorkItem, WorkItemEvent, WorkItemStatus } from '../types/index.js';
+
+// Allowed status changes. Anything not listed here is rejected.
+const TRANSITIONS: Record<WorkItemStatus, WorkItemStatus[]> = {
+  analyzing: ['planning', 'blocked', 'building', 'paused', 'failed', 'cancelled'],
+  planning: ['building', 'blocked', 'paused', 'failed', 'cancelled'],
+  blocked: ['planning', 'failed', 'cancelled'],
+  building: ['deploying', 'completed', 'failed', 'paused', 'cancelled'],
+  paused: ['planning', 'cancelled'],
+  deploying: ['completed', 'failed', 'paused', 'cancelled'],
+  failed: ['planning', 'cancelled'], // Retry goes back through planning
+  completed: [],
+  cancelled: []
+};
+
+const ACTIVE_STATUSES: WorkItemStatus[] = ['analyzing', 'planning', 'building', 'deploying'];
+
+export class WorkItemStateMachine {
+  static canTransition(from: WorkItemStatus, to: WorkItemStatus): boolean {
+    return TRANSITIONS[from]?.includes(to) || false;
+  }
+
+  static allowedTransitions(from: WorkItemStatus): WorkItemStatus[] {
+    return [...(TRANSITIONS[from] || [])];
+  }
+
+  static isTerminal(status: WorkItemStatus): boolean {
+    return status === 'completed' || status === 'cancelled';
+  }
+
+  static isActive(status: WorkItemStatus): boolean {
+    return ACTIVE_STATUSES.includes(status);
+  }
+
+  /**
+   * Moves the item to `to` and records the change. Throws when the
+   * transition is not allowed so callers never persist an invalid state.
+   */
+  static transition(workItem: WorkItem, to: WorkItemStatus, message: string): WorkItemEvent {
+    const from = workItem.status;
+    if (!this.canTransition(from, to)) {
+      const allowed = this.allowedTransitions(from).join(', ') || 'none';
+      throw new Error(`Invalid transition for ${workItem.id}: ${from} → ${to} (allowed: ${allowed})`);
+    }
+
+    workItem.status = to;
+    if (this.isTerminal(to) || to === 'failed') {
+      workItem.actualCompletion = new Date();
+    }
+
+    return this.record(workItem, { type: 'transition', from, to, message });
+  }
+
+  static record(workItem: WorkItem, event: Omit<WorkItemEvent, 'timestamp'>): WorkItemEvent {
+    const entry: WorkItemEvent = { timestamp: new Date().toISOString(), ...event };
+    workItem.history = workItem.history || [];
+    workItem.history.push(entry);
+    return entry;
+  }
+}
@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkManager } from './WorkManager.js';
+
+// Mirrors UniversalRouter.decomposeWorkItem: builders run, QC waits on all of them
+async function decomposed(builders: string[]) {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'work-manager-'));
+  const manager = new WorkManager(dataDir);
+  const base = { description: 'test', originalRequest: 'test', userId: 'user', messageId: 'message' };
+
+  const parent = await manager.createWorkItem({
+    ...base,
+    title: 'Parent',
+    assignedAgents: [...builders, 'QCAgent'],
+    primaryAgent: builders[0]
+  });
+  const builderIds: string[] = [];
+  for (const agent of builders) {
+    const child = await manager.createWorkItem({ ...base, title: agent, assignedAgents: [agent], primaryAgent: agent, parentWorkItem: parent.id });
+    builderIds.push(child.id);
+  }
+  const qc = await manager.createWorkItem({
+    ...base,
+    title: 'QCAgent',
+    assignedAgents: ['QCAgent'],
+    primaryAgent: 'QCAgent',
+    parentWorkItem: parent.id,
+    blockedBy: builderIds
+  });
+  await manager.transition(parent.id, 'building', 'Split');
+
+  return { manager, parent, builderIds, qc, cleanup: () => fs.rm(dataDir, { recursive: true, force: true }) };
+}
+
+test('completing every blocker unblocks the dependent', async () => {
+  const { manager, builderIds, qc, cleanup } = await decomposed(['FrontendAgent', 'BackendAgent']);
+  try {
+    assert.equal(qc.status, 'blocked');
+
+    await manager.transition(builderIds[0], 'building', 'Working');
+    await manager.transition(builderIds[0], 'completed', 'Done');
+    assert.equal(qc.status, 'blocked');
+
+    await manager.transition(builderIds[1], 'building', 'Working');
+    await manager.transition(builderIds[1], 'completed', 'Done');
+    assert.equal(qc.status, 'planning');
+  } finally {
+    await cleanup();
+  }
+});
+
+test('a failed blocker fails its dependents and settles the parent', async () => {
+  const { manager, parent, builderIds, qc, cleanup } = await decomposed(['FrontendAgent']);
+  try {
+    await manager.transition(builderIds[0], 'building', 'Working');
+    await manager.transition(builderIds[0], 'failed', 'Build broke');
+
+    assert.equal(qc.status, 'failed');
+    assert.deepEqual(qc.errors, [`Blocker ${builderIds[0]} failed`]);
+    assert.equal(parent.status, 'failed');
+  } finally {
+    await cleanup();
+  }
+});
+
+test('a cancelled blocker cancels its dependents and settles the parent', async () => {
+  const { manager, parent, builderIds, qc, cleanup } = await decomposed(['FrontendAgent', 'BackendAgent']);
+  try {
+    await manager.transition(builderIds[0], 'building', 'Working');
+    await manager.transition(builderIds[0], 'completed', 'Done');
+    await manager.transition(builderIds[1], 'cancelled', 'Not needed');
+
+    assert.equal(qc.status, 'cancelled');
+    assert.equal(parent.status, 'failed');
+  } finally {
+    await cleanup();
+  }
+});
+
+test('an unknown blocker is rejected before the item is added to its parent', async () => {
+  const { manager, parent, cleanup } = await decomposed(['FrontendAgent']);
+  try {
+    const before = (await manager.listWorkItems()).length;
+    await assert.rejects(
+      manager.createWorkItem({
+        title: 'Orphan',
+        description: 'test',
+        originalRequest: 'test',
+        userId: 'user',
+        messageId: 'message',
+        assignedAgents: ['QCAgent'],
+        primaryAgent: 'QCAgent',
+        parentWorkItem: parent.id,
+        blockedBy: ['missing']
+      }),
+      /missing not found/
+    );
+
+    assert.equal((await manager.listWorkItems()).length, before);
+    assert.equal(parent.childIds.length, 2);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('depending on a blocker that already failed fails the item instead of blocking it', async () => {
+  const { manager, builderIds, cleanup } = await decomposed(['FrontendAgent']);
+  try {
+    await manager.transition(builderIds[0], 'building', 'Working');
+    await manager.transition(builderIds[0], 'failed', 'Build broke');
+
+    const late = await manager.createWorkItem({
+      title: 'Late',
+      description: 'test',
+      originalRequest: 'test',
+      userId: 'user',
+      messageId: 'message',
+      assignedAgents: ['QCAgent'],
+      primaryAgent: 'QCAgent',
+      blockedBy: [builderIds[0]]
+    });
+    assert.equal(late.status, 'failed');
+    assert.deepEqual(late.errors, [`Blocker ${builderIds[0]} failed`]);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('sub-tasks completing under a failed parent leave it failed', async () => {
+  const { manager, parent, builderIds, qc, cleanup } = await decomposed(['FrontendAgent']);
+  try {
+    await manager.transition(parent.id, 'failed', 'Gave up');
+    await manager.transition(builderIds[0], 'building', 'Working');
+    await manager.transition(builderIds[0], 'completed', 'Done');
+    await manager.transition(qc.id, 'building', 'Checking');
+    await manager.transition(qc.id, 'completed', 'Passed');
+
+    assert.equal(parent.status, 'failed');
+    assert.match(parent.history[parent.history.length - 1].message, /sub-tasks completed while failed/);
+  } finally {
+    await cleanup();
+  }
+});
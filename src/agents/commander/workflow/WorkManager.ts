@@ -1,16 +1,21 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { WorkItem, UniversalIntent } from '../types/index.js';
+import { WorkItem, WorkItemStatus, UniversalIntent } from '../types/index.js';
+import { WorkItemStateMachine } from './WorkItemStateMachine.js';
+import { WorkItemSnapshot } from '../../../shared/messaging/index.js';
 
 export class WorkManager {
   private workItems: Map<string, WorkItem> = new Map();
   private dataDir: string;
   private workItemsFile: string;
+  private statusListeners: Array<(workItem: WorkItem, from: WorkItemStatus, to: WorkItemStatus) => void> = [];
+  private loaded: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
   
   constructor(dataDir: string = './data') {
     this.dataDir = dataDir;
     this.workItemsFile = path.join(dataDir, 'work-items.json');
-    this.loadWorkItems();
+    this.loaded = this.loadWorkItems();
   }
 
   async createWorkItem(params: {
@@ -23,7 +28,16 @@ export class WorkManager {
     userId: string;
     messageId: string;
     parentWorkItem?: string;
+    blockedBy?: string[];
   }): Promise<WorkItem> {
+    await this.loaded;
+    
+    // Checked before the item is stored or added to its parent, so a bad id leaves nothing behind
+    for (const blockerId of params.blockedBy || []) {
+      if (!this.workItems.has(blockerId)) {
+        throw new Error(`Blocking work item ${blockerId} not found`);
+      }
+    }
     
     const workItem: WorkItem = {
       id: this.generateWorkItemId(),
@@ -32,6 +46,8 @@ export class WorkManager {
       originalRequest: params.originalRequest,
       status: 'analyzing',
       priority: this.determinePriority(params.estimatedComplexity || 'simple'),
+      childIds: [],
+      blockedBy: [],
       assignedAgents: params.assignedAgents,
       primaryAgent: params.primaryAgent,
       progress: 0,
@@ -39,10 +55,30 @@ export class WorkManager {
       clarifiedRequirements: [],
       userPreferences: {},
       retryCount: 0,
-      errors: []
+      errors: [],
+      history: []
     };
-    
+    WorkItemStateMachine.record(workItem, { type: 'created', to: 'analyzing', message: `Created: ${params.title}` });
     this.workItems.set(workItem.id, workItem);
+    
+    const parent = params.parentWorkItem ? this.workItems.get(params.parentWorkItem) : undefined;
+    if (parent) {
+      workItem.parentId = parent.id;
+      workItem.threadId = parent.threadId;
+      parent.childIds.push(workItem.id);
+      WorkItemStateMachine.record(parent, { type: 'subtask', message: `Added sub-task ${workItem.id}: ${workItem.title}` });
+    }
+    
+    for (const blockerId of params.blockedBy || []) {
+      this.linkDependency(workItem, blockerId);
+    }
+    const deadBlocker = this.findDeadBlocker(workItem);
+    if (deadBlocker) {
+      WorkItemStateMachine.transition(workItem, deadBlocker.status, this.abandonReason(workItem, deadBlocker));
+    } else if (this.hasOpenBlockers(workItem)) {
+      WorkItemStateMachine.transition(workItem, 'blocked', `Waiting on ${workItem.blockedBy.join(', ')}`);
+    }
+    
     await this.saveWorkItems();
     
     console.log(`[WorkManager] Created work item ${workItem.id}: ${workItem.title}`);
@@ -50,20 +86,114 @@ export class WorkManager {
   }
 
   async getWorkItem(id: string): Promise<WorkItem | null> {
+    await this.loaded;
     return this.workItems.get(id) || null;
   }
 
-  async updateWorkItem(id: string, updates: Partial<WorkItem>): Promise<WorkItem | null> {
+  async listWorkItems(): Promise<WorkItem[]> {
+    await this.loaded;
+    return Array.from(this.workItems.values());
+  }
+
+  // The part of a WorkItem other agents are told about
+  static snapshot(workItem: WorkItem): WorkItemSnapshot {
+    const lastEvent = workItem.history[workItem.history.length - 1];
+    const startTime = new Date(workItem.startTime).toISOString();
+    return {
+      id: workItem.id,
+      title: workItem.title,
+      status: workItem.status,
+      priority: workItem.priority,
+      progress: workItem.progress,
+      primaryAgent: workItem.primaryAgent,
+      parentId: workItem.parentId,
+      blockedBy: [...workItem.blockedBy],
+      startTime,
+      updatedAt: lastEvent?.timestamp || startTime
+    };
+  }
+
+  // Status is owned by transition(); history is append-only
+  async updateWorkItem(id: string, updates: Partial<Omit<WorkItem, 'status' | 'history'>>): Promise<WorkItem | null> {
     const workItem = this.workItems.get(id);
     if (!workItem) return null;
     
-    Object.assign(workItem, updates);
-    this.workItems.set(id, workItem);
+    const { status, history, ...rest } = updates as Partial<WorkItem>;
+    Object.assign(workItem, rest);
     await this.saveWorkItems();
     
     return workItem;
   }
 
+  onStatusChange(listener: (workItem: WorkItem, from: WorkItemStatus, to: WorkItemStatus) => void): void {
+    this.statusListeners.push(listener);
+  }
+
+  async transition(id: string, to: WorkItemStatus, message: string): Promise<WorkItem> {
+    const workItem = this.workItems.get(id);
+    if (!workItem) {
+      throw new Error(`Work item ${id} not found`);
+    }
+    
+    const from = workItem.status;
+    WorkItemStateMachine.transition(workItem, to, message);
+    await this.saveWorkItems();
+    console.log(`[WorkManager] ${id}: ${from} → ${to} (${message})`);
+    
+    this.notifyStatusChange(workItem, from, to);
+    await this.afterTransition(workItem);
+    
+    return workItem;
+  }
+
+  async recordProgress(id: string, progress: number, message: string): Promise<void> {
+    const workItem = this.workItems.get(id);
+    if (!workItem) return;
+    
+    workItem.progress = progress;
+    WorkItemStateMachine.record(workItem, { type: 'progress', message: `${progress}% - ${message}` });
+    await this.saveWorkItems();
+    
+    if (workItem.parentId) {
+      await this.refreshParentProgress(workItem.parentId);
+    }
+  }
+
+  async addNote(id: string, message: string): Promise<void> {
+    const workItem = this.workItems.get(id);
+    if (!workItem) return;
+    
+    WorkItemStateMachine.record(workItem, { type: 'note', message });
+    await this.saveWorkItems();
+  }
+
+  async addDependency(id: string, blockerId: string): Promise<WorkItem> {
+    const workItem = this.workItems.get(id);
+    if (!workItem) {
+      throw new Error(`Work item ${id} not found`);
+    }
+    
+    this.linkDependency(workItem, blockerId);
+    const blocker = this.workItems.get(blockerId)!;
+    if ((blocker.status === 'failed' || blocker.status === 'cancelled') && WorkItemStateMachine.canTransition(workItem.status, blocker.status)) {
+      return this.transition(id, blocker.status, this.abandonReason(workItem, blocker));
+    }
+    if (this.hasOpenBlockers(workItem) && WorkItemStateMachine.canTransition(workItem.status, 'blocked')) {
+      return this.transition(id, 'blocked', `Waiting on ${blockerId}`);
+    }
+    
+    await this.saveWorkItems();
+    return workItem;
+  }
+
+  getChildren(id: string): WorkItem[] {
+    const workItem = this.workItems.get(id);
+    if (!workItem) return [];
+    return workItem.childIds
+      .map(childId => this.workItems.get(childId))
+      .filter((child): child is WorkItem => !!child);
+  }
+
   async handleWorkManagement(intent: UniversalIntent, userId: string): Promise<string> {
     const action = intent.specific;
     const target = intent.parameters.target;
@@ -87,6 +217,10 @@ export class WorkManager {
       case 'manage-work-status':
         return await this.getWorkStatus(userId);
         
+      case 'manage-history':
+      case 'manage-work-history':
+        return await this.getWorkHistory(target, userId);
+        
       default:
         return `🤔 I understand you want to manage work, but I'm not sure what specific action to take. Could you be more specific?`;
     }
@@ -99,21 +233,21 @@ export class WorkManager {
       return `× No work to cancel. Could you be more specific about what to cancel?`;
     }
     
-    if (workItem.status === 'completed') {
-      return `× ${workItem.id} (${workItem.title}) is already completed and can't be cancelled.`;
-    }
-    
-    if (workItem.status === 'cancelled') {
-      return `× ${workItem.id} (${workItem.title}) is already cancelled.`;
+    if (!WorkItemStateMachine.canTransition(workItem.status, 'cancelled')) {
+      return `× ${workItem.id} (${workItem.title}) is ${workItem.status} and can't be cancelled.`;
     }
     
-    workItem.status = 'cancelled';
-    workItem.actualCompletion = new Date();
     if (reason) {
       workItem.errors = [...(workItem.errors || []), `Cancelled: ${reason}`];
     }
+    await this.transition(workItem.id, 'cancelled', reason || 'Cancelled by user');
     
-    await this.updateWorkItem(workItem.id, workItem);
+    // Sub-tasks go down with their parent
+    for (const child of this.getChildren(workItem.id)) {
+      if (WorkItemStateMachine.canTransition(child.status, 'cancelled')) {
+        await this.transition(child.id, 'cancelled', `Parent ${workItem.id} cancelled`);
+      }
+    }
     
     const reasonText = reason ? ` (Reason: ${reason})` : '';
     return `× Cancelled ${workItem.id} - ${workItem.title}${reasonText}`;
@@ -126,25 +260,46 @@ export class WorkManager {
       return `× No active work to pause.`;
     }
     
-    if (!['analyzing', 'building', 'deploying'].includes(workItem.status)) {
+    if (!WorkItemStateMachine.canTransition(workItem.status, 'paused')) {
       return `× ${workItem.id} (${workItem.title}) is ${workItem.status} and can't be paused.`;
     }
     
-    // TODO: Implement actual work pausing (signal to agents)
-    workItem.status = 'cancelled'; // For now, cancelling instead of pausing
-    await this.updateWorkItem(workItem.id, workItem);
+    await this.transition(workItem.id, 'paused', 'Paused by user');
+    for (const child of this.getChildren(workItem.id)) {
+      if (WorkItemStateMachine.canTransition(child.status, 'paused')) {
+        await this.transition(child.id, 'paused', `Parent ${workItem.id} paused`);
+      }
+    }
     
-    return `■ Paused ${workItem.id} - ${workItem.title}\n(Note: Pause/resume TODO - cancelled for now)`;
+    return `■ Paused ${workItem.id} - ${workItem.title} at ${workItem.progress}%`;
   }
 
   private async resumeWork(target: string | undefined, userId: string): Promise<string> {
-    // TODO: Implement work resumption
-    return `▶ Resume functionality TODO - will restore paused work items`;
+    const workItem = target
+      ? await this.findTargetWorkItem(target, userId)
+      : this.mostRecent(item => item.status === 'paused');
+    
+    if (!workItem) {
+      return `× No paused work to resume.`;
+    }
+    
+    if (workItem.status !== 'paused') {
+      return `× ${workItem.id} (${workItem.title}) is ${workItem.status}, not paused.`;
+    }
+    
+    await this.transition(workItem.id, 'planning', 'Resumed by user');
+    for (const child of this.getChildren(workItem.id)) {
+      if (child.status === 'paused') {
+        await this.transition(child.id, 'planning', `Parent ${workItem.id} resumed`);
+      }
+    }
+    
+    return `▶ Resumed ${workItem.id} - ${workItem.title}`;
   }
 
   private async getWorkStatus(userId: string): Promise<string> {
     const userWorkItems = Array.from(this.workItems.values())
-      .filter(item => !['completed', 'cancelled', 'failed'].includes(item.status))
+      .filter(item => !item.parentId && !['completed', 'cancelled', 'failed'].includes(item.status))
       .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
     
     if (userWorkItems.length === 0) {
@@ -156,12 +311,172 @@ export class WorkManager {
     userWorkItems.forEach(item => {
       const elapsed = Math.round((Date.now() - item.startTime.getTime()) / 1000 / 60); // minutes
       status += `${item.id} - ${item.title}\n`;
-      status += `→ Status: ${item.status.toUpperCase()} | Progress: ${item.progress}% | ${elapsed}m ago\n\n`;
+      status += `→ Status: ${item.status.toUpperCase()} | Progress: ${item.progress}% | ${elapsed}m ago\n`;
+      if (item.blockedBy.length > 0 && item.status === 'blocked') {
+        status += `→ Blocked by: ${item.blockedBy.join(', ')}\n`;
+      }
+      for (const child of this.getChildren(item.id)) {
+        status += `   ◦ ${child.id} ${child.primaryAgent}: ${child.status} ${child.progress}%\n`;
+      }
+      status += `\n`;
     });
     
     return status;
   }
 
+  private async getWorkHistory(target: string | undefined, userId: string): Promise<string> {
+    const workItem = target ? await this.findTargetWorkItem(target, userId) : this.mostRecent(() => true);
+    if (!workItem) {
+      return `× No work item found.`;
+    }
+    
+    const lines = workItem.history.slice(-15).map(event => {
+      const time = new Date(event.timestamp).toLocaleTimeString();
+      const change = event.type === 'transition' ? ` ${event.from} → ${event.to}` : '';
+      return `${time} [${event.type}]${change} ${event.message}`;
+    });
+    
+    return `■ History for ${workItem.id} - ${workItem.title}\n\n${lines.join('\n')}`;
+  }
+
+  private linkDependency(workItem: WorkItem, blockerId: string): void {
+    if (!this.workItems.has(blockerId)) {
+      throw new Error(`Blocking work item ${blockerId} not found`);
+    }
+    if (blockerId === workItem.id || this.dependsOn(blockerId, workItem.id)) {
+      throw new Error(`Dependency ${workItem.id} → ${blockerId} would create a cycle`);
+    }
+    if (workItem.blockedBy.includes(blockerId)) return;
+    
+    workItem.blockedBy.push(blockerId);
+    WorkItemStateMachine.record(workItem, { type: 'dependency', message: `Blocked by ${blockerId}` });
+  }
+
+  private dependsOn(id: string, targetId: string, seen: Set<string> = new Set()): boolean {
+    if (seen.has(id)) return false;
+    seen.add(id);
+    
+    const workItem = this.workItems.get(id);
+    if (!workItem) return false;
+    
+    return workItem.blockedBy.some(blocker => blocker === targetId || this.dependsOn(blocker, targetId, seen));
+  }
+
+  private hasOpenBlockers(workItem: WorkItem): boolean {
+    return workItem.blockedBy.some(id => this.workItems.get(id)?.status !== 'completed');
+  }
+
+  // A blocker that already failed or was cancelled will never unblock anything
+  private findDeadBlocker(workItem: WorkItem): WorkItem | undefined {
+    return workItem.blockedBy
+      .map(id => this.workItems.get(id))
+      .find((blocker): blocker is WorkItem => blocker?.status === 'failed' || blocker?.status === 'cancelled');
+  }
+
+  private abandonReason(dependent: WorkItem, blocker: WorkItem): string {
+    const reason = `Blocker ${blocker.id} ${blocker.status}`;
+    if (blocker.status === 'failed') {
+      dependent.errors = [...(dependent.errors || []), reason];
+    }
+    return reason;
+  }
+
+  private async afterTransition(workItem: WorkItem): Promise<void> {
+    if (workItem.status === 'completed') {
+      await this.unblockDependents(workItem);
+    } else if (workItem.status === 'failed' || workItem.status === 'cancelled') {
+      await this.abandonDependents(workItem);
+    }
+    
+    if (workItem.parentId && (WorkItemStateMachine.isTerminal(workItem.status) || workItem.status === 'failed')) {
+      await this.settleParent(workItem.parentId);
+    }
+  }
+
+  private async unblockDependents(completed: WorkItem): Promise<void> {
+    const dependents = Array.from(this.workItems.values())
+      .filter(item => item.status === 'blocked' && item.blockedBy.includes(completed.id));
+    
+    for (const dependent of dependents) {
+      if (!this.hasOpenBlockers(dependent)) {
+        await this.transition(dependent.id, 'planning', `Unblocked by ${completed.id}`);
+      }
+    }
+  }
+
+  // A blocker that will never complete takes its waiting dependents down with it,
+  // otherwise they stay blocked and their parent never settles
+  private async abandonDependents(blocker: WorkItem): Promise<void> {
+    const dependents = Array.from(this.workItems.values())
+      .filter(item => item.status === 'blocked' && item.blockedBy.includes(blocker.id));
+    
+    for (const dependent of dependents) {
+      if (dependent.status !== 'blocked') continue; // Settled by an earlier cascade
+      await this.transition(dependent.id, blocker.status, this.abandonReason(dependent, blocker));
+    }
+  }
+
+  // A parent finishes once every sub-task has settled, and collects their files
+  private async settleParent(parentId: string): Promise<void> {
+    const parent = this.workItems.get(parentId);
+    if (!parent || WorkItemStateMachine.isTerminal(parent.status)) return;
+    
+    const children = this.getChildren(parentId);
+    const settled = children.every(child => WorkItemStateMachine.isTerminal(child.status) || child.status === 'failed');
+    if (!settled) return;
+    
+    parent.outputs = {
+      ...parent.outputs,
+      files: children.flatMap(child => child.outputs?.files || [])
+    };
+    
+    const failed = children.filter(child => child.status !== 'completed');
+    if (failed.length === 0) {
+      // A parent that failed, is paused or is blocked can't complete; it is only told its sub-tasks are done
+      const canComplete = WorkItemStateMachine.canTransition(parent.status, 'completed')
+        || WorkItemStateMachine.canTransition(parent.status, 'building');
+      if (!canComplete) {
+        WorkItemStateMachine.record(parent, { type: 'note', message: `All ${children.length} sub-tasks completed while ${parent.status}` });
+        await this.saveWorkItems();
+        return;
+      }
+      parent.progress = 100;
+      if (WorkItemStateMachine.canTransition(parent.status, 'building')) {
+        await this.transition(parentId, 'building', 'Sub-tasks finished');
+      }
+      await this.transition(parentId, 'completed', `All ${children.length} sub-tasks completed`);
+    } else if (WorkItemStateMachine.canTransition(parent.status, 'failed')) {
+      await this.transition(parentId, 'failed', `Sub-tasks not completed: ${failed.map(c => `${c.id} (${c.status})`).join(', ')}`);
+    }
+  }
+
+  private async refreshParentProgress(parentId: string): Promise<void> {
+    const parent = this.workItems.get(parentId);
+    if (!parent) return;
+    
+    const children = this.getChildren(parentId);
+    if (children.length === 0) return;
+    
+    parent.progress = Math.round(children.reduce((sum, child) => sum + child.progress, 0) / children.length);
+    await this.saveWorkItems();
+  }
+
+  private notifyStatusChange(workItem: WorkItem, from: WorkItemStatus, to: WorkItemStatus): void {
+    for (const listener of this.statusListeners) {
+      try {
+        listener(workItem, from, to);
+      } catch (error) {
+        console.error('[WorkManager] Status listener failed:', error);
+      }
+    }
+  }
+
+  private mostRecent(predicate: (item: WorkItem) => boolean): WorkItem | null {
+    return Array.from(this.workItems.values())
+      .filter(predicate)
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())[0] || null;
+  }
+
   private async findTargetWorkItem(target: string | undefined, userId: string): Promise<WorkItem | null> {
     if (!target) {
       // Find most recent work item
@@ -191,26 +506,55 @@ export class WorkManager {
       const data = await fs.readFile(this.workItemsFile, 'utf-8');
       const workItemsArray = JSON.parse(data);
       
-      // Restore dates from JSON
+      // Restore dates from JSON and fill fields added after the item was saved
       workItemsArray.forEach((item: any) => {
         item.startTime = new Date(item.startTime);
         if (item.estimatedCompletion) item.estimatedCompletion = new Date(item.estimatedCompletion);
         if (item.actualCompletion) item.actualCompletion = new Date(item.actualCompletion);
+        item.childIds = item.childIds || [];
+        item.blockedBy = item.blockedBy || [];
+        item.history = item.history || [];
       });
       
       this.workItems = new Map(workItemsArray.map((item: WorkItem) => [item.id, item]));
       console.log(`[WorkManager] Loaded ${this.workItems.size} work items from storage`);
       
+      // Nothing is executing after a restart, so in-flight items wait for an explicit resume
+      const interrupted = Array.from(this.workItems.values())
+        .filter(item => WorkItemStateMachine.isActive(item.status));
+      for (const item of interrupted) {
+        WorkItemStateMachine.transition(item, 'paused', 'Interrupted by restart');
+      }
+      if (interrupted.length > 0) {
+        console.log(`[WorkManager] Paused ${interrupted.length} work items interrupted by restart`);
+        await this.saveWorkItems();
+      }
+      
     } catch (error) {
       console.log('[WorkManager] No existing work items found, starting fresh');
       this.workItems = new Map();
     }
   }
 
+  // Waits for pending writes and saves once more, for shutdown
+  async flush(): Promise<void> {
+    await this.loaded;
+    await this.saveWorkItems();
+  }
+
   private async saveWorkItems(): Promise<void> {
+    // Serialize writes so concurrent updates can't interleave on disk
+    this.saving = this.saving.then(() => this.writeWorkItems());
+    await this.saving;
+  }
+
+  private async writeWorkItems(): Promise<void> {
     try {
       const workItemsArray = Array.from(this.workItems.values());
-      await fs.writeFile(this.workItemsFile, JSON.stringify(workItemsArray, null, 2));
+      // Write then rename so a crash mid-write never leaves a truncated file
+      const tempFile = `${this.workItemsFile}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(workItemsArray, null, 2));
+      await fs.rename(tempFile, this.workItemsFile);
     } catch (error) {
       console.error('[WorkManager] Failed to save work items:', error);
     }
@@ -1,11 +1,17 @@
-import { Message } from 'discord.js';
 import { DashboardConfig, DashboardQuery, AgentActivity } from './types/index.js';
 import { DashboardDiscord } from './communication/DashboardDiscord.js';
 import { DashboardVoice } from './communication/DashboardVoice.js';
+import { MetricsExporter } from './communication/MetricsExporter.js';
+import { DashboardWebServer } from './communication/DashboardWebServer.js';
 import { DashboardOrchestrator } from './core/DashboardOrchestrator.js';
 import { APIUsageTracker } from './intelligence/APIUsageTracker.js';
 import { PerformanceAnalyzer } from './intelligence/PerformanceAnalyzer.js';
 import { DashboardIntelligence } from './intelligence/DashboardIntelligence.js';
+import { WorkItemBoard } from './intelligence/WorkItemBoard.js';
+import { BudgetGuard, LLMProvider, createLLMProvider, getBudgetGuard } from '../../shared/llm/index.js';
+import { ChatTransport, ChatMessage } from '../../shared/transport/index.js';
+import { AgentMessageBus, AgentMessage, AgentName, getMessageBus } from '../../shared/messaging/index.js';
+import { ConfigService, getConfigService } from '../../shared/config/index.js';
 
 export class Dashboard {
   private discord: DashboardDiscord;
@@ -14,25 +20,41 @@ export class Dashboard {
   private usageTracker: APIUsageTracker;
   private performanceAnalyzer: PerformanceAnalyzer;
   private intelligence: DashboardIntelligence;
+  private workItems: WorkItemBoard;
+  private exporter: MetricsExporter;
+  private web: DashboardWebServer;
   private config: DashboardConfig;
   private anomalyCheckInterval: NodeJS.Timeout | null = null;
   private healthReportInterval: NodeJS.Timeout | null = null;
+  private llm: LLMProvider;
+  private bus: AgentMessageBus;
+  private runtimeConfig: ConfigService;
+  private budget: BudgetGuard;
+  private running = false;
+  private stopWatchingConfig: (() => void) | null = null;
 
-  constructor(config: DashboardConfig) {
+  constructor(config: DashboardConfig, llm?: LLMProvider, transport?: ChatTransport, bus?: AgentMessageBus, runtimeConfig?: ConfigService, budget?: BudgetGuard) {
     this.config = config;
+    this.llm = llm || createLLMProvider({ anthropicApiKey: config.claudeApiKey, agent: 'Dashboard' });
+    this.bus = bus || getMessageBus();
+    this.runtimeConfig = runtimeConfig || getConfigService();
+    this.budget = budget || getBudgetGuard();
     
     // Initialize core systems
-    this.usageTracker = new APIUsageTracker();
+    this.usageTracker = new APIUsageTracker(this.runtimeConfig);
     this.performanceAnalyzer = new PerformanceAnalyzer(this.usageTracker);
     this.intelligence = new DashboardIntelligence(
-      config.claudeApiKey,
+      this.llm,
       this.usageTracker,
-      this.performanceAnalyzer
+      this.performanceAnalyzer,
+      this.budget
     );
+    this.workItems = new WorkItemBoard(this.bus);
     
     // Initialize communication systems
-    this.discord = new DashboardDiscord(config);
-    this.voice = new DashboardVoice(config.claudeApiKey);
+    this.discord = new DashboardDiscord(config, transport, this.bus);
+    this.voice = new DashboardVoice(this.llm);
+    this.exporter = new MetricsExporter(this.usageTracker, this.workItems, this.runtimeConfig);
     
     // Initialize orchestrator
     this.orchestrator = new DashboardOrchestrator(
@@ -41,15 +63,59 @@ export class Dashboard {
       this.performanceAnalyzer,
       this.intelligence,
       this.voice,
-      this.discord
+      this.discord,
+      this.budget
+    );
+    this.web = new DashboardWebServer(
+      this.orchestrator,
+      this.usageTracker,
+      this.workItems,
+      query => this.orchestrator.processUserQuery({
+        query,
+        context: {
+          recentMetrics: this.usageTracker.getRecentMetrics(50),
+          agentActivity: this.getRecentAgentActivity(),
+          timeframe: '24h'
+        },
+        userId: 'web',
+        messageId: `web_${Date.now()}`
+      }),
+      this.budget,
+      this.bus,
+      this.runtimeConfig
     );
     
     this.setupMessageHandling();
+    // The supervisor makes a new instance per restart, so a stopped one must leave the ports alone
+    this.stopWatchingConfig = this.runtimeConfig.onChange((_config, changed) => {
+      const intervalsChanged = changed.some(key => key === 'dashboard.anomalyCheckIntervalMs' || key === 'dashboard.healthReportIntervalMs');
+      if (intervalsChanged && this.anomalyCheckInterval) {
+        this.stopPerformanceMonitoring();
+        this.startPerformanceMonitoring();
+      }
+      if (this.running && changed.some(key => key === 'dashboard.metricsHost' || key === 'dashboard.metricsPort')) {
+        this.exporter.stop().then(() => this.exporter.start()).catch(error => {
+          console.error('[Dashboard] Failed to restart the metrics exporter:', error);
+        });
+      }
+      if (this.running && changed.some(key => key.startsWith('dashboard.web'))) {
+        this.web.stop().then(() => this.web.start()).catch(error => {
+          console.error('[Dashboard] Failed to restart the web dashboard:', error);
+        });
+      }
+    });
     console.log('[Dashboard] Dashboard Agent initialized');
   }
 
   async start(): Promise<void> {
     console.log('[Dashboard] Starting Dashboard Agent...');
+    this.running = true;
+    
+    await this.bus.subscribe('Dashboard', (message) => this.handleAgentMessage(message));
+    // Not awaited: Commander may still be starting, and its updates fill the board anyway
+    this.workItems.requestSnapshot();
+    await this.exporter.start();
+    await this.web.start();
     
     // Start Discord interface
     await this.discord.start();
@@ -62,19 +128,23 @@ export class Dashboard {
     
     console.log('[Dashboard] 🎯 Dashboard Agent is online and monitoring!');
     console.log(`[Dashboard] Dashboard Channel: ${this.config.dashboardChannelId}`);
-    console.log(`[Dashboard] Coordination Channel: ${this.config.agentCoordinationChannelId}`);
+  }
+
+  async flush(): Promise<void> {
+    await this.usageTracker.flush();
   }
 
   async stop(): Promise<void> {
     console.log('[Dashboard] Shutting down Dashboard Agent...');
+    this.running = false;
+    this.stopWatchingConfig?.();
+    this.stopWatchingConfig = null;
     
-    // Stop monitoring intervals
-    if (this.anomalyCheckInterval) {
-      clearInterval(this.anomalyCheckInterval);
-    }
-    if (this.healthReportInterval) {
-      clearInterval(this.healthReportInterval);
-    }
+    this.stopPerformanceMonitoring();
+    this.bus.unsubscribe('Dashboard');
+    await this.exporter.stop();
+    await this.web.stop();
+    await this.flush();
     
     // Stop Discord interface
     await this.discord.stop();
@@ -84,7 +154,7 @@ export class Dashboard {
 
   // Public method for other agents to track their API usage
   async trackAPIUsage(
-    agent: 'Commander' | 'Architect' | 'Dashboard',
+    agent: AgentName,
     operation: string,
     duration: number,
     tokens: number,
@@ -109,21 +179,92 @@ export class Dashboard {
   }
 
   private setupMessageHandling(): void {
-    this.discord.onMessage(async (message: Message) => {
+    this.discord.onMessage(async (message: ChatMessage) => {
       await this.handleUserMessage(message);
     });
   }
 
-  private async handleUserMessage(message: Message): Promise<void> {
-    const startTime = Date.now();
-    
+  private async handleAgentMessage(message: AgentMessage): Promise<void> {
+    if (message.type === 'llm_usage') {
+      await this.usageTracker.trackLLMCall((message as AgentMessage<'llm_usage'>).payload);
+      return;
+    }
+
+    if (message.type === 'budget_alert') {
+      await this.orchestrator.handleBudgetAlert((message as AgentMessage<'budget_alert'>).payload);
+      return;
+    }
+
+    if (message.type === 'work_item_status') {
+      this.workItems.update((message as AgentMessage<'work_item_status'>).payload);
+      return;
+    }
+
+    if (message.type === 'optimization_status') {
+      await this.orchestrator.handleOptimizationStatus((message as AgentMessage<'optimization_status'>).payload);
+      return;
+    }
+
+    if (message.type === 'agent_status') {
+      this.intelligence.updateAgentLifecycle((message as AgentMessage<'agent_status'>).payload);
+      return;
+    }
+
+    if (message.type !== 'command') {
+      console.log(`[Dashboard] 📨 ${message.type} from ${message.from}`);
+      return;
+    }
+
+    // Scheduled reports and other agent commands are answered like a user query
+    const { command, requestedBy, scheduleId } = (message as AgentMessage<'command'>).payload;
+    console.log(`[Dashboard] 📨 Command from ${message.from}: ${command}`);
+
+    // Agents may ask for a budget override, but only a person in the channel grants one
+    if (/^\/?budget\s+approve\b/i.test(command.trim())) {
+      if (message.requiresResponse) {
+        await this.bus.respond(message, 'Dashboard', {
+          success: false,
+          message: 'Budget overrides are approved by a person in the Dashboard channel.'
+        });
+      }
+      return;
+    }
+
+    let response: string;
+    let success = true;
     try {
-      console.log(`[Dashboard] Processing message from ${message.author.tag}: "${message.content}"`);
+      response = await this.orchestrator.processUserQuery({
+        query: command,
+        context: {
+          recentMetrics: this.usageTracker.getRecentMetrics(50),
+          agentActivity: this.getRecentAgentActivity(),
+          timeframe: '24h'
+        },
+        userId: requestedBy,
+        messageId: message.id
+      });
+      await this.discord.sendMessage(response);
+    } catch (error) {
+      console.error('[Dashboard] Error handling command:', error);
+      response = error instanceof Error ? error.message : 'Unknown error';
+      success = false;
+    }
+
+    if (message.requiresResponse) {
+      await this.bus.respond(message, 'Dashboard', {
+        success,
+        message: response,
+        data: scheduleId ? { scheduleId } : undefined
+      });
+    }
+  }
+
+  private async handleUserMessage(message: ChatMessage): Promise<void> {
+    try {
+      console.log(`[Dashboard] Processing message from ${message.author.name}: "${message.content}"`);
       
       // Show typing indicator
-      if ('sendTyping' in message.channel) {
-        await message.channel.sendTyping();
-      }
+      await this.discord.sendTyping(message.channelId);
       
       // Check for optimization approval responses
       if (this.isOptimizationResponse(message.content)) {
@@ -150,30 +291,9 @@ export class Dashboard {
       // Send response
       await this.discord.replyToMessage(message, response);
       
-      // Track this dashboard interaction
-      await this.usageTracker.trackAPICall(
-        'Dashboard',
-        'user_interaction',
-        Date.now() - startTime,
-        300, // Estimated tokens
-        0.002, // Estimated cost
-        true
-      );
-      
     } catch (error) {
       console.error('[Dashboard] Error handling user message:', error);
       
-      // Track the error
-      await this.usageTracker.trackAPICall(
-        'Dashboard',
-        'user_interaction',
-        Date.now() - startTime,
-        0,
-        0,
-        false,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-      
       // Send error response
       try {
         const errorResponse = await this.voice.formatErrorResponse(
@@ -195,7 +315,7 @@ export class Dashboard {
            lowerContent.includes('❌');
   }
 
-  private async handleOptimizationResponse(message: Message): Promise<string> {
+  private async handleOptimizationResponse(message: ChatMessage): Promise<string> {
     const content = message.content.toLowerCase();
     const approved = content.includes('yes') || content.includes('✅');
     
@@ -209,16 +329,16 @@ export class Dashboard {
   }
 
   private startPerformanceMonitoring(): void {
-    // Check for anomalies every 5 minutes
+    const { anomalyCheckIntervalMs, healthReportIntervalMs } = this.runtimeConfig.get().dashboard;
+    
     this.anomalyCheckInterval = setInterval(async () => {
       try {
         await this.orchestrator.detectAndAlertAnomalies();
       } catch (error) {
         console.error('[Dashboard] Error in anomaly detection:', error);
       }
-    }, 5 * 60 * 1000);
+    }, anomalyCheckIntervalMs);
     
-    // Generate health reports every hour
     this.healthReportInterval = setInterval(async () => {
       try {
         const healthReport = await this.orchestrator.generateSystemHealthReport();
@@ -227,15 +347,26 @@ export class Dashboard {
         if (healthReport.alerts.length > 0 || healthReport.overall === 'excellent') {
           const formattedReport = await this.voice.formatSystemHealthReport(healthReport);
           await this.discord.sendMessage(
-            `🕐 **Hourly Health Check**\n\n${formattedReport}`
+            `🕐 **Scheduled Health Check**\n\n${formattedReport}`
           );
         }
       } catch (error) {
         console.error('[Dashboard] Error in health reporting:', error);
       }
-    }, 60 * 60 * 1000);
+    }, healthReportIntervalMs);
     
-    console.log('[Dashboard] Performance monitoring started - checking every 5min, reports every hour');
+    console.log(`[Dashboard] Performance monitoring started - checking every ${Math.round(anomalyCheckIntervalMs / 60000)}min, reports every ${Math.round(healthReportIntervalMs / 60000)}min`);
+  }
+
+  private stopPerformanceMonitoring(): void {
+    if (this.anomalyCheckInterval) {
+      clearInterval(this.anomalyCheckInterval);
+      this.anomalyCheckInterval = null;
+    }
+    if (this.healthReportInterval) {
+      clearInterval(this.healthReportInterval);
+      this.healthReportInterval = null;
+    }
   }
 
   private getRecentAgentActivity(): AgentActivity[] {
@@ -276,13 +407,13 @@ export class Dashboard {
   getStatus(): {
     ready: boolean;
     dashboardChannel: boolean;
-    coordinationChannel: boolean;
+    messageBus: string;
     monitoring: boolean;
   } {
     return {
       ready: this.discord.isReady,
       dashboardChannel: this.discord.dashboardChannelReady,
-      coordinationChannel: this.discord.coordinationChannelReady,
+      messageBus: this.discord.messageBusBackend,
       monitoring: this.anomalyCheckInterval !== null
     };
   }
@@ -1,4 +1,4 @@
-import { Anthropic } from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../shared/llm/index.js';
 import { 
   InsightResponse, 
   SystemHealthReport, 
@@ -8,10 +8,10 @@ import {
 } from '../types/index.js';
 
 export class DashboardVoice {
-  private claude: Anthropic;
+  private llm: LLMProvider;
 
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
     console.log('[DashboardVoice] Dashboard personality system initialized');
   }
 
@@ -231,7 +231,11 @@ export class DashboardVoice {
     breakdown += `**Agent Coordination Activity:**\n`;
     Object.entries(agentStatus).forEach(([agent, status]) => {
       const icon = status.status === 'online' ? '🤖' : '⚠️';
-      breakdown += `${icon} ${agent}: ${status.status} (health: ${status.healthScore}%)\n`;
+      const restarts = status.restarts ? `, ${status.restarts} restart${status.restarts === 1 ? '' : 's'}` : '';
+      breakdown += `${icon} ${agent}: ${status.status} (health: ${status.healthScore}%${restarts})\n`;
+      if (status.status !== 'online' && status.lastError) {
+        breakdown += `   └ ${status.lifecycle}: ${status.lastError}\n`;
+      }
     });
     
     return breakdown;
@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { BudgetGuard, getBudgetGuard } from '../../../shared/llm/index.js';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
+import { AgentMessageBus, PendingApprovalSnapshot, getMessageBus } from '../../../shared/messaging/index.js';
+import { DashboardOrchestrator } from '../core/DashboardOrchestrator.js';
+import { APIUsageTracker } from '../intelligence/APIUsageTracker.js';
+import { WorkItemBoard } from '../intelligence/WorkItemBoard.js';
+
+const WEB_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'web');
+const STATIC_FILES: Record<string, { file: string; type: string }> = {
+  '/': { file: 'index.html', type: 'text/html; charset=utf-8' },
+  '/app.js': { file: 'app.js', type: 'text/javascript; charset=utf-8' },
+  '/styles.css': { file: 'styles.css', type: 'text/css; charset=utf-8' }
+};
+const APPROVALS_TIMEOUT_MS = 5 * 1000;
+const MAX_SERIES_HOURS = 90 * 24;
+const MAX_BODY_BYTES = 16 * 1024;
+const TOKEN_COOKIE = 'dashboard_token';
+
+type QueryHandler = (query: string) => Promise<string>;
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * The web dashboard: a single page under src/agents/dashboard/web and the
+ * JSON API it polls, built on the same orchestrator, tracker and board the
+ * Discord side uses. Everything is read-only except queries; approvals and
+ * overrides stay in Discord, where who decided is on record.
+ *
+ * Bound to anything but loopback, it requires DASHBOARD_WEB_TOKEN: open
+ * /?token=<token> once to get a cookie, or send it as a Bearer token.
+ */
+export class DashboardWebServer {
+  private orchestrator: DashboardOrchestrator;
+  private usageTracker: APIUsageTracker;
+  private board: WorkItemBoard;
+  private ask: QueryHandler;
+  private budget: BudgetGuard;
+  private bus: AgentMessageBus;
+  private config: ConfigService;
+  private server: http.Server | null = null;
+  private allowedHosts: Set<string> = new Set();
+  private token: string | null = null;
+
+  constructor(
+    orchestrator: DashboardOrchestrator,
+    usageTracker: APIUsageTracker,
+    board: WorkItemBoard,
+    ask: QueryHandler,
+    budget: BudgetGuard = getBudgetGuard(),
+    bus: AgentMessageBus = getMessageBus(),
+    config: ConfigService = getConfigService()
+  ) {
+    this.orchestrator = orchestrator;
+    this.usageTracker = usageTracker;
+    this.board = board;
+    this.ask = ask;
+    this.budget = budget;
+    this.bus = bus;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    const { webHost, webPort, webAllowedHosts } = this.config.get().dashboard;
+    if (webPort === 0) {
+      console.log('[DashboardWebServer] Off (dashboard.webPort is 0)');
+      return;
+    }
+
+    this.token = process.env.DASHBOARD_WEB_TOKEN || null;
+    if (!this.token && !isLoopback(webHost)) {
+      console.error(`[DashboardWebServer] Not listening on ${webHost}: set DASHBOARD_WEB_TOKEN to serve the dashboard beyond this machine`);
+      return;
+    }
+
+    // Public names are taken as the browser sends them, so they carry their own port unless it is 80
+    const publicHosts = (webAllowedHosts || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+    this.allowedHosts = new Set([
+      ...[webHost, 'localhost', '127.0.0.1', '::1'].flatMap(host => hostHeaders(host, webPort)),
+      ...publicHosts
+    ]);
+    const server = http.createServer((request, response) => {
+      this.respond(request, response).catch(error => {
+        console.error('[DashboardWebServer] Request failed:', error);
+        if (!response.headersSent) response.writeHead(500);
+        response.end();
+      });
+    });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(webPort, webHost, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      console.error(`[DashboardWebServer] Could not listen on ${webHost}:${webPort}:`, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    this.server = server;
+    console.log(`[DashboardWebServer] 🖥️ Web dashboard at http://${webHost}:${webPort}/`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async respond(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    // A page on another site can point its own name at our address (DNS rebinding); its Host header gives it away
+    if (!this.allowedHosts.has((request.headers.host || '').toLowerCase())) {
+      response.writeHead(403).end();
+      return;
+    }
+
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (this.token) {
+      // Following a /?token= link trades the token for a cookie and drops it from the address bar
+      const offered = url.searchParams.get('token');
+      if (offered !== null && url.pathname === '/' && tokensMatch(offered, this.token)) {
+        response.writeHead(303, {
+          Location: '/',
+          'Set-Cookie': `${TOKEN_COOKIE}=${encodeURIComponent(this.token)}; HttpOnly; SameSite=Strict; Path=/`
+        }).end();
+        return;
+      }
+      if (!tokensMatch(requestToken(request), this.token)) {
+        response.writeHead(401, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Open /?token=<DASHBOARD_WEB_TOKEN> to sign in.');
+        return;
+      }
+    }
+
+    if (!url.pathname.startsWith('/api/')) {
+      const asset = STATIC_FILES[url.pathname];
+      if (!asset || request.method !== 'GET') {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': asset.type, 'Cache-Control': 'no-cache' });
+      response.end(await fs.readFile(path.join(WEB_DIR, asset.file)));
+      return;
+    }
+
+    try {
+      const body = await this.route(request, url);
+      sendJson(response, 200, body);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error(`[DashboardWebServer] ${url.pathname} failed:`, error);
+      sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async route(request: http.IncomingMessage, url: URL): Promise<unknown> {
+    const route = `${request.method} ${url.pathname}`;
+    switch (route) {
+      case 'GET /api/health':
+        return this.orchestrator.generateSystemHealthReport();
+
+      case 'GET /api/series':
+        return this.series(Number(url.searchParams.get('hours') || 24));
+
+      case 'GET /api/work-items':
+        return { workItems: this.board.list(), counts: this.board.countsByStatus() };
+
+      case 'GET /api/approvals':
+        return { approvals: await this.architectApprovals() };
+
+      case 'GET /api/optimizations':
+        return {
+          optimizations: this.orchestrator.getPendingOptimizations().map(({ supportingData, ...optimization }) => optimization)
+        };
+
+      case 'GET /api/budget':
+        return { lines: await this.budget.lines(), pendingOverrides: this.budget.getPendingOverrides() };
+
+      case 'POST /api/query':
+        return { response: await this.query(request) };
+    }
+    throw new HttpError(404, `No route for ${route}`);
+  }
+
+  private series(hours: number) {
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_SERIES_HOURS) {
+      throw new HttpError(400, `hours must be between 0 and ${MAX_SERIES_HOURS}`);
+    }
+
+    const points = this.usageTracker.getUsageSeries(hours).map(bucket => ({
+      start: bucket.start,
+      requests: bucket.requests,
+      cost: bucket.cost,
+      tokens: bucket.tokens,
+      averageResponseTime: bucket.duration / bucket.requests,
+      successRate: bucket.successes / bucket.requests
+    }));
+    return { hours, points };
+  }
+
+  private async architectApprovals(): Promise<PendingApprovalSnapshot[]> {
+    try {
+      const { approvals } = await this.bus.query(
+        this.bus.createMessage('pending_approvals_request', 'Dashboard', 'Architect', { requestedBy: 'Dashboard' }, { priority: 'low' }),
+        'pending_approvals',
+        APPROVALS_TIMEOUT_MS
+      );
+      return approvals;
+    } catch (error) {
+      throw new HttpError(503, `Architect didn't answer: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Only JSON bodies are accepted, which browsers won't send cross-origin without a preflight we never answer
+  private async query(request: http.IncomingMessage): Promise<string> {
+    if (!(request.headers['content-type'] || '').startsWith('application/json')) {
+      throw new HttpError(415, 'Send the query as application/json');
+    }
+
+    const body = await readBody(request);
+    let query: unknown;
+    try {
+      query = JSON.parse(body).query;
+    } catch (error) {
+      throw new HttpError(400, 'Body must be JSON like {"query": "..."}');
+    }
+    if (typeof query !== 'string' || !query.trim()) {
+      throw new HttpError(400, 'Body must be JSON like {"query": "..."}');
+    }
+    // Reading spend is fine; asking for, deciding or discarding overrides happens in Discord, where who did it is on record
+    if (/^\/?budget\b/i.test(query.trim()) && !/^\/?budget(\s+status)?$/i.test(query.trim())) {
+      throw new HttpError(403, 'Budget overrides are requested and decided in the Dashboard channel.');
+    }
+
+    return this.ask(query.trim());
+  }
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  response.end(JSON.stringify(body));
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    request.on('end', () => {
+      if (size > MAX_BODY_BYTES) reject(new HttpError(413, 'Query too long'));
+      else resolve(Buffer.concat(chunks).toString('utf8'));
+    });
+    request.on('error', reject);
+  });
+}
+
+function requestToken(request: http.IncomingMessage): string {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization || '');
+  if (bearer) return bearer[1];
+
+  for (const cookie of (request.headers.cookie || '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === TOKEN_COOKIE) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return '';
+      }
+    }
+  }
+  return '';
+}
+
+// Compared in constant time so response timing doesn't reveal how much of a guess was right
+function tokensMatch(offered: string, token: string): boolean {
+  const expected = crypto.createHash('sha256').update(token).digest();
+  const actual = crypto.createHash('sha256').update(offered).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+// Host headers a browser may send for host:port: IPv6 literals go in brackets and port 80 may be left out
+function hostHeaders(host: string, port: number): string[] {
+  const name = (host.includes(':') ? `[${host}]` : host).toLowerCase();
+  return port === 80 ? [name, `${name}:80`] : [`${name}:${port}`];
+}
@@ -0,0 +1,188 @@
+import http from 'http';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
+import { APIMetrics } from '../types/index.js';
+import { APIUsageTracker } from '../intelligence/APIUsageTracker.js';
+import { WorkItemBoard } from '../intelligence/WorkItemBoard.js';
+
+const CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]; // Seconds
+const WINDOW_HOURS = 24;
+
+interface OperationCounters {
+  agent: string;
+  operation: string;
+  successes: number;
+  failures: number;
+  tokens: number;
+  cost: number;
+  durationSeconds: number;
+  buckets: number[];                 // Calls at or under each LATENCY_BUCKETS bound
+}
+
+type Labels = Record<string, string>;
+
+/**
+ * Serves Dashboard metrics at /metrics in OpenMetrics text format, for
+ * Prometheus and other scrapers. Request, token and cost counters and the
+ * latency histogram count calls since the Dashboard started, as counters
+ * do; the per-agent gauges cover the last 24 hours of the usage tracker's
+ * history, and WorkItem counts come from the board Commander keeps current.
+ */
+export class MetricsExporter {
+  private usageTracker: APIUsageTracker;
+  private board: WorkItemBoard;
+  private config: ConfigService;
+  private server: http.Server | null = null;
+  private counters: Map<string, OperationCounters> = new Map();
+
+  constructor(usageTracker: APIUsageTracker, board: WorkItemBoard, config: ConfigService = getConfigService()) {
+    this.usageTracker = usageTracker;
+    this.board = board;
+    this.config = config;
+    this.usageTracker.onMetric(metric => this.count(metric));
+  }
+
+  async start(): Promise<void> {
+    const { metricsHost, metricsPort } = this.config.get().dashboard;
+    if (metricsPort === 0) {
+      console.log('[MetricsExporter] Off (dashboard.metricsPort is 0)');
+      return;
+    }
+
+    const server = http.createServer((request, response) => this.respond(request, response));
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(metricsPort, metricsHost, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      // A taken port shouldn't keep the Dashboard from starting
+      console.error(`[MetricsExporter] Could not listen on ${metricsHost}:${metricsPort}:`, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    this.server = server;
+    console.log(`[MetricsExporter] 📈 Serving OpenMetrics at http://${metricsHost}:${metricsPort}/metrics`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    const counters = Array.from(this.counters.values());
+    const labelsOf = (entry: OperationCounters): Labels => ({ agent: entry.agent, operation: entry.operation });
+
+    family(lines, 'epoch_llm_requests', 'counter', 'LLM requests made by agents');
+    counters.forEach(entry => {
+      lines.push(sample('epoch_llm_requests_total', { ...labelsOf(entry), outcome: 'success' }, entry.successes));
+      lines.push(sample('epoch_llm_requests_total', { ...labelsOf(entry), outcome: 'failure' }, entry.failures));
+    });
+
+    family(lines, 'epoch_llm_request_duration_seconds', 'histogram', 'Time LLM requests took', 'seconds');
+    counters.forEach(entry => {
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        lines.push(sample('epoch_llm_request_duration_seconds_bucket', { ...labelsOf(entry), le: String(bound) }, entry.buckets[index]));
+      });
+      const count = entry.successes + entry.failures;
+      lines.push(sample('epoch_llm_request_duration_seconds_bucket', { ...labelsOf(entry), le: '+Inf' }, count));
+      lines.push(sample('epoch_llm_request_duration_seconds_count', labelsOf(entry), count));
+      lines.push(sample('epoch_llm_request_duration_seconds_sum', labelsOf(entry), entry.durationSeconds));
+    });
+
+    family(lines, 'epoch_llm_tokens', 'counter', 'Input and output tokens of LLM requests', 'tokens');
+    counters.forEach(entry => lines.push(sample('epoch_llm_tokens_total', labelsOf(entry), entry.tokens)));
+
+    family(lines, 'epoch_llm_cost_dollars', 'counter', 'Estimated cost of LLM requests', 'dollars');
+    counters.forEach(entry => lines.push(sample('epoch_llm_cost_dollars_total', labelsOf(entry), entry.cost)));
+
+    const window = `${WINDOW_HOURS}h`;
+    const breakdown = Object.entries(this.usageTracker.getMetrics(WINDOW_HOURS).agentBreakdown);
+    family(lines, 'epoch_agent_window_requests', 'gauge', 'LLM requests per agent over the window');
+    breakdown.forEach(([agent, metrics]) => lines.push(sample('epoch_agent_window_requests', { agent, window }, metrics.requests)));
+    family(lines, 'epoch_agent_window_success_ratio', 'gauge', 'Share of LLM requests that succeeded over the window', 'ratio');
+    breakdown.forEach(([agent, metrics]) => lines.push(sample('epoch_agent_window_success_ratio', { agent, window }, metrics.successRate)));
+    family(lines, 'epoch_agent_window_response_seconds', 'gauge', 'Average LLM response time over the window', 'seconds');
+    breakdown.forEach(([agent, metrics]) => lines.push(sample('epoch_agent_window_response_seconds', { agent, window }, metrics.avgDuration / 1000)));
+    family(lines, 'epoch_agent_window_cost_dollars', 'gauge', 'Estimated LLM cost over the window', 'dollars');
+    breakdown.forEach(([agent, metrics]) => lines.push(sample('epoch_agent_window_cost_dollars', { agent, window }, metrics.totalCost)));
+
+    family(lines, 'epoch_work_items', 'gauge', "Commander's work items by status");
+    Object.entries(this.board.countsByStatus()).forEach(([status, count]) => {
+      lines.push(sample('epoch_work_items', { status }, count));
+    });
+
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+
+  private count(metric: APIMetrics): void {
+    const key = `${metric.agent}:${metric.operation}`;
+    let entry = this.counters.get(key);
+    if (!entry) {
+      entry = {
+        agent: metric.agent,
+        operation: metric.operation,
+        successes: 0,
+        failures: 0,
+        tokens: 0,
+        cost: 0,
+        durationSeconds: 0,
+        buckets: LATENCY_BUCKETS.map(() => 0)
+      };
+      this.counters.set(key, entry);
+    }
+
+    const seconds = metric.duration / 1000;
+    if (metric.success) entry.successes++;
+    else entry.failures++;
+    entry.tokens += metric.tokens;
+    entry.cost += metric.cost;
+    entry.durationSeconds += seconds;
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) entry!.buckets[index]++;
+    });
+  }
+
+  private respond(request: http.IncomingMessage, response: http.ServerResponse): void {
+    if ((request.url || '').split('?')[0] !== '/metrics') {
+      response.writeHead(404).end();
+      return;
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405, { Allow: 'GET, HEAD' }).end();
+      return;
+    }
+
+    try {
+      const body = this.render();
+      response.writeHead(200, { 'Content-Type': CONTENT_TYPE });
+      response.end(request.method === 'HEAD' ? undefined : body);
+    } catch (error) {
+      console.error('[MetricsExporter] Failed to render metrics:', error);
+      response.writeHead(500).end();
+    }
+  }
+}
+
+function family(lines: string[], name: string, type: string, help: string, unit?: string): void {
+  lines.push(`# TYPE ${name} ${type}`);
+  if (unit) lines.push(`# UNIT ${name} ${unit}`);
+  lines.push(`# HELP ${name} ${help}`);
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const rendered = Object.entries(labels)
+    .map(([label, text]) => `${label}="${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+  return `${name}{${rendered}} ${value}`;
+}
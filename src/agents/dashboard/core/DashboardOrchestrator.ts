@@ -11,6 +11,10 @@ import { PerformanceAnalyzer } from '../intelligence/PerformanceAnalyzer.js';
 import { DashboardIntelligence } from '../intelligence/DashboardIntelligence.js';
 import { DashboardVoice } from '../communication/DashboardVoice.js';
 import { DashboardDiscord } from '../communication/DashboardDiscord.js';
+import { AgentMessagePayloads } from '../../../shared/messaging/index.js';
+import { BudgetAlert, BudgetGuard, BudgetLine, BudgetPeriod, describeLine, getBudgetGuard } from '../../../shared/llm/index.js';
+
+const BUDGET_USAGE = 'Usage: "/budget" for spend against each budget, "/budget override <agent|all> <amount> [daily|monthly] <reason>" to ask for more, "/budget approve|deny <id>" to decide on a request.';
 
 export class DashboardOrchestrator {
   private config: DashboardConfig;
@@ -19,7 +23,10 @@ export class DashboardOrchestrator {
   private intelligence: DashboardIntelligence;
   private voice: DashboardVoice;
   private discord: DashboardDiscord;
+  private budget: BudgetGuard;
   private pendingOptimizations: Map<string, OptimizationRequest> = new Map();
+  // Sent and accepted, waiting for the target agent's optimization_status updates
+  private sentOptimizations: Map<string, OptimizationRequest> = new Map();
 
   constructor(
     config: DashboardConfig,
@@ -27,7 +34,8 @@ export class DashboardOrchestrator {
     performanceAnalyzer: PerformanceAnalyzer,
     intelligence: DashboardIntelligence,
     voice: DashboardVoice,
-    discord: DashboardDiscord
+    discord: DashboardDiscord,
+    budget: BudgetGuard = getBudgetGuard()
   ) {
     this.config = config;
     this.usageTracker = usageTracker;
@@ -35,16 +43,19 @@ export class DashboardOrchestrator {
     this.intelligence = intelligence;
     this.voice = voice;
     this.discord = discord;
+    this.budget = budget;
 
     console.log('[DashboardOrchestrator] Work execution system initialized');
   }
 
   async processUserQuery(query: DashboardQuery): Promise<string> {
-    const startTime = Date.now();
-    
     try {
       console.log(`[DashboardOrchestrator] Processing query: "${query.query}"`);
 
+      if (/^\/?budget\b/i.test(query.query.trim())) {
+        return await this.handleBudgetCommand(query);
+      }
+
       // Determine query type
       const queryType = this.categorizeQuery(query.query);
       
@@ -79,31 +90,10 @@ export class DashboardOrchestrator {
           response = await this.handleGeneralQuery(query);
       }
 
-      // Track this dashboard operation
-      await this.usageTracker.trackAPICall(
-        'Dashboard',
-        `query_${queryType}`,
-        Date.now() - startTime,
-        200, // Estimated tokens for orchestration
-        0.001, // Estimated cost
-        true
-      );
-
       return response;
 
     } catch (error) {
       console.error('[DashboardOrchestrator] Query processing failed:', error);
-      
-      // Track the error
-      await this.usageTracker.trackAPICall(
-        'Dashboard',
-        'query_error',
-        Date.now() - startTime,
-        0,
-        0,
-        false,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
 
       return await this.voice.formatErrorResponse(
         error instanceof Error ? error.message : 'Unknown error',
@@ -112,11 +102,20 @@ export class DashboardOrchestrator {
     }
   }
 
+  getPendingOptimizations(): OptimizationRequest[] {
+    return Array.from(this.pendingOptimizations.values());
+  }
+
   async handleOptimizationApproval(
     userId: string,
     approved: boolean,
     requestId?: string
   ): Promise<string> {
+    // 'latest' refers to the most recent request still awaiting approval
+    if (requestId === 'latest') {
+      requestId = Array.from(this.pendingOptimizations.keys()).pop();
+    }
+
     if (!requestId || !this.pendingOptimizations.has(requestId)) {
       return 'No pending optimization request found.';
     }
@@ -127,17 +126,13 @@ export class DashboardOrchestrator {
       request.userApproved = true;
       request.status = 'sent';
       
-      // Send to coordination channel
+      // Hand off over the message bus; the outcome is posted when the agent responds
       const formattedRequest = await this.voice.formatAgentHandoffMessage(request);
-      await this.discord.sendOptimizationRequest(
-        request.targetAgent,
-        formattedRequest,
-        request.userContext
-      );
+      this.followUpOptimization(request, formattedRequest);
 
       this.pendingOptimizations.delete(requestId);
       
-      return `✅ **Optimization Request Sent**\n\nRequest forwarded to ${request.targetAgent} via agent coordination channel. You'll be notified of the implementation status.`;
+      return `✅ **Optimization Request Sent**\n\nRequest forwarded to ${request.targetAgent} as structured work. You'll be notified of the implementation status.`;
     } else {
       request.status = 'declined';
       this.pendingOptimizations.delete(requestId);
@@ -146,6 +141,45 @@ export class DashboardOrchestrator {
     }
   }
 
+  private followUpOptimization(request: OptimizationRequest, formattedRequest: string): void {
+    this.discord.sendOptimizationRequest(request, formattedRequest)
+      .then(async (response) => {
+        if (response.payload.success && response.payload.data?.status === 'accepted') {
+          this.sentOptimizations.set(request.id, request);
+          await this.discord.sendMessage(`⏳ **${request.targetAgent} accepted optimization ${request.id}**\n\n${response.payload.message}`);
+          return;
+        }
+
+        request.status = response.payload.success ? 'implemented' : 'declined';
+        const icon = response.payload.success ? '✅' : '⚠️';
+        await this.discord.sendMessage(
+          `${icon} **${request.targetAgent} finished optimization ${request.id}**\n\n${response.payload.message}`
+        );
+      })
+      .catch(async (error) => {
+        console.error('[DashboardOrchestrator] Optimization handoff failed:', error);
+        await this.discord.sendMessage(
+          `⚠️ **Optimization ${request.id}**: no response from ${request.targetAgent} (${error instanceof Error ? error.message : 'unknown error'})`
+        );
+      });
+  }
+
+  async handleOptimizationStatus(update: AgentMessagePayloads['optimization_status']): Promise<void> {
+    const request = this.sentOptimizations.get(update.requestId);
+    if (!request) return;
+
+    if (update.status === 'accepted' || update.status === 'awaitingReview') {
+      request.planId = update.planId;
+      await this.discord.sendMessage(`🔍 **Optimization ${request.id}**: ${update.message}`);
+      return;
+    }
+
+    this.sentOptimizations.delete(request.id);
+    request.status = update.status === 'implemented' ? 'implemented' : 'declined';
+    const outcome = { implemented: '✅ implemented', declined: '❌ declined', failed: '⚠️ could not complete' }[update.status];
+    await this.discord.sendMessage(`**${request.targetAgent} ${outcome} optimization ${request.id}**\n\n${update.message}`);
+  }
+
   async generateSystemHealthReport(): Promise<SystemHealthReport> {
     return await this.intelligence.generateCrossAgentReport('24h');
   }
@@ -300,6 +334,105 @@ export class DashboardOrchestrator {
     return response;
   }
 
+  // Posted in the Dashboard channel and sent to the agents the budget covers
+  async handleBudgetAlert(alert: BudgetAlert): Promise<void> {
+    const { line, agent, blocked } = alert;
+    const spend = this.formatSpend(line);
+    const resets = line.period === 'daily' ? 'midnight UTC' : 'the end of the month';
+
+    let text: string;
+    if (blocked) {
+      text = `${agent}'s calls are being refused: the ${describeLine(line)} is spent (${spend}). Critical calls still run on cheaper models until ${resets}.`;
+    } else if (line.state === 'exceeded') {
+      text = `The ${describeLine(line)} is spent (${spend}). Calls that aren't critical are refused until ${resets}.`;
+    } else {
+      text = `The ${describeLine(line)} is nearly spent (${spend}). Calls now use cheaper models and shorter replies.`;
+    }
+
+    const overrideHint = line.state === 'exceeded' ? `\nTo raise it for this period: "/budget override ${line.agent || 'all'} <amount> ${line.period} <reason>"` : '';
+    await this.discord.sendMessage(`💰 **Budget Alert**\n\n${text}${overrideHint}`);
+    await this.discord.sendCostAlert(line.agent || 'all', text, line.state === 'exceeded' ? 'high' : 'medium');
+  }
+
+  private async handleBudgetCommand(query: DashboardQuery): Promise<string> {
+    const args = query.query.trim().replace(/^\/?budget\s*/i, '').split(/\s+/).filter(Boolean);
+    switch ((args[0] || 'status').toLowerCase()) {
+      case 'status':
+        return await this.formatBudgetStatus();
+      case 'override':
+        return await this.requestBudgetOverride(args.slice(1), query.userId);
+      case 'approve':
+        return await this.decideBudgetOverride(args[1], query.userId, true);
+      case 'deny':
+      case 'discard':
+        return await this.decideBudgetOverride(args[1], query.userId, false);
+      default:
+        return BUDGET_USAGE;
+    }
+  }
+
+  private async formatBudgetStatus(): Promise<string> {
+    const icons = { ok: '✅', degraded: '⚠️', exceeded: '⛔' };
+    const lines = (await this.budget.lines()).map(line => {
+      const percent = line.limit > 0 ? ` (${Math.round(line.spent / line.limit * 100)}%)` : '';
+      return `${icons[line.state]} ${describeLine(line)}: ${this.formatSpend(line)}${percent}`;
+    });
+    const pending = this.budget.getPendingOverrides().map(override =>
+      `• \`${override.id}\` +$${override.amount.toFixed(2)} ${override.period} for ${override.agent || 'all agents'}, asked by <@${override.requestedBy}>: ${override.reason}`);
+
+    return `**💰 Budgets**\n\n${lines.join('\n')}${pending.length ? `\n\n**Overrides awaiting approval:**\n${pending.join('\n')}` : ''}`;
+  }
+
+  private async requestBudgetOverride(args: string[], userId: string): Promise<string> {
+    const [target, amountText, ...rest] = args;
+    const amount = Number((amountText || '').replace(/^\$/, ''));
+    if (!target || !(amount > 0)) {
+      return BUDGET_USAGE;
+    }
+    const period: BudgetPeriod = ['daily', 'monthly'].includes((rest[0] || '').toLowerCase()) ? rest.shift()!.toLowerCase() as BudgetPeriod : 'daily';
+    const reason = rest.join(' ') || 'no reason given';
+
+    // Only limits that exist can be raised
+    let agent: string | null = null;
+    if (target.toLowerCase() !== 'all') {
+      const line = (await this.budget.lines()).find(line => line.agent?.toLowerCase() === target.toLowerCase() && line.period === period);
+      if (!line) {
+        return `${target} has no ${period} budget of its own, so only the global one applies. Override "all" instead.`;
+      }
+      agent = line.agent;
+    }
+
+    const override = await this.budget.requestOverride(agent, period, amount, userId, reason);
+    return `**💰 Override requested:** +$${amount.toFixed(2)} on the ${agent || 'global'} ${period} budget until it resets.\n\nNothing changes until someone else approves it: "/budget approve ${override.id}" or "/budget deny ${override.id}".`;
+  }
+
+  // Decisions name the override, so nobody approves a request they haven't seen
+  private async decideBudgetOverride(overrideId: string | undefined, userId: string, approved: boolean): Promise<string> {
+    if (!overrideId) {
+      const pending = this.budget.getPendingOverrides().map(override => `\`${override.id}\``);
+      return pending.length > 0
+        ? `Say which override to ${approved ? 'approve' : 'deny'}: ${pending.join(', ')}. "/budget" shows the details.`
+        : 'No budget override is awaiting approval.';
+    }
+
+    if (!approved) {
+      return await this.budget.discardOverride(overrideId) ? `Denied ${overrideId}. The budget stays as it is.` : `No pending override ${overrideId}.`;
+    }
+    try {
+      const override = await this.budget.approveOverride(overrideId, userId);
+      if (!override) {
+        return `No pending override ${overrideId}.`;
+      }
+      return `✅ **Override approved:** the ${override.agent || 'global'} ${override.period} budget is $${override.amount.toFixed(2)} higher until it resets.`;
+    } catch (error) {
+      return `Couldn't approve ${overrideId}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private formatSpend(line: BudgetLine): string {
+    return `$${line.spent.toFixed(2)} of $${line.limit.toFixed(2)}`;
+  }
+
   private async handleGeneralQuery(query: DashboardQuery): Promise<string> {
     const insight = await this.intelligence.analyzePerformanceQuery(
       query.query,
@@ -1,20 +1,22 @@
-import * as fs from 'fs/promises';
-import { APIMetrics, PerformanceMetrics, PerformanceAlert } from '../types/index.js';
+import { APIMetrics, MetricsBucket, MetricsResolution, MetricsTotals, PerformanceMetrics, PerformanceAlert } from '../types/index.js';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
+import { AgentName } from '../../../shared/messaging/index.js';
+import { LLMCallRecord } from '../../../shared/llm/index.js';
+import { MetricsStore } from './MetricsStore.js';
 
 export class APIUsageTracker {
-  private metrics: APIMetrics[] = [];
-  private metricsFile = 'data/api-usage-metrics.json';
+  private store: MetricsStore;
   private sessionStartTime: Date;
-  private maxMetricsHistory = 10000; // Keep last 10k entries
+  private metricListeners: Array<(metric: APIMetrics) => void> = [];
 
-  constructor() {
+  constructor(config: ConfigService = getConfigService(), store: MetricsStore = new MetricsStore(config)) {
+    this.store = store;
     this.sessionStartTime = new Date();
-    this.loadMetrics();
     console.log('[APIUsageTracker] API usage tracking initialized');
   }
 
   async trackAPICall(
-    agent: 'Commander' | 'Architect' | 'Dashboard',
+    agent: AgentName,
     operation: string,
     duration: number,
     tokens: number,
@@ -24,8 +26,8 @@ export class APIUsageTracker {
     requestSize?: number,
     responseSize?: number
   ): Promise<void> {
-    const metric: APIMetrics = {
-      id: `api_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    await this.addMetric({
+      id: this.newMetricId(),
       timestamp: new Date().toISOString(),
       agent,
       operation,
@@ -36,43 +38,72 @@ export class APIUsageTracker {
       error,
       requestSize,
       responseSize
-    };
+    });
+  }
 
-    this.metrics.push(metric);
+  // Reported for every LLM request by InstrumentedProvider, via llm_usage messages
+  async trackLLMCall(call: LLMCallRecord): Promise<void> {
+    await this.addMetric({
+      id: this.newMetricId(),
+      timestamp: call.timestamp,
+      agent: call.agent,
+      operation: call.operation,
+      duration: call.durationMs,
+      tokens: call.inputTokens + call.outputTokens,
+      cost: call.cost,
+      success: call.success,
+      error: call.error,
+      model: call.model,
+      inputTokens: call.inputTokens,
+      outputTokens: call.outputTokens
+    });
+  }
 
-    // Maintain history limit
-    if (this.metrics.length > this.maxMetricsHistory) {
-      this.metrics = this.metrics.slice(-this.maxMetricsHistory);
-    }
+  private newMetricId(): string {
+    return `api_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  onMetric(listener: (metric: APIMetrics) => void): void {
+    this.metricListeners.push(listener);
+  }
 
-    await this.saveMetrics();
+  private async addMetric(metric: APIMetrics): Promise<void> {
+    await this.store.append(metric);
+    for (const listener of this.metricListeners) {
+      try {
+        listener(metric);
+      } catch (error) {
+        console.error('[APIUsageTracker] Metric listener failed:', error);
+      }
+    }
     
-    console.log(`[APIUsageTracker] ${agent} ${operation}: ${duration}ms, ${tokens} tokens, $${cost.toFixed(4)}, ${success ? 'success' : 'failed'}`);
+    console.log(`[APIUsageTracker] ${metric.agent} ${metric.operation}: ${metric.duration}ms, ${metric.tokens} tokens, $${metric.cost.toFixed(4)}, ${metric.success ? 'success' : 'failed'}`);
   }
 
   getSessionMetrics(): PerformanceMetrics {
-    const sessionMetrics = this.metrics.filter(m => 
-      new Date(m.timestamp) >= this.sessionStartTime
-    );
-
-    return this.calculateMetrics(sessionMetrics, 'current session');
+    return this.calculateMetrics(this.store.summarize(this.sessionStartTime), 'current session');
   }
 
   getMetrics(timeframeHours: number = 24): PerformanceMetrics {
-    const cutoff = new Date(Date.now() - timeframeHours * 60 * 60 * 1000);
-    const recentMetrics = this.metrics.filter(m => 
-      new Date(m.timestamp) >= cutoff
-    );
+    return this.calculateMetrics(this.store.summarize(hoursAgo(timeframeHours)), `${timeframeHours}h`);
+  }
+
+  getMetricsBetween(from: Date, to: Date): PerformanceMetrics {
+    return this.calculateMetrics(this.store.summarize(from, to), `${from.toISOString()} to ${to.toISOString()}`);
+  }
 
-    return this.calculateMetrics(recentMetrics, `${timeframeHours}h`);
+  // Usage per interval, per minute up to 6 hours back, per hour up to two weeks and per day beyond
+  getUsageSeries(timeframeHours: number = 24, resolution?: MetricsResolution): MetricsBucket[] {
+    const chosen = resolution || (timeframeHours <= 6 ? 'minute' : timeframeHours <= 14 * 24 ? 'hour' : 'day');
+    return this.store.series(hoursAgo(timeframeHours), new Date(), chosen);
   }
 
   getRecentMetrics(limit: number = 50): APIMetrics[] {
-    return this.metrics.slice(-limit);
+    return this.store.recent(limit);
   }
 
-  private calculateMetrics(metrics: APIMetrics[], timeframe: string): PerformanceMetrics {
-    if (metrics.length === 0) {
+  private calculateMetrics(summary: MetricsBucket, timeframe: string): PerformanceMetrics {
+    if (summary.requests === 0) {
       return {
         averageResponseTime: 0,
         totalRequests: 0,
@@ -84,49 +115,37 @@ export class APIUsageTracker {
       };
     }
 
-    const totalRequests = metrics.length;
-    const successfulRequests = metrics.filter(m => m.success).length;
-    const successRate = successfulRequests / totalRequests;
-    
-    const totalDuration = metrics.reduce((sum, m) => sum + m.duration, 0);
-    const averageResponseTime = totalDuration / totalRequests;
-    
-    const totalCost = metrics.reduce((sum, m) => sum + m.cost, 0);
-    const totalTokens = metrics.reduce((sum, m) => sum + m.tokens, 0);
-
     // Agent breakdown
-    const agentGroups = metrics.reduce((groups, metric) => {
-      if (!groups[metric.agent]) {
-        groups[metric.agent] = [];
-      }
-      groups[metric.agent].push(metric);
-      return groups;
-    }, {} as Record<string, APIMetrics[]>);
+    const agentTotals: Record<string, MetricsTotals> = {};
+    for (const [key, totals] of Object.entries(summary.operations)) {
+      const { agent } = splitOperationKey(key);
+      const target = agentTotals[agent] || { requests: 0, successes: 0, duration: 0, tokens: 0, cost: 0 };
+      target.requests += totals.requests;
+      target.successes += totals.successes;
+      target.duration += totals.duration;
+      target.tokens += totals.tokens;
+      target.cost += totals.cost;
+      agentTotals[agent] = target;
+    }
 
     const agentBreakdown: PerformanceMetrics['agentBreakdown'] = {};
     
-    for (const [agent, agentMetrics] of Object.entries(agentGroups)) {
-      const requests = agentMetrics.length;
-      const successful = agentMetrics.filter(m => m.success).length;
-      const avgDuration = agentMetrics.reduce((sum, m) => sum + m.duration, 0) / requests;
-      const totalCostAgent = agentMetrics.reduce((sum, m) => sum + m.cost, 0);
-      const totalTokensAgent = agentMetrics.reduce((sum, m) => sum + m.tokens, 0);
-      
+    for (const [agent, totals] of Object.entries(agentTotals)) {
       agentBreakdown[agent] = {
-        requests,
-        avgDuration,
-        totalCost: totalCostAgent,
-        totalTokens: totalTokensAgent,
-        successRate: successful / requests
+        requests: totals.requests,
+        avgDuration: totals.duration / totals.requests,
+        totalCost: totals.cost,
+        totalTokens: totals.tokens,
+        successRate: totals.successes / totals.requests
       };
     }
 
     return {
-      averageResponseTime,
-      totalRequests,
-      successRate,
-      totalCost,
-      totalTokens,
+      averageResponseTime: summary.duration / summary.requests,
+      totalRequests: summary.requests,
+      successRate: summary.successes / summary.requests,
+      totalCost: summary.cost,
+      totalTokens: summary.tokens,
       timeframe,
       agentBreakdown
     };
@@ -205,31 +224,14 @@ export class APIUsageTracker {
     totalCost: number;
     avgDuration: number;
   }> {
-    const cutoff = new Date(Date.now() - timeframeHours * 60 * 60 * 1000);
-    const recentMetrics = this.metrics.filter(m => 
-      new Date(m.timestamp) >= cutoff
-    );
-
-    const operationGroups = recentMetrics.reduce((groups, metric) => {
-      const key = `${metric.agent}:${metric.operation}`;
-      if (!groups[key]) {
-        groups[key] = {
-          operation: metric.operation,
-          agent: metric.agent,
-          metrics: []
-        };
-      }
-      groups[key].metrics.push(metric);
-      return groups;
-    }, {} as Record<string, { operation: string; agent: string; metrics: APIMetrics[] }>);
+    const summary = this.store.summarize(hoursAgo(timeframeHours));
 
-    return Object.values(operationGroups)
-      .map(group => ({
-        operation: group.operation,
-        agent: group.agent,
-        count: group.metrics.length,
-        totalCost: group.metrics.reduce((sum, m) => sum + m.cost, 0),
-        avgDuration: group.metrics.reduce((sum, m) => sum + m.duration, 0) / group.metrics.length
+    return Object.entries(summary.operations)
+      .map(([key, totals]) => ({
+        ...splitOperationKey(key),
+        count: totals.requests,
+        totalCost: totals.cost,
+        avgDuration: totals.duration / totals.requests
       }))
       .sort((a, b) => b.totalCost - a.totalCost)
       .slice(0, limit);
@@ -260,23 +262,17 @@ export class APIUsageTracker {
       .sort((a, b) => b.efficiency - a.efficiency);
   }
 
-  private async loadMetrics(): Promise<void> {
-    try {
-      const data = await fs.readFile(this.metricsFile, 'utf8');
-      this.metrics = JSON.parse(data);
-      console.log(`[APIUsageTracker] Loaded ${this.metrics.length} historical metrics`);
-    } catch (error) {
-      this.metrics = [];
-      console.log('[APIUsageTracker] No previous metrics found, starting fresh');
-    }
+  async flush(): Promise<void> {
+    await this.store.flush();
   }
+}
 
-  private async saveMetrics(): Promise<void> {
-    try {
-      await fs.mkdir('data', { recursive: true });
-      await fs.writeFile(this.metricsFile, JSON.stringify(this.metrics, null, 2));
-    } catch (error) {
-      console.error('[APIUsageTracker] Failed to save metrics:', error);
-    }
-  }
-}
\ No newline at end of file
+function hoursAgo(hours: number): Date {
+  return new Date(Date.now() - hours * 60 * 60 * 1000);
+}
+
+// MetricsStore keys operations as "Agent:operation"
+function splitOperationKey(key: string): { agent: string; operation: string } {
+  const separator = key.indexOf(':');
+  return { agent: key.slice(0, separator), operation: key.slice(separator + 1) };
+}
@@ -1,4 +1,5 @@
-import { Anthropic } from '@anthropic-ai/sdk';
+import { BudgetGuard, LLMProvider, getBudgetGuard } from '../../../shared/llm/index.js';
+import { AgentMessagePayloads } from '../../../shared/messaging/index.js';
 import { 
   APIMetrics, 
   PerformanceMetrics, 
@@ -12,14 +13,17 @@ import { APIUsageTracker } from './APIUsageTracker.js';
 import { PerformanceAnalyzer } from './PerformanceAnalyzer.js';
 
 export class DashboardIntelligence {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   private usageTracker: APIUsageTracker;
   private performanceAnalyzer: PerformanceAnalyzer;
+  private budget: BudgetGuard;
+  private lifecycle: Map<string, AgentMessagePayloads['agent_status']> = new Map();
 
-  constructor(claudeApiKey: string, usageTracker: APIUsageTracker, performanceAnalyzer: PerformanceAnalyzer) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider, usageTracker: APIUsageTracker, performanceAnalyzer: PerformanceAnalyzer, budget: BudgetGuard = getBudgetGuard()) {
+    this.llm = llm;
     this.usageTracker = usageTracker;
     this.performanceAnalyzer = performanceAnalyzer;
+    this.budget = budget;
     console.log('[DashboardIntelligence] AI-powered insight system initialized');
   }
 
@@ -28,15 +32,14 @@ export class DashboardIntelligence {
     recentMetrics: APIMetrics[],
     agentContext: AgentActivity[]
   ): Promise<InsightResponse> {
-    const startTime = Date.now();
-    
     try {
-      // Get current performance data
+      // Get performance data for the period the query asks about, a day by default
+      const hours = this.parseTimeframe(query);
       const sessionMetrics = this.usageTracker.getSessionMetrics();
-      const dailyMetrics = this.usageTracker.getMetrics(24);
+      const periodMetrics = this.usageTracker.getMetrics(hours);
       const alerts = this.usageTracker.detectAnomalies();
-      const trends = this.performanceAnalyzer.analyzePerformanceTrends();
-      const bottlenecks = this.performanceAnalyzer.identifyBottlenecks();
+      const trends = this.performanceAnalyzer.analyzePerformanceTrends(hours);
+      const bottlenecks = this.performanceAnalyzer.identifyBottlenecks(hours);
       
       // Determine if we should offer handoff
       const handoffAnalysis = await this.analyzeHandoffOpportunity(query, sessionMetrics, bottlenecks);
@@ -44,7 +47,7 @@ export class DashboardIntelligence {
       // Generate AI insight
       const aiInsight = await this.generateAIInsight(query, {
         sessionMetrics,
-        dailyMetrics,
+        periodMetrics,
         alerts,
         trends,
         bottlenecks,
@@ -62,31 +65,10 @@ export class DashboardIntelligence {
         handoffReason: handoffAnalysis.reason
       };
 
-      // Track this query
-      await this.usageTracker.trackAPICall(
-        'Dashboard',
-        'query_analysis',
-        Date.now() - startTime,
-        aiInsight.tokensUsed || 500, // Estimate
-        (aiInsight.tokensUsed || 500) * 0.000008, // Estimate cost
-        true
-      );
-
       return response;
 
     } catch (error) {
       console.error('[DashboardIntelligence] Query analysis failed:', error);
-      
-      // Track the error
-      await this.usageTracker.trackAPICall(
-        'Dashboard',
-        'query_analysis',
-        Date.now() - startTime,
-        0,
-        0,
-        false,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
 
       // Return fallback response
       return {
@@ -143,6 +125,10 @@ export class DashboardIntelligence {
     };
   }
 
+  updateAgentLifecycle(status: AgentMessagePayloads['agent_status']): void {
+    this.lifecycle.set(status.agent, status);
+  }
+
   async generateCrossAgentReport(timeframe: string): Promise<SystemHealthReport> {
     const hours = this.parseTimeframe(timeframe);
     const metrics = this.usageTracker.getMetrics(hours);
@@ -173,13 +159,41 @@ export class DashboardIntelligence {
       };
     });
 
-    // Budget status (mock for now)
+    // A supervised agent that isn't running overrides what its API calls suggest
+    this.lifecycle.forEach((lifecycle, agent) => {
+      const current = agentStatus[agent];
+      let status: 'online' | 'offline' | 'degraded' = current?.status || 'online';
+      let healthScore = current?.healthScore ?? 100;
+      if (lifecycle.state === 'starting' || lifecycle.state === 'restarting') {
+        status = 'degraded';
+        healthScore = Math.min(healthScore, 50);
+      } else if (lifecycle.state !== 'running') {
+        status = 'offline';
+        healthScore = 0;
+      }
+
+      agentStatus[agent] = {
+        status,
+        lastActivity: current?.lastActivity || lifecycle.since,
+        healthScore,
+        lifecycle: lifecycle.state,
+        restarts: lifecycle.restarts,
+        lastError: lifecycle.lastError
+      };
+    });
+
+    // Global spend as the budget guard counts it, against limits including approved overrides
+    const lines = await this.budget.lines();
+    const daily = lines.find(line => !line.agent && line.period === 'daily')!;
+    const monthly = lines.find(line => !line.agent && line.period === 'monthly')!;
+    const now = new Date();
+    const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
     const budgetStatus = {
-      dailySpent: metrics.totalCost,
-      dailyLimit: 1.0, // $1 daily limit
-      monthlySpent: metrics.totalCost * 30, // Rough estimate
-      monthlyLimit: 30.0, // $30 monthly limit
-      projectedMonthly: metrics.totalCost * 30
+      dailySpent: daily.spent,
+      dailyLimit: daily.limit,
+      monthlySpent: monthly.spent,
+      monthlyLimit: monthly.limit,
+      projectedMonthly: monthly.spent / now.getUTCDate() * daysInMonth
     };
 
     // Optimization opportunities
@@ -209,7 +223,7 @@ export class DashboardIntelligence {
 
   private async generateAIInsight(query: string, context: {
     sessionMetrics: PerformanceMetrics;
-    dailyMetrics: PerformanceMetrics;
+    periodMetrics: PerformanceMetrics;
     alerts: PerformanceAlert[];
     trends: any;
     bottlenecks: any[];
@@ -236,7 +250,7 @@ Respond with data-driven insights based on the provided metrics and context.`;
 
 Current System Context:
 Session Metrics: ${JSON.stringify(context.sessionMetrics, null, 2)}
-Daily Metrics: ${JSON.stringify(context.dailyMetrics, null, 2)}
+Metrics for the last ${context.periodMetrics.timeframe}: ${JSON.stringify(context.periodMetrics, null, 2)}
 Active Alerts: ${JSON.stringify(context.alerts, null, 2)}
 Performance Trends: ${JSON.stringify(context.trends, null, 2)}
 Bottlenecks: ${JSON.stringify(context.bottlenecks, null, 2)}
@@ -255,21 +269,21 @@ Format as JSON:
 }`;
 
     try {
-      const response = await this.claude.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 1000,
+      const response = await this.llm.complete({
+        tier: 'fast',
+        maxTokens: 1000,
         system: systemPrompt,
         messages: [
           { role: 'user', content: userPrompt }
         ]
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const aiResponse = JSON.parse(content.text);
+      const content = response.text;
+      if (content) {
+        const aiResponse = JSON.parse(content);
         return {
           ...aiResponse,
-          tokensUsed: response.usage.input_tokens + response.usage.output_tokens
+          tokensUsed: response.usage.inputTokens + response.usage.outputTokens
         };
       }
 
@@ -360,17 +374,23 @@ Format as JSON:
   }
 
   private parseTimeframe(timeframe: string): number {
-    // Parse timeframe like "24h", "7d", "1w" into hours
-    const match = timeframe.match(/(\d+)([hdw])/);
-    if (!match) return 24; // Default to 24 hours
+    // Parse timeframe like "24h", "7d", "1w", "3mo" or "2 weeks" into hours
+    const match = timeframe.toLowerCase().match(/(\d+)\s*(mo|months?|h|hours?|d|days?|w|weeks?)\b/);
+    if (!match) {
+      // "this week", "last month"
+      if (/\bmonth(ly)?\b/i.test(timeframe)) return 30 * 24;
+      if (/\bweek(ly)?\b/i.test(timeframe)) return 7 * 24;
+      return 24; // Default to 24 hours
+    }
 
     const [, amount, unit] = match;
     const num = parseInt(amount);
     
-    switch (unit) {
+    switch (unit[0]) {
       case 'h': return num;
       case 'd': return num * 24;
       case 'w': return num * 24 * 7;
+      case 'm': return num * 24 * 30;
       default: return 24;
     }
   }
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '../../../shared/config/index.js';
+import { APIMetrics } from '../types/index.js';
+import { MetricsStore } from './MetricsStore.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+let nextId = 0;
+function metric(time: number, cost: number, success: boolean = true): APIMetrics {
+  return {
+    id: `metric_${nextId++}`,
+    timestamp: new Date(time).toISOString(),
+    agent: 'Commander',
+    operation: 'chat',
+    duration: 100,
+    tokens: 10,
+    cost,
+    success
+  };
+}
+
+async function stores() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metrics-store-'));
+  const config = new ConfigService({ env: {}, file: path.join(dir, 'runtime.json') });
+  const open = () => new MetricsStore(config, { dir: path.join(dir, 'metrics'), legacyFile: path.join(dir, 'legacy.json') });
+  return { open, cleanup: () => fs.rm(dir, { recursive: true, force: true }) };
+}
+
+test('finished hours are rolled up and survive a restart', async () => {
+  const { open, cleanup } = await stores();
+  try {
+    const lastHour = Math.floor(Date.now() / HOUR) * HOUR - HOUR;
+    const store = open();
+    await store.append(metric(lastHour - HOUR + 60 * 1000, 0.5));
+    await store.append(metric(lastHour + 60 * 1000, 0.25));
+    await store.append(metric(lastHour + 2 * 60 * 1000, 0.25, false));
+    await store.flush();
+
+    const series = store.series(new Date(lastHour - HOUR), new Date(lastHour + HOUR), 'hour');
+    assert.deepEqual(series.map(bucket => [bucket.start, bucket.requests, bucket.successes, bucket.cost]), [
+      [new Date(lastHour - HOUR).toISOString(), 1, 1, 0.5],
+      [new Date(lastHour).toISOString(), 2, 1, 0.5]
+    ]);
+    assert.equal(series[1].operations['Commander:chat'].requests, 2);
+
+    const reopened = open();
+    await reopened.flush();
+    assert.deepEqual(reopened.series(new Date(lastHour - HOUR), new Date(lastHour + HOUR), 'hour'), series);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('calls past raw retention are only kept in rollups', async () => {
+  const { open, cleanup } = await stores();
+  try {
+    const store = open();
+    const old = Date.now() - 10 * DAY;
+    await store.append(metric(old, 1));
+    await store.append(metric(Date.now() - HOUR, 2));
+    await store.flush();
+
+    assert.equal(store.recent().length, 1);
+    assert.equal(store.summarize(new Date(Date.now() - 20 * DAY)).cost, 3);
+    assert.equal(store.summarize(new Date(Date.now() - 2 * DAY)).cost, 2);
+
+    const reopened = open();
+    await reopened.flush();
+    assert.equal(reopened.summarize(new Date(Date.now() - 20 * DAY)).cost, 3);
+  } finally {
+    await cleanup();
+  }
+});
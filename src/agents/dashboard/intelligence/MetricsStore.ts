@@ -0,0 +1,374 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
+import { APIMetrics, MetricsBucket, MetricsResolution, MetricsTotals } from '../types/index.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+type RetentionSetting = 'rawMetricsRetentionDays' | 'minuteRollupRetentionDays' | 'hourRollupRetentionDays' | 'dayRollupRetentionDays';
+
+// Finest first. Segments are named by the first `segment` characters of an ISO date:
+// minute/2026-10-19.jsonl, hour/2026-10.jsonl, day/2026.jsonl
+const RESOLUTIONS: Record<MetricsResolution, { ms: number; segment: number; retention: RetentionSetting }> = {
+  minute: { ms: MINUTE, segment: 10, retention: 'minuteRollupRetentionDays' },
+  hour: { ms: HOUR, segment: 7, retention: 'hourRollupRetentionDays' },
+  day: { ms: DAY, segment: 4, retention: 'dayRollupRetentionDays' }
+};
+const RESOLUTION_NAMES = Object.keys(RESOLUTIONS) as MetricsResolution[];
+const RAW_SEGMENT = 10; // raw/2026-10-19.jsonl
+
+export interface MetricsStoreOptions {
+  dir?: string;
+  legacyFile?: string;               // Imported once, then renamed to <file>.migrated
+}
+
+/**
+ * API usage as append-only JSONL segments under data/metrics: every call in
+ * raw/, and per-minute, per-hour and per-day aggregates of them. A bucket is
+ * rolled up once it is over, from the raw calls; calls that arrive for a
+ * bucket already rolled up are appended as a second line for it, and lines
+ * for the same bucket add up on load. Whole segments are deleted once they
+ * are past their retention in the dashboard config.
+ *
+ * Range queries read raw calls while the range is within raw retention and
+ * the finest rollup that still covers it otherwise, so older ranges are only
+ * as precise as that rollup's buckets.
+ */
+export class MetricsStore {
+  private config: ConfigService;
+  private dir: string;
+  private legacyFile: string;
+  private raw: APIMetrics[] = [];
+  private rollups: Record<MetricsResolution, Map<number, MetricsBucket>> = { minute: new Map(), hour: new Map(), day: new Map() };
+  private sealedUntil: Record<MetricsResolution, number> = { minute: 0, hour: 0, day: 0 }; // Rolled up before this time
+  private prunedOn = '';
+  private ready = false;
+  private loaded: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(config: ConfigService = getConfigService(), options: MetricsStoreOptions = {}) {
+    this.config = config;
+    this.dir = options.dir || 'data/metrics';
+    this.legacyFile = options.legacyFile || 'data/api-usage-metrics.json';
+    this.loaded = this.load();
+  }
+
+  async append(metric: APIMetrics): Promise<void> {
+    await this.loaded;
+    this.ingest([metric]);
+    this.seal();
+    return this.writing;
+  }
+
+  // Totals of the calls between `from` and `to`, with `start` set to `from`
+  summarize(from: Date, to: Date = new Date()): MetricsBucket {
+    this.seal();
+    const start = from.getTime();
+    const end = to.getTime();
+    const summary = emptyBucket(start);
+
+    let rawFrom = start;
+    if (start < this.cutoff('rawMetricsRetentionDays')) {
+      const resolution = RESOLUTION_NAMES.find(name => this.cutoff(RESOLUTIONS[name].retention) <= start) || 'day';
+      const sealed = Math.min(end, this.sealedUntil[resolution]);
+      const first = floor(start, resolution);
+      this.rollups[resolution].forEach((bucket, bucketStart) => {
+        if (bucketStart >= first && bucketStart < sealed) addBucket(summary, bucket);
+      });
+      rawFrom = Math.max(start, this.sealedUntil[resolution]);
+    }
+
+    this.rawBetween(rawFrom, end).forEach(metric => addMetric(summary, metric));
+    return summary;
+  }
+
+  // One bucket per `resolution` interval between `from` and `to` that had calls, oldest first
+  series(from: Date, to: Date = new Date(), resolution: MetricsResolution = 'hour'): MetricsBucket[] {
+    this.seal();
+    const start = floor(from.getTime(), resolution);
+    const end = to.getTime();
+    const sealed = Math.min(end, this.sealedUntil[resolution]);
+
+    const buckets = new Map<number, MetricsBucket>();
+    this.rollups[resolution].forEach((bucket, bucketStart) => {
+      if (bucketStart >= start && bucketStart < sealed) buckets.set(bucketStart, bucket);
+    });
+    aggregate(this.rawBetween(Math.max(start, sealed), end), resolution).forEach((bucket, bucketStart) => {
+      buckets.set(bucketStart, bucket);
+    });
+
+    return Array.from(buckets.keys()).sort((a, b) => a - b).map(bucketStart => buckets.get(bucketStart)!);
+  }
+
+  recent(limit: number = 50): APIMetrics[] {
+    return this.raw.slice(-limit);
+  }
+
+  async flush(): Promise<void> {
+    await this.loaded;
+    this.seal();
+    await this.writing;
+  }
+
+  private rawBetween(from: number, to: number): APIMetrics[] {
+    return this.raw.filter(metric => {
+      const time = Date.parse(metric.timestamp);
+      return time >= from && time < to;
+    });
+  }
+
+  // Keeps recent calls raw; anything in a bucket that is already rolled up is added to it directly
+  private ingest(metrics: APIMetrics[]): void {
+    const rawCutoff = this.cutoff('rawMetricsRetentionDays');
+    const recent = metrics.filter(metric => Date.parse(metric.timestamp) >= rawCutoff);
+    this.raw.push(...recent);
+    this.appendLines('raw', RAW_SEGMENT, recent.map(metric => ({ time: Date.parse(metric.timestamp), record: metric })));
+
+    for (const resolution of RESOLUTION_NAMES) {
+      const retained = this.cutoff(RESOLUTIONS[resolution].retention);
+      const late = metrics.filter(metric => {
+        const time = Date.parse(metric.timestamp);
+        return time >= retained && (time < this.sealedUntil[resolution] || time < rawCutoff);
+      });
+      if (late.length > 0) this.addRollups(resolution, aggregate(late, resolution));
+    }
+  }
+
+  // Rolls up every bucket that has ended since the last call
+  private seal(now: number = Date.now()): void {
+    if (!this.ready) return;
+
+    for (const resolution of RESOLUTION_NAMES) {
+      const current = floor(now, resolution);
+      const from = this.sealedUntil[resolution];
+      if (from >= current) continue;
+
+      this.sealedUntil[resolution] = current;
+      const retained = this.cutoff(RESOLUTIONS[resolution].retention, now);
+      const closed = aggregate(this.rawBetween(Math.max(from, retained), current), resolution);
+      if (closed.size > 0) this.addRollups(resolution, closed);
+    }
+
+    const today = new Date(now).toISOString().slice(0, 10);
+    if (this.prunedOn !== today) {
+      this.prunedOn = today;
+      this.prune(now);
+    }
+  }
+
+  private addRollups(resolution: MetricsResolution, buckets: Map<number, MetricsBucket>): void {
+    const rollups = this.rollups[resolution];
+    buckets.forEach((bucket, start) => {
+      const existing = rollups.get(start);
+      if (existing) addBucket(existing, bucket);
+      else rollups.set(start, { ...bucket, operations: copyOperations(bucket.operations) });
+    });
+    this.appendLines(resolution, RESOLUTIONS[resolution].segment, Array.from(buckets, ([time, record]) => ({ time, record })));
+  }
+
+  private prune(now: number): void {
+    const rawCutoff = this.cutoff('rawMetricsRetentionDays', now);
+    this.raw = this.raw.filter(metric => Date.parse(metric.timestamp) >= rawCutoff);
+    const cutoffs: Array<[string, number]> = [['raw', rawCutoff]];
+
+    for (const resolution of RESOLUTION_NAMES) {
+      const cutoff = this.cutoff(RESOLUTIONS[resolution].retention, now);
+      cutoffs.push([resolution, cutoff]);
+      for (const start of this.rollups[resolution].keys()) {
+        if (start < cutoff) this.rollups[resolution].delete(start);
+      }
+    }
+
+    this.write(async () => {
+      let removed = 0;
+      for (const [kind, cutoff] of cutoffs) {
+        for (const segment of await this.segments(kind)) {
+          if (segmentEnd(segment) <= cutoff) {
+            await fs.rm(path.join(this.dir, kind, `${segment}.jsonl`), { force: true });
+            removed++;
+          }
+        }
+      }
+      if (removed > 0) {
+        console.log(`[MetricsStore] 🧹 Removed ${removed} metrics segments past retention`);
+      }
+    });
+  }
+
+  private appendLines(kind: string, segmentLength: number, entries: Array<{ time: number; record: unknown }>): void {
+    if (entries.length === 0) return;
+
+    const segments = new Map<string, string>();
+    for (const { time, record } of entries) {
+      const segment = new Date(time).toISOString().slice(0, segmentLength);
+      segments.set(segment, (segments.get(segment) || '') + JSON.stringify(record) + '\n');
+    }
+
+    this.write(async () => {
+      await fs.mkdir(path.join(this.dir, kind), { recursive: true });
+      for (const [segment, lines] of segments) {
+        await fs.appendFile(path.join(this.dir, kind, `${segment}.jsonl`), lines);
+      }
+    });
+  }
+
+  // Appends run one at a time, in the order they were made
+  private write(task: () => Promise<void>): void {
+    this.writing = this.writing.then(task).catch(error => {
+      console.error('[MetricsStore] Failed to write metrics:', error);
+    });
+  }
+
+  private async load(): Promise<void> {
+    const now = Date.now();
+
+    for (const resolution of RESOLUTION_NAMES) {
+      const buckets = await this.readSegments<MetricsBucket>(resolution, this.cutoff(RESOLUTIONS[resolution].retention, now));
+      for (const bucket of buckets) {
+        const start = Date.parse(bucket.start);
+        const existing = this.rollups[resolution].get(start);
+        if (existing) addBucket(existing, bucket);
+        else this.rollups[resolution].set(start, bucket);
+      }
+      const latest = Array.from(this.rollups[resolution].keys()).reduce((max, start) => Math.max(max, start), -Infinity);
+      this.sealedUntil[resolution] = latest > -Infinity ? latest + RESOLUTIONS[resolution].ms : 0;
+    }
+
+    // Calls made before the last stop may still need rolling up, even if they are past raw retention
+    const sealed = RESOLUTION_NAMES.map(name => this.sealedUntil[name]).filter(time => time > 0);
+    const rawFrom = Math.min(this.cutoff('rawMetricsRetentionDays', now), ...sealed);
+    this.raw = (await this.readSegments<APIMetrics>('raw', rawFrom))
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+    const legacy = await this.readLegacy();
+    const known = new Set(this.raw.map(metric => metric.id));
+    const imported = legacy.filter(metric => !known.has(metric.id));
+
+    // Without rollups on disk, start rolling up from the oldest call kept raw
+    const rawCutoff = this.cutoff('rawMetricsRetentionDays', now);
+    const oldestRaw = [...this.raw, ...imported]
+      .map(metric => Date.parse(metric.timestamp))
+      .filter(time => time >= rawCutoff)
+      .reduce((min, time) => Math.min(min, time), now);
+    for (const resolution of RESOLUTION_NAMES) {
+      if (this.sealedUntil[resolution] === 0) this.sealedUntil[resolution] = floor(oldestRaw, resolution);
+    }
+
+    if (legacy.length > 0) {
+      this.ingest(imported);
+      this.write(() => fs.rename(this.legacyFile, `${this.legacyFile}.migrated`));
+      console.log(`[MetricsStore] Imported ${imported.length} metrics from ${this.legacyFile}`);
+    }
+
+    this.ready = true;
+    this.seal(now);
+    console.log(`[MetricsStore] Loaded ${this.raw.length} raw metrics and ${this.rollups.hour.size} hourly rollups`);
+  }
+
+  private async readLegacy(): Promise<APIMetrics[]> {
+    try {
+      const metrics = JSON.parse(await fs.readFile(this.legacyFile, 'utf8'));
+      return Array.isArray(metrics) ? metrics : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // Records in the segments of `kind` that end after `from`; a line cut short by a crash is skipped
+  private async readSegments<T>(kind: string, from: number): Promise<T[]> {
+    const records: T[] = [];
+    for (const segment of await this.segments(kind)) {
+      if (segmentEnd(segment) <= from) continue;
+
+      const content = await fs.readFile(path.join(this.dir, kind, `${segment}.jsonl`), 'utf8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch (error) {
+          console.warn(`[MetricsStore] Skipping unreadable line in ${kind}/${segment}.jsonl`);
+        }
+      }
+    }
+    return records;
+  }
+
+  private async segments(kind: string): Promise<string[]> {
+    try {
+      const files = await fs.readdir(path.join(this.dir, kind));
+      return files.filter(file => file.endsWith('.jsonl')).map(file => file.slice(0, -'.jsonl'.length)).sort();
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private cutoff(setting: RetentionSetting, now: number = Date.now()): number {
+    return now - this.config.get().dashboard[setting] * DAY;
+  }
+}
+
+function floor(time: number, resolution: MetricsResolution): number {
+  return Math.floor(time / RESOLUTIONS[resolution].ms) * RESOLUTIONS[resolution].ms;
+}
+
+// Start of the period after a segment: "2026" → 2027-01-01, "2026-10" → 2026-11-01, "2026-10-19" → 2026-10-20
+function segmentEnd(segment: string): number {
+  const [year, month = 1, day = 1] = segment.split('-').map(Number);
+  if (segment.length === 4) return Date.UTC(year + 1, 0, 1);
+  if (segment.length === 7) return Date.UTC(year, month, 1);
+  return Date.UTC(year, month - 1, day + 1);
+}
+
+function emptyTotals(): MetricsTotals {
+  return { requests: 0, successes: 0, duration: 0, tokens: 0, cost: 0 };
+}
+
+function emptyBucket(start: number): MetricsBucket {
+  return { start: new Date(start).toISOString(), ...emptyTotals(), operations: {} };
+}
+
+function addTotals(target: MetricsTotals, source: MetricsTotals): void {
+  target.requests += source.requests;
+  target.successes += source.successes;
+  target.duration += source.duration;
+  target.tokens += source.tokens;
+  target.cost += source.cost;
+}
+
+function addBucket(target: MetricsBucket, source: MetricsBucket): void {
+  addTotals(target, source);
+  for (const [key, totals] of Object.entries(source.operations)) {
+    target.operations[key] = target.operations[key] || emptyTotals();
+    addTotals(target.operations[key], totals);
+  }
+}
+
+function addMetric(target: MetricsBucket, metric: APIMetrics): void {
+  const totals: MetricsTotals = {
+    requests: 1,
+    successes: metric.success ? 1 : 0,
+    duration: metric.duration,
+    tokens: metric.tokens,
+    cost: metric.cost
+  };
+  addTotals(target, totals);
+  const key = `${metric.agent}:${metric.operation}`;
+  target.operations[key] = target.operations[key] || emptyTotals();
+  addTotals(target.operations[key], totals);
+}
+
+function copyOperations(operations: Record<string, MetricsTotals>): Record<string, MetricsTotals> {
+  return Object.fromEntries(Object.entries(operations).map(([key, totals]) => [key, { ...totals }]));
+}
+
+function aggregate(metrics: APIMetrics[], resolution: MetricsResolution): Map<number, MetricsBucket> {
+  const buckets = new Map<number, MetricsBucket>();
+  for (const metric of metrics) {
+    const start = floor(Date.parse(metric.timestamp), resolution);
+    if (!buckets.has(start)) buckets.set(start, emptyBucket(start));
+    addMetric(buckets.get(start)!, metric);
+  }
+  return buckets;
+}
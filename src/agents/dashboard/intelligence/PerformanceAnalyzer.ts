@@ -1,6 +1,9 @@
 import { APIMetrics, PerformanceMetrics, PerformanceAlert, AgentActivity } from '../types/index.js';
 import { APIUsageTracker } from './APIUsageTracker.js';
 
+const HOUR = 60 * 60 * 1000;
+const MIN_REQUESTS_PER_HOUR_OF_DAY = 10;
+
 export class PerformanceAnalyzer {
   private usageTracker: APIUsageTracker;
 
@@ -15,9 +18,11 @@ export class PerformanceAnalyzer {
     details: string;
     recommendations: string[];
   } {
-    // Compare recent performance to earlier periods
-    const recent = this.usageTracker.getMetrics(timeframeHours / 4); // Last quarter period
-    const baseline = this.usageTracker.getMetrics(timeframeHours); // Full period
+    // Compare the last quarter of the period to the three quarters before it
+    const now = Date.now();
+    const recentStart = new Date(now - timeframeHours / 4 * HOUR);
+    const recent = this.usageTracker.getMetricsBetween(recentStart, new Date(now));
+    const baseline = this.usageTracker.getMetricsBetween(new Date(now - timeframeHours * HOUR), recentStart);
     
     if (recent.totalRequests === 0 || baseline.totalRequests === 0) {
       return {
@@ -113,12 +118,54 @@ export class PerformanceAnalyzer {
       });
     });
 
+    // Hours of the day that are consistently slow, once there are a few days to compare
+    if (timeframeHours >= 48) {
+      const slowHour = this.findSlowHourOfDay(timeframeHours);
+      if (slowHour) {
+        bottlenecks.push({
+          type: 'time_pattern',
+          description: `Responses around ${String(slowHour.hour).padStart(2, '0')}:00 UTC average ${(slowHour.avgDuration / 1000).toFixed(1)}s, ${slowHour.ratio.toFixed(1)}x the usual`,
+          impact: slowHour.ratio > 3 ? 'high' : slowHour.ratio > 2 ? 'medium' : 'low',
+          metrics: slowHour,
+          recommendations: [
+            'Check what runs on a schedule at that hour',
+            'Spread batch work across the day',
+            'Review provider latency at peak times'
+          ]
+        });
+      }
+    }
+
     return bottlenecks.sort((a, b) => {
       const impactOrder = { high: 3, medium: 2, low: 1 };
       return impactOrder[b.impact] - impactOrder[a.impact];
     });
   }
 
+  private findSlowHourOfDay(timeframeHours: number): { hour: number; avgDuration: number; requests: number; ratio: number } | null {
+    const series = this.usageTracker.getUsageSeries(timeframeHours, 'hour');
+    const totalRequests = series.reduce((sum, bucket) => sum + bucket.requests, 0);
+    if (totalRequests === 0) return null;
+    const overall = series.reduce((sum, bucket) => sum + bucket.duration, 0) / totalRequests;
+
+    const byHour = new Map<number, { duration: number; requests: number }>();
+    series.forEach(bucket => {
+      const hour = new Date(bucket.start).getUTCHours();
+      const totals = byHour.get(hour) || { duration: 0, requests: 0 };
+      totals.duration += bucket.duration;
+      totals.requests += bucket.requests;
+      byHour.set(hour, totals);
+    });
+
+    const slowest = Array.from(byHour.entries())
+      .filter(([, totals]) => totals.requests >= MIN_REQUESTS_PER_HOUR_OF_DAY)
+      .map(([hour, totals]) => ({ hour, avgDuration: totals.duration / totals.requests, requests: totals.requests }))
+      .sort((a, b) => b.avgDuration - a.avgDuration)[0];
+    if (!slowest || overall === 0 || slowest.avgDuration < overall * 1.5) return null;
+
+    return { ...slowest, ratio: slowest.avgDuration / overall };
+  }
+
   generatePerformanceDistribution(): {
     fast: number; // < 500ms
     normal: number; // 500ms - 2s
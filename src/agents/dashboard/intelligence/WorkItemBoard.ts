@@ -0,0 +1,49 @@
+import { AgentMessageBus, WorkItemSnapshot, getMessageBus } from '../../../shared/messaging/index.js';
+
+const SNAPSHOT_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Commander's WorkItems as the Dashboard last heard of them: a full snapshot
+ * asked for at startup, then kept current from work_item_status messages.
+ */
+export class WorkItemBoard {
+  private bus: AgentMessageBus;
+  private items: Map<string, WorkItemSnapshot> = new Map();
+
+  constructor(bus: AgentMessageBus = getMessageBus()) {
+    this.bus = bus;
+  }
+
+  // Commander may not be running yet; its status messages fill the board in that case
+  async requestSnapshot(): Promise<void> {
+    try {
+      const { workItems } = await this.bus.query(
+        this.bus.createMessage('work_items_request', 'Dashboard', 'Commander', { requestedBy: 'Dashboard' }, { priority: 'low' }),
+        'work_items',
+        SNAPSHOT_TIMEOUT_MS
+      );
+      workItems.forEach(item => this.update(item));
+      console.log(`[WorkItemBoard] Loaded ${workItems.length} work items from Commander`);
+    } catch (error) {
+      console.warn('[WorkItemBoard] No work item snapshot from Commander:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  update(item: WorkItemSnapshot): void {
+    const known = this.items.get(item.id);
+    if (known && known.updatedAt > item.updatedAt) return;
+    this.items.set(item.id, item);
+  }
+
+  list(): WorkItemSnapshot[] {
+    return Array.from(this.items.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  countsByStatus(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    this.items.forEach(item => {
+      counts[item.status] = (counts[item.status] || 0) + 1;
+    });
+    return counts;
+  }
+}
@@ -1,3 +1,5 @@
+import { AgentLifecycleState, AgentName } from '../../../shared/messaging/index.js';
+
 // Dashboard Agent Types
 export interface DashboardConfig {
   dashboardToken: string;
@@ -9,17 +11,36 @@ export interface DashboardConfig {
 export interface APIMetrics {
   id: string;
   timestamp: string;
-  agent: 'Commander' | 'Architect' | 'Dashboard';
+  agent: AgentName;
   operation: string;
   duration: number; // milliseconds
   tokens: number;
   cost: number; // USD
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
   success: boolean;
   error?: string;
   requestSize?: number;
   responseSize?: number;
 }
 
+export type MetricsResolution = 'minute' | 'hour' | 'day';
+
+export interface MetricsTotals {
+  requests: number;
+  successes: number;
+  duration: number; // milliseconds, summed over requests
+  tokens: number;
+  cost: number; // USD
+}
+
+// API calls aggregated over one interval, with totals per "Agent:operation"
+export interface MetricsBucket extends MetricsTotals {
+  start: string;
+  operations: Record<string, MetricsTotals>;
+}
+
 export interface PerformanceMetrics {
   averageResponseTime: number;
   totalRequests: number;
@@ -77,6 +98,9 @@ export interface SystemHealthReport {
       status: 'online' | 'offline' | 'degraded';
       lastActivity: string;
       healthScore: number;
+      lifecycle?: AgentLifecycleState; // From the supervisor, when the agent runs under one
+      restarts?: number;
+      lastError?: string;
     };
   };
   budgetStatus: {
@@ -94,21 +118,8 @@ export interface SystemHealthReport {
   }[];
 }
 
-export interface AgentMessage {
-  from: 'Dashboard' | 'Commander' | 'Architect';
-  to: 'Dashboard' | 'Commander' | 'Architect' | 'all';
-  type: 'optimization_request' | 'performance_report' | 'cost_alert' | 'health_check';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  data: {
-    operation: string;
-    metrics: PerformanceMetrics;
-    recommendations: string[];
-    userContext: string;
-    threadId?: string;
-  };
-  timestamp: string;
-  requiresResponse: boolean;
-}
+// Inter-agent messages share one envelope across agents
+export type { AgentMessage } from '../../../shared/messaging/types.js';
 
 export interface DashboardInteraction {
   timestamp: string;
@@ -133,6 +144,7 @@ export interface OptimizationRequest {
   };
   userApproved: boolean;
   status: 'pending' | 'sent' | 'implemented' | 'declined';
+  planId?: string; // Set once the target agent has a change awaiting review
   timestamp: string;
   userContext: string;
 }
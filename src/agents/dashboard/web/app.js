@@ -0,0 +1,234 @@
+// EPOCH I web dashboard. Polls the Dashboard's JSON API; no build step, no dependencies.
+
+const POLL_MS = 15 * 1000;
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 24;
+const BOARD_COLUMNS = [
+  { title: 'In progress', statuses: ['analyzing', 'planning', 'building', 'deploying'] },
+  { title: 'Waiting', statuses: ['blocked', 'paused'] },
+  { title: 'Completed', statuses: ['completed'] },
+  { title: 'Stopped', statuses: ['failed', 'cancelled'] }
+];
+
+let hours = 24;
+
+function el(tag, attributes, ...children) {
+  const node = document.createElement(tag);
+  Object.entries(attributes || {}).forEach(([name, value]) => node.setAttribute(name, value));
+  children.flat().forEach(child => {
+    if (child !== null && child !== undefined) node.append(child instanceof Node ? child : String(child));
+  });
+  return node;
+}
+
+function svg(tag, attributes) {
+  const node = document.createElementNS('http://www.w3.org/2000/svg', tag);
+  Object.entries(attributes).forEach(([name, value]) => node.setAttribute(name, value));
+  return node;
+}
+
+function badge(text) {
+  return el('span', { class: `badge ${text}` }, text);
+}
+
+function dollars(value) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function seconds(ms) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function percent(ratio) {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function ago(iso) {
+  const minutes = Math.round((Date.now() - Date.parse(iso)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / 1440)}d ago`;
+}
+
+function replace(target, ...children) {
+  target.replaceChildren(...children.flat());
+}
+
+function empty(text) {
+  return el('li', { class: 'muted' }, text);
+}
+
+async function getJson(path) {
+  const response = await fetch(path);
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || `${path} returned ${response.status}`);
+  return body;
+}
+
+function drawChart(target, points, valueOf, format, fixedMax) {
+  const now = Date.now();
+  const from = now - hours * 3600 * 1000;
+  const values = points.map(valueOf);
+  const max = fixedMax || Math.max(...values, 0) || 1;
+  const x = time => CHART_PADDING + (time - from) / (now - from) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = value => CHART_HEIGHT - CHART_PADDING - value / max * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  target.setAttribute('viewBox', `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`);
+  target.setAttribute('preserveAspectRatio', 'none');
+  const baseline = CHART_HEIGHT - CHART_PADDING;
+  const children = [
+    svg('line', { class: 'axis', x1: CHART_PADDING, x2: CHART_WIDTH - CHART_PADDING, y1: baseline, y2: baseline }),
+    Object.assign(svg('text', { x: 2, y: CHART_PADDING }), { textContent: format(max) }),
+    Object.assign(svg('text', { x: 2, y: baseline }), { textContent: format(0) })
+  ];
+
+  if (points.length > 0) {
+    const coordinates = points.map((point, index) => `${x(Date.parse(point.start)).toFixed(1)},${y(values[index]).toFixed(1)}`);
+    const first = x(Date.parse(points[0].start)).toFixed(1);
+    const last = x(Date.parse(points[points.length - 1].start)).toFixed(1);
+    children.push(svg('polygon', { class: 'area', points: `${first},${baseline} ${coordinates.join(' ')} ${last},${baseline}` }));
+    children.push(svg('polyline', { class: 'series', points: coordinates.join(' ') }));
+  } else {
+    children.push(Object.assign(svg('text', { x: CHART_WIDTH / 2 - 40, y: CHART_HEIGHT / 2 }), { textContent: 'No requests yet' }));
+  }
+  replace(target, children);
+}
+
+async function refreshSeries() {
+  const { points } = await getJson(`/api/series?hours=${hours}`);
+  const requests = points.reduce((sum, point) => sum + point.requests, 0);
+  const cost = points.reduce((sum, point) => sum + point.cost, 0);
+  const duration = points.reduce((sum, point) => sum + point.averageResponseTime * point.requests, 0);
+  const successes = points.reduce((sum, point) => sum + point.successRate * point.requests, 0);
+
+  drawChart(document.getElementById('chart-cost'), points, point => point.cost, dollars);
+  drawChart(document.getElementById('chart-latency'), points, point => point.averageResponseTime, seconds);
+  drawChart(document.getElementById('chart-success'), points, point => point.successRate, percent, 1);
+  document.getElementById('cost-total').textContent = `${dollars(cost)} total`;
+  document.getElementById('latency-avg').textContent = requests ? `${seconds(duration / requests)} avg` : '';
+  document.getElementById('success-avg').textContent = requests ? `${percent(successes / requests)} of ${requests}` : '';
+}
+
+async function refreshHealth() {
+  const report = await getJson('/api/health');
+  const overall = document.getElementById('overall');
+  overall.className = `badge ${report.overall}`;
+  overall.textContent = report.overall;
+
+  const rows = Object.entries(report.agentStatus).map(([agent, status]) => {
+    const usage = report.performance.agentBreakdown[agent];
+    return el('tr', {},
+      el('td', {}, agent),
+      el('td', { title: status.lastError || `Last active ${ago(status.lastActivity)}` }, badge(status.lifecycle || status.status)),
+      el('td', {}, `${status.healthScore}`),
+      el('td', {}, usage ? usage.requests : 0),
+      el('td', {}, usage ? seconds(usage.avgDuration) : '–'),
+      el('td', {}, usage ? dollars(usage.totalCost) : '–')
+    );
+  });
+  replace(document.querySelector('#agents tbody'), rows);
+}
+
+async function refreshBudget() {
+  const { lines, pendingOverrides } = await getJson('/api/budget');
+  replace(document.querySelector('#budget tbody'), lines.map(line => el('tr', {},
+    el('td', {}, `${line.agent || 'Global'} ${line.period}`),
+    el('td', {}, dollars(line.spent)),
+    el('td', {}, dollars(line.limit)),
+    el('td', {}, badge(line.state))
+  )));
+  replace(document.getElementById('overrides'), pendingOverrides.map(override => el('li', {},
+    `Override ${override.id}: +${dollars(override.amount)} ${override.period} for ${override.agent || 'global'}`,
+    el('div', { class: 'meta' }, `${override.requestedBy}, ${ago(override.requestedAt)}: ${override.reason}`)
+  )));
+}
+
+async function refreshWorkItems() {
+  const { workItems } = await getJson('/api/work-items');
+  replace(document.getElementById('board'), BOARD_COLUMNS.map(column => {
+    const items = workItems.filter(item => column.statuses.includes(item.status));
+    return el('div', { class: 'column' },
+      el('h3', {}, `${column.title} (${items.length})`),
+      items.map(item => el('div', { class: 'card' },
+        el('div', { class: 'title' }, item.title),
+        el('div', { class: 'meta muted' }, `${item.status} · ${item.priority} · ${item.primaryAgent} · ${ago(item.updatedAt)}`),
+        item.blockedBy.length ? el('div', { class: 'meta muted' }, `Blocked by ${item.blockedBy.join(', ')}`) : null,
+        el('div', { class: 'progress' }, el('div', { style: `width: ${Math.max(0, Math.min(100, item.progress))}%` }))
+      ))
+    );
+  }));
+}
+
+async function refreshApprovals() {
+  const target = document.getElementById('approvals');
+  try {
+    const { approvals } = await getJson('/api/approvals');
+    replace(target, approvals.length ? approvals.map(approval => el('li', {},
+      badge(approval.riskLevel), ' ', approval.description,
+      el('div', { class: 'meta' }, [
+        approval.kind === 'modification' ? `Modification ${approval.id}` : 'Awaiting confirmation',
+        approval.requestedBy ? `by ${approval.requestedBy}` : null,
+        approval.branch ? `on ${approval.branch}` : null,
+        approval.files && approval.files.length ? `${approval.files.length} files` : null,
+        approval.createdAt ? ago(approval.createdAt) : null
+      ].filter(Boolean).join(' · '))
+    )) : empty('Nothing waiting'));
+  } catch (error) {
+    replace(target, empty(error.message));
+  }
+}
+
+async function refreshOptimizations() {
+  const { optimizations } = await getJson('/api/optimizations');
+  replace(document.getElementById('optimizations'), optimizations.length ? optimizations.map(optimization => el('li', {},
+    `${optimization.targetAgent}: ${optimization.issue}`,
+    el('div', { class: 'meta' },
+      `${optimization.id} · ~${optimization.expectedImprovement.costReduction}% cost, ~${optimization.expectedImprovement.performanceGain}% speed · ${ago(optimization.timestamp)}`),
+    optimization.recommendations.length ? el('div', { class: 'meta' }, optimization.recommendations.join('; ')) : null
+  )) : empty('Nothing waiting'));
+}
+
+async function refresh() {
+  const results = await Promise.allSettled([
+    refreshSeries(), refreshHealth(), refreshBudget(), refreshWorkItems(), refreshApprovals(), refreshOptimizations()
+  ]);
+  const failed = results.filter(result => result.status === 'rejected');
+  failed.forEach(result => console.error('Dashboard refresh failed:', result.reason));
+  document.getElementById('updated').textContent = failed.length
+    ? `Updated ${new Date().toLocaleTimeString()} · ${failed.length} section(s) failed`
+    : `Updated ${new Date().toLocaleTimeString()}`;
+}
+
+document.getElementById('range').addEventListener('click', event => {
+  const button = event.target.closest('button');
+  if (!button) return;
+  hours = Number(button.dataset.hours);
+  document.querySelectorAll('#range button').forEach(other => other.classList.toggle('active', other === button));
+  refreshSeries().catch(error => console.error('Series refresh failed:', error));
+});
+
+document.getElementById('ask').addEventListener('submit', async event => {
+  event.preventDefault();
+  const input = document.getElementById('query');
+  const answer = document.getElementById('answer');
+  const query = input.value.trim();
+  if (!query) return;
+
+  answer.textContent = 'Thinking…';
+  try {
+    const response = await fetch('/api/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query })
+    });
+    const body = await response.json();
+    answer.textContent = response.ok ? body.response : body.error;
+  } catch (error) {
+    answer.textContent = error.message;
+  }
+});
+
+refresh();
+setInterval(refresh, POLL_MS);
@@ -2,6 +2,7 @@ import { OllamaInterface } from './communication/OllamaInterface.js';
 import { TrainingCollector } from './intelligence/TrainingCollector.js';
 import { ModelTrainer } from './core/ModelTrainer.js';
 import fs from 'fs/promises';
+import { ConfigService, getConfigService } from '../../../shared/config/index.js';
 
 interface InteractionLog {
   timestamp: string;
@@ -26,9 +27,10 @@ export class ComWatch {
   private interactions: InteractionLog[] = [];
   private isWatching = true;
   private localModelReady = false;
-  private trainingThreshold = 100; // Switch to local after 100 good interactions
+  private config: ConfigService;
 
-  constructor() {
+  constructor(config: ConfigService = getConfigService()) {
+    this.config = config;
     this.collector = new TrainingCollector();
     this.trainer = new ModelTrainer();
     this.ollama = new OllamaInterface();
@@ -37,6 +39,11 @@ export class ComWatch {
     console.log('[ComWatch] Enhanced learning system initialized - tracking for local replacement');
   }
 
+  // Good interactions needed before switching to the local model
+  private get trainingThreshold(): number {
+    return this.config.get().comwatch.trainingThreshold;
+  }
+
   async logCommanderInteraction(
     input: string, 
     response: string, 
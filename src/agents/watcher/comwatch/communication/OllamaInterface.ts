@@ -1,5 +1,21 @@
+export interface OllamaGenerateOptions {
+ system?: string;
+ maxTokens?: number;
+ temperature?: number;
+}
+
+export interface OllamaGenerateResult {
+ response: string;
+ promptTokens: number;
+ completionTokens: number;
+}
+
 export class OllamaInterface {
- private baseUrl = 'http://localhost:11434';
+ private baseUrl: string;
+
+ constructor(baseUrl: string = process.env.OLLAMA_URL || 'http://localhost:11434') {
+   this.baseUrl = baseUrl;
+ }
 
  async testConnection(): Promise<boolean> {
    try {
@@ -10,15 +26,38 @@ export class OllamaInterface {
    }
  }
 
+ async generate(prompt: string, model: string = 'llama3.1', options: OllamaGenerateOptions = {}): Promise<OllamaGenerateResult> {
+   const response = await fetch(`${this.baseUrl}/api/generate`, {
+     method: 'POST',
+     headers: { 'Content-Type': 'application/json' },
+     body: JSON.stringify({
+       model,
+       prompt,
+       system: options.system,
+       stream: false,
+       options: {
+         num_predict: options.maxTokens,
+         temperature: options.temperature
+       }
+     })
+   });
+
+   if (!response.ok) {
+     throw new Error(`Ollama returned ${response.status}`);
+   }
+
+   const data: any = await response.json();
+   return {
+     response: data.response || '',
+     promptTokens: data.prompt_eval_count || Math.ceil(prompt.length / 4),
+     completionTokens: data.eval_count || Math.ceil((data.response || '').length / 4)
+   };
+ }
+
  async generateResponse(prompt: string, model: string = 'llama3.1'): Promise<string> {
    try {
-     const response = await fetch(`${this.baseUrl}/api/generate`, {
-       method: 'POST',
-       headers: { 'Content-Type': 'application/json' },
-       body: JSON.stringify({ model, prompt, stream: false })
-     });
-     const data = await response.json();
-     return data.response || '';
+     const result = await this.generate(prompt, model);
+     return result.response;
    } catch (error) {
      console.error('[ComWatch] Ollama generation failed:', error);
      return '';
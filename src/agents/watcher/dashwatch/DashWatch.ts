@@ -7,6 +7,7 @@ import {
   OptimizationEffectiveness 
 } from './types/index.js';
 import { DashWatchIntelligence } from './intelligence/DashWatchIntelligence.js';
+import { LLMProvider } from '../../../shared/llm/index.js';
 
 export class DashWatch {
   private interactions: DashboardInteractionLog[] = [];
@@ -18,8 +19,8 @@ export class DashWatch {
   private patternsFile = 'data/dashboard-patterns.json';
   private preferencesFile = 'data/user-preferences.json';
 
-  constructor(claudeApiKey: string) {
-    this.intelligence = new DashWatchIntelligence(claudeApiKey);
+  constructor(llm: LLMProvider) {
+    this.intelligence = new DashWatchIntelligence(llm);
     this.loadData();
     console.log('[DashWatch] Dashboard learning watcher initialized');
   }
@@ -1,4 +1,4 @@
-import { Anthropic } from '@anthropic-ai/sdk';
+import { LLMProvider } from '../../../../shared/llm/index.js';
 import { 
   DashboardInteractionLog, 
   DashboardPattern, 
@@ -7,10 +7,10 @@ import {
 } from '../types/index.js';
 
 export class DashWatchIntelligence {
-  private claude: Anthropic;
+  private llm: LLMProvider;
   
-  constructor(claudeApiKey: string) {
-    this.claude = new Anthropic({ apiKey: claudeApiKey });
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
     console.log('[DashWatchIntelligence] Pattern learning system initialized');
   }
 
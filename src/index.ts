@@ -1,11 +1,18 @@
 import { Commander } from './agents/commander/Commander.js';
 import { Architect } from './agents/architect/Architect.js';
 import { Dashboard } from './agents/dashboard/Dashboard.js';
+import { createLLMProvider, instrumentLLM, LLMProvider } from './shared/llm/index.js';
+import { AgentMessageBus, getMessageBus } from './shared/messaging/index.js';
+import { ConfigService, getConfigService } from './shared/config/index.js';
+import { AgentPluginLoader, AgentSupervisor } from './shared/lifecycle/index.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
 console.log('🚀 Starting AI Development Team...');
 
+// Set once agents are registered; signal and error handlers go through it
+let supervisor: AgentSupervisor | null = null;
+
 async function ensureDataDirectories(): Promise<void> {
   const dirs = [
     'data',
@@ -24,64 +31,52 @@ async function ensureDataDirectories(): Promise<void> {
   }
 }
 
-async function startCommander() {
-  try {
-    const commander = new Commander();
-    await commander.start();
-    console.log('[Startup] ✅ Commander started successfully');
-  } catch (error) {
-    console.error('[Startup] ❌ Commander failed to start:', error);
-    throw error;
-  }
+function registerCommander(supervisor: AgentSupervisor, llm: LLMProvider, bus: AgentMessageBus, config: ConfigService): void {
+  supervisor.register('Commander', () => new Commander(instrumentLLM(llm, 'Commander', bus), undefined, {}, bus, config));
 }
 
-async function startArchitect() {
+function registerArchitect(supervisor: AgentSupervisor, llm: LLMProvider, bus: AgentMessageBus, config: ConfigService): boolean {
   const architectConfig = {
     architectToken: process.env.ARCHITECT_DISCORD_TOKEN!,
     architectChannelId: process.env.ARCHITECT_CHANNEL_ID!,
     claudeApiKey: process.env.CLAUDE_API_KEY!,
-    discordToken: process.env.DISCORD_TOKEN
+    discordToken: process.env.DISCORD_TOKEN,
+    validation: {
+      typeCheck: process.env.ARCHITECT_TYPECHECK !== 'false',
+      testCommand: process.env.ARCHITECT_TEST_COMMAND
+    }
   };
 
-  if (architectConfig.architectToken && architectConfig.architectChannelId && architectConfig.claudeApiKey) {
-    try {
-      const architect = new Architect(architectConfig);
-      await architect.start();
-      console.log('[Startup] ✅ Architect started successfully');
-    } catch (error) {
-      console.error('[Startup] ❌ Architect failed to start:', error);
-      console.log('[Startup] Continuing without Architect...');
-    }
-  } else {
+  if (!architectConfig.architectToken || !architectConfig.architectChannelId) {
     console.log('[Startup] ⏭️ Architect environment variables not set, skipping startup');
-    console.log('[Startup] Required: ARCHITECT_DISCORD_TOKEN, ARCHITECT_CHANNEL_ID, CLAUDE_API_KEY');
+    console.log('[Startup] Required: ARCHITECT_DISCORD_TOKEN, ARCHITECT_CHANNEL_ID');
+    return false;
   }
+
+  supervisor.register('Architect', () => new Architect(architectConfig, instrumentLLM(llm, 'Architect', bus), undefined, bus, config));
+  return true;
 }
 
-async function startDashboard() {
-  const dashboardConfig = {
+function registerDashboard(supervisor: AgentSupervisor, llm: LLMProvider, bus: AgentMessageBus, config: ConfigService): boolean {
+  if (!process.env.DASHBOARD_DISCORD_TOKEN || !process.env.DASHBOARD_CHANNEL_ID) {
+    console.log('[Startup] ⏭️ Dashboard environment variables not set, skipping startup');
+    return false;
+  }
+
+  // Built per start so a restart picks up the current coordination channel
+  supervisor.register('Dashboard', () => new Dashboard({
     dashboardToken: process.env.DASHBOARD_DISCORD_TOKEN!,
     dashboardChannelId: process.env.DASHBOARD_CHANNEL_ID!,
-    agentCoordinationChannelId: process.env.AGENT_COORDINATION_CHANNEL_ID || '1393086808866426930',
+    agentCoordinationChannelId: config.get().channels.agentCoordination,
     claudeApiKey: process.env.CLAUDE_API_KEY!
-  };
-
-  if (dashboardConfig.dashboardToken && dashboardConfig.dashboardChannelId && dashboardConfig.claudeApiKey) {
-    try {
-      const dashboard = new Dashboard(dashboardConfig);
-      await dashboard.start();
-      console.log('[Startup] ✅ Dashboard started successfully');
-    } catch (error) {
-      console.error('[Startup] ❌ Dashboard failed to start:', error);
-      console.log('[Startup] Continuing without Dashboard...');
-    }
-  } else {
-    console.log('[Startup] ⏭️ Dashboard environment variables not set, skipping startup');
-  }
+  }, instrumentLLM(llm, 'Dashboard', bus), undefined, bus, config));
+  return true;
 }
 
 async function validateEnvironment(): Promise<boolean> {
-  const requiredVars = ['CLAUDE_API_KEY'];
+  // The API key is only needed when talking to Anthropic directly
+  const llmProvider = process.env.LLM_PROVIDER || 'anthropic';
+  const requiredVars = llmProvider === 'anthropic' ? ['CLAUDE_API_KEY'] : [];
   const missingVars = requiredVars.filter(varName => !process.env[varName]);
   
   if (missingVars.length > 0) {
@@ -140,44 +135,65 @@ async function startAllSystems() {
       process.exit(1);
     }
     
-    // 2. Perform system checks
+    // 2. Load runtime config; an invalid file or env value stops startup here
+    const config = getConfigService();
+    try {
+      await config.load();
+    } catch (error) {
+      console.error(`[Startup] ❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    config.watch();
+    
+    // 3. Perform system checks
     await performSystemCheck();
     
-    // 3. Prepare system directories
+    // 4. Prepare system directories
     console.log('[Startup] 📁 Preparing system directories...');
     await ensureDataDirectories();
     
-    // 4. Start all agents with individual error handling
+    // 5. Start all agents under the supervisor, which restarts any that crash
     console.log('[Startup] 🚀 Starting all agents...');
+    const llm = createLLMProvider({ anthropicApiKey: process.env.CLAUDE_API_KEY, models: config.get().llm.models });
+    config.onChange((current, changed) => {
+      if (changed.some(key => key.startsWith('llm.models.'))) {
+        llm.setModels?.(current.llm.models);
+      }
+    });
+    const bus = getMessageBus();
+    await bus.connect();
+    console.log(`[Startup] 📨 Agent message bus: ${bus.backendName}`);
     
-    const startupPromises = [
-      startCommander().catch(error => {
-        console.error('[Startup] Commander startup failed:', error.message);
-        return null;
-      }),
-      startArchitect().catch(error => {
-        console.error('[Startup] Architect startup failed:', error.message);
-        return null;
-      }),
-      startDashboard().catch(error => {
-        console.error('[Startup] Dashboard startup failed:', error.message);
-        return null;
-      })
-    ];
+    supervisor = new AgentSupervisor(bus);
+    registerCommander(supervisor, llm, bus, config);
+    registerArchitect(supervisor, llm, bus, config);
+    registerDashboard(supervisor, llm, bus, config);
+    supervisor.onShutdown(() => bus.close());
+    supervisor.onShutdown(() => config.close());
     
-    const results = await Promise.allSettled(startupPromises);
+    const statuses = await supervisor.startAll();
     
-    // 5. Report startup results
-    const successful = results.filter(result => result.status === 'fulfilled').length;
-    const failed = results.length - successful;
+    // Agents generated by the Architect, discovered from their agent.json manifests
+    const pluginLoader = new AgentPluginLoader(supervisor, bus);
+    const plugins = await pluginLoader.start();
+    
+    // 6. Report startup results
+    const successful = statuses.filter(status => status.state === 'running').length;
+    const failed = statuses.length - successful;
     
     console.log('[Startup] 📊 Startup Summary:');
-    console.log(`[Startup]   ✅ Successful: ${successful}/${results.length} agents`);
+    console.log(`[Startup]   ✅ Successful: ${successful}/${statuses.length} agents`);
     if (failed > 0) {
-      console.log(`[Startup]   ❌ Failed: ${failed}/${results.length} agents`);
+      console.log(`[Startup]   ❌ Failed: ${failed}/${statuses.length} agents`);
+      statuses
+        .filter(status => status.state !== 'running')
+        .forEach(status => console.log(`[Startup]     ${status.agent}: ${status.state}${status.lastError ? ` (${status.lastError})` : ''}`));
+    }
+    if (plugins.length > 0) {
+      console.log(`[Startup]   🧩 Generated agents: ${plugins.join(', ')}`);
     }
     
-    // 6. System ready message
+    // 7. System ready message
     if (successful > 0) {
       console.log('[Startup] 🎉 AI Development Team initialization complete!');
       console.log('[Startup] 📝 System is operational with available agents');
@@ -191,6 +207,7 @@ async function startAllSystems() {
     } else {
       console.error('[Startup] ❌ No agents started successfully');
       console.error('[Startup] Please check configuration and try again');
+      await supervisor.shutdown('no agents started');
       process.exit(1);
     }
     
@@ -201,41 +218,55 @@ async function startAllSystems() {
   }
 }
 
-// Graceful shutdown handling
-process.on('SIGINT', async () => {
-  console.log('\n[Shutdown] 🛑 Received SIGINT, shutting down gracefully...');
-  try {
-    // Add any cleanup logic here
-    console.log('[Shutdown] ✅ Cleanup complete');
-    process.exit(0);
-  } catch (error) {
-    console.error('[Shutdown] ❌ Cleanup failed:', error);
+// Graceful shutdown: flush agent state, stop agents, then close the bus and config watcher
+let shuttingDown = false;
+
+async function shutdown(reason: string, exitCode: number = 0): Promise<void> {
+  if (shuttingDown) {
+    console.log(`[Shutdown] ⚠️ ${reason} during shutdown, exiting immediately`);
     process.exit(1);
   }
-});
-
-process.on('SIGTERM', async () => {
-  console.log('\n[Shutdown] 🛑 Received SIGTERM, shutting down gracefully...');
+  shuttingDown = true;
+  
+  console.log(`\n[Shutdown] 🛑 Received ${reason}, shutting down gracefully...`);
   try {
-    // Add any cleanup logic here
+    await supervisor?.shutdown(reason);
     console.log('[Shutdown] ✅ Cleanup complete');
-    process.exit(0);
+    process.exit(exitCode);
   } catch (error) {
     console.error('[Shutdown] ❌ Cleanup failed:', error);
     process.exit(1);
   }
-});
+}
 
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+// A throw from one agent's callback (e.g. a generated agent's HTTP handler) restarts that agent.
+// Anything else may have left the process in an inconsistent state, so save what we can and exit
 process.on('uncaughtException', (error) => {
   console.error('[Error] 💥 Uncaught Exception:', error);
   console.error('[Error] Stack:', error.stack);
-  process.exit(1);
+  
+  const agent = supervisor?.attribute(error);
+  if (agent) {
+    supervisor!.reportCrash(agent, error);
+    return;
+  }
+  shutdown('uncaughtException', 1);
 });
 
+// A rejection from one agent's code restarts that agent instead of the whole process
 process.on('unhandledRejection', (reason, promise) => {
   console.error('[Error] 💥 Unhandled Rejection at:', promise);
   console.error('[Error] Reason:', reason);
-  process.exit(1);
+  
+  const agent = supervisor?.attribute(reason);
+  if (agent) {
+    supervisor!.reportCrash(agent, reason);
+  } else {
+    console.warn('[Error] ⚠️ Rejection not traced to an agent, continuing');
+  }
 });
 
 // Start the system
@@ -0,0 +1,88 @@
+import { Commander } from './agents/commander/Commander.js';
+import { Architect } from './agents/architect/Architect.js';
+import { Dashboard } from './agents/dashboard/Dashboard.js';
+import { createLLMProvider } from './shared/llm/index.js';
+import { TerminalTransport } from './shared/transport/index.js';
+import { getConfigService } from './shared/config/index.js';
+import { promises as fs } from 'fs';
+
+// Runs a single agent against a terminal REPL instead of Discord.
+// Usage: npm run local -- [commander|architect|dashboard]
+// Without CLAUDE_API_KEY the scripted LLM provider is used, so this works offline.
+
+const LOCAL_CHANNEL_ID = 'local';
+
+type LocalAgent = 'commander' | 'architect' | 'dashboard';
+
+async function startLocal(): Promise<void> {
+  const agent = (process.argv[2] || process.env.LOCAL_AGENT || 'commander').toLowerCase() as LocalAgent;
+
+  if (!process.env.LLM_PROVIDER && !process.env.CLAUDE_API_KEY) {
+    process.env.LLM_PROVIDER = 'scripted';
+  }
+
+  await fs.mkdir('data', { recursive: true });
+
+  const config = getConfigService();
+  await config.load();
+  config.watch();
+
+  const llm = createLLMProvider({
+    anthropicApiKey: process.env.CLAUDE_API_KEY,
+    models: config.get().llm.models,
+    agent: agent.charAt(0).toUpperCase() + agent.slice(1)
+  });
+  const transport = new TerminalTransport({
+    channelId: LOCAL_CHANNEL_ID,
+    botName: agent
+  });
+
+  console.log(`[Local] 🖥️ Starting ${agent} on terminal transport (LLM: ${llm.name})`);
+
+  switch (agent) {
+    case 'commander': {
+      const commander = new Commander(llm, transport, {
+        userChannelId: LOCAL_CHANNEL_ID,
+        agentChannelId: LOCAL_CHANNEL_ID
+      });
+      await commander.start();
+      break;
+    }
+
+    case 'architect': {
+      const architect = new Architect({
+        architectToken: '',
+        architectChannelId: LOCAL_CHANNEL_ID,
+        claudeApiKey: process.env.CLAUDE_API_KEY || '',
+        discordToken: process.env.DISCORD_TOKEN
+      }, llm, transport);
+      await architect.start();
+      break;
+    }
+
+    case 'dashboard': {
+      const dashboard = new Dashboard({
+        dashboardToken: '',
+        dashboardChannelId: LOCAL_CHANNEL_ID,
+        agentCoordinationChannelId: LOCAL_CHANNEL_ID,
+        claudeApiKey: process.env.CLAUDE_API_KEY || ''
+      }, llm, transport);
+      await dashboard.start();
+      break;
+    }
+
+    default:
+      console.error(`[Local] ❌ Unknown agent "${agent}". Use commander, architect or dashboard.`);
+      process.exit(1);
+  }
+}
+
+process.on('SIGINT', () => {
+  console.log('\n[Local] 👋 Bye');
+  process.exit(0);
+});
+
+startLocal().catch(error => {
+  console.error('[Local] ❌ Failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { RUNTIME_SETTINGS } from './schema.js';
+import { ConfigChangeHandler, RuntimeConfig, SettingSpec } from './types.js';
+
+export interface ConfigServiceOptions {
+  file?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Typed runtime settings built from schema defaults, overridden by a JSON
+ * file (config/runtime.json) and then by env vars. The file is watched, so
+ * edits - including ones the Architect merges - apply without a restart.
+ * Consumers should read get() at use time rather than caching values.
+ */
+export class ConfigService {
+  readonly file: string;
+  private env: NodeJS.ProcessEnv;
+  private config: RuntimeConfig;
+  private handlers: ConfigChangeHandler[] = [];
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: ConfigServiceOptions = {}) {
+    this.env = options.env || process.env;
+    this.file = options.file || this.env.RUNTIME_CONFIG_FILE || 'config/runtime.json';
+
+    // Usable before load(); a bad env value here is reported again, fatally, by load()
+    try {
+      this.config = this.build({});
+    } catch (error) {
+      console.warn(`[Config] ⚠️ ${error instanceof Error ? error.message : error}; using defaults until load()`);
+      this.config = this.build({}, false);
+    }
+  }
+
+  /**
+   * Reads and validates the file. Throws with every problem listed, so a
+   * bad config stops startup instead of surfacing later as odd behavior.
+   */
+  async load(): Promise<RuntimeConfig> {
+    this.config = this.build(await this.readFile());
+    console.log(`[Config] ✅ Runtime config loaded${fs.existsSync(this.file) ? ` from ${this.file}` : ' (defaults and env)'}`);
+    return this.config;
+  }
+
+  get(): RuntimeConfig {
+    return this.config;
+  }
+
+  /**
+   * Re-reads the file and notifies handlers of changed keys. An invalid file
+   * is logged and ignored, keeping the last good config.
+   */
+  async reload(): Promise<string[]> {
+    let next: RuntimeConfig;
+    try {
+      next = this.build(await this.readFile());
+    } catch (error) {
+      console.error(`[Config] ❌ Ignoring invalid ${this.file}: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+
+    const changed = RUNTIME_SETTINGS
+      .map(spec => spec.key)
+      .filter(key => this.read(next, key) !== this.read(this.config, key));
+    this.config = next;
+    if (changed.length === 0) return changed;
+
+    console.log(`[Config] 🔄 Reloaded ${this.file}: ${changed.join(', ')}`);
+    for (const handler of [...this.handlers]) {
+      try {
+        await handler(next, changed);
+      } catch (error) {
+        console.error('[Config] Change handler failed:', error);
+      }
+    }
+    return changed;
+  }
+
+  // Returns a function that removes the handler, for consumers that stop before the service does
+  onChange(handler: ConfigChangeHandler): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(existing => existing !== handler);
+    };
+  }
+
+  // Watches the file's directory, since editors and git replace the file rather than write to it
+  watch(): void {
+    if (this.watcher) return;
+    const dir = path.dirname(this.file);
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      this.watcher = fs.watch(dir, (_event, name) => {
+        if (name && name.toString() !== path.basename(this.file)) return;
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.reload();
+        }, 200);
+        this.reloadTimer.unref();
+      });
+      this.watcher.unref();
+      console.log(`[Config] 👀 Watching ${this.file} for changes`);
+    } catch (error) {
+      console.warn(`[Config] ⚠️ Could not watch ${this.file}:`, error);
+    }
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+  }
+
+  describe(key: string): SettingSpec | undefined {
+    return RUNTIME_SETTINGS.find(spec => spec.key === key);
+  }
+
+  // The env variable currently overriding `key`, if any; file edits to it have no effect
+  pinnedBy(key: string): string | undefined {
+    return this.describe(key)?.env?.find(name => this.env[name] !== undefined && this.env[name] !== '');
+  }
+
+  /**
+   * Matches a phrase from a request ("the comwatch training threshold") to
+   * a setting key, by full path or by its last segment.
+   */
+  findKey(phrase: string): string | null {
+    const words = phrase.toLowerCase().split(/\s+/).filter(word => word && !['the', 'a', 'an', 'my', 'our'].includes(word));
+    const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+    for (let i = 0; i < words.length; i++) {
+      const candidate = normalize(words.slice(i).join(''));
+      if (candidate.length < 4) break;
+      const match = RUNTIME_SETTINGS.find(spec => normalize(spec.key) === candidate) ||
+        RUNTIME_SETTINGS.find(spec => normalize(spec.key.split('.').pop()!) === candidate);
+      if (match) return match.key;
+    }
+    return null;
+  }
+
+  /**
+   * The config file text with `key` set to `value`, for planning an edit
+   * that goes through review. Throws when the key is unknown or the value
+   * is invalid.
+   */
+  withOverride(fileContent: string | null, key: string, value: unknown): string {
+    const spec = this.describe(key);
+    if (!spec) {
+      throw new Error(`Unknown setting ${key}`);
+    }
+
+    const overrides = fileContent && fileContent.trim() ? this.parse(fileContent) : {};
+    const coerced = this.coerce(spec, value);
+    const problem = this.check(spec, coerced);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    this.assign(overrides, key, coerced);
+    this.build(overrides); // Cross-field checks
+    return JSON.stringify(overrides, null, 2) + '\n';
+  }
+
+  private build(overrides: Record<string, any>, strict: boolean = true): RuntimeConfig {
+    const config: Record<string, any> = {};
+    const problems: string[] = [];
+
+    for (const key of this.leafKeys(overrides)) {
+      if (!this.describe(key)) problems.push(`unknown setting ${key}`);
+    }
+
+    for (const spec of RUNTIME_SETTINGS) {
+      let value = this.read(overrides, spec.key) ?? spec.default;
+      const envName = this.pinnedBy(spec.key);
+      if (envName) {
+        value = this.coerce(spec, this.env[envName]);
+      }
+      if (value === undefined) continue;
+
+      const problem = this.check(spec, value);
+      if (problem) {
+        problems.push(envName ? `${problem} (from ${envName})` : problem);
+        value = spec.default;
+      }
+      if (value !== undefined) this.assign(config, spec.key, value);
+    }
+
+    const budgets = config.budgets;
+    if (budgets && budgets.dailyLimit > budgets.monthlyLimit) {
+      problems.push(`budgets.dailyLimit (${budgets.dailyLimit}) is above budgets.monthlyLimit (${budgets.monthlyLimit})`);
+    }
+    for (const [agent, budget] of Object.entries<Record<string, number>>(budgets?.agents || {})) {
+      if (budget.dailyLimit > budget.monthlyLimit) {
+        problems.push(`budgets.agents.${agent}.dailyLimit (${budget.dailyLimit}) is above its monthlyLimit (${budget.monthlyLimit})`);
+      }
+    }
+
+    if (problems.length > 0 && strict) {
+      throw new Error(`Invalid runtime config: ${problems.join('; ')}`);
+    }
+
+    config.llm = config.llm || {};
+    config.llm.models = config.llm.models || {};
+    config.budgets.agents = config.budgets.agents || {};
+    return config as RuntimeConfig;
+  }
+
+  private coerce(spec: SettingSpec, value: unknown): unknown {
+    if (spec.type === 'number' && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (spec.type === 'string' && typeof value === 'number') {
+      return String(value);
+    }
+    return value;
+  }
+
+  private check(spec: SettingSpec, value: unknown): string | null {
+    if (spec.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${spec.key} must be a number, got ${JSON.stringify(value)}`;
+      if (spec.integer && !Number.isInteger(value)) return `${spec.key} must be a whole number, got ${value}`;
+      if (spec.min !== undefined && value < spec.min) return `${spec.key} must be at least ${spec.min}, got ${value}`;
+      if (spec.max !== undefined && value > spec.max) return `${spec.key} must be at most ${spec.max}, got ${value}`;
+    } else {
+      if (typeof value !== 'string' || value === '') return `${spec.key} must be a non-empty string, got ${JSON.stringify(value)}`;
+      if (spec.pattern && !spec.pattern.test(value)) return `${spec.key} must match ${spec.pattern}, got "${value}"`;
+    }
+    return null;
+  }
+
+  private async readFile(): Promise<Record<string, any>> {
+    let content: string;
+    try {
+      content = await fsp.readFile(this.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+    return content.trim() ? this.parse(content) : {};
+  }
+
+  private parse(content: string): Record<string, any> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`${this.file} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`${this.file} must contain a JSON object`);
+    }
+    return parsed as Record<string, any>;
+  }
+
+  private leafKeys(object: Record<string, any>, prefix: string = ''): string[] {
+    return Object.entries(object).flatMap(([name, value]) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? this.leafKeys(value, `${prefix}${name}.`)
+        : [`${prefix}${name}`]);
+  }
+
+  private read(object: Record<string, any>, key: string): any {
+    return key.split('.').reduce((node, part) => node == null ? undefined : node[part], object as any);
+  }
+
+  private assign(object: Record<string, any>, key: string, value: unknown): void {
+    const parts = key.split('.');
+    let node = object;
+    for (const part of parts.slice(0, -1)) {
+      if (!node[part] || typeof node[part] !== 'object') node[part] = {};
+      node = node[part];
+    }
+    node[parts[parts.length - 1]] = value;
+  }
+}
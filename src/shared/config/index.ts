@@ -0,0 +1,16 @@
+import { ConfigService } from './ConfigService.js';
+
+export * from './types.js';
+export { ConfigService } from './ConfigService.js';
+export type { ConfigServiceOptions } from './ConfigService.js';
+export { RUNTIME_SETTINGS } from './schema.js';
+
+let sharedConfig: ConfigService | null = null;
+
+// Components built without an injected service read from this one
+export function getConfigService(): ConfigService {
+  if (!sharedConfig) {
+    sharedConfig = new ConfigService();
+  }
+  return sharedConfig;
+}
@@ -0,0 +1,77 @@
+import { SettingSpec } from './types.js';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Every runtime setting with its default, env overrides and bounds. The
+ * RuntimeConfig interface mirrors this table; ConfigService validates
+ * files and env values against it.
+ */
+export const RUNTIME_SETTINGS: SettingSpec[] = [
+  { key: 'llm.models.fast', type: 'string', env: ['LLM_MODEL_FAST'], description: 'Model used for the fast tier' },
+  { key: 'llm.models.balanced', type: 'string', env: ['LLM_MODEL_BALANCED'], description: 'Model used for the balanced tier' },
+  { key: 'llm.models.powerful', type: 'string', env: ['LLM_MODEL_POWERFUL'], description: 'Model used for the powerful tier' },
+
+  {
+    key: 'channels.agentCoordination',
+    type: 'string',
+    default: '1393086808866426930',
+    env: ['AGENT_COORDINATION_CHANNEL_ID', 'AGENT_CHANNEL_ID'],
+    pattern: /^\d+$/,
+    description: 'Discord channel agents coordinate in'
+  },
+
+  { key: 'commander.voiceMaxTokens', type: 'number', default: 35, min: 1, max: 4096, integer: true, description: "Length limit of Commander's voice replies" },
+  { key: 'commander.conversationMaxTokens', type: 'number', default: 1000, min: 1, max: 8192, integer: true, description: 'Length limit of conversation replies' },
+
+  { key: 'architect.voiceMaxTokens', type: 'number', default: 120, min: 1, max: 4096, integer: true, description: "Length limit of Architect's voice replies" },
+  {
+    key: 'architect.validationTimeoutMs',
+    type: 'number',
+    default: 5 * MINUTE,
+    env: ['ARCHITECT_VALIDATION_TIMEOUT_MS'],
+    min: 10 * 1000,
+    integer: true,
+    description: 'Time allowed for type-checking and tests of a modification'
+  },
+
+  { key: 'dashboard.rawMetricsRetentionDays', type: 'number', default: 7, min: 2, integer: true, description: 'Days individual API calls are kept' },
+  { key: 'dashboard.minuteRollupRetentionDays', type: 'number', default: 2, min: 1, integer: true, description: 'Days per-minute API usage aggregates are kept' },
+  { key: 'dashboard.hourRollupRetentionDays', type: 'number', default: 90, min: 1, integer: true, description: 'Days per-hour API usage aggregates are kept' },
+  { key: 'dashboard.dayRollupRetentionDays', type: 'number', default: 730, min: 1, integer: true, description: 'Days per-day API usage aggregates are kept' },
+  { key: 'dashboard.metricsHost', type: 'string', default: '127.0.0.1', env: ['DASHBOARD_METRICS_HOST'], description: 'Address the OpenMetrics endpoint listens on' },
+  { key: 'dashboard.metricsPort', type: 'number', default: 9464, env: ['DASHBOARD_METRICS_PORT'], min: 0, max: 65535, integer: true, description: 'Port of the OpenMetrics endpoint, 0 to turn it off' },
+  { key: 'dashboard.webHost', type: 'string', default: '127.0.0.1', env: ['DASHBOARD_WEB_HOST'], description: 'Address the web dashboard listens on' },
+  {
+    key: 'dashboard.webAllowedHosts',
+    type: 'string',
+    env: ['DASHBOARD_WEB_ALLOWED_HOSTS'],
+    description: 'Comma-separated host names (with :port if not 80) the web dashboard is reached by, besides its own address'
+  },
+  { key: 'dashboard.webPort', type: 'number', default: 3100, env: ['DASHBOARD_WEB_PORT'], min: 0, max: 65535, integer: true, description: 'Port of the web dashboard, 0 to turn it off' },
+  { key: 'dashboard.anomalyCheckIntervalMs', type: 'number', default: 5 * MINUTE, min: MINUTE, integer: true, description: 'How often the Dashboard checks for anomalies' },
+  { key: 'dashboard.healthReportIntervalMs', type: 'number', default: 60 * MINUTE, min: 5 * MINUTE, integer: true, description: 'How often the Dashboard posts a health report' },
+
+  {
+    key: 'comwatch.trainingThreshold',
+    type: 'number',
+    default: 100,
+    env: ['COMWATCH_TRAINING_THRESHOLD'],
+    min: 1,
+    integer: true,
+    description: 'Good interactions needed before ComWatch tries the local model'
+  },
+
+  { key: 'budgets.dailyLimit', type: 'number', default: 1.0, env: ['BUDGET_DAILY_LIMIT'], min: 0, description: 'Daily API spend limit in USD' },
+  { key: 'budgets.monthlyLimit', type: 'number', default: 30.0, env: ['BUDGET_MONTHLY_LIMIT'], min: 0, description: 'Monthly API spend limit in USD' },
+  { key: 'budgets.degradeAt', type: 'number', default: 0.8, min: 0.1, max: 1, description: 'Share of a budget after which calls switch to cheaper models' },
+  { key: 'budgets.degradedMaxTokens', type: 'number', default: 500, min: 16, integer: true, description: 'Length limit of calls made while a budget is nearly spent' },
+  { key: 'budgets.agents.commander.dailyLimit', type: 'number', min: 0, description: "Commander's daily API spend limit in USD" },
+  { key: 'budgets.agents.commander.monthlyLimit', type: 'number', min: 0, description: "Commander's monthly API spend limit in USD" },
+  { key: 'budgets.agents.architect.dailyLimit', type: 'number', min: 0, description: "Architect's daily API spend limit in USD" },
+  { key: 'budgets.agents.architect.monthlyLimit', type: 'number', min: 0, description: "Architect's monthly API spend limit in USD" },
+  { key: 'budgets.agents.dashboard.dailyLimit', type: 'number', min: 0, description: "Dashboard's daily API spend limit in USD" },
+  { key: 'budgets.agents.dashboard.monthlyLimit', type: 'number', min: 0, description: "Dashboard's monthly API spend limit in USD" },
+  { key: 'budgets.agents.generated.dailyLimit', type: 'number', min: 0, description: 'Daily API spend limit in USD of each generated agent' },
+  { key: 'budgets.agents.generated.monthlyLimit', type: 'number', min: 0, description: 'Monthly API spend limit in USD of each generated agent' }
+];
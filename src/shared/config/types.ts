@@ -0,0 +1,65 @@
+import { ModelMap } from '../llm/types.js';
+
+export interface RuntimeConfig {
+  llm: {
+    models: Partial<ModelMap>;      // Per-tier overrides of the provider's default models
+  };
+  channels: {
+    agentCoordination: string;
+  };
+  commander: {
+    voiceMaxTokens: number;
+    conversationMaxTokens: number;
+  };
+  architect: {
+    voiceMaxTokens: number;
+    validationTimeoutMs: number;
+  };
+  dashboard: {
+    rawMetricsRetentionDays: number;      // Individual API calls
+    minuteRollupRetentionDays: number;    // Per-minute aggregates, then per-hour and per-day
+    hourRollupRetentionDays: number;
+    dayRollupRetentionDays: number;
+    metricsHost: string;                  // Where the OpenMetrics endpoint listens
+    metricsPort: number;                  // 0 turns it off
+    webHost: string;                      // Where the web dashboard listens
+    webAllowedHosts?: string;             // Public names it is reached by, comma-separated
+    webPort: number;                      // 0 turns it off
+    anomalyCheckIntervalMs: number;
+    healthReportIntervalMs: number;
+  };
+  comwatch: {
+    trainingThreshold: number;
+  };
+  budgets: {
+    dailyLimit: number;             // USD, across all agents
+    monthlyLimit: number;
+    degradeAt: number;              // Share of a limit after which calls are made cheaper
+    degradedMaxTokens: number;
+    agents: Partial<Record<BudgetedAgent, AgentBudget>>;
+  };
+}
+
+// 'generated' applies to each agent the Architect generated
+export type BudgetedAgent = 'commander' | 'architect' | 'dashboard' | 'generated';
+
+export interface AgentBudget {
+  dailyLimit?: number;              // USD; unset means only the global limits apply
+  monthlyLimit?: number;
+}
+
+export type SettingType = 'number' | 'string';
+
+export interface SettingSpec {
+  key: string;                      // Dotted path into RuntimeConfig, e.g. 'comwatch.trainingThreshold'
+  type: SettingType;
+  default?: number | string;        // Absent for optional settings
+  env?: string[];                   // Variables that override the file, first set one wins
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  pattern?: RegExp;
+  description: string;
+}
+
+export type ConfigChangeHandler = (config: RuntimeConfig, changed: string[]) => void | Promise<void>;
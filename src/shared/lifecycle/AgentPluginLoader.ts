@@ -0,0 +1,300 @@
+import { Dirent, existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { AgentMessage, AgentMessageBus, AgentMessagePayloads, getMessageBus } from '../messaging/index.js';
+import { AgentSupervisor } from './AgentSupervisor.js';
+import { AgentLifecycleStatus, AgentManifest, PluginLoaderOptions, SupervisedAgent } from './types.js';
+
+export const MANIFEST_FILE = 'agent.json';
+
+interface LoadedPlugin {
+  manifest: AgentManifest;
+  dir: string;
+  version: number;                   // Bumped per reload to bypass the module cache
+}
+
+/**
+ * Runs agents the Architect generates without touching src/index.ts: each
+ * src/agents/<name>/agent.json is a plugin that is started under the
+ * supervisor, so a plugin that fails to import or crashes is restarted or
+ * given up on without affecting other agents. Plugins are controlled with
+ * plugin_control messages, and their state is announced to Commander as
+ * plugin_status so it can delegate to them.
+ */
+export class AgentPluginLoader {
+  private supervisor: AgentSupervisor;
+  private bus: AgentMessageBus;
+  private agentsDir: string;
+  private env: NodeJS.ProcessEnv;
+  private plugins: Map<string, LoadedPlugin> = new Map();
+
+  constructor(supervisor: AgentSupervisor, bus?: AgentMessageBus, options: PluginLoaderOptions = {}) {
+    this.supervisor = supervisor;
+    this.bus = bus || getMessageBus();
+    this.agentsDir = options.agentsDir || 'src/agents';
+    this.env = options.env || process.env;
+
+    this.supervisor.onStatusChange(status => this.announce(status));
+  }
+
+  static async writeManifest(agentPath: string, manifest: AgentManifest): Promise<string> {
+    const file = path.join(agentPath, MANIFEST_FILE);
+    await fs.writeFile(file, JSON.stringify(manifest, null, 2) + '\n');
+    return file;
+  }
+
+  async start(): Promise<string[]> {
+    await this.bus.subscribe('PluginLoader', (message) => this.handleAgentMessage(message));
+    return this.loadAll();
+  }
+
+  async discover(): Promise<{ manifest: AgentManifest; dir: string }[]> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(this.agentsDir, { withFileTypes: true });
+    } catch (error) {
+      console.warn(`[PluginLoader] ⚠️ Could not read ${this.agentsDir}:`, error);
+      return [];
+    }
+
+    const found: { manifest: AgentManifest; dir: string }[] = [];
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      const dir = path.join(this.agentsDir, entry.name);
+      const file = path.join(dir, MANIFEST_FILE);
+      if (!existsSync(file)) continue;
+
+      try {
+        found.push({ manifest: this.parseManifest(await fs.readFile(file, 'utf-8'), file), dir });
+      } catch (error) {
+        console.warn(`[PluginLoader] ⚠️ Skipping ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return found;
+  }
+
+  // Starts every discovered plugin that isn't loaded yet; returns the names started
+  async loadAll(): Promise<string[]> {
+    const started: string[] = [];
+    for (const found of await this.discover()) {
+      const { manifest } = found;
+      if (this.plugins.has(manifest.name)) continue;
+      const result = await this.loadManifest(found.manifest, found.dir);
+      console.log(`[PluginLoader] ${result}`);
+      if (this.supervisor.getAgentStatus(manifest.name)?.state === 'running') {
+        started.push(manifest.name);
+      }
+    }
+    return started;
+  }
+
+  async load(name: string): Promise<string> {
+    const found = (await this.discover()).find(plugin => plugin.manifest.name.toLowerCase() === name.toLowerCase());
+    if (!found) {
+      return `No agent manifest found for ${name}`;
+    }
+    return this.loadManifest(found.manifest, found.dir);
+  }
+
+  private async loadManifest(manifest: AgentManifest, dir: string): Promise<string> {
+    if (this.plugins.has(manifest.name)) {
+      const state = this.supervisor.getAgentStatus(manifest.name)?.state;
+      if (state === 'running' || state === 'starting' || state === 'restarting') {
+        return `${manifest.name} is already ${state}`;
+      }
+      this.plugins.get(manifest.name)!.manifest = manifest;
+      return await this.supervisor.start(manifest.name)
+        ? `${manifest.name} started`
+        : `${manifest.name} failed to start: ${this.supervisor.getAgentStatus(manifest.name)?.lastError}`;
+    }
+    if (this.supervisor.has(manifest.name)) {
+      return `${manifest.name} conflicts with a built-in agent and was not loaded`;
+    }
+    if (manifest.enabled === false) {
+      return `${manifest.name} is disabled in its manifest`;
+    }
+    const missing = (manifest.requiredEnv || []).filter(name => !this.env[name]);
+    if (missing.length > 0) {
+      return `${manifest.name} skipped, missing ${missing.join(', ')}`;
+    }
+
+    const plugin: LoadedPlugin = { manifest, dir, version: 0 };
+    this.plugins.set(manifest.name, plugin);
+    this.supervisor.register(manifest.name, () => this.instantiate(plugin));
+
+    return await this.supervisor.start(manifest.name)
+      ? `${manifest.name} started`
+      : `${manifest.name} failed to start: ${this.supervisor.getAgentStatus(manifest.name)?.lastError}`;
+  }
+
+  async stop(name: string): Promise<string> {
+    const plugin = this.findPlugin(name);
+    if (!plugin) return `${name} is not a loaded agent`;
+
+    await this.supervisor.stop(plugin.manifest.name);
+    return `${plugin.manifest.name} stopped`;
+  }
+
+  async unload(name: string): Promise<string> {
+    const plugin = this.findPlugin(name);
+    if (!plugin) return `${name} is not a loaded agent`;
+
+    await this.supervisor.unregister(plugin.manifest.name);
+    this.plugins.delete(plugin.manifest.name);
+    this.publishStatus(plugin, 'stopped', true);
+    return `${plugin.manifest.name} unloaded`;
+  }
+
+  // Re-reads the manifest and re-imports the entry module, then restarts the agent
+  async reload(name: string): Promise<string> {
+    const plugin = this.findPlugin(name);
+    if (!plugin) return this.load(name);
+
+    const found = (await this.discover()).find(candidate => candidate.manifest.name === plugin.manifest.name);
+    if (!found) {
+      await this.unload(plugin.manifest.name);
+      return `${plugin.manifest.name}'s manifest is gone, so it was unloaded`;
+    }
+
+    plugin.manifest = found.manifest;
+    plugin.version++;
+    return await this.supervisor.restart(plugin.manifest.name, 'reload')
+      ? `${plugin.manifest.name} reloaded`
+      : `${plugin.manifest.name} failed to start after reload: ${this.supervisor.getAgentStatus(plugin.manifest.name)?.lastError}`;
+  }
+
+  async describe(): Promise<string> {
+    const discovered = await this.discover();
+    if (discovered.length === 0) {
+      return 'No generated agents found.';
+    }
+
+    const lines = discovered.map(({ manifest }) => {
+      const status = this.plugins.has(manifest.name) ? this.supervisor.getAgentStatus(manifest.name) : undefined;
+      const state = status ? status.state : manifest.enabled === false ? 'disabled' : 'not loaded';
+      const restarts = status?.totalRestarts ? `, ${status.totalRestarts} restarts` : '';
+      return `• **${manifest.name}** - ${state}${restarts}: ${manifest.purpose}`;
+    });
+    return `**Generated agents (${discovered.length})**\n${lines.join('\n')}`;
+  }
+
+  private async handleAgentMessage(message: AgentMessage): Promise<void> {
+    if (message.type !== 'plugin_control') {
+      console.log(`[PluginLoader] Ignoring ${message.type} from ${message.from}`);
+      return;
+    }
+
+    const { action, agent, requestedBy } = (message as AgentMessage<'plugin_control'>).payload;
+    console.log(`[PluginLoader] 📨 ${action}${agent ? ` ${agent}` : ''} requested by ${requestedBy}`);
+
+    let result: string;
+    if (action === 'list') {
+      result = await this.describe();
+    } else if (!agent) {
+      result = `Say which agent to ${action}`;
+    } else if (action === 'start') {
+      result = await this.load(agent);
+    } else if (action === 'stop') {
+      result = await this.stop(agent);
+    } else if (action === 'unload') {
+      result = await this.unload(agent);
+    } else {
+      result = await this.reload(agent);
+    }
+
+    if (message.requiresResponse) {
+      const plugin = agent ? this.findPlugin(agent) : undefined;
+      const state = plugin ? this.supervisor.getAgentStatus(plugin.manifest.name)?.state : undefined;
+      await this.bus.respond(message, 'PluginLoader', {
+        success: action === 'list' || state === 'running' || (action === 'stop' && state === 'stopped') || (action === 'unload' && !plugin),
+        message: result
+      });
+    }
+  }
+
+  private async instantiate(plugin: LoadedPlugin): Promise<SupervisedAgent> {
+    const { manifest } = plugin;
+    const exportName = manifest.exportName || manifest.name;
+    const url = pathToFileURL(AgentPluginLoader.resolveEntry(plugin.dir, manifest.entry)).href + (plugin.version > 0 ? `?reload=${plugin.version}` : '');
+
+    // Only the entry module is re-imported on reload; modules it imports stay cached
+    const module = await import(url);
+    const AgentClass = module[exportName];
+    if (typeof AgentClass !== 'function') {
+      throw new Error(`${manifest.entry} does not export ${exportName}`);
+    }
+
+    const config = Object.fromEntries(
+      Object.entries(manifest.config).map(([field, envName]) => [field, this.env[envName]])
+    );
+    const agent = new AgentClass(config);
+    if (typeof agent.start !== 'function') {
+      throw new Error(`${exportName} has no start() method`);
+    }
+
+    return {
+      start: () => agent.start(),
+      stop: async () => {
+        if (typeof agent.stop === 'function') await agent.stop();
+      },
+      flush: typeof agent.flush === 'function' ? () => agent.flush() : undefined,
+      getStatus: typeof agent.getStatus === 'function' ? () => agent.getStatus() : undefined
+    };
+  }
+
+  // Generated entries name the compiled .js file; under tsx only the .ts source exists
+  static resolveEntry(dir: string, entry: string): string {
+    const file = path.resolve(dir, entry);
+    const source = file.replace(/\.js$/, '.ts');
+    return !existsSync(file) && existsSync(source) ? source : file;
+  }
+
+  private announce(status: AgentLifecycleStatus): void {
+    const plugin = this.plugins.get(status.agent);
+    if (!plugin || this.supervisor.isShuttingDown()) return;
+    if (!['running', 'stopped', 'failed'].includes(status.state)) return;
+    this.publishStatus(plugin, status.state);
+  }
+
+  private publishStatus(plugin: LoadedPlugin, state: AgentLifecycleStatus['state'], removed?: boolean): void {
+    const payload: AgentMessagePayloads['plugin_status'] = {
+      agent: plugin.manifest.name,
+      state,
+      purpose: plugin.manifest.purpose,
+      capabilities: plugin.manifest.capabilities,
+      channelId: plugin.manifest.channelEnv ? this.env[plugin.manifest.channelEnv] : undefined,
+      removed
+    };
+    this.bus.publish(this.bus.createMessage('plugin_status', 'PluginLoader', 'Commander', payload)).catch(error => {
+      console.error('[PluginLoader] Failed to announce plugin status:', error);
+    });
+  }
+
+  private findPlugin(name: string): LoadedPlugin | undefined {
+    return Array.from(this.plugins.values()).find(plugin => plugin.manifest.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private parseManifest(content: string, file: string): AgentManifest {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const problems: string[] = [];
+    if (typeof parsed?.name !== 'string' || !/^[A-Za-z]\w*$/.test(parsed.name)) problems.push('name must be an identifier');
+    if (typeof parsed?.entry !== 'string' || !parsed.entry) problems.push('entry is required');
+    if (parsed?.config !== undefined && (typeof parsed.config !== 'object' || Array.isArray(parsed.config))) problems.push('config must map fields to env variables');
+    if (parsed?.capabilities !== undefined && !Array.isArray(parsed.capabilities)) problems.push('capabilities must be a list');
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    return {
+      ...parsed,
+      purpose: parsed.purpose || '',
+      capabilities: parsed.capabilities || [],
+      config: parsed.config || {}
+    };
+  }
+}
@@ -0,0 +1,362 @@
+import { AgentMessageBus, AgentName } from '../messaging/index.js';
+import {
+  AgentFactory,
+  AgentLifecycleState,
+  AgentLifecycleStatus,
+  AgentRegistration,
+  AgentStatusHandler,
+  ShutdownHook,
+  SupervisedAgent,
+  SupervisorOptions
+} from './types.js';
+
+interface SupervisedEntry {
+  name: string;
+  factory: AgentFactory;
+  shutdownOrder: number;
+  instance: SupervisedAgent | null;
+  status: AgentLifecycleStatus;
+  restartTimer: NodeJS.Timeout | null;
+  stableTimer: NodeJS.Timeout | null;
+  unhealthyChecks: number;
+}
+
+const DEFAULT_OPTIONS: Required<SupervisorOptions> = {
+  maxRestarts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  stableAfterMs: 5 * 60 * 1000,
+  startTimeoutMs: 2 * 60 * 1000,
+  stopTimeoutMs: 10 * 1000,
+  healthCheckIntervalMs: 30 * 1000,
+  unhealthyChecks: 3
+};
+
+/**
+ * Owns each agent's lifecycle: starts them, restarts a crashed agent with
+ * exponential backoff, and shuts everything down in order - flush state
+ * first, then stop agents (disconnecting their transports), then run
+ * shutdown hooks. State changes are published to the status recipient
+ * (the Dashboard) as agent_status messages.
+ */
+export class AgentSupervisor {
+  private entries: Map<string, SupervisedEntry> = new Map();
+  private options: Required<SupervisorOptions>;
+  private bus: AgentMessageBus | null;
+  private statusRecipient: AgentName;
+  private statusHandlers: AgentStatusHandler[] = [];
+  private shutdownHooks: ShutdownHook[] = [];
+  private healthInterval: NodeJS.Timeout | null = null;
+  private shuttingDown: Promise<void> | null = null;
+
+  constructor(bus?: AgentMessageBus, options: SupervisorOptions = {}, statusRecipient: AgentName = 'Dashboard') {
+    this.bus = bus || null;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.statusRecipient = statusRecipient;
+  }
+
+  register(name: string, factory: AgentFactory, registration: AgentRegistration = {}): void {
+    if (this.entries.has(name)) {
+      throw new Error(`Agent ${name} is already registered`);
+    }
+    this.entries.set(name, {
+      name,
+      factory,
+      shutdownOrder: registration.shutdownOrder ?? this.entries.size,
+      instance: null,
+      status: { agent: name, state: 'stopped', restarts: 0, totalRestarts: 0, since: new Date().toISOString() },
+      restartTimer: null,
+      stableTimer: null,
+      unhealthyChecks: 0
+    });
+  }
+
+  // Stops the agent if needed and forgets it, e.g. when a plugin is unloaded
+  async unregister(name: string): Promise<void> {
+    await this.stop(name);
+    this.entries.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  async startAll(): Promise<AgentLifecycleStatus[]> {
+    await Promise.all(Array.from(this.entries.keys()).map(name => this.start(name)));
+    this.startHealthChecks();
+    return this.getStatus();
+  }
+
+  // Resolves false when the agent failed to start; a restart is then scheduled
+  async start(name: string): Promise<boolean> {
+    const entry = this.getEntry(name);
+    if (this.shuttingDown || entry.status.state === 'running' || entry.status.state === 'starting') {
+      return entry.status.state === 'running';
+    }
+    this.clearTimers(entry);
+    this.setState(entry, 'starting');
+
+    let instance: SupervisedAgent | null = null;
+    try {
+      instance = await entry.factory();
+      entry.instance = instance;
+      await this.withTimeout(instance.start(), this.options.startTimeoutMs, `${name} did not start within ${this.options.startTimeoutMs}ms`);
+    } catch (error) {
+      console.error(`[Supervisor] ❌ ${name} failed to start:`, error);
+      await this.handleFailure(entry, error);
+      return false;
+    }
+
+    // Shutdown began while the agent was starting
+    if (this.shuttingDown || entry.instance !== instance) {
+      return false;
+    }
+
+    entry.unhealthyChecks = 0;
+    this.setState(entry, 'running');
+    entry.stableTimer = setTimeout(() => {
+      entry.stableTimer = null;
+      entry.status.restarts = 0;
+    }, this.options.stableAfterMs);
+    entry.stableTimer.unref();
+    console.log(`[Supervisor] ✅ ${name} running`);
+    return true;
+  }
+
+  async stop(name: string): Promise<void> {
+    const entry = this.getEntry(name);
+    this.clearTimers(entry);
+    await this.flushEntry(entry);
+    await this.stopEntry(entry);
+  }
+
+  // A manual restart; unlike a crash it doesn't count toward backoff
+  async restart(name: string, reason: string = 'requested'): Promise<boolean> {
+    const entry = this.getEntry(name);
+    console.log(`[Supervisor] 🔄 Restarting ${name} (${reason})`);
+    this.clearTimers(entry);
+    await this.flushEntry(entry);
+    await this.stopEntry(entry);
+    return this.start(name);
+  }
+
+  /**
+   * Records a crash of a running agent: the instance is stopped and a new
+   * one started after a backoff delay. Crashes of agents that aren't
+   * running are ignored, since their restart is already handled.
+   */
+  async reportCrash(name: string, error: unknown): Promise<void> {
+    const entry = this.entries.get(name);
+    if (!entry || entry.status.state !== 'running' || this.shuttingDown) return;
+
+    console.error(`[Supervisor] 💥 ${name} crashed:`, error);
+    await this.handleFailure(entry, error);
+  }
+
+  // The registered agent whose source appears first in the error's stack, if any
+  attribute(error: unknown): string | null {
+    const stack = error instanceof Error ? error.stack : undefined;
+    if (!stack) return null;
+
+    const names = Array.from(this.entries.keys());
+    for (const frame of stack.split('\n').slice(1)) {
+      const match = names.find(name => new RegExp(`[\\\\/]agents[\\\\/]${name.toLowerCase()}[\\\\/]`).test(frame));
+      if (match) return match;
+    }
+    return null;
+  }
+
+  getStatus(): AgentLifecycleStatus[] {
+    return Array.from(this.entries.values()).map(entry => ({ ...entry.status }));
+  }
+
+  getAgentStatus(name: string): AgentLifecycleStatus | undefined {
+    const entry = this.entries.get(name);
+    return entry ? { ...entry.status } : undefined;
+  }
+
+  onStatusChange(handler: AgentStatusHandler): void {
+    this.statusHandlers.push(handler);
+  }
+
+  // Runs after every agent has stopped, in registration order (e.g. closing the bus)
+  onShutdown(hook: ShutdownHook): void {
+    this.shutdownHooks.push(hook);
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown !== null;
+  }
+
+  shutdown(reason: string = 'shutdown'): Promise<void> {
+    if (!this.shuttingDown) {
+      this.shuttingDown = this.runShutdown(reason);
+    }
+    return this.shuttingDown;
+  }
+
+  private async runShutdown(reason: string): Promise<void> {
+    console.log(`[Supervisor] 🛑 Shutting down agents (${reason})...`);
+    if (this.healthInterval) {
+      clearInterval(this.healthInterval);
+      this.healthInterval = null;
+    }
+
+    const ordered = Array.from(this.entries.values()).sort((a, b) => a.shutdownOrder - b.shutdownOrder);
+    ordered.forEach(entry => this.clearTimers(entry));
+
+    // Persist everything before any transport goes away
+    for (const entry of ordered) {
+      await this.flushEntry(entry);
+    }
+    for (const entry of ordered) {
+      await this.stopEntry(entry);
+    }
+
+    for (const hook of this.shutdownHooks) {
+      try {
+        await this.withTimeout(Promise.resolve(hook()), this.options.stopTimeoutMs, `Shutdown hook timed out after ${this.options.stopTimeoutMs}ms`);
+      } catch (error) {
+        console.error('[Supervisor] Shutdown hook failed:', error);
+      }
+    }
+    console.log('[Supervisor] ✅ All agents stopped');
+  }
+
+  private async handleFailure(entry: SupervisedEntry, error: unknown): Promise<void> {
+    this.clearTimers(entry);
+    entry.status.lastError = error instanceof Error ? error.message : String(error);
+
+    const giveUp = entry.status.restarts >= this.options.maxRestarts;
+    const delay = Math.min(this.options.baseDelayMs * 2 ** entry.status.restarts, this.options.maxDelayMs);
+    if (!giveUp) {
+      entry.status.restarts++;
+      entry.status.totalRestarts++;
+      entry.status.nextRestartAt = new Date(Date.now() + delay).toISOString();
+    }
+    await this.stopEntry(entry, giveUp ? 'failed' : 'restarting');
+    if (this.shuttingDown) return;
+
+    if (giveUp) {
+      console.error(`[Supervisor] ❌ ${entry.name} failed ${entry.status.restarts + 1} times in a row, giving up`);
+      return;
+    }
+
+    console.log(`[Supervisor] ⏳ Restarting ${entry.name} in ${delay}ms (attempt ${entry.status.restarts}/${this.options.maxRestarts})`);
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = null;
+      entry.status.nextRestartAt = undefined;
+      this.start(entry.name);
+    }, delay);
+  }
+
+  private async flushEntry(entry: SupervisedEntry): Promise<void> {
+    if (!entry.instance?.flush || entry.status.state !== 'running') return;
+    try {
+      await this.withTimeout(entry.instance.flush(), this.options.stopTimeoutMs, `${entry.name} did not flush within ${this.options.stopTimeoutMs}ms`);
+    } catch (error) {
+      console.error(`[Supervisor] ⚠️ ${entry.name} failed to flush:`, error);
+    }
+  }
+
+  private async stopEntry(entry: SupervisedEntry, finalState: AgentLifecycleState = 'stopped'): Promise<void> {
+    const instance = entry.instance;
+    entry.instance = null;
+    if (!instance) {
+      this.setState(entry, finalState);
+      return;
+    }
+
+    this.setState(entry, 'stopping');
+    try {
+      await this.withTimeout(instance.stop(), this.options.stopTimeoutMs, `${entry.name} did not stop within ${this.options.stopTimeoutMs}ms`);
+    } catch (error) {
+      console.error(`[Supervisor] ⚠️ ${entry.name} failed to stop cleanly:`, error);
+    }
+    this.setState(entry, finalState);
+  }
+
+  private startHealthChecks(): void {
+    if (this.healthInterval) return;
+    this.healthInterval = setInterval(() => {
+      for (const entry of this.entries.values()) {
+        if (entry.status.state !== 'running' || !entry.instance?.getStatus) continue;
+
+        let ready = false;
+        try {
+          ready = entry.instance.getStatus().ready;
+        } catch (error) {
+          ready = false;
+        }
+
+        entry.unhealthyChecks = ready ? 0 : entry.unhealthyChecks + 1;
+        if (entry.unhealthyChecks >= this.options.unhealthyChecks) {
+          this.reportCrash(entry.name, new Error(`Not ready for ${entry.unhealthyChecks} consecutive health checks`));
+        }
+      }
+    }, this.options.healthCheckIntervalMs);
+    this.healthInterval.unref();
+  }
+
+  private setState(entry: SupervisedEntry, state: AgentLifecycleState): void {
+    if (entry.status.state === state) return;
+    entry.status.state = state;
+    entry.status.since = new Date().toISOString();
+
+    const snapshot = { ...entry.status };
+    for (const handler of this.statusHandlers) {
+      try {
+        handler(snapshot);
+      } catch (error) {
+        console.error('[Supervisor] Status handler failed:', error);
+      }
+    }
+
+    if (state === 'running' && entry.name === this.statusRecipient) {
+      // The recipient missed everything published before it subscribed
+      this.getStatus().forEach(status => this.publishStatus(status));
+    } else {
+      this.publishStatus(snapshot);
+    }
+  }
+
+  private publishStatus(status: AgentLifecycleStatus): void {
+    // Once shutdown starts the bus may already be closed
+    if (!this.bus || this.shuttingDown) return;
+
+    const message = this.bus.createMessage('agent_status', 'Supervisor', this.statusRecipient, {
+      agent: status.agent,
+      state: status.state,
+      restarts: status.restarts,
+      since: status.since,
+      lastError: status.lastError
+    }, { priority: status.state === 'failed' ? 'high' : 'low' });
+    this.bus.publish(message).catch(error => {
+      console.error('[Supervisor] Failed to publish agent status:', error);
+    });
+  }
+
+  private clearTimers(entry: SupervisedEntry): void {
+    if (entry.restartTimer) clearTimeout(entry.restartTimer);
+    if (entry.stableTimer) clearTimeout(entry.stableTimer);
+    entry.restartTimer = null;
+    entry.stableTimer = null;
+    entry.status.nextRestartAt = undefined;
+  }
+
+  private getEntry(name: string): SupervisedEntry {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Agent ${name} is not registered`);
+    }
+    return entry;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
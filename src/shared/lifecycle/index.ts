@@ -0,0 +1,3 @@
+export * from './types.js';
+export { AgentSupervisor } from './AgentSupervisor.js';
+export { AgentPluginLoader, MANIFEST_FILE } from './AgentPluginLoader.js';
@@ -0,0 +1,61 @@
+import { AgentLifecycleState } from '../messaging/types.js';
+
+export type { AgentLifecycleState };
+
+// What the supervisor needs from an agent; Commander, Architect and Dashboard all fit
+export interface SupervisedAgent {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  flush?(): Promise<void>;           // Persist state before transports are disconnected
+  getStatus?(): { ready: boolean };  // Polled for health; not ready for too long means a restart
+}
+
+// Builds a fresh instance per start, since a stopped agent's transport can't be reused
+export type AgentFactory = () => SupervisedAgent | Promise<SupervisedAgent>;
+
+export interface AgentRegistration {
+  shutdownOrder?: number;            // Lower stops first; defaults to registration order
+}
+
+export interface AgentLifecycleStatus {
+  agent: string;
+  state: AgentLifecycleState;
+  restarts: number;                  // Restarts since the agent last ran stably
+  totalRestarts: number;
+  since: string;                     // When the current state was entered
+  lastError?: string;
+  nextRestartAt?: string;
+}
+
+export interface SupervisorOptions {
+  maxRestarts?: number;              // Consecutive failed runs before giving up
+  baseDelayMs?: number;              // Backoff doubles from here per consecutive restart
+  maxDelayMs?: number;
+  stableAfterMs?: number;            // Running this long resets the restart count
+  startTimeoutMs?: number;
+  stopTimeoutMs?: number;
+  healthCheckIntervalMs?: number;
+  unhealthyChecks?: number;          // Consecutive not-ready checks before a restart
+}
+
+export type AgentStatusHandler = (status: AgentLifecycleStatus) => void;
+
+export type ShutdownHook = () => Promise<void> | void;
+
+// agent.json in a generated agent's directory; the plugin loader starts agents from these
+export interface AgentManifest {
+  name: string;
+  entry: string;                     // Module relative to the manifest, e.g. './PingBot.js'
+  exportName?: string;               // Exported agent class, defaults to name
+  purpose: string;
+  capabilities: string[];
+  config: Record<string, string>;    // Constructor config field -> env variable supplying it
+  requiredEnv?: string[];            // The agent is skipped until these are set
+  channelEnv?: string;               // Env variable with the channel Commander delegates to
+  enabled?: boolean;
+}
+
+export interface PluginLoaderOptions {
+  agentsDir?: string;
+  env?: NodeJS.ProcessEnv;
+}
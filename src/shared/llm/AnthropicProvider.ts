@@ -0,0 +1,57 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, LLMRequest, LLMResponse, ModelMap, ModelTier } from './types.js';
+
+export const DEFAULT_ANTHROPIC_MODELS: ModelMap = {
+  fast: 'claude-3-haiku-20240307',
+  balanced: 'claude-3-sonnet-20240229',
+  powerful: 'claude-3-opus-20240229'
+};
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private claude: Anthropic;
+  private models: ModelMap;
+
+  constructor(apiKey: string, models: Partial<ModelMap> = {}) {
+    this.claude = new Anthropic({ apiKey });
+    this.models = { ...DEFAULT_ANTHROPIC_MODELS, ...models };
+  }
+
+  resolveModel(tier: ModelTier = 'fast'): string {
+    return this.models[tier];
+  }
+
+  setModels(models: Partial<ModelMap>): void {
+    this.models = { ...DEFAULT_ANTHROPIC_MODELS, ...models };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.resolveModel(request.tier);
+
+    const response = await this.claude.messages.create({
+      model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: request.messages
+    });
+
+    const text = response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+
+    return {
+      text,
+      model: response.model || model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens
+      }
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '../config/index.js';
+import { AgentMessageBus } from '../messaging/index.js';
+import { BudgetGuard } from './BudgetGuard.js';
+import { LLMProvider } from './types.js';
+
+async function guard() {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'budget-guard-'));
+  const config = new ConfigService({ env: {}, file: path.join(dataDir, 'runtime.json') });
+  const budget = new BudgetGuard(config, new AgentMessageBus(), {
+    file: path.join(dataDir, 'ledger.json'),
+    local: {} as LLMProvider
+  });
+  return { budget, dataDir, cleanup: () => fs.rm(dataDir, { recursive: true, force: true }) };
+}
+
+test('the requester cannot approve their own override', async () => {
+  const { budget, cleanup } = await guard();
+  try {
+    const override = await budget.requestOverride('Commander', 'daily', 5, 'alice', 'release day');
+
+    await assert.rejects(budget.approveOverride(override.id, 'alice'), /someone other than/);
+    assert.deepEqual(budget.getPendingOverrides().map(pending => pending.id), [override.id]);
+
+    const approved = await budget.approveOverride(override.id, 'bob');
+    assert.equal(approved?.approvedBy, 'bob');
+    assert.deepEqual(budget.getPendingOverrides(), []);
+  } finally {
+    await cleanup();
+  }
+});
+
+test('pending overrides survive a restart and unknown ids are not approved', async () => {
+  const { budget, dataDir, cleanup } = await guard();
+  try {
+    const override = await budget.requestOverride(null, 'monthly', 20, 'alice', 'load test');
+    assert.equal(await budget.approveOverride('override_missing', 'bob'), null);
+
+    const config = new ConfigService({ env: {}, file: path.join(dataDir, 'runtime.json') });
+    const restarted = new BudgetGuard(config, new AgentMessageBus(), { file: path.join(dataDir, 'ledger.json'), local: {} as LLMProvider });
+    assert.equal((await restarted.approveOverride(override.id, 'bob'))?.amount, 20);
+  } finally {
+    await cleanup();
+  }
+});
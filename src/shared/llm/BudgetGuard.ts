@@ -0,0 +1,253 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BudgetedAgent, ConfigService, getConfigService } from '../config/index.js';
+import { AgentMessageBus, getMessageBus } from '../messaging/index.js';
+import { OllamaInterface } from '../../agents/watcher/comwatch/communication/OllamaInterface.js';
+import { OllamaProvider } from './OllamaProvider.js';
+import { BudgetLine, BudgetOverride, BudgetPeriod, BudgetState, LLMProvider } from './types.js';
+
+const BUILT_IN_AGENTS: Record<string, BudgetedAgent> = { Commander: 'commander', Architect: 'architect', Dashboard: 'dashboard' };
+const LOCAL_CHECK_INTERVAL_MS = 60 * 1000;
+
+interface Ledger {
+  day: string;                       // YYYY-MM-DD, UTC
+  month: string;                     // YYYY-MM
+  daily: Record<string, number>;     // Agent → USD spent
+  monthly: Record<string, number>;
+  overrides: BudgetOverride[];       // Approved, for the current day or month
+  pending: BudgetOverride[];         // Awaiting approval, kept across restarts
+}
+
+export interface BudgetGuardOptions {
+  file?: string;
+  local?: LLMProvider;               // Where degraded calls go when it is reachable
+}
+
+/**
+ * Spend per agent for the current day and month, held against the global
+ * and per-agent limits in the budgets config. Nearing a limit degrades
+ * calls, passing it blocks all but critical ones; crossing either is
+ * announced to Dashboard as a budget_alert. Overrides raise a limit until
+ * the period ends and only apply once someone other than the requester
+ * approves them.
+ *
+ * Spend is counted per process: agents started together (src/index.ts)
+ * share one ledger, agents in separate processes each keep their own.
+ */
+export class BudgetGuard {
+  private config: ConfigService;
+  private bus: AgentMessageBus;
+  private file: string;
+  private ledger: Ledger;
+  private loaded: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private alerted: Set<string> = new Set();
+  private local: LLMProvider;
+  private localCheck: { at: number; available: boolean } | null = null;
+
+  constructor(config: ConfigService = getConfigService(), bus: AgentMessageBus = getMessageBus(), options: BudgetGuardOptions = {}) {
+    this.config = config;
+    this.bus = bus;
+    this.file = options.file || 'data/budget-ledger.json';
+    this.local = options.local || new OllamaProvider(new OllamaInterface());
+    this.ledger = this.emptyLedger();
+    this.loaded = this.loadLedger();
+  }
+
+  get degradedMaxTokens(): number {
+    return this.config.get().budgets.degradedMaxTokens;
+  }
+
+  async record(agent: string, cost: number): Promise<void> {
+    if (cost <= 0) return;
+    await this.loaded;
+    this.roll();
+
+    this.ledger.daily[agent] = (this.ledger.daily[agent] || 0) + cost;
+    this.ledger.monthly[agent] = (this.ledger.monthly[agent] || 0) + cost;
+    await this.saveLedger();
+
+    for (const line of this.linesFor(agent).filter(line => line.state !== 'ok')) {
+      await this.alert(line, agent, false);
+    }
+  }
+
+  // The line closest to its limit that the agent has crossed, or null when all are ok
+  async check(agent: string): Promise<BudgetLine | null> {
+    await this.loaded;
+    this.roll();
+    const crossed = this.linesFor(agent).filter(line => line.state !== 'ok');
+    return crossed.find(line => line.state === 'exceeded') || crossed[0] || null;
+  }
+
+  async noteBlocked(agent: string, line: BudgetLine): Promise<void> {
+    await this.alert(line, agent, true);
+  }
+
+  // Global lines first, then every agent that has spent or has a limit of its own
+  async lines(): Promise<BudgetLine[]> {
+    await this.loaded;
+    this.roll();
+    const agents = new Set([...Object.keys(this.ledger.monthly), ...Object.keys(BUILT_IN_AGENTS)]);
+    const perAgent = Array.from(agents).sort().flatMap(agent => this.agentLines(agent));
+    return [...this.globalLines(), ...perAgent];
+  }
+
+  async requestOverride(agent: string | null, period: BudgetPeriod, amount: number, requestedBy: string, reason: string): Promise<BudgetOverride> {
+    if (!(amount > 0)) {
+      throw new Error('An override must add a positive amount');
+    }
+    await this.loaded;
+    this.roll();
+    const override: BudgetOverride = {
+      id: `override_${Date.now()}`,
+      agent,
+      period,
+      amount,
+      reason,
+      requestedBy,
+      requestedAt: new Date().toISOString(),
+      periodKey: this.periodKey(period)
+    };
+    this.ledger.pending.push(override);
+    await this.saveLedger();
+    return override;
+  }
+
+  getPendingOverrides(): BudgetOverride[] {
+    return [...this.ledger.pending];
+  }
+
+  // Throws when the requester tries to approve their own override
+  async approveOverride(id: string, approvedBy: string): Promise<BudgetOverride | null> {
+    await this.loaded;
+    this.roll();
+    const override = this.ledger.pending.find(pending => pending.id === id);
+    if (!override) return null;
+    if (override.requestedBy === approvedBy) {
+      throw new Error('an override has to be approved by someone other than who asked for it');
+    }
+
+    this.ledger.pending = this.ledger.pending.filter(pending => pending !== override);
+    override.approvedBy = approvedBy;
+    this.ledger.overrides.push(override);
+    await this.saveLedger();
+    console.log(`[BudgetGuard] ✅ ${approvedBy} approved +$${override.amount.toFixed(2)} ${override.period} for ${override.agent || 'all agents'}`);
+    return override;
+  }
+
+  async discardOverride(id: string): Promise<boolean> {
+    await this.loaded;
+    const remaining = this.ledger.pending.filter(pending => pending.id !== id);
+    if (remaining.length === this.ledger.pending.length) return false;
+
+    this.ledger.pending = remaining;
+    await this.saveLedger();
+    return true;
+  }
+
+  // ComWatch's local model, when it answers; checked at most once a minute
+  async localModel(): Promise<LLMProvider | null> {
+    if (!this.localCheck || Date.now() - this.localCheck.at > LOCAL_CHECK_INTERVAL_MS) {
+      this.localCheck = { at: Date.now(), available: await this.local.isAvailable().catch(() => false) };
+    }
+    return this.localCheck.available ? this.local : null;
+  }
+
+  private linesFor(agent: string): BudgetLine[] {
+    return [...this.agentLines(agent), ...this.globalLines()];
+  }
+
+  private globalLines(): BudgetLine[] {
+    const { dailyLimit, monthlyLimit } = this.config.get().budgets;
+    const total = (spend: Record<string, number>) => Object.values(spend).reduce((sum, cost) => sum + cost, 0);
+    return [
+      this.line(null, 'daily', total(this.ledger.daily), dailyLimit),
+      this.line(null, 'monthly', total(this.ledger.monthly), monthlyLimit)
+    ];
+  }
+
+  private agentLines(agent: string): BudgetLine[] {
+    const budget = this.config.get().budgets.agents[BUILT_IN_AGENTS[agent] || 'generated'] || {};
+    const lines: BudgetLine[] = [];
+    if (budget.dailyLimit !== undefined) lines.push(this.line(agent, 'daily', this.ledger.daily[agent] || 0, budget.dailyLimit));
+    if (budget.monthlyLimit !== undefined) lines.push(this.line(agent, 'monthly', this.ledger.monthly[agent] || 0, budget.monthlyLimit));
+    return lines;
+  }
+
+  private line(agent: string | null, period: BudgetPeriod, spent: number, configured: number): BudgetLine {
+    const limit = configured + this.ledger.overrides
+      .filter(override => override.agent === agent && override.period === period)
+      .reduce((sum, override) => sum + override.amount, 0);
+
+    let state: BudgetState = 'ok';
+    if (spent >= limit) state = 'exceeded';
+    else if (spent >= limit * this.config.get().budgets.degradeAt) state = 'degraded';
+    return { agent, period, spent, limit, state };
+  }
+
+  // Once per line, state and period, so a spent budget doesn't alert on every call
+  private async alert(line: BudgetLine, agent: string, blocked: boolean): Promise<void> {
+    const key = `${this.periodKey(line.period)}:${line.agent || 'all'}:${line.period}:${blocked ? 'blocked' : line.state}`;
+    if (this.alerted.has(key)) return;
+    this.alerted.add(key);
+
+    console.warn(`[BudgetGuard] ⚠️ ${line.agent || 'Global'} ${line.period} budget ${line.state}: $${line.spent.toFixed(4)} of $${line.limit.toFixed(2)}${blocked ? `, blocking ${agent}'s calls` : ''}`);
+    try {
+      await this.bus.publish(this.bus.createMessage('budget_alert', agent, 'Dashboard', { line, agent, blocked }, {
+        priority: line.state === 'exceeded' ? 'high' : 'medium'
+      }));
+    } catch (error) {
+      console.error('[BudgetGuard] Failed to publish budget alert:', error);
+    }
+  }
+
+  private roll(): void {
+    const day = this.periodKey('daily');
+    const month = this.periodKey('monthly');
+    if (this.ledger.month !== month) {
+      this.ledger.month = month;
+      this.ledger.monthly = {};
+    }
+    if (this.ledger.day !== day) {
+      this.ledger.day = day;
+      this.ledger.daily = {};
+    }
+    const current = (override: BudgetOverride) => override.periodKey === this.periodKey(override.period);
+    this.ledger.overrides = this.ledger.overrides.filter(current);
+    // A request for a period that ended can no longer be approved
+    this.ledger.pending = this.ledger.pending.filter(current);
+  }
+
+  private periodKey(period: BudgetPeriod): string {
+    const now = new Date().toISOString();
+    return period === 'daily' ? now.slice(0, 10) : now.slice(0, 7);
+  }
+
+  private emptyLedger(): Ledger {
+    return { day: this.periodKey('daily'), month: this.periodKey('monthly'), daily: {}, monthly: {}, overrides: [], pending: [] };
+  }
+
+  private async loadLedger(): Promise<void> {
+    try {
+      this.ledger = { ...this.emptyLedger(), ...JSON.parse(await fs.readFile(this.file, 'utf8')) };
+      this.roll();
+    } catch (error) {
+      this.ledger = this.emptyLedger();
+    }
+  }
+
+  // Writes one at a time, so a slow write can't land after a newer one
+  private saveLedger(): Promise<void> {
+    const snapshot = JSON.stringify(this.ledger, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.writeFile(this.file, snapshot);
+      } catch (error) {
+        console.error('[BudgetGuard] Failed to save ledger:', error);
+      }
+    });
+    return this.saving;
+  }
+}
@@ -0,0 +1,70 @@
+import { BudgetGuard } from './BudgetGuard.js';
+import { isFreeProvider } from './pricing.js';
+import { BudgetLine, LLMProvider, LLMRequest, LLMResponse, ModelMap, ModelTier } from './types.js';
+
+/**
+ * Holds an agent's requests to its budgets. Past the degrade share of a
+ * limit, requests go to ComWatch's local model when it is reachable and
+ * otherwise to the fast tier, with max_tokens capped. Past the limit only
+ * critical requests are made, degraded the same way; the rest throw.
+ */
+export class BudgetedProvider implements LLMProvider {
+  private inner: LLMProvider;
+  private agent: string;
+  private guard: BudgetGuard;
+
+  constructor(inner: LLMProvider, agent: string, guard: BudgetGuard) {
+    this.inner = inner;
+    this.agent = agent;
+    this.guard = guard;
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  resolveModel(tier?: ModelTier): string {
+    return this.inner.resolveModel(tier);
+  }
+
+  setModels(models: Partial<ModelMap>): void {
+    this.inner.setModels?.(models);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const line = await this.guard.check(this.agent);
+    if (!line) {
+      return this.inner.complete(request);
+    }
+
+    if (line.state === 'exceeded' && !request.critical) {
+      await this.guard.noteBlocked(this.agent, line);
+      throw new Error(`${this.agent}'s call was refused: the ${describeLine(line)} is spent ($${line.spent.toFixed(2)} of $${line.limit.toFixed(2)}). Ask for an override in the Dashboard channel with "/budget override"`);
+    }
+    return this.completeDegraded(request);
+  }
+
+  private async completeDegraded(request: LLMRequest): Promise<LLMResponse> {
+    const maxTokens = Math.min(request.maxTokens, this.guard.degradedMaxTokens);
+
+    // Free providers cost nothing to begin with
+    const local = isFreeProvider(this.inner.name) ? null : await this.guard.localModel();
+    if (local) {
+      try {
+        return await local.complete({ ...request, model: undefined, maxTokens });
+      } catch (error) {
+        console.warn(`[BudgetedProvider] Local model failed for ${this.agent}, using the fast tier:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return this.inner.complete({ ...request, model: undefined, tier: 'fast', maxTokens });
+  }
+}
+
+// "global daily budget", "Commander monthly budget"
+export function describeLine(line: BudgetLine): string {
+  return `${line.agent || 'global'} ${line.period} budget`;
+}
@@ -0,0 +1,88 @@
+import path from 'path';
+import { LLMCallRecorder, LLMProvider, LLMRequest, LLMResponse, ModelMap, ModelTier } from './types.js';
+import { estimateCost } from './pricing.js';
+
+/**
+ * Wraps a provider so every request is timed, priced and handed to a
+ * recorder under the owning agent's name, whether it succeeds or not.
+ * Recording never delays or fails the request itself.
+ */
+export class InstrumentedProvider implements LLMProvider {
+  readonly agent: string;
+  private inner: LLMProvider;
+  private recorder: LLMCallRecorder;
+
+  constructor(inner: LLMProvider, agent: string, recorder: LLMCallRecorder) {
+    this.inner = inner;
+    this.agent = agent;
+    this.recorder = recorder;
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  resolveModel(tier?: ModelTier): string {
+    return this.inner.resolveModel(tier);
+  }
+
+  setModels(models: Partial<ModelMap>): void {
+    this.inner.setModels?.(models);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    // Read before the first await, while the caller is still on the stack
+    const operation = request.operation || InstrumentedProvider.callerOperation();
+    const startTime = Date.now();
+
+    try {
+      const response = await this.inner.complete(request);
+      this.record({
+        operation,
+        model: response.model,
+        provider: response.provider,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        durationMs: Date.now() - startTime,
+        cost: estimateCost(response.model, response.usage, response.provider),
+        success: true
+      });
+      return response;
+    } catch (error) {
+      this.record({
+        operation,
+        model: request.model || this.inner.resolveModel(request.tier),
+        provider: this.inner.name,
+        inputTokens: 0,
+        outputTokens: 0,
+        durationMs: Date.now() - startTime,
+        cost: 0,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private record(call: Omit<Parameters<LLMCallRecorder>[0], 'agent' | 'timestamp'>): void {
+    Promise.resolve()
+      .then(() => this.recorder({ ...call, agent: this.agent, timestamp: new Date().toISOString() }))
+      .catch(error => console.warn(`[LLM] Failed to record ${this.agent} ${call.operation}:`, error));
+  }
+
+  // "VoiceSystem.generateResponse" for the first stack frame outside this module
+  private static callerOperation(): string {
+    const frames = (new Error().stack || '').split('\n').slice(1);
+    const caller = frames.find(frame => !frame.includes('InstrumentedProvider'));
+    if (!caller) return 'unknown';
+
+    const named = caller.match(/at (?:async )?(?:new )?([\w$.]+) \(/);
+    if (named) return named[1].replace(/^Object\./, '');
+    const location = caller.match(/([^/\\\s(]+?)\.[cm]?[jt]s:\d+/);
+    return location ? path.basename(location[1]) : 'unknown';
+  }
+}
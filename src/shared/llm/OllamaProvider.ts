@@ -0,0 +1,54 @@
+import { OllamaInterface } from '../../agents/watcher/comwatch/communication/OllamaInterface.js';
+import { LLMProvider, LLMRequest, LLMResponse, ModelMap, ModelTier } from './types.js';
+
+export const DEFAULT_OLLAMA_MODELS: ModelMap = {
+  fast: 'llama3.1',
+  balanced: 'llama3.1',
+  powerful: 'llama3.1'
+};
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  private ollama: OllamaInterface;
+  private models: ModelMap;
+
+  constructor(ollama: OllamaInterface = new OllamaInterface(), models: Partial<ModelMap> = {}) {
+    this.ollama = ollama;
+    this.models = { ...DEFAULT_OLLAMA_MODELS, ...models };
+  }
+
+  resolveModel(tier: ModelTier = 'fast'): string {
+    return this.models[tier];
+  }
+
+  setModels(models: Partial<ModelMap>): void {
+    this.models = { ...DEFAULT_OLLAMA_MODELS, ...models };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.ollama.testConnection();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.resolveModel(request.tier);
+    const prompt = request.messages
+      .map(m => m.role === 'user' ? m.content : `Assistant: ${m.content}`)
+      .join('\n\n');
+
+    const result = await this.ollama.generate(prompt, model, {
+      system: request.system,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature
+    });
+
+    return {
+      text: result.response,
+      model,
+      provider: this.name,
+      usage: {
+        inputTokens: result.promptTokens,
+        outputTokens: result.completionTokens
+      }
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { LLMProvider, LLMRequest, LLMResponse, ModelMap, ModelTier } from './types.js';
+
+export interface ScriptedRule {
+  match: string | RegExp;
+  response: string;
+}
+
+interface RecordedFixture {
+  model: string;
+  text: string;
+  usage: { inputTokens: number; outputTokens: number };
+  recordedAt: string;
+  prompt: string;
+}
+
+export interface ScriptedProviderOptions {
+  fixturesFile?: string;
+  rules?: ScriptedRule[];
+  fallback?: (request: LLMRequest) => string;
+  recordFrom?: LLMProvider; // When set, cache misses are forwarded and recorded
+}
+
+/**
+ * Deterministic provider for offline runs. Replays recorded fixtures keyed by
+ * request hash, then scripted rules, then a fallback. With `recordFrom` it
+ * proxies a real provider and writes every new response to the fixtures file.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  private fixturesFile: string;
+  private fixtures: Record<string, RecordedFixture> = {};
+  private rules: ScriptedRule[];
+  private fallback: (request: LLMRequest) => string;
+  private recordFrom?: LLMProvider;
+  private loaded: Promise<void>;
+
+  constructor(options: ScriptedProviderOptions = {}) {
+    this.fixturesFile = options.fixturesFile || 'data/llm-fixtures.json';
+    this.rules = options.rules || [];
+    this.fallback = options.fallback || ScriptedProvider.defaultFallback;
+    this.recordFrom = options.recordFrom;
+    this.loaded = this.loadFixtures();
+  }
+
+  resolveModel(tier: ModelTier = 'fast'): string {
+    return this.recordFrom ? this.recordFrom.resolveModel(tier) : `scripted-${tier}`;
+  }
+
+  setModels(models: Partial<ModelMap>): void {
+    this.recordFrom?.setModels?.(models);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  addRule(rule: ScriptedRule): void {
+    this.rules.push(rule);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    await this.loaded;
+    const key = ScriptedProvider.requestKey(request);
+    const prompt = ScriptedProvider.promptText(request);
+
+    const fixture = this.fixtures[key];
+    if (fixture) {
+      return { text: fixture.text, model: fixture.model, provider: this.name, usage: { ...fixture.usage } };
+    }
+
+    if (this.recordFrom) {
+      const response = await this.recordFrom.complete(request);
+      this.fixtures[key] = {
+        model: response.model,
+        text: response.text,
+        usage: response.usage,
+        recordedAt: new Date().toISOString(),
+        prompt: prompt.slice(0, 200)
+      };
+      await this.saveFixtures();
+      console.log(`[ScriptedProvider] Recorded fixture ${key.slice(0, 12)}`);
+      return response;
+    }
+
+    const rule = this.rules.find(r =>
+      typeof r.match === 'string' ? prompt.includes(r.match) : r.match.test(prompt)
+    );
+    const text = rule ? rule.response : this.fallback(request);
+
+    return {
+      text,
+      model: request.model || this.resolveModel(request.tier),
+      provider: this.name,
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4)
+      }
+    };
+  }
+
+  static requestKey(request: LLMRequest): string {
+    const material = JSON.stringify({
+      tier: request.model ? undefined : (request.tier || 'fast'),
+      model: request.model,
+      system: request.system || '',
+      messages: request.messages
+    });
+    return createHash('sha256').update(material).digest('hex');
+  }
+
+  private static promptText(request: LLMRequest): string {
+    return [request.system || '', ...request.messages.map(m => m.content)].join('\n');
+  }
+
+  private static defaultFallback(request: LLMRequest): string {
+    const last = request.messages[request.messages.length - 1]?.content || '';
+    const preview = last.replace(/\s+/g, ' ').trim().slice(0, 60);
+    return `[offline] No scripted response for: "${preview}"`;
+  }
+
+  private async loadFixtures(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.fixturesFile, 'utf8');
+      this.fixtures = JSON.parse(data);
+      console.log(`[ScriptedProvider] Loaded ${Object.keys(this.fixtures).length} fixtures`);
+    } catch {
+      this.fixtures = {};
+    }
+  }
+
+  private async saveFixtures(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.fixturesFile), { recursive: true });
+      await fs.writeFile(this.fixturesFile, JSON.stringify(this.fixtures, null, 2));
+    } catch (error) {
+      console.error('[ScriptedProvider] Failed to save fixtures:', error);
+    }
+  }
+}
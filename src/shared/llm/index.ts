@@ -0,0 +1,97 @@
+import { AnthropicProvider } from './AnthropicProvider.js';
+import { OllamaProvider } from './OllamaProvider.js';
+import { ScriptedProvider } from './ScriptedProvider.js';
+import { InstrumentedProvider } from './InstrumentedProvider.js';
+import { BudgetedProvider } from './BudgetedProvider.js';
+import { BudgetGuard } from './BudgetGuard.js';
+import { OllamaInterface } from '../../agents/watcher/comwatch/communication/OllamaInterface.js';
+import { AgentMessageBus, getMessageBus } from '../messaging/index.js';
+import { LLMProvider, ModelMap } from './types.js';
+
+export * from './types.js';
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODELS } from './AnthropicProvider.js';
+export { OllamaProvider, DEFAULT_OLLAMA_MODELS } from './OllamaProvider.js';
+export { ScriptedProvider } from './ScriptedProvider.js';
+export type { ScriptedRule, ScriptedProviderOptions } from './ScriptedProvider.js';
+export { InstrumentedProvider } from './InstrumentedProvider.js';
+export { BudgetedProvider, describeLine } from './BudgetedProvider.js';
+export { BudgetGuard } from './BudgetGuard.js';
+export type { BudgetGuardOptions } from './BudgetGuard.js';
+export { MODEL_PRICES, priceFor, estimateCost, isFreeProvider } from './pricing.js';
+export type { ModelPrice } from './pricing.js';
+
+export type LLMProviderKind = 'anthropic' | 'ollama' | 'scripted';
+
+export interface LLMProviderOptions {
+  provider?: LLMProviderKind;
+  anthropicApiKey?: string;
+  ollamaUrl?: string;
+  models?: Partial<ModelMap>;
+  fixturesFile?: string;
+  record?: boolean;
+  agent?: string; // Usage is reported to Dashboard under this name
+}
+
+/**
+ * Builds the provider selected by LLM_PROVIDER (anthropic | ollama | scripted).
+ * LLM_RECORD=true wraps the real provider so responses are captured as fixtures
+ * for later offline replay. Without an API key we fall back to scripted. With
+ * `agent` set, every call is reported as in instrumentLLM().
+ */
+export function createLLMProvider(options: LLMProviderOptions = {}): LLMProvider {
+  const kind = options.provider || (process.env.LLM_PROVIDER as LLMProviderKind) || 'anthropic';
+  const record = options.record ?? process.env.LLM_RECORD === 'true';
+  const fixturesFile = options.fixturesFile || process.env.LLM_FIXTURES_FILE;
+  const instrument = (provider: LLMProvider) => options.agent ? instrumentLLM(provider, options.agent) : provider;
+
+  let provider: LLMProvider;
+  switch (kind) {
+    case 'scripted':
+      console.log('[LLM] Using scripted provider (offline replay)');
+      return instrument(new ScriptedProvider({ fixturesFile }));
+
+    case 'ollama':
+      provider = new OllamaProvider(new OllamaInterface(options.ollamaUrl), options.models);
+      break;
+
+    case 'anthropic':
+    default:
+      if (!options.anthropicApiKey) {
+        console.warn('[LLM] No Anthropic API key - falling back to scripted provider');
+        return instrument(new ScriptedProvider({ fixturesFile }));
+      }
+      provider = new AnthropicProvider(options.anthropicApiKey, options.models);
+  }
+
+  console.log(`[LLM] Using ${provider.name} provider${record ? ' (recording fixtures)' : ''}`);
+  return instrument(record ? new ScriptedProvider({ fixturesFile, recordFrom: provider }) : provider);
+}
+
+/**
+ * Reports every request made through `provider` to Dashboard as an llm_usage
+ * message, under `agent`, and holds the agent to its budgets. A provider that
+ * is already instrumented keeps the agent it was given first.
+ */
+export function instrumentLLM(
+  provider: LLMProvider,
+  agent: string,
+  bus: AgentMessageBus = getMessageBus(),
+  budget: BudgetGuard = getBudgetGuard()
+): LLMProvider {
+  if (provider instanceof InstrumentedProvider) return provider;
+
+  return new InstrumentedProvider(new BudgetedProvider(provider, agent, budget), agent, async (record) => {
+    await budget.record(agent, record.cost);
+    await bus.publish(bus.createMessage('llm_usage', agent, 'Dashboard', record, { priority: 'low' }));
+  });
+}
+
+let sharedBudget: BudgetGuard | null = null;
+
+// One ledger for every agent in the process
+export function getBudgetGuard(): BudgetGuard {
+  if (!sharedBudget) {
+    sharedBudget = new BudgetGuard();
+  }
+  return sharedBudget;
+}
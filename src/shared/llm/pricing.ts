@@ -0,0 +1,50 @@
+import { LLMUsage } from './types.js';
+
+export interface ModelPrice {
+  input: number;  // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+// Keyed by model id prefix, so dated releases (claude-3-haiku-20240307) match their family
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 }
+};
+
+// Models we don't have a price for are charged at their family's rate
+const FAMILY_PRICES: Record<string, ModelPrice> = {
+  haiku: MODEL_PRICES['claude-3-5-haiku'],
+  sonnet: MODEL_PRICES['claude-sonnet-4'],
+  opus: MODEL_PRICES['claude-opus-4']
+};
+
+// Run locally or replayed from fixtures, so nothing is billed
+const FREE_PROVIDERS = ['ollama', 'scripted'];
+
+export function priceFor(model: string): ModelPrice | null {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) return MODEL_PRICES[prefix];
+
+  const family = Object.keys(FAMILY_PRICES).find(name => model.includes(name));
+  return family ? FAMILY_PRICES[family] : null;
+}
+
+export function isFreeProvider(provider: string): boolean {
+  return FREE_PROVIDERS.includes(provider);
+}
+
+export function estimateCost(model: string, usage: LLMUsage, provider?: string): number {
+  if (provider && isFreeProvider(provider)) return 0;
+
+  const price = priceFor(model);
+  if (!price) return 0;
+  return (usage.inputTokens / 1000000) * price.input + (usage.outputTokens / 1000000) * price.output;
+}
@@ -0,0 +1,85 @@
+export type ModelTier = 'fast' | 'balanced' | 'powerful';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  tier?: ModelTier;
+  model?: string; // Explicit model id, overrides tier
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  operation?: string; // Name usage is recorded under; defaults to the calling method
+  critical?: boolean;  // Still made, degraded, once the agent's budget is spent
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  provider: string;
+  usage: LLMUsage;
+}
+
+// One completed or failed request, as reported by InstrumentedProvider
+export interface LLMCallRecord {
+  agent: string;
+  operation: string;
+  model: string;
+  provider: string;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+  cost: number; // USD
+  success: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+export type LLMCallRecorder = (record: LLMCallRecord) => void | Promise<void>;
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetState = 'ok' | 'degraded' | 'exceeded';
+
+export interface BudgetLine {
+  agent: string | null; // null for the global budget
+  period: BudgetPeriod;
+  spent: number;        // USD
+  limit: number;        // Including approved overrides
+  state: BudgetState;
+}
+
+export interface BudgetOverride {
+  id: string;
+  agent: string | null;
+  period: BudgetPeriod;
+  amount: number;       // USD added to the limit for the rest of the period
+  reason: string;
+  requestedBy: string;
+  requestedAt: string;
+  approvedBy?: string;
+  periodKey: string;    // The day or month it applies to
+}
+
+export interface BudgetAlert {
+  line: BudgetLine;
+  agent: string;        // Whose call crossed the line
+  blocked: boolean;     // A call was refused, rather than the line being crossed
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  resolveModel(tier?: ModelTier): string;
+  isAvailable(): Promise<boolean>;
+  setModels?(models: Partial<ModelMap>): void; // Swap tier models at runtime, e.g. on config reload
+}
+
+export type ModelMap = Record<ModelTier, string>;
@@ -0,0 +1,218 @@
+import {
+  AgentMessage,
+  AgentMessageHandler,
+  AgentMessagePayloads,
+  AgentMessageType,
+  AgentName,
+  MessageBusBackend,
+  MessagePriority,
+  MESSAGE_SCHEMA_VERSION
+} from './types.js';
+import { InProcessBackend } from './InProcessBackend.js';
+
+interface PendingRequest {
+  resolve: (message: AgentMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface MessageOptions {
+  priority?: MessagePriority;
+  requiresResponse?: boolean;
+  correlationId?: string;
+}
+
+const BROADCAST_TOPIC = 'all';
+
+/**
+ * Pub/sub bus for agent coordination. Every agent subscribes under its own
+ * name and also receives broadcasts; `request` publishes a message and
+ * resolves with the `response` whose correlationId matches it, and `query`
+ * does the same for requests answered with a typed reply of their own.
+ */
+export class AgentMessageBus {
+  private backend: MessageBusBackend;
+  private handlers: Map<string, AgentMessageHandler[]> = new Map();
+  private topics: Set<string> = new Set();
+  private pending: Map<string, PendingRequest> = new Map();
+  private recentMessages: AgentMessage[] = [];
+  private connecting: Promise<void> | null = null;
+
+  constructor(backend: MessageBusBackend = new InProcessBackend()) {
+    this.backend = backend;
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  async connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.backend.connect().catch(error => {
+        console.error(`[MessageBus] ${this.backend.name} backend unavailable, falling back to in-process:`, error);
+        this.backend = new InProcessBackend();
+      });
+    }
+    await this.connecting;
+  }
+
+  createMessage<T extends AgentMessageType>(
+    type: T,
+    from: AgentName,
+    to: AgentName | 'all',
+    payload: AgentMessagePayloads[T],
+    options: MessageOptions = {}
+  ): AgentMessage<T> {
+    return {
+      version: MESSAGE_SCHEMA_VERSION,
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      from,
+      to,
+      priority: options.priority || 'medium',
+      payload,
+      timestamp: new Date().toISOString(),
+      requiresResponse: options.requiresResponse || false,
+      correlationId: options.correlationId
+    };
+  }
+
+  async publish(message: AgentMessage): Promise<void> {
+    await this.connect();
+    this.remember(message);
+    await this.backend.publish(message.to, message);
+    console.log(`[MessageBus] 📨 ${message.type} ${message.from} → ${message.to} (${message.id})`);
+  }
+
+  async subscribe(agent: AgentName, handler: AgentMessageHandler): Promise<void> {
+    const handlers = this.handlers.get(agent) || [];
+    handlers.push(handler);
+    this.handlers.set(agent, handlers);
+
+    await this.ensureTopic(agent);
+    await this.ensureTopic(BROADCAST_TOPIC);
+  }
+
+  // Drops the agent's handlers, so a restarted agent doesn't receive every message twice
+  unsubscribe(agent: AgentName): void {
+    this.handlers.delete(agent);
+  }
+
+  async request(message: AgentMessage, timeoutMs: number = 5 * 60 * 1000): Promise<AgentMessage<'response'>> {
+    return this.awaitReply(message, timeoutMs) as Promise<AgentMessage<'response'>>;
+  }
+
+  /**
+   * Publishes `message` and resolves with the payload of its `replyType`
+   * reply. A `response` in its place, as the bus sends when the handler
+   * throws, rejects with that response's message.
+   */
+  async query<T extends AgentMessageType>(message: AgentMessage, replyType: T, timeoutMs: number = 5 * 60 * 1000): Promise<AgentMessagePayloads[T]> {
+    const reply = await this.awaitReply(message, timeoutMs);
+    if (reply.type === replyType) {
+      return reply.payload as AgentMessagePayloads[T];
+    }
+
+    const detail = reply.type === 'response' ? (reply as AgentMessage<'response'>).payload.message : `a ${reply.type}`;
+    throw new Error(`${message.to} answered ${message.type} with ${detail}`);
+  }
+
+  async respond(request: AgentMessage, from: AgentName, payload: AgentMessagePayloads['response']): Promise<void> {
+    await this.reply(request, from, 'response', payload);
+  }
+
+  async reply<T extends AgentMessageType>(request: AgentMessage, from: AgentName, type: T, payload: AgentMessagePayloads[T]): Promise<void> {
+    await this.publish(this.createMessage(type, from, request.from, payload, {
+      priority: request.priority,
+      correlationId: request.id
+    }));
+  }
+
+  getRecentMessages(limit: number = 50): AgentMessage[] {
+    return this.recentMessages.slice(-limit);
+  }
+
+  async close(): Promise<void> {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Message bus closed'));
+      this.pending.delete(id);
+    }
+    await this.backend.close();
+    this.topics.clear();
+    this.connecting = null;
+  }
+
+  private async awaitReply(message: AgentMessage, timeoutMs: number): Promise<AgentMessage> {
+    message.requiresResponse = true;
+    await this.ensureTopic(message.from);
+
+    const reply = new Promise<AgentMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id);
+        reject(new Error(`No response from ${message.to} to ${message.type} within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pending.set(message.id, { resolve, reject, timer });
+    });
+
+    await this.publish(message);
+    return reply;
+  }
+
+  private async ensureTopic(topic: string): Promise<void> {
+    if (this.topics.has(topic)) return;
+    this.topics.add(topic);
+
+    await this.connect();
+    await this.backend.subscribe(topic, (message) => {
+      this.dispatch(topic, message).catch(error => {
+        console.error('[MessageBus] Dispatch failed:', error);
+      });
+    });
+  }
+
+  private async dispatch(topic: string, message: AgentMessage): Promise<void> {
+    if (message.version > MESSAGE_SCHEMA_VERSION) {
+      console.warn(`[MessageBus] Ignoring ${message.type} with unsupported version ${message.version}`);
+      return;
+    }
+
+    // Replies of any type carry the request's id
+    if (message.correlationId) {
+      const pending = this.pending.get(message.correlationId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(message.correlationId);
+        pending.resolve(message);
+        return;
+      }
+    }
+
+    const recipients = topic === BROADCAST_TOPIC
+      ? Array.from(this.handlers.keys()).filter(agent => agent !== message.from)
+      : [topic];
+
+    for (const agent of recipients) {
+      for (const handler of this.handlers.get(agent) || []) {
+        try {
+          await handler(message);
+        } catch (error) {
+          console.error(`[MessageBus] ${agent} failed to handle ${message.type}:`, error);
+          if (message.requiresResponse) {
+            await this.respond(message, agent, {
+              success: false,
+              message: error instanceof Error ? error.message : 'Unknown error'
+            });
+          }
+        }
+      }
+    }
+  }
+
+  private remember(message: AgentMessage): void {
+    this.recentMessages.push(message);
+    if (this.recentMessages.length > 200) {
+      this.recentMessages.shift();
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+import { AgentMessage, MessageBusBackend } from './types.js';
+
+export class InProcessBackend implements MessageBusBackend {
+  readonly name = 'in-process';
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async connect(): Promise<void> {}
+
+  async publish(topic: string, message: AgentMessage): Promise<void> {
+    // Deliver asynchronously so publishers never run subscriber code inline
+    setImmediate(() => this.emitter.emit(topic, message));
+  }
+
+  async subscribe(topic: string, handler: (message: AgentMessage) => void): Promise<void> {
+    this.emitter.on(topic, handler);
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,88 @@
+import { createClient, RedisClientType } from 'redis';
+import { AgentMessage, MessageBusBackend } from './types.js';
+
+// Attempts before connect() gives up so the bus can fall back to in-process; once connected, reconnects never give up
+const INITIAL_CONNECT_ATTEMPTS = 3;
+const MAX_RECONNECT_DELAY_MS = 5 * 1000;
+
+// Redis pub/sub needs a dedicated connection for subscriptions, so the
+// backend keeps one client for publishing and a duplicate for listening.
+export class RedisBackend implements MessageBusBackend {
+  readonly name = 'redis';
+  private url: string;
+  private prefix: string;
+  private publisher?: RedisClientType;
+  private subscriber?: RedisClientType;
+
+  constructor(url: string, prefix: string = 'agents') {
+    this.url = url;
+    this.prefix = prefix;
+  }
+
+  async connect(): Promise<void> {
+    if (this.publisher) return;
+
+    let connected = false;
+    const publisher: RedisClientType = createClient({
+      url: this.url,
+      socket: {
+        reconnectStrategy: (retries, cause) => connected || retries < INITIAL_CONNECT_ATTEMPTS
+          ? Math.min(100 * 2 ** retries, MAX_RECONNECT_DELAY_MS)
+          : cause
+      }
+    });
+    publisher.on('error', (error: Error) => console.error('[MessageBus] Redis error:', error));
+    const subscriber = publisher.duplicate();
+    subscriber.on('error', (error: Error) => console.error('[MessageBus] Redis error:', error));
+
+    try {
+      await publisher.connect();
+      await subscriber.connect();
+    } catch (error) {
+      // Left open, their reconnect timers would keep the process alive after the fallback
+      release(subscriber);
+      release(publisher);
+      throw error;
+    }
+
+    connected = true;
+    this.publisher = publisher;
+    this.subscriber = subscriber;
+    console.log('[MessageBus] Connected to Redis');
+  }
+
+  async publish(topic: string, message: AgentMessage): Promise<void> {
+    if (!this.publisher) throw new Error('Redis backend is not connected');
+    await this.publisher.publish(this.channel(topic), JSON.stringify(message));
+  }
+
+  async subscribe(topic: string, handler: (message: AgentMessage) => void): Promise<void> {
+    if (!this.subscriber) throw new Error('Redis backend is not connected');
+    await this.subscriber.subscribe(this.channel(topic), (raw: string) => {
+      try {
+        handler(JSON.parse(raw));
+      } catch (error) {
+        console.error('[MessageBus] Dropped malformed Redis message:', error);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.subscriber?.close();
+    await this.publisher?.close();
+    this.subscriber = undefined;
+    this.publisher = undefined;
+  }
+
+  private channel(topic: string): string {
+    return `${this.prefix}:${topic}`;
+  }
+}
+
+function release(client: RedisClientType): void {
+  try {
+    client.destroy();
+  } catch (error) {
+    // Already closed
+  }
+}
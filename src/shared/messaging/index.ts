@@ -0,0 +1,42 @@
+import { AgentMessageBus } from './AgentMessageBus.js';
+import { InProcessBackend } from './InProcessBackend.js';
+import { RedisBackend } from './RedisBackend.js';
+
+export * from './types.js';
+export { AgentMessageBus } from './AgentMessageBus.js';
+export type { MessageOptions } from './AgentMessageBus.js';
+export { InProcessBackend } from './InProcessBackend.js';
+export { RedisBackend } from './RedisBackend.js';
+
+export interface MessageBusOptions {
+  backend?: 'memory' | 'redis';
+  redisUrl?: string;
+}
+
+/**
+ * Builds a bus from options or env. MESSAGE_BUS_BACKEND=redis (with REDIS_URL)
+ * lets agents in separate processes talk; otherwise delivery is in-process.
+ */
+export function createMessageBus(options: MessageBusOptions = {}): AgentMessageBus {
+  const backend = options.backend || (process.env.MESSAGE_BUS_BACKEND as MessageBusOptions['backend']) || 'memory';
+  const redisUrl = options.redisUrl || process.env.REDIS_URL;
+
+  if (backend === 'redis') {
+    if (redisUrl) {
+      return new AgentMessageBus(new RedisBackend(redisUrl));
+    }
+    console.warn('[MessageBus] MESSAGE_BUS_BACKEND=redis but REDIS_URL is not set, using in-process bus');
+  }
+
+  return new AgentMessageBus(new InProcessBackend());
+}
+
+let sharedBus: AgentMessageBus | null = null;
+
+// Agents started in the same process share this bus unless one is injected
+export function getMessageBus(): AgentMessageBus {
+  if (!sharedBus) {
+    sharedBus = createMessageBus();
+  }
+  return sharedBus;
+}
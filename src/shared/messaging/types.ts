@@ -0,0 +1,175 @@
+import type { BudgetAlert, LLMCallRecord } from '../llm/types.js';
+
+// Shared inter-agent message envelope. Bump MESSAGE_SCHEMA_VERSION whenever a
+// payload shape changes incompatibly; consumers drop messages from newer versions.
+export const MESSAGE_SCHEMA_VERSION = 1;
+
+export type AgentName = 'Commander' | 'Architect' | 'Dashboard' | (string & {});
+
+export type MessagePriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// Where an optimization another agent took on stands: accepted, then awaiting review, then settled
+export type OptimizationStatus = 'accepted' | 'awaitingReview' | 'implemented' | 'declined' | 'failed';
+
+export type AgentLifecycleState = 'starting' | 'running' | 'restarting' | 'stopping' | 'stopped' | 'failed';
+
+export interface MetricsSnapshot {
+  totalCalls?: number;
+  totalCost?: number;
+  totalTokens?: number;
+  averageResponseTime?: number;
+  successRate?: number;
+}
+
+// What other agents see of one of Commander's WorkItems
+export interface WorkItemSnapshot {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  progress: number;
+  primaryAgent: string;
+  parentId?: string;
+  blockedBy: string[];
+  startTime: string;
+  updatedAt: string;
+}
+
+// Something waiting on a person in Architect's channel: a request to confirm or a change to review
+export interface PendingApprovalSnapshot {
+  id: string;
+  kind: 'request' | 'modification';
+  description: string;
+  riskLevel: string;
+  requestedBy?: string;
+  createdAt?: string;
+  branch?: string;
+  files?: string[];
+}
+
+export interface AgentMessagePayloads {
+  task: {
+    workItemId: string;
+    title: string;
+    description: string;
+    requirements: string[];
+    threadId?: string;
+    userPreferences?: Record<string, any>;
+  };
+  status: {
+    workItemId?: string;
+    status: string;
+    progress?: number;
+    message: string;
+  };
+  completion: {
+    workItemId?: string;
+    summary: string;
+    outputs?: Record<string, any>;
+  };
+  error: {
+    workItemId?: string;
+    message: string;
+  };
+  optimization_request: {
+    requestId: string;
+    issue: string;
+    recommendations: string[];
+    expectedImprovement?: {
+      costReduction: number;
+      performanceGain: number;
+      description: string;
+    };
+    metrics?: MetricsSnapshot;
+    userContext: string;
+    threadId?: string;
+  };
+  optimization_status: {
+    requestId: string;
+    status: OptimizationStatus;
+    planId?: string;
+    message: string;
+  };
+  performance_report: {
+    report: string;
+    metrics?: MetricsSnapshot;
+  };
+  cost_alert: {
+    alert: string;
+    severity: MessagePriority;
+    metrics?: MetricsSnapshot;
+  };
+  health_check: {
+    requestedBy: string;
+  };
+  plugin_control: {
+    action: 'list' | 'start' | 'stop' | 'reload' | 'unload';
+    agent?: string;
+    requestedBy: string;
+  };
+  plugin_status: {
+    agent: string;
+    state: AgentLifecycleState;
+    purpose: string;
+    capabilities: string[];
+    channelId?: string;                // Where Commander delegates requests to the agent
+    removed?: boolean;                 // Unloaded for good, e.g. when the agent is decommissioned
+  };
+  agent_status: {
+    agent: AgentName;
+    state: AgentLifecycleState;
+    restarts: number;
+    since: string;
+    lastError?: string;
+  };
+  command: {
+    command: string; // Natural language or slash command, as a user would type it
+    requestedBy: string;
+    scheduleId?: string;
+  };
+  llm_usage: LLMCallRecord;
+  work_item_status: WorkItemSnapshot;
+  work_items_request: {
+    requestedBy: string;
+  };
+  work_items: {
+    workItems: WorkItemSnapshot[];
+  };
+  pending_approvals_request: {
+    requestedBy: string;
+  };
+  pending_approvals: {
+    approvals: PendingApprovalSnapshot[];
+  };
+  budget_alert: BudgetAlert;
+  response: {
+    success: boolean;
+    message: string;
+    data?: Record<string, any>;
+  };
+}
+
+export type AgentMessageType = keyof AgentMessagePayloads;
+
+export interface AgentMessage<T extends AgentMessageType = AgentMessageType> {
+  version: number;
+  id: string;
+  type: T;
+  from: AgentName;
+  to: AgentName | 'all';
+  priority: MessagePriority;
+  payload: AgentMessagePayloads[T];
+  timestamp: string;
+  requiresResponse: boolean;
+  correlationId?: string; // Set on responses to the id of the request
+}
+
+export type AgentMessageHandler = (message: AgentMessage) => Promise<void> | void;
+
+export interface MessageBusBackend {
+  readonly name: string;
+  connect(): Promise<void>;
+  publish(topic: string, message: AgentMessage): Promise<void>;
+  subscribe(topic: string, handler: (message: AgentMessage) => void): Promise<void>;
+  close(): Promise<void>;
+}
@@ -8,14 +8,36 @@ interface GitHubConfig {
   branch?: string;
 }
 
-interface FileOperation {
+export interface FileOperation {
   path: string;
   content: string;
   message: string;
   sha?: string;
+  branch?: string; // Defaults to the configured branch
 }
 
-export class GitHubFileManager {
+export interface PullRequestParams {
+  title: string;
+  body: string;
+  head: string;
+  base?: string;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+}
+
+// What PR creation needs from a repository; GitHub or a local git checkout
+export interface RepositoryFileManager {
+  readonly defaultBranch: string;
+  getFile(path: string, ref?: string): Promise<{ content: string; sha: string } | null>;
+  createBranch(name: string, fromBranch?: string): Promise<void>;
+  commitFiles(branch: string, files: Array<{ path: string; content: string }>, message: string): Promise<string>;
+  createPullRequest(params: PullRequestParams): Promise<PullRequestInfo>;
+}
+
+export class GitHubFileManager implements RepositoryFileManager {
   private octokit: Octokit;
   private config: GitHubConfig;
 
@@ -29,13 +51,17 @@ export class GitHubFileManager {
     });
   }
 
-  async getFile(path: string): Promise<{ content: string; sha: string } | null> {
+  get defaultBranch(): string {
+    return this.config.branch!;
+  }
+
+  async getFile(path: string, ref?: string): Promise<{ content: string; sha: string } | null> {
     try {
       const response = await this.octokit.rest.repos.getContent({
         owner: this.config.owner,
         repo: this.config.repo,
         path,
-        ref: this.config.branch
+        ref: ref || this.config.branch
       });
 
       if ('content' in response.data) {
@@ -60,7 +86,7 @@ export class GitHubFileManager {
       path: operation.path,
       message: operation.message,
       content: Buffer.from(operation.content).toString('base64'),
-      branch: this.config.branch
+      branch: operation.branch || this.config.branch
     });
 
     return response.data.commit.sha;
@@ -78,7 +104,7 @@ export class GitHubFileManager {
       message: operation.message,
       content: Buffer.from(operation.content).toString('base64'),
       sha: operation.sha,
-      branch: this.config.branch
+      branch: operation.branch || this.config.branch
     });
 
     return response.data.commit.sha;
@@ -103,7 +129,7 @@ export class GitHubFileManager {
   }
 
   async createOrUpdateFile(operation: FileOperation): Promise<string> {
-    const existingFile = await this.getFile(operation.path);
+    const existingFile = await this.getFile(operation.path, operation.branch);
     
     if (existingFile) {
       return await this.updateFile({
@@ -115,6 +141,46 @@ export class GitHubFileManager {
     }
   }
 
+  async createBranch(name: string, fromBranch: string = this.config.branch!): Promise<void> {
+    const base = await this.octokit.rest.git.getRef({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      ref: `heads/${fromBranch}`
+    });
+
+    await this.octokit.rest.git.createRef({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      ref: `refs/heads/${name}`,
+      sha: base.data.object.sha
+    });
+  }
+
+  // The contents API commits one file at a time; returns the last commit sha
+  async commitFiles(branch: string, files: Array<{ path: string; content: string }>, message: string): Promise<string> {
+    let sha = '';
+    for (const file of files) {
+      sha = await this.createOrUpdateFile({ path: file.path, content: file.content, message, branch });
+    }
+    return sha;
+  }
+
+  async createPullRequest(params: PullRequestParams): Promise<PullRequestInfo> {
+    const response = await this.octokit.rest.pulls.create({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      title: params.title,
+      body: params.body,
+      head: params.head,
+      base: params.base || this.config.branch!
+    });
+
+    return {
+      number: response.data.number,
+      url: response.data.html_url
+    };
+  }
+
   async listFiles(path: string = ''): Promise<Array<{ name: string; path: string; type: string }>> {
     const response = await this.octokit.rest.repos.getContent({
       owner: this.config.owner,
@@ -0,0 +1,141 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RepositoryFileManager, PullRequestParams, PullRequestInfo } from './GitHubFileManager.js';
+
+interface LocalPullRequest extends PullRequestInfo {
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+  createdAt: string;
+}
+
+/**
+ * Local stand-in for GitHubFileManager when no token is configured. Commits
+ * are written straight to branch refs through a scratch index, so the working
+ * tree the agents run from is never touched. Pull requests are recorded under
+ * data/ for review with `git diff base...head`.
+ */
+export class LocalGitFileManager implements RepositoryFileManager {
+  private repoPath: string;
+  private dataDir: string;
+  private pullRequestsFile: string;
+  private baseBranch: string;
+
+  constructor(repoPath: string = process.cwd(), dataDir: string = './data', baseBranch?: string) {
+    this.repoPath = path.resolve(repoPath);
+    this.dataDir = dataDir;
+    this.pullRequestsFile = path.join(dataDir, 'local-pull-requests.json');
+    this.baseBranch = baseBranch || this.currentBranch();
+  }
+
+  get defaultBranch(): string {
+    return this.baseBranch;
+  }
+
+  async getFile(filePath: string, ref: string = this.baseBranch): Promise<{ content: string; sha: string } | null> {
+    try {
+      const sha = this.git(['rev-parse', `${ref}:${filePath}`]).trim();
+      const content = this.git(['cat-file', 'blob', sha]);
+      return { content, sha };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async createBranch(name: string, fromBranch: string = this.baseBranch): Promise<void> {
+    this.git(['branch', name, fromBranch]);
+  }
+
+  async commitFiles(branch: string, files: Array<{ path: string; content: string }>, message: string): Promise<string> {
+    const indexFile = path.join(os.tmpdir(), `commander-index-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+    const env = { ...process.env, GIT_INDEX_FILE: indexFile, ...this.identityFallback() };
+
+    try {
+      this.git(['read-tree', branch], env);
+
+      for (const file of files) {
+        const blob = this.git(['hash-object', '-w', '--stdin'], env, file.content).trim();
+        this.git(['update-index', '--add', '--cacheinfo', `100644,${blob},${file.path}`], env);
+      }
+
+      const tree = this.git(['write-tree'], env).trim();
+      const parent = this.git(['rev-parse', branch]).trim();
+      const commit = this.git(['commit-tree', tree, '-p', parent, '-m', message], env).trim();
+      this.git(['update-ref', `refs/heads/${branch}`, commit, parent]);
+
+      console.log(`[LocalGitFileManager] Committed ${files.length} file(s) to ${branch}: ${commit.substring(0, 8)}`);
+      return commit;
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  async createPullRequest(params: PullRequestParams): Promise<PullRequestInfo> {
+    const pullRequests = await this.loadPullRequests();
+    const number = pullRequests.length + 1;
+
+    const pullRequest: LocalPullRequest = {
+      number,
+      url: `local://${path.basename(this.repoPath)}/pull/${number}`,
+      title: params.title,
+      body: params.body,
+      head: params.head,
+      base: params.base || this.baseBranch,
+      createdAt: new Date().toISOString()
+    };
+
+    pullRequests.push(pullRequest);
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(this.pullRequestsFile, JSON.stringify(pullRequests, null, 2));
+
+    console.log(`[LocalGitFileManager] Recorded PR #${number}: ${pullRequest.base} ← ${pullRequest.head}`);
+    return { number, url: pullRequest.url };
+  }
+
+  private currentBranch(): string {
+    try {
+      return this.git(['rev-parse', '--abbrev-ref', 'HEAD']).trim();
+    } catch (error) {
+      console.warn(`[LocalGitFileManager] ${this.repoPath} is not a git repository, assuming main`);
+      return 'main';
+    }
+  }
+
+  private async loadPullRequests(): Promise<LocalPullRequest[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.pullRequestsFile, 'utf-8'));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // commit-tree refuses to run without an identity; only fill in what git config lacks
+  private identityFallback(): Record<string, string> {
+    try {
+      this.git(['config', 'user.name']);
+      this.git(['config', 'user.email']);
+      return {};
+    } catch (error) {
+      return {
+        GIT_AUTHOR_NAME: 'AI Commander',
+        GIT_AUTHOR_EMAIL: 'commander@localhost',
+        GIT_COMMITTER_NAME: 'AI Commander',
+        GIT_COMMITTER_EMAIL: 'commander@localhost'
+      };
+    }
+  }
+
+  private git(args: string[], env: NodeJS.ProcessEnv = process.env, input?: string): string {
+    return execFileSync('git', args, {
+      cwd: this.repoPath,
+      env,
+      input,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 10 * 1024 * 1024
+    });
+  }
+}
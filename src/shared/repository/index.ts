@@ -0,0 +1,3 @@
+export { GitHubFileManager } from './GitHubFileManager.js';
+export type { FileOperation, PullRequestParams, PullRequestInfo, RepositoryFileManager } from './GitHubFileManager.js';
+export { LocalGitFileManager } from './LocalGitFileManager.js';
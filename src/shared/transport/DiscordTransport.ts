@@ -0,0 +1,359 @@
+import {
+  AttachmentBuilder,
+  Client,
+  GatewayIntentBits,
+  Message,
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  REST,
+  Routes,
+  TextChannel,
+  User,
+  PartialUser
+} from 'discord.js';
+import {
+  ChatTransport,
+  ChatAttachment,
+  ChatMessage,
+  ChatChannel,
+  ChatThread,
+  ChatUser,
+  SlashCommandDefinition,
+  SlashCommandInvocation,
+  MessageHandler,
+  ReactionHandler,
+  SlashCommandHandler
+} from './types.js';
+import { splitMessage } from './splitMessage.js';
+
+export interface DiscordTransportOptions {
+  token: string;
+  presence?: { name: string; type: number };
+  logPrefix?: string;
+}
+
+export class DiscordTransport implements ChatTransport {
+  readonly name = 'discord';
+  private client: Client;
+  private options: DiscordTransportOptions;
+  private logPrefix: string;
+  private rawMessages: Map<string, Message> = new Map();
+  private interactions: Map<string, ChatInputCommandInteraction> = new Map();
+  private pendingCommands: SlashCommandDefinition[] | null = null;
+  private readyHandlers: Array<() => Promise<void>> = [];
+  private messageHandlers: MessageHandler[] = [];
+  private reactionHandlers: ReactionHandler[] = [];
+  private slashCommandHandlers: SlashCommandHandler[] = [];
+
+  constructor(options: DiscordTransportOptions) {
+    this.options = options;
+    this.logPrefix = options.logPrefix || 'DiscordTransport';
+    this.client = new Client({
+      intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.MessageContent,
+        GatewayIntentBits.GuildMessageReactions
+      ]
+    });
+    this.setupEventHandlers();
+  }
+
+  get botUserId(): string | null {
+    return this.client.user?.id || null;
+  }
+
+  private setupEventHandlers(): void {
+    this.client.once('ready', async () => {
+      console.log(`[${this.logPrefix}] Connected as ${this.client.user?.tag}`);
+
+      if (this.options.presence) {
+        this.client.user?.setPresence({
+          activities: [this.options.presence],
+          status: 'online'
+        });
+      }
+
+      if (this.pendingCommands) {
+        await this.putSlashCommands(this.pendingCommands);
+        this.pendingCommands = null;
+      }
+
+      for (const handler of this.readyHandlers) {
+        await handler();
+      }
+    });
+
+    this.client.on('messageCreate', async (message) => {
+      const chatMessage = this.toChatMessage(message);
+      for (const handler of this.messageHandlers) {
+        try {
+          await handler(chatMessage);
+        } catch (error) {
+          console.error(`[${this.logPrefix}] Message handler failed:`, error);
+        }
+      }
+    });
+
+    this.client.on('messageReactionAdd', async (reaction, user) => {
+      const emoji = reaction.emoji.name;
+      if (!emoji) return;
+
+      for (const handler of this.reactionHandlers) {
+        await handler({
+          messageId: reaction.message.id,
+          channelId: reaction.message.channelId,
+          emoji,
+          user: this.toChatUser(user),
+          messageAuthorId: reaction.message.author?.id
+        });
+      }
+    });
+
+    this.client.on('interactionCreate', async (interaction) => {
+      if (!interaction.isChatInputCommand()) return;
+
+      const options: Record<string, string> = {};
+      for (const option of interaction.options.data) {
+        if (option.value !== undefined) {
+          options[option.name] = String(option.value);
+        }
+      }
+
+      this.interactions.set(interaction.id, interaction);
+      const invocation: SlashCommandInvocation = {
+        id: interaction.id,
+        name: interaction.commandName,
+        channelId: interaction.channelId,
+        user: this.toChatUser(interaction.user),
+        options
+      };
+
+      for (const handler of this.slashCommandHandlers) {
+        await handler(invocation);
+      }
+    });
+
+    this.client.on('error', (error) => {
+      console.error(`[${this.logPrefix}] Client error:`, error);
+    });
+  }
+
+  async start(): Promise<void> {
+    await this.client.login(this.options.token);
+  }
+
+  async stop(): Promise<void> {
+    await this.client.destroy();
+  }
+
+  isReady(): boolean {
+    return this.client.isReady();
+  }
+
+  onReady(handler: () => Promise<void>): void {
+    this.readyHandlers.push(handler);
+  }
+
+  hasChannel(channelId: string): boolean {
+    return this.client.channels.cache.has(channelId);
+  }
+
+  async listChannels(): Promise<ChatChannel[]> {
+    const channels: ChatChannel[] = [];
+
+    this.client.guilds.cache.forEach(guild => {
+      guild.channels.cache.forEach(channel => {
+        if (channel.isTextBased()) {
+          channels.push({ id: channel.id, name: channel.name || 'Unknown' });
+        }
+      });
+    });
+
+    return channels;
+  }
+
+  async send(channelId: string, content: string): Promise<ChatMessage | null> {
+    try {
+      const channel = this.client.channels.cache.get(channelId) || await this.client.channels.fetch(channelId);
+      if (!channel || !channel.isTextBased() || !('send' in channel)) {
+        console.error(`[${this.logPrefix}] Channel ${channelId} not found or not text-based`);
+        return null;
+      }
+
+      let last: Message | null = null;
+      for (const chunk of splitMessage(content)) {
+        last = await channel.send(chunk);
+      }
+      return last ? this.toChatMessage(last) : null;
+    } catch (error) {
+      console.error(`[${this.logPrefix}] Failed to send to channel ${channelId}:`, error);
+      return null;
+    }
+  }
+
+  async sendFile(channelId: string, attachment: ChatAttachment, content?: string): Promise<ChatMessage | null> {
+    try {
+      const channel = this.client.channels.cache.get(channelId) || await this.client.channels.fetch(channelId);
+      if (!channel || !channel.isTextBased() || !('send' in channel)) {
+        console.error(`[${this.logPrefix}] Channel ${channelId} not found or not text-based`);
+        return null;
+      }
+
+      const file = new AttachmentBuilder(Buffer.from(attachment.content, 'utf-8'), { name: attachment.name });
+      const sent = await channel.send({ content: content ? splitMessage(content)[0] : undefined, files: [file] });
+      return this.toChatMessage(sent);
+    } catch (error) {
+      console.error(`[${this.logPrefix}] Failed to send ${attachment.name} to channel ${channelId}:`, error);
+      return null;
+    }
+  }
+
+  async reply(message: ChatMessage, content: string): Promise<ChatMessage | null> {
+    const raw = this.rawMessages.get(message.id);
+    if (!raw) {
+      return this.send(message.channelId, content);
+    }
+
+    try {
+      const chunks = splitMessage(content);
+      let last: Message = await raw.reply(chunks[0]);
+      for (let i = 1; i < chunks.length; i++) {
+        if ('send' in raw.channel) {
+          last = await raw.channel.send(chunks[i]);
+        }
+      }
+      return this.toChatMessage(last);
+    } catch (error) {
+      console.error(`[${this.logPrefix}] Failed to reply to message:`, error);
+      return null;
+    }
+  }
+
+  async sendTyping(channelId: string): Promise<void> {
+    const channel = this.client.channels.cache.get(channelId);
+    if (channel && 'sendTyping' in channel) {
+      await channel.sendTyping().catch(() => undefined);
+    }
+  }
+
+  async createThread(channelId: string, name: string): Promise<ChatThread | null> {
+    const channel = this.client.channels.cache.get(channelId) as TextChannel | undefined;
+    if (!channel || !('threads' in channel)) return null;
+
+    try {
+      const thread = await channel.threads.create({
+        name: name.slice(0, 100),
+        autoArchiveDuration: 1440,
+        reason: name
+      });
+      return { id: thread.id, name: thread.name, parentChannelId: channelId };
+    } catch (error) {
+      console.error(`[${this.logPrefix}] Failed to create thread:`, error);
+      return null;
+    }
+  }
+
+  async react(message: ChatMessage, emoji: string): Promise<void> {
+    const raw = this.rawMessages.get(message.id);
+    if (raw) {
+      await raw.react(emoji).catch(error => console.error(`[${this.logPrefix}] Failed to react:`, error));
+    }
+  }
+
+  async registerSlashCommands(commands: SlashCommandDefinition[]): Promise<void> {
+    if (!this.client.isReady()) {
+      this.pendingCommands = commands;
+      return;
+    }
+    await this.putSlashCommands(commands);
+  }
+
+  async replyToCommand(command: SlashCommandInvocation, content: string): Promise<void> {
+    const interaction = this.interactions.get(command.id);
+    if (!interaction) return;
+
+    try {
+      const chunks = splitMessage(content);
+      if (interaction.deferred || interaction.replied) {
+        await interaction.editReply(chunks[0]);
+      } else {
+        await interaction.reply(chunks[0]);
+      }
+      for (let i = 1; i < chunks.length; i++) {
+        await interaction.followUp(chunks[i]);
+      }
+    } catch (error) {
+      console.error(`[${this.logPrefix}] Failed to reply to interaction:`, error);
+    } finally {
+      this.interactions.delete(command.id);
+    }
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onReaction(handler: ReactionHandler): void {
+    this.reactionHandlers.push(handler);
+  }
+
+  onSlashCommand(handler: SlashCommandHandler): void {
+    this.slashCommandHandlers.push(handler);
+  }
+
+  private async putSlashCommands(commands: SlashCommandDefinition[]): Promise<void> {
+    const body = commands.map(definition => {
+      const builder = new SlashCommandBuilder()
+        .setName(definition.name)
+        .setDescription(definition.description);
+
+      for (const option of definition.options || []) {
+        builder.addStringOption(o => {
+          o.setName(option.name)
+            .setDescription(option.description)
+            .setRequired(option.required || false);
+          if (option.choices) {
+            o.addChoices(...option.choices.map(choice => ({ name: choice, value: choice })));
+          }
+          return o;
+        });
+      }
+
+      return builder.toJSON();
+    });
+
+    try {
+      console.log(`[${this.logPrefix}] Registering ${body.length} slash commands...`);
+      const rest = new REST().setToken(this.options.token);
+      await rest.put(Routes.applicationCommands(this.client.user!.id), { body });
+      console.log(`[${this.logPrefix}] ✅ Slash commands registered successfully`);
+    } catch (error) {
+      console.error(`[${this.logPrefix}] Failed to register slash commands:`, error);
+    }
+  }
+
+  private toChatMessage(message: Message): ChatMessage {
+    this.rawMessages.set(message.id, message);
+    if (this.rawMessages.size > 200) {
+      const oldest = this.rawMessages.keys().next().value;
+      if (oldest) this.rawMessages.delete(oldest);
+    }
+
+    return {
+      id: message.id,
+      channelId: message.channelId,
+      author: this.toChatUser(message.author),
+      content: message.content,
+      timestamp: message.createdAt
+    };
+  }
+
+  private toChatUser(user: User | PartialUser): ChatUser {
+    return {
+      id: user.id,
+      name: user.tag || user.username || user.id,
+      isBot: !!user.bot
+    };
+  }
+}
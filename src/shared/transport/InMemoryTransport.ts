@@ -0,0 +1,190 @@
+import {
+  ChatTransport,
+  ChatAttachment,
+  ChatMessage,
+  ChatChannel,
+  ChatThread,
+  ChatReaction,
+  ChatUser,
+  SlashCommandDefinition,
+  SlashCommandInvocation,
+  MessageHandler,
+  ReactionHandler,
+  SlashCommandHandler
+} from './types.js';
+
+export interface InMemoryTransportOptions {
+  channels?: string[];
+  botName?: string;
+}
+
+/**
+ * Transport that keeps everything in memory. Inbound traffic is injected with
+ * the simulate* methods, which resolve once every handler has finished, so a
+ * caller can assert on `sent` right after.
+ */
+export class InMemoryTransport implements ChatTransport {
+  readonly name = 'memory';
+  readonly botUserId: string;
+  readonly sent: ChatMessage[] = [];
+  readonly attachments: Array<{ messageId: string; channelId: string; attachment: ChatAttachment }> = [];
+  readonly reactions: ChatReaction[] = [];
+  readonly threads: ChatThread[] = [];
+  readonly commandReplies: Map<string, string[]> = new Map();
+  registeredCommands: SlashCommandDefinition[] = [];
+
+  private bot: ChatUser;
+  private channels: Set<string>;
+  private ready = false;
+  private counter = 0;
+  private readyHandlers: Array<() => Promise<void>> = [];
+  private messageHandlers: MessageHandler[] = [];
+  private reactionHandlers: ReactionHandler[] = [];
+  private slashCommandHandlers: SlashCommandHandler[] = [];
+
+  constructor(options: InMemoryTransportOptions = {}) {
+    this.botUserId = 'memory-bot';
+    this.bot = { id: this.botUserId, name: options.botName || 'Bot', isBot: true };
+    this.channels = new Set(options.channels || []);
+  }
+
+  async start(): Promise<void> {
+    this.ready = true;
+    for (const handler of this.readyHandlers) {
+      await handler();
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.ready = false;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  onReady(handler: () => Promise<void>): void {
+    this.readyHandlers.push(handler);
+  }
+
+  hasChannel(channelId: string): boolean {
+    return this.channels.size === 0 || this.channels.has(channelId);
+  }
+
+  async listChannels(): Promise<ChatChannel[]> {
+    return Array.from(this.channels).map(id => ({ id, name: id }));
+  }
+
+  async send(channelId: string, content: string): Promise<ChatMessage | null> {
+    const message = this.createMessage(channelId, this.bot, content);
+    this.sent.push(message);
+    return message;
+  }
+
+  async sendFile(channelId: string, attachment: ChatAttachment, content?: string): Promise<ChatMessage | null> {
+    const message = await this.send(channelId, content || attachment.name);
+    this.attachments.push({ messageId: message!.id, channelId, attachment });
+    return message;
+  }
+
+  async reply(message: ChatMessage, content: string): Promise<ChatMessage | null> {
+    return this.send(message.channelId, content);
+  }
+
+  async sendTyping(channelId: string): Promise<void> {}
+
+  async createThread(channelId: string, name: string): Promise<ChatThread | null> {
+    const thread = { id: this.nextId('thread'), name, parentChannelId: channelId };
+    this.threads.push(thread);
+    this.channels.add(thread.id);
+    return thread;
+  }
+
+  async react(message: ChatMessage, emoji: string): Promise<void> {
+    this.reactions.push({ messageId: message.id, channelId: message.channelId, emoji, user: this.bot, messageAuthorId: message.author.id });
+  }
+
+  async registerSlashCommands(commands: SlashCommandDefinition[]): Promise<void> {
+    this.registeredCommands = commands;
+  }
+
+  async replyToCommand(command: SlashCommandInvocation, content: string): Promise<void> {
+    const replies = this.commandReplies.get(command.id) || [];
+    replies.push(content);
+    this.commandReplies.set(command.id, replies);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onReaction(handler: ReactionHandler): void {
+    this.reactionHandlers.push(handler);
+  }
+
+  onSlashCommand(handler: SlashCommandHandler): void {
+    this.slashCommandHandlers.push(handler);
+  }
+
+  async simulateMessage(channelId: string, content: string, user: Partial<ChatUser> = {}): Promise<ChatMessage> {
+    const author: ChatUser = { id: user.id || 'local-user', name: user.name || 'local-user', isBot: user.isBot || false };
+    const message = this.createMessage(channelId, author, content);
+
+    for (const handler of this.messageHandlers) {
+      await handler(message);
+    }
+    return message;
+  }
+
+  async simulateReaction(message: ChatMessage, emoji: string, user: Partial<ChatUser> = {}): Promise<void> {
+    const reaction: ChatReaction = {
+      messageId: message.id,
+      channelId: message.channelId,
+      emoji,
+      user: { id: user.id || 'local-user', name: user.name || 'local-user', isBot: false },
+      messageAuthorId: message.author.id
+    };
+
+    for (const handler of this.reactionHandlers) {
+      await handler(reaction);
+    }
+  }
+
+  async simulateSlashCommand(
+    channelId: string,
+    name: string,
+    options: Record<string, string> = {},
+    user: Partial<ChatUser> = {}
+  ): Promise<string[]> {
+    const invocation: SlashCommandInvocation = {
+      id: this.nextId('cmd'),
+      name,
+      channelId,
+      user: { id: user.id || 'local-user', name: user.name || 'local-user', isBot: false },
+      options
+    };
+
+    for (const handler of this.slashCommandHandlers) {
+      await handler(invocation);
+    }
+    return this.commandReplies.get(invocation.id) || [];
+  }
+
+  messagesIn(channelId: string): ChatMessage[] {
+    return this.sent.filter(m => m.channelId === channelId);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+    this.reactions.length = 0;
+    this.commandReplies.clear();
+  }
+
+  private createMessage(channelId: string, author: ChatUser, content: string): ChatMessage {
+    return { id: this.nextId('msg'), channelId, author, content, timestamp: new Date() };
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${++this.counter}`;
+  }
+}
@@ -0,0 +1,198 @@
+import readline from 'readline';
+import {
+  ChatTransport,
+  ChatAttachment,
+  ChatMessage,
+  ChatChannel,
+  ChatThread,
+  ChatUser,
+  SlashCommandDefinition,
+  SlashCommandInvocation,
+  MessageHandler,
+  ReactionHandler,
+  SlashCommandHandler
+} from './types.js';
+
+export interface TerminalTransportOptions {
+  channelId: string;
+  botName?: string;
+  userName?: string;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Local REPL transport. Every line typed is delivered as a message in
+ * `channelId`; lines matching a registered slash command are delivered as
+ * commands instead, with `name:value` pairs (or the remaining text) as options.
+ */
+export class TerminalTransport implements ChatTransport {
+  readonly name = 'terminal';
+  readonly botUserId = 'terminal-bot';
+  private options: TerminalTransportOptions;
+  private rl: readline.Interface | null = null;
+  private user: ChatUser;
+  private counter = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private threads: Map<string, ChatThread> = new Map();
+  private commands: SlashCommandDefinition[] = [];
+  private readyHandlers: Array<() => Promise<void>> = [];
+  private messageHandlers: MessageHandler[] = [];
+  private reactionHandlers: ReactionHandler[] = [];
+  private slashCommandHandlers: SlashCommandHandler[] = [];
+
+  constructor(options: TerminalTransportOptions) {
+    this.options = options;
+    this.user = { id: 'terminal-user', name: options.userName || 'you', isBot: false };
+  }
+
+  async start(): Promise<void> {
+    this.rl = readline.createInterface({
+      input: this.options.input || process.stdin,
+      output: this.options.output || process.stdout,
+      prompt: `${this.user.name}> `
+    });
+
+    this.rl.on('line', (line) => {
+      const content = line.trim();
+      if (!content) {
+        this.rl?.prompt();
+        return;
+      }
+      this.queue = this.queue
+        .then(() => this.dispatch(content))
+        .catch(error => console.error('[TerminalTransport] Handler failed:', error))
+        .then(() => this.rl?.prompt());
+    });
+
+    for (const handler of this.readyHandlers) {
+      await handler();
+    }
+    this.rl.prompt();
+  }
+
+  async stop(): Promise<void> {
+    this.rl?.close();
+    this.rl = null;
+  }
+
+  isReady(): boolean {
+    return this.rl !== null;
+  }
+
+  onReady(handler: () => Promise<void>): void {
+    this.readyHandlers.push(handler);
+  }
+
+  hasChannel(channelId: string): boolean {
+    return true;
+  }
+
+  async listChannels(): Promise<ChatChannel[]> {
+    return [{ id: this.options.channelId, name: 'terminal' }];
+  }
+
+  async send(channelId: string, content: string): Promise<ChatMessage | null> {
+    const thread = this.threads.get(channelId);
+    const label = thread ? `[🧵 ${thread.name}] ` : channelId !== this.options.channelId ? `[#${channelId}] ` : '';
+    this.write(`${this.options.botName || 'bot'}> ${label}${content}`);
+    return this.createMessage(channelId, { id: this.botUserId, name: this.options.botName || 'bot', isBot: true }, content);
+  }
+
+  // A terminal has nowhere to attach to, so the file is printed inline
+  async sendFile(channelId: string, attachment: ChatAttachment, content?: string): Promise<ChatMessage | null> {
+    const body = `${content ? `${content}\n` : ''}──── ${attachment.name} ────\n${attachment.content.trimEnd()}\n──── end of ${attachment.name} ────`;
+    return this.send(channelId, body);
+  }
+
+  async reply(message: ChatMessage, content: string): Promise<ChatMessage | null> {
+    return this.send(message.channelId, content);
+  }
+
+  async sendTyping(channelId: string): Promise<void> {}
+
+  async createThread(channelId: string, name: string): Promise<ChatThread | null> {
+    const thread = { id: `thread_${++this.counter}`, name, parentChannelId: channelId };
+    this.threads.set(thread.id, thread);
+    return thread;
+  }
+
+  async react(message: ChatMessage, emoji: string): Promise<void> {
+    this.write(`  ${emoji}`);
+  }
+
+  async registerSlashCommands(commands: SlashCommandDefinition[]): Promise<void> {
+    this.commands = commands;
+  }
+
+  async replyToCommand(command: SlashCommandInvocation, content: string): Promise<void> {
+    await this.send(command.channelId, content);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onReaction(handler: ReactionHandler): void {
+    this.reactionHandlers.push(handler);
+  }
+
+  onSlashCommand(handler: SlashCommandHandler): void {
+    this.slashCommandHandlers.push(handler);
+  }
+
+  private async dispatch(content: string): Promise<void> {
+    const command = this.parseCommand(content);
+    if (command) {
+      for (const handler of this.slashCommandHandlers) {
+        await handler(command);
+      }
+      return;
+    }
+
+    const message = this.createMessage(this.options.channelId, this.user, content);
+    for (const handler of this.messageHandlers) {
+      await handler(message);
+    }
+  }
+
+  private parseCommand(content: string): SlashCommandInvocation | null {
+    if (!content.startsWith('/')) return null;
+
+    const [rawName, ...rest] = content.slice(1).split(/\s+/);
+    const definition = this.commands.find(c => c.name === rawName.toLowerCase());
+    if (!definition) return null;
+
+    const options: Record<string, string> = {};
+    const freeText: string[] = [];
+    for (const token of rest) {
+      const match = token.match(/^(\w+):(.+)$/);
+      if (match && definition.options?.some(o => o.name === match[1])) {
+        options[match[1]] = match[2];
+      } else {
+        freeText.push(token);
+      }
+    }
+
+    const firstOption = definition.options?.find(o => !(o.name in options));
+    if (freeText.length > 0 && firstOption) {
+      options[firstOption.name] = freeText.join(' ');
+    }
+
+    return {
+      id: `cmd_${++this.counter}`,
+      name: definition.name,
+      channelId: this.options.channelId,
+      user: this.user,
+      options
+    };
+  }
+
+  private createMessage(channelId: string, author: ChatUser, content: string): ChatMessage {
+    return { id: `term_${++this.counter}`, channelId, author, content, timestamp: new Date() };
+  }
+
+  private write(text: string): void {
+    (this.options.output || process.stdout).write(`${text}\n`);
+  }
+}
@@ -0,0 +1,8 @@
+export * from './types.js';
+export { splitMessage } from './splitMessage.js';
+export { DiscordTransport } from './DiscordTransport.js';
+export type { DiscordTransportOptions } from './DiscordTransport.js';
+export { InMemoryTransport } from './InMemoryTransport.js';
+export type { InMemoryTransportOptions } from './InMemoryTransport.js';
+export { TerminalTransport } from './TerminalTransport.js';
+export type { TerminalTransportOptions } from './TerminalTransport.js';
@@ -0,0 +1,89 @@
+export interface ChatUser {
+  id: string;
+  name: string;
+  isBot: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  channelId: string;
+  author: ChatUser;
+  content: string;
+  timestamp: Date;
+}
+
+export interface ChatReaction {
+  messageId: string;
+  channelId: string;
+  emoji: string;
+  user: ChatUser;
+  messageAuthorId?: string;
+}
+
+export interface ChatThread {
+  id: string;
+  name: string;
+  parentChannelId: string;
+}
+
+export interface ChatChannel {
+  id: string;
+  name: string;
+}
+
+export interface ChatAttachment {
+  name: string;
+  content: string;
+}
+
+export interface SlashCommandOption {
+  name: string;
+  description: string;
+  required?: boolean;
+  choices?: string[];
+}
+
+export interface SlashCommandDefinition {
+  name: string;
+  description: string;
+  options?: SlashCommandOption[];
+}
+
+export interface SlashCommandInvocation {
+  id: string;
+  name: string;
+  channelId: string;
+  user: ChatUser;
+  options: Record<string, string>;
+}
+
+export type MessageHandler = (message: ChatMessage) => Promise<void>;
+export type ReactionHandler = (reaction: ChatReaction) => Promise<void>;
+export type SlashCommandHandler = (command: SlashCommandInvocation) => Promise<void>;
+
+export interface ChatTransport {
+  readonly name: string;
+  readonly botUserId: string | null;
+
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  isReady(): boolean;
+  onReady(handler: () => Promise<void>): void;
+
+  hasChannel(channelId: string): boolean;
+  listChannels(): Promise<ChatChannel[]>;
+
+  send(channelId: string, content: string): Promise<ChatMessage | null>;
+  sendFile(channelId: string, attachment: ChatAttachment, content?: string): Promise<ChatMessage | null>;
+  reply(message: ChatMessage, content: string): Promise<ChatMessage | null>;
+  sendTyping(channelId: string): Promise<void>;
+  createThread(channelId: string, name: string): Promise<ChatThread | null>;
+  react(message: ChatMessage, emoji: string): Promise<void>;
+
+  registerSlashCommands(commands: SlashCommandDefinition[]): Promise<void>;
+  replyToCommand(command: SlashCommandInvocation, content: string): Promise<void>;
+
+  onMessage(handler: MessageHandler): void;
+  onReaction(handler: ReactionHandler): void;
+  onSlashCommand(handler: SlashCommandHandler): void;
+}